@@ -0,0 +1,593 @@
+/**
+ * Backups of the DadGPT home directory.
+ *
+ * A backup is a gzipped tar archive holding a manifest, the global
+ * config.json, and one JSON file per stored record (goals, todos,
+ * projects, sessions, the trash, ...). The manifest lists every file with
+ * its size and SHA-256 checksum, and restoring checks all of them before
+ * anything is changed. Records are read and written through Storage, so a
+ * backup restores into either storage backend. Backups of encrypted data
+ * stay encrypted: records and config are sealed with the same key, and the
+ * archive carries the key file so the passphrase can open it again.
+ *
+ * Scheduled backups are taken at startup once the newest one is older than
+ * the configured interval, and only the most recent few are kept. They
+ * leave the provider API keys out, and every archive is readable only by
+ * its owner.
+ */
+
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { createHash } from "node:crypto"
+import { promisify } from "node:util"
+import { gzip, gunzip } from "node:zlib"
+import { z } from "zod"
+import { Storage } from "../storage/storage"
+import { getHome } from "../storage/paths"
+import { Config } from "../config/config"
+import { Encryption, KEY_FILE, type Codec, type KeyFile } from "../encryption/encryption"
+import type { BackupConfig } from "../config/schema"
+import { Log } from "../util/log"
+import { StorageError } from "../util/errors"
+import { packTar, unpackTar, type TarEntry } from "./tar"
+
+const gzipAsync = promisify(gzip)
+const gunzipAsync = promisify(gunzip)
+
+/** Identifies our archives, in case someone restores some other tarball */
+const BACKUP_FORMAT = "dadgpt-backup"
+
+/** Version of the archive layout this release writes and reads */
+const BACKUP_VERSION = 1
+
+const MANIFEST_FILE = "manifest.json"
+const CONFIG_FILE = "config.json"
+const DATA_DIR = "data"
+const BACKUP_EXTENSION = ".tar.gz"
+
+/** File name prefix of scheduled backups, the only ones pruned */
+const AUTO_PREFIX = "auto-"
+
+/** File name prefix of the backup taken just before a restore */
+const PRE_RESTORE_PREFIX = "pre-restore-"
+
+const HOUR_MS = 60 * 60 * 1000
+
+const ManifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  createdAt: z.string(),
+  /** Whether config.json still holds the provider API keys */
+  apiKeys: z.boolean(),
+  /** Whether the records and config are sealed with the key in encryption.key */
+  encrypted: z.boolean().default(false),
+  /** Number of stored records in the archive */
+  records: z.number().int().min(0),
+  files: z.array(
+    z.object({
+      path: z.string(),
+      size: z.number().int().min(0),
+      sha256: z.string(),
+    })
+  ),
+})
+
+/**
+ * Manifest at the start of every backup archive
+ */
+export type BackupManifest = z.infer<typeof ManifestSchema>
+
+/**
+ * A backup in the backups directory
+ */
+export interface BackupFile {
+  file: string
+  /** Size in bytes */
+  size: number
+  createdAt: number
+  /** Taken by the schedule, and so subject to pruning */
+  automatic: boolean
+}
+
+/**
+ * Outcome of checking a backup archive
+ */
+export interface BackupVerification {
+  /** The archive's manifest, or null if it couldn't be read */
+  manifest: BackupManifest | null
+  /** Everything wrong with the archive; empty if it can be restored */
+  problems: string[]
+}
+
+/**
+ * Outcome of restoring a backup (or of a dry run)
+ */
+export interface RestoreResult {
+  manifest: BackupManifest
+  /** Records written from the backup */
+  records: number
+  /** Records that were in storage before the restore */
+  replaced: number
+  /** Whether config.json was restored */
+  config: boolean
+  /** Backup of the data as it was before the restore, or null on a dry run */
+  safetyBackup: string | null
+}
+
+/**
+ * Timestamp for backup file names, sortable and safe on every filesystem
+ */
+function fileStamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, "-")
+}
+
+function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex")
+}
+
+/**
+ * Path of a record inside the archive
+ */
+function recordPath(key: string[]): string {
+  return `${DATA_DIR}/${key.join("/")}.json`
+}
+
+/**
+ * Storage key of a record file inside the archive, or undefined if the
+ * path could escape the data directory
+ */
+function recordKey(filePath: string): string[] | undefined {
+  const key = filePath.slice(DATA_DIR.length + 1, -".json".length).split("/")
+  const safe = key.every((segment) => segment !== "" && segment !== "." && segment !== ".." && !segment.includes("\\"))
+  return safe ? key : undefined
+}
+
+function isRecordPath(filePath: string): boolean {
+  return filePath.startsWith(`${DATA_DIR}/`) && filePath.endsWith(".json")
+}
+
+/**
+ * Read the global config file, if there is one
+ */
+async function readConfigFile(): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(path.join(getHome(), CONFIG_FILE))
+  } catch {
+    return undefined
+  }
+}
+
+type ConfigFile = { providers?: Record<string, { apiKey?: string } & Record<string, unknown>> } & Record<string, unknown>
+
+/**
+ * Parse a config file, opening it if it is sealed
+ */
+function parseConfig(data: Buffer, codec: Codec): ConfigFile {
+  return codec.reveal<ConfigFile>(JSON.parse(data.toString("utf-8")))
+}
+
+/**
+ * Serialize a config file, sealing it if the codec encrypts
+ */
+function serializeConfig(config: ConfigFile, codec: Codec): Buffer {
+  return Buffer.from(JSON.stringify(codec.protect(config), null, 2))
+}
+
+/**
+ * Remove the API key from every provider in a config file
+ */
+function withoutApiKeys(config: ConfigFile): ConfigFile {
+  const providers = Object.fromEntries(
+    Object.entries(config.providers ?? {}).map(([id, provider]) => {
+      const rest = { ...provider }
+      delete rest.apiKey
+      return [id, rest]
+    })
+  )
+  return { ...config, providers }
+}
+
+/**
+ * Copy API keys from the current config into a restored one that was
+ * backed up without them
+ */
+function withApiKeysFrom(restored: ConfigFile, current: ConfigFile): ConfigFile {
+  const providers = { ...restored.providers }
+  for (const [id, provider] of Object.entries(current.providers ?? {})) {
+    if (provider.apiKey) {
+      providers[id] = { id, ...providers[id], apiKey: provider.apiKey }
+    }
+  }
+  return { ...restored, providers }
+}
+
+/**
+ * Write a file through a temp file and a rename, so a failed write never
+ * leaves a partial archive behind. The file is readable only by its owner,
+ * since archives and the config can hold API keys.
+ */
+async function writeFileAtomic(file: string, data: Buffer): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tempPath = `${file}.${process.pid}.tmp`
+  try {
+    await fs.writeFile(tempPath, data, { mode: 0o600 })
+    await fs.rename(tempPath, file)
+  } catch (err) {
+    await fs.rm(tempPath, { force: true })
+    throw err
+  }
+}
+
+/**
+ * Read an archive and check it against its manifest
+ */
+async function openArchive(file: string): Promise<BackupVerification & { entries: Map<string, Buffer> }> {
+  let compressed: Buffer
+  try {
+    compressed = await fs.readFile(file)
+  } catch (err) {
+    throw new StorageError(
+      `Cannot read backup ${file}: ${err instanceof Error ? err.message : String(err)}`,
+      "BACKUP_UNREADABLE"
+    )
+  }
+
+  let tarEntries: TarEntry[]
+  try {
+    tarEntries = unpackTar(await gunzipAsync(compressed))
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err)
+    return { manifest: null, problems: [`Not a readable backup archive: ${reason}`], entries: new Map() }
+  }
+  const entries = new Map(tarEntries.map((e) => [e.path, e.data]))
+
+  const manifestData = entries.get(MANIFEST_FILE)
+  if (!manifestData) {
+    return { manifest: null, problems: [`The archive has no ${MANIFEST_FILE}`], entries }
+  }
+  let parsed: z.SafeParseReturnType<unknown, BackupManifest>
+  try {
+    parsed = ManifestSchema.safeParse(JSON.parse(manifestData.toString("utf-8")))
+  } catch (err) {
+    return { manifest: null, problems: [`Invalid ${MANIFEST_FILE}: ${err instanceof Error ? err.message : String(err)}`], entries }
+  }
+  if (!parsed.success) {
+    return { manifest: null, problems: [`${MANIFEST_FILE} is not a DadGPT backup manifest`], entries }
+  }
+
+  const manifest = parsed.data
+  const problems: string[] = []
+  if (manifest.version > BACKUP_VERSION) {
+    problems.push(`The backup was made by a newer version of DadGPT (format version ${manifest.version})`)
+  }
+  if (manifest.encrypted && !manifest.files.some((f) => f.path === KEY_FILE)) {
+    problems.push(`The backup is encrypted but has no ${KEY_FILE}`)
+  }
+
+  const listed = new Set<string>()
+  for (const expected of manifest.files) {
+    listed.add(expected.path)
+    const data = entries.get(expected.path)
+    if (!data) {
+      problems.push(`${expected.path} is missing`)
+    } else if (data.length !== expected.size || sha256(data) !== expected.sha256) {
+      problems.push(`${expected.path} does not match its checksum`)
+    } else if (isRecordPath(expected.path)) {
+      if (!recordKey(expected.path)) {
+        problems.push(`${expected.path} is not a valid record path`)
+        continue
+      }
+      try {
+        JSON.parse(data.toString("utf-8"))
+      } catch {
+        problems.push(`${expected.path} is not valid JSON`)
+      }
+    }
+  }
+  for (const entryPath of entries.keys()) {
+    if (entryPath !== MANIFEST_FILE && !listed.has(entryPath)) {
+      problems.push(`${entryPath} is not listed in the manifest`)
+    }
+  }
+  const recordCount = manifest.files.filter((f) => isRecordPath(f.path)).length
+  if (recordCount !== manifest.records) {
+    problems.push(`The manifest lists ${recordCount} records but says there are ${manifest.records}`)
+  }
+
+  return { manifest, problems, entries }
+}
+
+/**
+ * Records of an archive, opened with its codec and keyed by their path in it
+ */
+function archiveRecords(entries: Map<string, Buffer>, codec: Codec): Map<string, unknown> {
+  const records = new Map<string, unknown>()
+  for (const [entryPath, data] of entries) {
+    if (isRecordPath(entryPath)) records.set(entryPath, codec.reveal(JSON.parse(data.toString("utf-8"))))
+  }
+  return records
+}
+
+/**
+ * Make storage hold exactly the given records. Each one is written over
+ * the current record first, and only then are the records that aren't
+ * among them removed, so a failure part way never leaves storage empty.
+ */
+async function replaceRecords(records: Map<string, unknown>): Promise<void> {
+  const kept = new Set<string>()
+  for (const [entryPath, data] of records) {
+    const key = recordKey(entryPath)
+    if (!key) continue
+    await Storage.write(key, data)
+    kept.add(key.join("/"))
+  }
+  for (const key of await Storage.keys()) {
+    if (!kept.has(key.join("/"))) await Storage.remove(key)
+  }
+}
+
+/**
+ * Codec that opens the records and config of an archive
+ */
+async function archiveCodecFor(
+  file: string,
+  manifest: BackupManifest,
+  entries: Map<string, Buffer>,
+  passphrase: string | undefined
+): Promise<Codec> {
+  const keyFileData = entries.get(KEY_FILE)
+  if (!manifest.encrypted || !keyFileData) {
+    return { enabled: false, protect: (value) => value, reveal: <T>(value: unknown): T => value as T }
+  }
+
+  const keyFile = JSON.parse(keyFileData.toString("utf-8")) as KeyFile
+  try {
+    return await Encryption.codecFor(keyFile, passphrase)
+  } catch (err) {
+    if (err instanceof StorageError && err.code === "ENCRYPTION_LOCKED") {
+      throw new StorageError(`Backup ${file} is encrypted; its passphrase is needed to restore it`, "BACKUP_PASSPHRASE_REQUIRED")
+    }
+    throw err
+  }
+}
+
+/**
+ * Put back the data a failed restore started to replace: the records in
+ * the safety backup (none if there wasn't one) and the config file as it was
+ */
+async function rollBack(safetyBackup: string | null, config: Buffer | undefined): Promise<void> {
+  let records = new Map<string, unknown>()
+  if (safetyBackup) {
+    const { manifest, entries } = await openArchive(safetyBackup)
+    if (!manifest) throw new StorageError(`Cannot read the safety backup ${safetyBackup}`, "BACKUP_INVALID")
+    records = archiveRecords(entries, await archiveCodecFor(safetyBackup, manifest, entries, undefined))
+  }
+  await replaceRecords(records)
+  if (config) await writeFileAtomic(path.join(getHome(), CONFIG_FILE), config)
+}
+
+/**
+ * Backup namespace for creating, checking, and restoring archives of the
+ * DadGPT home directory.
+ */
+export namespace Backup {
+  /**
+   * Directory holding scheduled backups and the backups taken before restores.
+   */
+  export function directory(): string {
+    return path.join(getHome(), "backups")
+  }
+
+  /**
+   * Default file name for a backup made by hand
+   */
+  export function defaultFileName(now: Date = new Date()): string {
+    return `dadgpt-backup-${fileStamp(now)}${BACKUP_EXTENSION}`
+  }
+
+  /**
+   * Write a backup of the config and every stored record to an archive.
+   * Corrupt records are left out (they are moved to the quarantine when read).
+   * @param file - Archive to write
+   * @param options.includeApiKeys - Keep provider API keys in config.json (default true)
+   * @param options.now - Time recorded in the manifest
+   * @returns The archive's manifest
+   */
+  export async function create(
+    file: string,
+    options: { includeApiKeys?: boolean; now?: Date } = {}
+  ): Promise<BackupManifest> {
+    const includeApiKeys = options.includeApiKeys ?? true
+    const now = options.now ?? new Date()
+    const files: TarEntry[] = []
+    const codec = await Encryption.codec()
+
+    const keyFile = await Encryption.keyFile()
+    if (keyFile) {
+      files.push({ path: KEY_FILE, data: Buffer.from(JSON.stringify(keyFile, null, 2)) })
+    }
+
+    const config = await readConfigFile()
+    if (config && includeApiKeys) {
+      files.push({ path: CONFIG_FILE, data: config })
+    } else if (config) {
+      let stripped: ConfigFile | undefined
+      try {
+        stripped = withoutApiKeys(parseConfig(config, codec))
+      } catch (err) {
+        if (err instanceof StorageError) throw err
+        Log.warn(`Leaving ${CONFIG_FILE} out of the backup: it is not valid JSON, so its API keys can't be removed`)
+      }
+      if (stripped) files.push({ path: CONFIG_FILE, data: serializeConfig(stripped, codec) })
+    }
+
+    let records = 0
+    for (const key of await Storage.keys()) {
+      let data: unknown
+      try {
+        data = await Storage.read(key)
+      } catch (err) {
+        Log.warn(`Leaving ${key.join("/")} out of the backup:`, err instanceof Error ? err.message : err)
+        continue
+      }
+      if (data === undefined) continue
+      files.push({ path: recordPath(key), data: Buffer.from(JSON.stringify(codec.protect(data), null, 2)) })
+      records++
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: now.toISOString(),
+      apiKeys: includeApiKeys,
+      encrypted: codec.enabled,
+      records,
+      files: files.map((f) => ({ path: f.path, size: f.data.length, sha256: sha256(f.data) })),
+    }
+    const manifestEntry = { path: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2)) }
+
+    const archive = await gzipAsync(packTar([manifestEntry, ...files], now.getTime() / 1000))
+    await writeFileAtomic(file, archive)
+    await fs.utimes(file, now, now)
+    return manifest
+  }
+
+  /**
+   * Check a backup archive without restoring it.
+   * @throws StorageError if the file can't be read
+   */
+  export async function verify(file: string): Promise<BackupVerification> {
+    const { manifest, problems } = await openArchive(file)
+    return { manifest, problems }
+  }
+
+  /**
+   * Replace the config and every stored record with the contents of a
+   * backup. The archive is checked first, and the current data is backed
+   * up to the backups directory before anything is changed. If writing the
+   * restored data fails, the data from that safety backup is put back. If the backup
+   * was made without API keys, the current keys are kept. The restored
+   * data is stored with the current encryption setting, whatever it was
+   * when the backup was made.
+   * @param options.dryRun - Only check the archive and report what would change
+   * @param options.passphrase - Passphrase of an encrypted backup, when it
+   *   isn't the one the current data is unlocked with
+   * @throws StorageError with code BACKUP_INVALID if the archive fails its
+   *   checks, BACKUP_PASSPHRASE_REQUIRED if it is encrypted and no passphrase
+   *   was given, ENCRYPTION_WRONG_PASSPHRASE if the passphrase is wrong, or
+   *   BACKUP_RESTORE_FAILED if the restored data couldn't be written
+   */
+  export async function restore(
+    file: string,
+    options: { dryRun?: boolean; passphrase?: string } = {}
+  ): Promise<RestoreResult> {
+    const { manifest, problems, entries } = await openArchive(file)
+    if (!manifest || problems.length > 0) {
+      throw new StorageError(`Backup ${file} failed verification: ${problems.join("; ")}`, "BACKUP_INVALID")
+    }
+
+    const currentKeys = await Storage.keys()
+    const restoredConfig = entries.get(CONFIG_FILE)
+    const result: RestoreResult = {
+      manifest,
+      records: manifest.records,
+      replaced: currentKeys.length,
+      config: restoredConfig !== undefined,
+      safetyBackup: null,
+    }
+    if (options.dryRun) return result
+
+    const archiveCodec = await archiveCodecFor(file, manifest, entries, options.passphrase)
+    const codec = await Encryption.codec()
+    const restored = archiveRecords(entries, archiveCodec)
+    let config: ConfigFile | undefined
+    if (restoredConfig) config = parseConfig(restoredConfig, archiveCodec)
+
+    const currentConfig = await readConfigFile()
+    if (config && !manifest.apiKeys && currentConfig) {
+      try {
+        config = withApiKeysFrom(config, parseConfig(currentConfig, codec))
+      } catch {
+        Log.warn("Could not carry the current API keys over to the restored config")
+      }
+    }
+
+    if (currentKeys.length > 0 || currentConfig) {
+      result.safetyBackup = path.join(directory(), `${PRE_RESTORE_PREFIX}${fileStamp(new Date())}${BACKUP_EXTENSION}`)
+      await create(result.safetyBackup)
+    }
+
+    try {
+      await replaceRecords(restored)
+      if (config) await writeFileAtomic(path.join(getHome(), CONFIG_FILE), serializeConfig(config, codec))
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err)
+      try {
+        await rollBack(result.safetyBackup, currentConfig)
+      } catch (rollbackErr) {
+        throw new StorageError(
+          `Restoring ${file} failed (${reason}), and so did putting the previous data back (${rollbackErr instanceof Error ? rollbackErr.message : String(rollbackErr)}). Restore ${result.safetyBackup ?? "it"} by hand.`,
+          "BACKUP_RESTORE_FAILED"
+        )
+      }
+      throw new StorageError(`Restoring ${file} failed, and the previous data was put back: ${reason}`, "BACKUP_RESTORE_FAILED")
+    } finally {
+      Config.invalidate()
+    }
+
+    return result
+  }
+
+  /**
+   * Backups in the backups directory, newest first.
+   */
+  export async function list(): Promise<BackupFile[]> {
+    let names: string[]
+    try {
+      names = await fs.readdir(directory())
+    } catch {
+      return []
+    }
+
+    const backups = await Promise.all(
+      names
+        .filter((name) => name.endsWith(BACKUP_EXTENSION))
+        .map(async (name): Promise<BackupFile> => {
+          const file = path.join(directory(), name)
+          const stat = await fs.stat(file)
+          return { file, size: stat.size, createdAt: stat.mtimeMs, automatic: name.startsWith(AUTO_PREFIX) }
+        })
+    )
+    return backups.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /**
+   * Take a scheduled backup if the newest one is older than the interval,
+   * then delete all but the most recent `keep` scheduled backups. Nothing
+   * is written while there is nothing to back up. Provider API keys are
+   * left out; restoring one keeps the current keys.
+   * @returns The backup created, if any, and the backups deleted
+   */
+  export async function runScheduled(
+    settings: BackupConfig,
+    now: Date = new Date()
+  ): Promise<{ created: string | null; pruned: string[] }> {
+    if (!settings.enabled) return { created: null, pruned: [] }
+
+    let created: string | null = null
+    const newest = (await list()).find((b) => b.automatic)
+    const due = !newest || now.getTime() - newest.createdAt >= settings.intervalHours * HOUR_MS
+    if (due && ((await Storage.keys()).length > 0 || (await readConfigFile()))) {
+      // Scheduled backups pile up unattended, so they never hold API keys
+      created = path.join(directory(), `${AUTO_PREFIX}${fileStamp(now)}${BACKUP_EXTENSION}`)
+      await create(created, { now, includeApiKeys: false })
+    }
+
+    const pruned: string[] = []
+    for (const old of (await list()).filter((b) => b.automatic).slice(settings.keep)) {
+      await fs.rm(old.file, { force: true })
+      pruned.push(old.file)
+    }
+    return { created, pruned }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Minimal ustar reader and writer for backup archives.
+ *
+ * Only regular files are written; directories are implied by the paths,
+ * and anything other than a regular file is skipped when reading. The
+ * output opens with the standard `tar` tool.
+ */
+
+/** Size of a tar header and of the blocks file contents are padded to */
+const BLOCK_SIZE = 512
+
+/**
+ * A file in a tar archive
+ */
+export interface TarEntry {
+  /** Path inside the archive, with forward slashes */
+  path: string
+  data: Buffer
+}
+
+/**
+ * Write a string into a header field, NUL-padded
+ */
+function writeField(header: Buffer, offset: number, length: number, value: string): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), "utf-8")
+}
+
+/**
+ * Write a number into a header field as zero-padded octal
+ */
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  writeField(header, offset, length, value.toString(8).padStart(length - 1, "0") + "\0")
+}
+
+/**
+ * Read a NUL-terminated string field
+ */
+function readField(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8")
+}
+
+/**
+ * Sum of the header bytes, counting the checksum field as spaces
+ */
+function headerChecksum(header: Buffer): number {
+  let sum = 0
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!
+  }
+  return sum
+}
+
+/**
+ * Split a path into the ustar name (up to 100 bytes) and prefix (up to 155)
+ * @throws Error if the path can't be split to fit
+ */
+function splitPath(filePath: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(filePath) <= 100) return { name: filePath, prefix: "" }
+
+  for (let i = filePath.indexOf("/"); i !== -1; i = filePath.indexOf("/", i + 1)) {
+    const prefix = filePath.slice(0, i)
+    const name = filePath.slice(i + 1)
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) return { name, prefix }
+  }
+  throw new Error(`Path too long for a tar archive: ${filePath}`)
+}
+
+/**
+ * Build a tar archive from a list of files.
+ * @param mtime - Modification time given to every file, in seconds
+ */
+export function packTar(entries: TarEntry[], mtime: number): Buffer {
+  const blocks: Buffer[] = []
+
+  for (const entry of entries) {
+    const { name, prefix } = splitPath(entry.path)
+    const header = Buffer.alloc(BLOCK_SIZE)
+    writeField(header, 0, 100, name)
+    writeOctal(header, 100, 8, 0o644)
+    writeOctal(header, 108, 8, 0)
+    writeOctal(header, 116, 8, 0)
+    writeOctal(header, 124, 12, entry.data.length)
+    writeOctal(header, 136, 12, Math.floor(mtime))
+    writeField(header, 156, 1, "0")
+    writeField(header, 257, 6, "ustar\0")
+    writeField(header, 263, 2, "00")
+    writeField(header, 345, 155, prefix)
+    writeField(header, 148, 8, headerChecksum(header).toString(8).padStart(6, "0") + "\0 ")
+
+    blocks.push(header, entry.data)
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE
+    if (padding > 0) blocks.push(Buffer.alloc(padding))
+  }
+
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2))
+  return Buffer.concat(blocks)
+}
+
+/**
+ * Read the regular files out of a tar archive.
+ * @throws Error if a header is damaged or the archive is cut short
+ */
+export function unpackTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = []
+  let offset = 0
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE)
+    if (header.every((byte) => byte === 0)) break
+
+    const checksum = parseInt(readField(header, 148, 8).trim(), 8)
+    if (checksum !== headerChecksum(header)) {
+      throw new Error(`Damaged tar header at byte ${offset}`)
+    }
+
+    const name = readField(header, 0, 100)
+    const prefix = readField(header, 345, 155)
+    const size = parseInt(readField(header, 124, 12).trim() || "0", 8)
+    const type = readField(header, 156, 1)
+    const start = offset + BLOCK_SIZE
+    if (start + size > archive.length) {
+      throw new Error(`Tar archive ends in the middle of ${prefix ? `${prefix}/${name}` : name}`)
+    }
+
+    if (type === "0" || type === "") {
+      entries.push({
+        path: prefix ? `${prefix}/${name}` : name,
+        data: Buffer.from(archive.subarray(start, start + size)),
+      })
+    }
+    offset = start + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+  }
+
+  return entries
+}
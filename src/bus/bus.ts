@@ -60,17 +60,23 @@ export const Events = {
   "goal.updated": {} as { goalId: string; changes: Record<string, unknown> },
   "goal.completed": {} as { goalId: string },
   "goal.deleted": {} as { goalId: string },
+  "goal.restored": {} as { goalId: string },
 
   // Todo events
   "todo.created": {} as { todoId: string },
+  "todo.updated": {} as { todoId: string; changes: Record<string, unknown> },
   "todo.completed": {} as { todoId: string },
+  "todo.unblocked": {} as { todoId: string; blockedBy: string[] },
+  "todo.woke": {} as { todoId: string; deferredUntil: string },
   "todo.deleted": {} as { todoId: string },
+  "todo.restored": {} as { todoId: string },
 
   // Project events
   "project.created": {} as { projectId: string },
   "project.updated": {} as { projectId: string; changes: Record<string, unknown> },
   "project.completed": {} as { projectId: string },
   "project.deleted": {} as { projectId: string },
+  "project.restored": {} as { projectId: string },
 
   // Family events
   "family.added": {} as { memberId: string },
@@ -0,0 +1,159 @@
+/**
+ * Ask command - Non-interactive chat for scripts and cron.
+ *
+ * Runs the chat loop once for a prompt from the arguments or stdin,
+ * streams the reply to stdout and reports tool calls on stderr.
+ * With --json, prints the full chat loop result instead.
+ */
+
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Session } from "../../session/session"
+import { ChatLoop } from "../../session/loop"
+import { Log } from "../../util/log"
+
+/**
+ * Options specific to the ask command.
+ */
+export interface AskOptions extends GlobalOptions {
+  /** Prompt words (variadic positional argument); read from stdin when omitted */
+  prompt?: string[]
+  /** Continue a specific session by ID */
+  session?: string
+  /** Output the full result as JSON instead of streaming text */
+  json: boolean
+  /** Approve tool calls that would otherwise ask for permission */
+  yes: boolean
+}
+
+const RESET = "\x1b[0m"
+
+/** Maximum length of tool input shown on stderr */
+const INPUT_PREVIEW_LENGTH = 80
+
+/**
+ * Truncate a string to a maximum length with ellipsis
+ */
+function truncate(str: string, maxLength: number): string {
+  if (str.length <= maxLength) {
+    return str
+  }
+  return str.slice(0, maxLength) + "..."
+}
+
+/**
+ * Read all of stdin as a string
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk)
+  }
+  return Buffer.concat(chunks).toString("utf-8")
+}
+
+/**
+ * Ask command definition.
+ */
+export const askCommand: CommandModule<GlobalOptions, AskOptions> = {
+  command: "ask [prompt..]",
+  describe: "Ask a single question without the interactive interface",
+
+  builder: (yargs) =>
+    yargs
+      .positional("prompt", {
+        type: "string",
+        array: true,
+        description: "Prompt to send (read from stdin when omitted)",
+      })
+      .option("session", {
+        type: "string",
+        alias: "s",
+        description: "Continue a specific session by ID",
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output the full result as JSON",
+        default: false,
+      })
+      .option("yes", {
+        type: "boolean",
+        alias: "y",
+        description: "Approve tool calls that would ask for permission (deny rules still apply)",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    const abortController = new AbortController()
+    const onSigint = (): void => abortController.abort()
+    process.once("SIGINT", onSigint)
+
+    try {
+      // Prompt from arguments, or from stdin when piped
+      let prompt = argv.prompt?.length ? argv.prompt.join(" ") : ""
+      if (!prompt && !process.stdin.isTTY) {
+        prompt = await readStdin()
+      }
+      prompt = prompt.trim()
+
+      if (!prompt) {
+        console.error(`\x1b[31m✗\x1b[0m  No prompt given. Pass it as arguments or pipe it on stdin:`)
+        console.error(`   \x1b[36mdadgpt ask "What's due this week?"\x1b[0m`)
+        process.exitCode = 1
+        return
+      }
+
+      // Use the given session, or start a new one
+      let sessionId = argv.session
+      if (sessionId) {
+        if (!(await Session.get(sessionId))) {
+          console.error(`\x1b[31m✗\x1b[0m  Session not found: ${sessionId}`)
+          process.exitCode = 1
+          return
+        }
+      } else {
+        sessionId = (await Session.create(truncate(prompt, 50))).id
+      }
+
+      await Session.addMessage(sessionId, { role: "user", content: prompt })
+
+      let endsWithNewline = true
+      const result = await ChatLoop.run(sessionId, abortController.signal, {
+        provider: argv.provider,
+        model: argv.model,
+        onTextChunk: (chunk) => {
+          if (argv.json) return
+          process.stdout.write(chunk)
+          endsWithNewline = chunk.endsWith("\n")
+        },
+        onToolStart: (toolId, input) => {
+          const preview = truncate(JSON.stringify(input) ?? "", INPUT_PREVIEW_LENGTH)
+          process.stderr.write(`\x1b[90m→ ${toolId} ${preview}${RESET}\n`)
+        },
+        onToolComplete: (toolId) => {
+          process.stderr.write(`\x1b[32m✓\x1b[0m \x1b[90m${toolId}${RESET}\n`)
+        },
+        onToolError: (toolId, error) => {
+          process.stderr.write(`\x1b[31m✗\x1b[0m \x1b[90m${toolId}: ${error}${RESET}\n`)
+        },
+        // Without --yes there is no one to ask, so the chat loop denies the call
+        onPermissionAsk: argv.yes ? async () => "once" : undefined,
+      })
+
+      if (argv.json) {
+        console.log(JSON.stringify({ sessionId, ...result }, null, 2))
+      } else if (!endsWithNewline) {
+        process.stdout.write("\n")
+      }
+
+      if (result.aborted) {
+        process.exitCode = 130
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to get a response", err)
+      process.exitCode = 1
+    } finally {
+      process.off("SIGINT", onSigint)
+    }
+  },
+}
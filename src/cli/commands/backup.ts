@@ -0,0 +1,119 @@
+/**
+ * Backup command - Write the config and all stored data to one archive.
+ *
+ * The archive is a .tar.gz with a manifest of checksums, restored with
+ * `dadgpt restore`. --list shows the scheduled backups kept in
+ * ~/.dadgpt/backups.
+ */
+
+import * as path from "node:path"
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Backup, type BackupFile } from "../../backup/backup"
+import { Log } from "../../util/log"
+
+/**
+ * Options specific to the backup command.
+ */
+export interface BackupOptions extends GlobalOptions {
+  /** Archive to write */
+  file?: string
+  /** Leave provider API keys out of config.json */
+  "exclude-api-keys": boolean
+  /** List the backups in the backups directory instead */
+  list: boolean
+  /** Output as JSON */
+  json: boolean
+}
+
+const RESET = "\x1b[0m"
+
+/**
+ * Format a size in bytes for display
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Display the backups in the backups directory
+ */
+function displayBackups(backups: BackupFile[]): void {
+  if (backups.length === 0) {
+    console.log(`\x1b[90mNo backups in ${Backup.directory()}${RESET}`)
+    return
+  }
+
+  console.log("")
+  console.log(`\x1b[1mBackups\x1b[0m \x1b[90m(${Backup.directory()})${RESET}`)
+  console.log("\x1b[90m" + "─".repeat(40) + RESET)
+  for (const backup of backups) {
+    const when = new Date(backup.createdAt).toLocaleString()
+    const kind = backup.automatic ? " \x1b[90m(scheduled)\x1b[0m" : ""
+    console.log(`  ${path.basename(backup.file)}${kind}`)
+    console.log(`    \x1b[90m${when} · ${formatSize(backup.size)}${RESET}`)
+  }
+  console.log("")
+}
+
+/**
+ * Backup command definition.
+ */
+export const backupCommand: CommandModule<GlobalOptions, BackupOptions> = {
+  command: "backup [file]",
+  describe: "Back up the config, goals, todos, projects and sessions to one archive",
+
+  builder: (yargs) =>
+    yargs
+      .positional("file", {
+        type: "string",
+        description: "Archive to write (default: ./dadgpt-backup-<time>.tar.gz)",
+      })
+      .option("exclude-api-keys", {
+        type: "boolean",
+        description: "Leave provider API keys out of the backed-up config",
+        default: false,
+      })
+      .option("list", {
+        type: "boolean",
+        description: "List the scheduled backups instead",
+        default: false,
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      if (argv.list) {
+        const backups = await Backup.list()
+        if (argv.json) {
+          console.log(JSON.stringify(backups, null, 2))
+        } else {
+          displayBackups(backups)
+        }
+        return
+      }
+
+      const file = path.resolve(argv.file ?? Backup.defaultFileName())
+      const manifest = await Backup.create(file, { includeApiKeys: !argv["exclude-api-keys"] })
+
+      if (argv.json) {
+        console.log(JSON.stringify({ file, manifest }, null, 2))
+        return
+      }
+      const records = `${manifest.records} record${manifest.records === 1 ? "" : "s"}`
+      console.log(`\x1b[32m✓\x1b[0m  Backed up ${records} to ${file}`)
+      if (!manifest.apiKeys) {
+        console.log(`\x1b[90mAPI keys were left out of the config.${RESET}`)
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to back up", err)
+      process.exit(1)
+    }
+  },
+}
@@ -0,0 +1,103 @@
+/**
+ * Doctor command - Find and repair dangling references in storage.
+ *
+ * Checks every todo and project for goal, project, and todo IDs that no
+ * longer exist, and for project todo lists that disagree with the todos'
+ * own projectId. Issues are repaired unless --dry-run is given.
+ */
+
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Integrity, type IntegrityIssue } from "../../integrity/integrity"
+import { Log } from "../../util/log"
+
+/**
+ * Options specific to the doctor command.
+ */
+export interface DoctorOptions extends GlobalOptions {
+  /** Only report issues, do not repair them */
+  "dry-run": boolean
+  /** Output issues as JSON */
+  json: boolean
+}
+
+const RESET = "\x1b[0m"
+
+/**
+ * Section headings for each kind of record, in display order
+ */
+const ENTITY_LABELS: Record<IntegrityIssue["entity"], string> = {
+  todo: "Todos",
+  project: "Projects",
+}
+
+/**
+ * Display issues grouped by the kind of record holding the reference
+ */
+function displayIssues(issues: IntegrityIssue[]): void {
+  for (const entity of Object.keys(ENTITY_LABELS) as IntegrityIssue["entity"][]) {
+    const entityIssues = issues.filter((i) => i.entity === entity)
+    if (entityIssues.length === 0) continue
+
+    console.log("")
+    console.log(`\x1b[1m${ENTITY_LABELS[entity]}\x1b[0m`)
+    console.log("\x1b[90m" + "─".repeat(40) + RESET)
+
+    for (const issue of entityIssues) {
+      console.log(`  \x1b[33m!\x1b[0m ${issue.title} \x1b[90m(${issue.id})${RESET}`)
+      console.log(`    \x1b[90m${issue.field}:${RESET} ${issue.message}`)
+    }
+  }
+  console.log("")
+}
+
+/**
+ * Doctor command definition.
+ */
+export const doctorCommand: CommandModule<GlobalOptions, DoctorOptions> = {
+  command: "doctor",
+  describe: "Find and repair dangling references between goals, projects and todos",
+
+  builder: (yargs) =>
+    yargs
+      .option("dry-run", {
+        type: "boolean",
+        description: "Report issues without repairing them",
+        default: false,
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      const issues = await Integrity.check()
+      const repaired = issues.length > 0 && !argv["dry-run"] ? await Integrity.repair(issues) : 0
+
+      if (argv.json) {
+        console.log(JSON.stringify({ issues, repaired }, null, 2))
+      } else if (issues.length === 0) {
+        console.log("\x1b[32m✓\x1b[0m  No dangling references found.")
+      } else {
+        displayIssues(issues)
+        const found = `${issues.length} issue${issues.length === 1 ? "" : "s"}`
+        if (argv["dry-run"]) {
+          console.log(`\x1b[90mFound ${found}. Dry run - nothing repaired.${RESET}`)
+        } else {
+          console.log(
+            `\x1b[32m✓\x1b[0m  Repaired ${found} in ${repaired} record${repaired === 1 ? "" : "s"}`
+          )
+        }
+      }
+
+      if (argv["dry-run"] && issues.length > 0) {
+        process.exitCode = 1
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to check storage", err)
+      process.exit(1)
+    }
+  },
+}
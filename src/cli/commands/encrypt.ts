@@ -0,0 +1,161 @@
+/**
+ * Encrypt and decrypt commands - Turn encryption at rest on or off for an
+ * existing data directory.
+ *
+ * encrypt asks for a new passphrase (twice), writes the key file, and
+ * rewrites every record and the global config sealed. decrypt rewrites
+ * them in plain JSON and removes the key file. Both can be re-run safely
+ * if they are interrupted. The passphrase can be given in the
+ * DADGPT_PASSPHRASE environment variable instead of being typed.
+ */
+
+import * as readline from "node:readline/promises"
+import { Writable } from "node:stream"
+import { stdin, stdout } from "node:process"
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Encryption } from "../../encryption/encryption"
+import { Storage } from "../../storage/storage"
+import { Config } from "../../config/config"
+import { Backup } from "../../backup/backup"
+import { Log } from "../../util/log"
+import { StorageError } from "../../util/errors"
+
+/** Environment variable that supplies the passphrase without a prompt */
+const PASSPHRASE_ENV = "DADGPT_PASSPHRASE"
+
+/** Passphrase attempts allowed at startup */
+const UNLOCK_ATTEMPTS = 3
+
+const RESET = "\x1b[0m"
+
+/**
+ * Read a passphrase from DADGPT_PASSPHRASE, or prompt for it without
+ * echoing what is typed.
+ * @throws StorageError with code ENCRYPTION_LOCKED if there is no terminal to prompt on
+ */
+export async function readPassphrase(prompt: string): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV]
+  if (fromEnv !== undefined) return fromEnv
+
+  if (!stdin.isTTY) {
+    throw new StorageError(
+      `A passphrase is needed but there is no terminal to ask for it on. Set ${PASSPHRASE_ENV}.`,
+      "ENCRYPTION_LOCKED"
+    )
+  }
+
+  // Send readline's echo nowhere so the passphrase isn't shown
+  const muted = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback()
+    },
+  })
+  const rl = readline.createInterface({ input: stdin, output: muted, terminal: true })
+  stdout.write(prompt)
+  try {
+    return await rl.question("")
+  } finally {
+    rl.close()
+    stdout.write("\n")
+  }
+}
+
+/**
+ * Unlock encrypted data at startup, prompting for the passphrase up to
+ * three times. Does nothing if encryption is off.
+ * @throws StorageError if the data could not be unlocked
+ */
+export async function unlockData(): Promise<void> {
+  if (!(await Encryption.isEnabled()) || (await Encryption.isUnlocked())) return
+
+  const attempts = process.env[PASSPHRASE_ENV] !== undefined ? 1 : UNLOCK_ATTEMPTS
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await Encryption.unlock(await readPassphrase("Passphrase: "))
+      return
+    } catch (err) {
+      const wrong = err instanceof StorageError && err.code === "ENCRYPTION_WRONG_PASSPHRASE"
+      if (!wrong || attempt >= attempts) throw err
+      console.error(`\x1b[31m✗\x1b[0m  Wrong passphrase, try again`)
+    }
+  }
+}
+
+/**
+ * Ask for a new passphrase twice, or take it from DADGPT_PASSPHRASE
+ */
+async function readNewPassphrase(): Promise<string> {
+  const passphrase = await readPassphrase("New passphrase: ")
+  if (passphrase.length === 0) {
+    throw new StorageError("The passphrase can't be empty", "ENCRYPTION_EMPTY_PASSPHRASE")
+  }
+  if (process.env[PASSPHRASE_ENV] === undefined && (await readPassphrase("Repeat passphrase: ")) !== passphrase) {
+    throw new StorageError("The passphrases don't match", "ENCRYPTION_PASSPHRASE_MISMATCH")
+  }
+  return passphrase
+}
+
+/**
+ * Encrypt command definition.
+ */
+export const encryptCommand: CommandModule<GlobalOptions, GlobalOptions> = {
+  command: "encrypt",
+  describe: "Encrypt the stored data and config with a passphrase",
+
+  handler: async () => {
+    try {
+      const alreadyEnabled = await Encryption.isEnabled()
+      if (!alreadyEnabled) {
+        await Encryption.enable(await readNewPassphrase())
+      }
+
+      const records = await Storage.reencrypt()
+      const config = await Config.reencrypt()
+
+      const what = `${records} record${records === 1 ? "" : "s"}${config ? " and the config" : ""}`
+      if (alreadyEnabled) {
+        console.log(`\x1b[32m✓\x1b[0m  Encryption was already on; checked ${what}`)
+        return
+      }
+      console.log(`\x1b[32m✓\x1b[0m  Encrypted ${what}`)
+      console.log(`\x1b[33m⚠\x1b[0m  The data can't be recovered without the passphrase, so keep it somewhere safe.`)
+      const backups = await Backup.list()
+      if (backups.length > 0) {
+        console.log(`\x1b[90mBackups taken before now in ${Backup.directory()} are not encrypted.${RESET}`)
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to encrypt data", err)
+      process.exit(1)
+    }
+  },
+}
+
+/**
+ * Decrypt command definition.
+ */
+export const decryptCommand: CommandModule<GlobalOptions, GlobalOptions> = {
+  command: "decrypt",
+  describe: "Decrypt the stored data and config and turn encryption off",
+
+  handler: async () => {
+    try {
+      if (!(await Encryption.isEnabled())) {
+        console.log(`\x1b[90mThe data is not encrypted.${RESET}`)
+        return
+      }
+
+      // Rewrite everything in plain JSON before removing the key file, so an
+      // interrupted decrypt can be run again
+      const records = await Storage.reencrypt({ plaintext: true })
+      const config = await Config.reencrypt({ plaintext: true })
+      await Encryption.disable()
+
+      const what = `${records} record${records === 1 ? "" : "s"}${config ? " and the config" : ""}`
+      console.log(`\x1b[32m✓\x1b[0m  Decrypted ${what}; encryption is off`)
+    } catch (err) {
+      Log.formatAndLogError("Failed to decrypt data", err)
+      process.exit(1)
+    }
+  },
+}
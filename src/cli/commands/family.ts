@@ -0,0 +1,282 @@
+/**
+ * Family command - Manage family members from the command line.
+ *
+ * Lists family members with birthdays and ages, shows upcoming birthdays
+ * with --upcoming, and adds, updates, or removes members. Members can be
+ * referred to by ID, a unique ID prefix, or name.
+ */
+
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import type { FamilyMember } from "../../config/schema"
+import { Family, type UpcomingBirthday } from "../../family/family"
+import { Log } from "../../util/log"
+
+/**
+ * Actions supported by the family command
+ */
+type FamilyAction = "list" | "add" | "update" | "remove"
+
+/**
+ * Options specific to the family command.
+ */
+export interface FamilyOptions extends GlobalOptions {
+  /** Action to perform */
+  action: FamilyAction
+  /** Name for add, or the member to update/remove (variadic positional argument) */
+  member?: string[]
+  /** Show birthdays in the next N days */
+  upcoming?: number
+  /** New name (for update) */
+  name?: string
+  /** Relationship, e.g. Wife or Son */
+  relationship?: string
+  /** Birthday (MM-DD or YYYY-MM-DD) */
+  birthday?: string
+  /** Notes */
+  notes?: string
+  /** Output as JSON */
+  json: boolean
+}
+
+const RESET = "\x1b[0m"
+
+/** Default --upcoming window when no number of days is given */
+const DEFAULT_UPCOMING_DAYS = 30
+
+/**
+ * Find a family member by ID, unique ID prefix, or name (case-insensitive)
+ */
+function resolveMember(members: FamilyMember[], ref: string): FamilyMember {
+  const exact = members.find((m) => m.id === ref)
+  if (exact) return exact
+
+  const lower = ref.toLowerCase()
+  const matches = members.filter(
+    (m) => m.id.toLowerCase().startsWith(lower) || m.name.toLowerCase() === lower
+  )
+  if (matches.length === 0) {
+    throw new Error(`Family member not found: ${ref}`)
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${ref}" matches ${matches.length} family members; use the ID instead`)
+  }
+  return matches[0]!
+}
+
+/**
+ * Format the birthday and age of a member, e.g. "1985-03-15 · age 41"
+ */
+function formatBirthday(member: FamilyMember): string {
+  if (!member.birthday) return ""
+  const age = Family.age(member.birthday)
+  return age !== undefined ? `${member.birthday} · age ${age}` : member.birthday
+}
+
+/**
+ * Display family members in human-readable format
+ */
+function displayMembers(members: FamilyMember[]): void {
+  if (members.length === 0) {
+    console.log("\x1b[90mNo family members found.\x1b[0m")
+    console.log("")
+    console.log("Add one by running:")
+    console.log("  \x1b[36mdadgpt family add Alice --relationship Wife --birthday 1985-03-15\x1b[0m")
+    return
+  }
+
+  console.log("")
+  console.log("\x1b[1mFamily\x1b[0m")
+  console.log("\x1b[90m" + "─".repeat(40) + RESET)
+
+  for (const member of members) {
+    console.log(`  ${member.name} \x1b[90m(${member.relationship}) ${member.id}${RESET}`)
+    if (member.birthday) {
+      console.log(`    \x1b[36mBirthday: ${formatBirthday(member)}${RESET}`)
+    }
+    if (member.notes) {
+      console.log(`    \x1b[90m${member.notes}${RESET}`)
+    }
+  }
+
+  console.log("")
+  console.log(`\x1b[90mTotal: ${members.length} member${members.length === 1 ? "" : "s"}${RESET}`)
+}
+
+/**
+ * Display upcoming birthdays as a short calendar
+ */
+function displayUpcoming(upcoming: UpcomingBirthday[], days: number): void {
+  if (upcoming.length === 0) {
+    console.log(`\x1b[90mNo birthdays in the next ${days} days.\x1b[0m`)
+    return
+  }
+
+  console.log("")
+  console.log(`\x1b[1mUpcoming Birthdays\x1b[0m \x1b[90m(next ${days} days)${RESET}`)
+  console.log("\x1b[90m" + "─".repeat(40) + RESET)
+
+  for (const item of upcoming) {
+    const [year, month, day] = item.date.split("-").map(Number)
+    const dateLabel = new Date(year!, month! - 1, day!).toLocaleDateString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    })
+    const when =
+      item.daysUntil === 0
+        ? "\x1b[32mToday!\x1b[0m"
+        : item.daysUntil === 1
+          ? "\x1b[33mTomorrow\x1b[0m"
+          : item.daysUntil <= 7
+            ? `\x1b[33min ${item.daysUntil} days${RESET}`
+            : `\x1b[90min ${item.daysUntil} days${RESET}`
+    const turning = item.turning !== undefined ? ` · turning ${item.turning}` : ""
+
+    console.log(`  \x1b[36m${dateLabel.padEnd(12)}${RESET} ${item.member.name} \x1b[90m(${item.member.relationship})${RESET}${turning}`)
+    console.log(`    ${when}`)
+  }
+
+  console.log("")
+}
+
+/**
+ * Family command definition.
+ */
+export const familyCommand: CommandModule<GlobalOptions, FamilyOptions> = {
+  command: "family [action] [member..]",
+  describe: "List, add, update, or remove family members and see upcoming birthdays",
+
+  builder: (yargs) =>
+    yargs
+      .positional("action", {
+        type: "string",
+        description: "Action to perform",
+        choices: ["list", "add", "update", "remove"] as const,
+        default: "list" as const,
+      })
+      .positional("member", {
+        type: "string",
+        array: true,
+        description: "Name (for add) or the ID, ID prefix, or name of a member",
+      })
+      .option("upcoming", {
+        alias: "u",
+        type: "number",
+        description: `Show birthdays in the next N days (default ${DEFAULT_UPCOMING_DAYS})`,
+      })
+      .option("name", {
+        type: "string",
+        description: "New name (for update)",
+      })
+      .option("relationship", {
+        alias: "r",
+        type: "string",
+        description: "Relationship, e.g. Wife or Son",
+      })
+      .option("birthday", {
+        alias: "b",
+        type: "string",
+        description: "Birthday as MM-DD or YYYY-MM-DD (an empty value clears it)",
+      })
+      .option("notes", {
+        alias: "n",
+        type: "string",
+        description: "Notes (an empty value clears them)",
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      const ref = argv.member?.join(" ").trim()
+
+      switch (argv.action) {
+        case "list": {
+          const members = await Family.list()
+
+          // A bare --upcoming is present in argv with no value
+          if ("upcoming" in argv) {
+            const days =
+              argv.upcoming === undefined || Number.isNaN(argv.upcoming)
+                ? DEFAULT_UPCOMING_DAYS
+                : argv.upcoming
+            const upcoming = Family.upcoming(members, days)
+            if (argv.json) {
+              console.log(JSON.stringify(upcoming, null, 2))
+            } else {
+              displayUpcoming(upcoming, days)
+            }
+            return
+          }
+
+          if (argv.json) {
+            console.log(JSON.stringify(members, null, 2))
+          } else {
+            displayMembers(members)
+          }
+          return
+        }
+
+        case "add": {
+          const member = await Family.add({
+            name: ref,
+            relationship: argv.relationship,
+            birthday: argv.birthday,
+            notes: argv.notes,
+          })
+          if (argv.json) {
+            console.log(JSON.stringify(member, null, 2))
+          } else {
+            console.log(`\x1b[32m✓\x1b[0m  Added ${member.name} (${member.relationship}) \x1b[90m${member.id}${RESET}`)
+          }
+          return
+        }
+
+        case "update":
+        case "remove": {
+          if (!ref) {
+            console.error(`\x1b[31m✗\x1b[0m  A family member is required: dadgpt family ${argv.action} <id or name>`)
+            process.exit(1)
+          }
+          const member = resolveMember(await Family.list(), ref)
+
+          if (argv.action === "remove") {
+            await Family.remove(member.id)
+            if (argv.json) {
+              console.log(JSON.stringify(member, null, 2))
+            } else {
+              console.log(`\x1b[32m✓\x1b[0m  Removed ${member.name} (${member.relationship})`)
+            }
+            return
+          }
+
+          const result = await Family.update(member.id, {
+            name: argv.name,
+            relationship: argv.relationship,
+            birthday: argv.birthday,
+            notes: argv.notes,
+          })
+          if (!result || Object.keys(result.changes).length === 0) {
+            console.error(
+              "\x1b[31m✗\x1b[0m  Nothing to update. Pass --name, --relationship, --birthday, or --notes"
+            )
+            process.exit(1)
+          }
+          if (argv.json) {
+            console.log(JSON.stringify(result.member, null, 2))
+          } else {
+            console.log(`\x1b[32m✓\x1b[0m  Updated ${result.member.name}: ${Object.keys(result.changes).join(", ")}`)
+          }
+          return
+        }
+      }
+    } catch (err) {
+      Log.formatAndLogError(`Failed to ${argv.action} family members`, err)
+      process.exit(1)
+    }
+  },
+}
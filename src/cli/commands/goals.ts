@@ -3,18 +3,34 @@
  *
  * Lists goals grouped by category with status icons, progress bars,
  * and due dates. Supports filtering and JSON output.
+ * `goals start` and `goals progress` go through the goal tool, so they use
+ * the same state machine transitions and Bus events as the chat.
  */
 
 import type { CommandModule } from "yargs"
-import { Storage } from "../../storage/storage"
+import { Storage, type RecordQuery } from "../../storage/storage"
 import type { GlobalOptions } from "../index"
 import type { GoalState } from "../../state/goal.machine"
+import { GoalTool, type StoredGoal } from "../../tool/goal"
+import { loadRecords } from "../../migration/schema"
+import type { ToolContext, ToolResult } from "../../tool/types"
 import { Log } from "../../util/log"
 
+/**
+ * Actions supported by the goals command
+ */
+type GoalsAction = "list" | "start" | "progress"
+
 /**
  * Options specific to the goals command.
  */
 export interface GoalsOptions extends GlobalOptions {
+  /** Action to perform */
+  action: GoalsAction
+  /** ID, ID prefix, or title of the goal to change */
+  goal?: string
+  /** New progress percentage (for progress) */
+  progress?: number
   /** Filter by category */
   category?: string
   /** Filter by status */
@@ -23,26 +39,6 @@ export interface GoalsOptions extends GlobalOptions {
   json: boolean
 }
 
-/**
- * Stored goal structure (matches src/tool/goal.ts)
- */
-interface StoredGoal {
-  id: string
-  title: string
-  category: string
-  description: string
-  progress: number
-  milestones: Array<{
-    id: string
-    title: string
-    completed: boolean
-  }>
-  dueDate: string | null
-  createdAt: number
-  updatedAt: number
-  state: GoalState
-}
-
 /**
  * Status icons for goal states
  */
@@ -67,6 +63,11 @@ const STATUS_COLORS: Record<GoalState, string> = {
 
 const RESET = "\x1b[0m"
 
+/**
+ * Tool context for calls made from the command line
+ */
+const CLI_CONTEXT: ToolContext = { sessionId: "cli" }
+
 /**
  * Create a progress bar string
  */
@@ -98,14 +99,65 @@ function formatDueDate(dueDate: string | null): string {
 }
 
 /**
- * List all goals from storage
+ * List goals from storage, filtered by the storage backend
  */
-async function listGoals(): Promise<StoredGoal[]> {
-  const goalIds = await Storage.list(["goals"])
-  const goals = await Promise.all(
-    goalIds.map((id) => Storage.read<StoredGoal>(["goals", id]))
+async function listGoals(filter: RecordQuery = {}): Promise<StoredGoal[]> {
+  return loadRecords("goals", filter)
+}
+
+/**
+ * Find a goal by full ID, unique ID prefix, or title (case-insensitive)
+ */
+async function resolveGoal(ref: string): Promise<StoredGoal> {
+  const goals = await listGoals()
+  const exact = goals.find((g) => g.id === ref)
+  if (exact) return exact
+
+  const lower = ref.toLowerCase()
+  const matches = goals.filter(
+    (g) => g.id.toLowerCase().startsWith(lower) || g.title.toLowerCase() === lower
+  )
+  if (matches.length === 0) {
+    throw new Error(`Goal not found: ${ref}`)
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${ref}" matches ${matches.length} goals; use the ID instead`)
+  }
+  return matches[0]!
+}
+
+/**
+ * Start a goal, resuming it if it is paused
+ */
+async function startGoal(goal: StoredGoal): Promise<ToolResult> {
+  if (goal.state !== "not_started" && goal.state !== "paused") {
+    return {
+      title: "Error",
+      output: `Cannot start goal "${goal.title}" from state: ${goal.state}`,
+    }
+  }
+  return GoalTool.execute(
+    { action: "transition", id: goal.id, event: goal.state === "paused" ? "RESUME" : "START" },
+    CLI_CONTEXT
   )
-  return goals.filter((g): g is StoredGoal => g !== undefined)
+}
+
+/**
+ * Print the result of a goal tool call, as JSON (the stored goal) or as a
+ * status line. Sets a non-zero exit code when the tool reports an error.
+ */
+async function reportResult(result: ToolResult, goalId: string, json: boolean): Promise<void> {
+  if (result.title === "Error" || result.title === "No Changes") {
+    console.error(`\x1b[31m✗\x1b[0m  ${result.output}`)
+    process.exitCode = 1
+    return
+  }
+
+  if (json) {
+    console.log(JSON.stringify(await Storage.read<StoredGoal>(["goals", goalId]), null, 2))
+    return
+  }
+  console.log(`\x1b[32m✓\x1b[0m  ${result.output}`)
 }
 
 /**
@@ -180,11 +232,25 @@ function displayGoals(goals: StoredGoal[]): void {
  * Goals command definition.
  */
 export const goalsCommand: CommandModule<GlobalOptions, GoalsOptions> = {
-  command: "goals",
-  describe: "List and view goals",
+  command: "goals [action] [goal] [progress]",
+  describe: "List goals, start them, and update their progress",
 
   builder: (yargs) =>
     yargs
+      .positional("action", {
+        type: "string",
+        description: "Action to perform",
+        choices: ["list", "start", "progress"] as const,
+        default: "list" as const,
+      })
+      .positional("goal", {
+        type: "string",
+        description: "ID, ID prefix, or title of the goal (for start and progress)",
+      })
+      .positional("progress", {
+        type: "number",
+        description: "Progress percentage, 0-100 (for progress)",
+      })
       .option("category", {
         alias: "c",
         type: "string",
@@ -203,9 +269,41 @@ export const goalsCommand: CommandModule<GlobalOptions, GoalsOptions> = {
       }),
 
   handler: async (argv) => {
+    if (argv.action !== "list") {
+      if (!argv.goal) {
+        const usage = argv.action === "progress" ? "<id or title> <percent>" : "<id or title>"
+        console.error(`\x1b[31m✗\x1b[0m  Missing argument: dadgpt goals ${argv.action} ${usage}`)
+        process.exit(1)
+      }
+      if (
+        argv.action === "progress" &&
+        (argv.progress === undefined || Number.isNaN(argv.progress) || argv.progress < 0 || argv.progress > 100)
+      ) {
+        console.error("\x1b[31m✗\x1b[0m  Progress must be a number from 0 to 100: dadgpt goals progress <id or title> <percent>")
+        process.exit(1)
+      }
+
+      try {
+        const goal = await resolveGoal(argv.goal)
+        const result =
+          argv.action === "start"
+            ? await startGoal(goal)
+            : await GoalTool.execute(
+                { action: "update", id: goal.id, progress: argv.progress },
+                CLI_CONTEXT
+              )
+        await reportResult(result, goal.id, argv.json)
+      } catch (err) {
+        Log.formatAndLogError(`Failed to ${argv.action === "start" ? "start goal" : "update goal progress"}`, err)
+        process.exit(1)
+      }
+      return
+    }
+
     try {
       // Load all goals
-      let goals = await listGoals()
+      // Load goals, leaving the status filter to the storage backend
+      let goals = await listGoals({ state: argv.status })
 
       // Apply category filter (case-insensitive)
       if (argv.category) {
@@ -214,11 +312,6 @@ export const goalsCommand: CommandModule<GlobalOptions, GoalsOptions> = {
         )
       }
 
-      // Apply status filter
-      if (argv.status) {
-        goals = goals.filter((g) => g.state === argv.status)
-      }
-
       // Output
       if (argv.json) {
         console.log(JSON.stringify(goals, null, 2))
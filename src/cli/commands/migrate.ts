@@ -0,0 +1,101 @@
+/**
+ * Migrate command - Upgrade stored records to the current schema.
+ *
+ * Migrations also run automatically at startup; this command shows which
+ * ones are pending (--dry-run) and which records still don't match the
+ * schema afterwards. Exits with status 1 if any records are invalid.
+ */
+
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Migration, type MigrationReport } from "../../migration/migration"
+import { Log } from "../../util/log"
+
+/**
+ * Options specific to the migrate command.
+ */
+export interface MigrateOptions extends GlobalOptions {
+  /** Only report what would change */
+  "dry-run": boolean
+  /** Output the report as JSON */
+  json: boolean
+}
+
+const RESET = "\x1b[0m"
+
+/**
+ * Display the migrations run on each collection and any invalid records
+ */
+function displayReport(report: MigrationReport, dryRun: boolean): void {
+  for (const upgrade of report.upgrades) {
+    const records = `${upgrade.upgraded} record${upgrade.upgraded === 1 ? "" : "s"}`
+    console.log("")
+    console.log(
+      `\x1b[1m${upgrade.collection}\x1b[0m  v${upgrade.from} → v${upgrade.to}  \x1b[90m(${records} ${dryRun ? "to upgrade" : "upgraded"})${RESET}`
+    )
+    for (const step of upgrade.steps) {
+      console.log(`  \x1b[90m·${RESET} ${step}`)
+    }
+  }
+
+  if (report.invalid.length > 0) {
+    console.log("")
+    console.log("\x1b[1mInvalid records\x1b[0m")
+    console.log("\x1b[90m" + "─".repeat(40) + RESET)
+    for (const record of report.invalid) {
+      console.log(`  \x1b[31m✗\x1b[0m ${record.collection}/${record.id}`)
+      for (const problem of record.problems) {
+        console.log(`    \x1b[90m${problem}${RESET}`)
+      }
+    }
+  }
+  console.log("")
+}
+
+/**
+ * Migrate command definition.
+ */
+export const migrateCommand: CommandModule<GlobalOptions, MigrateOptions> = {
+  command: "migrate",
+  describe: "Upgrade stored goals, projects and todos to the current schema",
+
+  builder: (yargs) =>
+    yargs
+      .option("dry-run", {
+        type: "boolean",
+        description: "Show pending migrations without applying them",
+        default: false,
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      const report = await Migration.run({ dryRun: argv["dry-run"] })
+
+      if (argv.json) {
+        console.log(JSON.stringify(report, null, 2))
+      } else if (report.upgrades.length === 0 && report.invalid.length === 0) {
+        const versions = (await Migration.status()).map((s) => `${s.collection} v${s.version}`)
+        console.log(`\x1b[32m✓\x1b[0m  Schema is up to date (${versions.join(", ")}).`)
+      } else {
+        displayReport(report, argv["dry-run"])
+        if (argv["dry-run"]) {
+          console.log("\x1b[90mDry run - no changes applied.\x1b[0m")
+        } else if (report.upgrades.length > 0) {
+          console.log(`\x1b[32m✓\x1b[0m  Migrated ${report.upgrades.map((u) => u.collection).join(", ")}`)
+        }
+      }
+
+      if (report.invalid.length > 0) {
+        process.exitCode = 1
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to migrate data", err)
+      process.exit(1)
+    }
+  },
+}
@@ -0,0 +1,181 @@
+/**
+ * Projects command - View projects from the command line.
+ *
+ * Lists projects grouped by status with status icons, milestone
+ * completion bars, budgets, and linked goals. Supports filtering and
+ * JSON output.
+ */
+
+import type { CommandModule } from "yargs"
+import { loadRecords } from "../../migration/schema"
+import type { GlobalOptions } from "../index"
+import type { ProjectState } from "../../state/project.machine"
+import type { StoredProject } from "../../tool/project"
+import type { StoredGoal } from "../../tool/goal"
+import { Log } from "../../util/log"
+
+/**
+ * Options specific to the projects command.
+ */
+export interface ProjectsOptions extends GlobalOptions {
+  /** Filter by status */
+  status?: ProjectState
+  /** Output as JSON */
+  json: boolean
+}
+
+/**
+ * Status icons for project states
+ */
+const STATUS_ICONS: Record<ProjectState, string> = {
+  planning: "○",
+  active: "◐",
+  on_hold: "⏸",
+  completed: "●",
+  cancelled: "✗",
+}
+
+/**
+ * Status colors (ANSI escape codes)
+ */
+const STATUS_COLORS: Record<ProjectState, string> = {
+  planning: "\x1b[90m", // gray
+  active: "\x1b[34m", // blue
+  on_hold: "\x1b[33m", // yellow
+  completed: "\x1b[32m", // green
+  cancelled: "\x1b[31m", // red
+}
+
+/**
+ * Section headings, in display order
+ */
+const STATUS_LABELS: Record<ProjectState, string> = {
+  active: "Active",
+  planning: "Planning",
+  on_hold: "On Hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+}
+
+const RESET = "\x1b[0m"
+
+/**
+ * Create a progress bar string
+ */
+function createProgressBar(progress: number, width: number = 10): string {
+  const filled = Math.round((progress / 100) * width)
+  const empty = width - filled
+  const bar = "█".repeat(filled) + "░".repeat(empty)
+  return `[${bar}]`
+}
+
+/**
+ * Format a budget as dollars, e.g. 1500 => "$1,500"
+ */
+function formatBudget(budget: number): string {
+  return `$${budget.toLocaleString("en-US", { maximumFractionDigits: 2 })}`
+}
+
+/**
+ * Display projects in human-readable format
+ */
+function displayProjects(projects: StoredProject[], goals: StoredGoal[]): void {
+  if (projects.length === 0) {
+    console.log("\x1b[90mNo projects found.\x1b[0m")
+    console.log("")
+    console.log("Create projects using the chat interface or by running:")
+    console.log("  \x1b[36mdadgpt \"Start a project to build a treehouse\"\x1b[0m")
+    return
+  }
+
+  const goalTitles = new Map(goals.map((g) => [g.id, g.title]))
+
+  for (const state of Object.keys(STATUS_LABELS) as ProjectState[]) {
+    const stateProjects = projects
+      .filter((p) => p.state === state)
+      .sort((a, b) => a.name.localeCompare(b.name))
+    if (stateProjects.length === 0) continue
+
+    console.log("")
+    console.log(`\x1b[1m${STATUS_LABELS[state]}\x1b[0m`)
+    console.log("\x1b[90m" + "─".repeat(40) + RESET)
+
+    for (const project of stateProjects) {
+      console.log(`  ${STATUS_COLORS[state]}${STATUS_ICONS[state]}${RESET} ${project.name}`)
+
+      // Milestone and budget line
+      const details: string[] = []
+      if (project.milestones.length > 0) {
+        const done = project.milestones.filter((m) => m.completed).length
+        const progress = Math.round((done / project.milestones.length) * 100)
+        details.push(createProgressBar(progress), `\x1b[90m${done}/${project.milestones.length} milestones${RESET}`)
+      }
+      if (project.budget !== null) {
+        details.push(`Budget: ${formatBudget(project.budget)}`)
+      }
+      if (details.length > 0) {
+        console.log(`    ${details.join(" ")}`)
+      }
+
+      // Next milestone and linked goal
+      const next = project.milestones.find((m) => !m.completed)
+      if (next && state !== "completed" && state !== "cancelled") {
+        console.log(`    \x1b[90mNext: ${next.title}${next.dueDate ? ` (Due: ${next.dueDate})` : ""}${RESET}`)
+      }
+      if (project.goalId) {
+        const goalTitle = goalTitles.get(project.goalId)
+        console.log(
+          goalTitle
+            ? `    \x1b[36mGoal: ${goalTitle}${RESET}`
+            : `    \x1b[90mGoal: ${project.goalId} (not found)${RESET}`
+        )
+      }
+    }
+  }
+
+  console.log("")
+  console.log(`\x1b[90mTotal: ${projects.length} project${projects.length === 1 ? "" : "s"}${RESET}`)
+}
+
+/**
+ * Projects command definition.
+ */
+export const projectsCommand: CommandModule<GlobalOptions, ProjectsOptions> = {
+  command: "projects",
+  describe: "List and view projects",
+
+  builder: (yargs) =>
+    yargs
+      .option("status", {
+        alias: "s",
+        type: "string",
+        description: "Filter by status (planning, active, on_hold, completed, cancelled)",
+        choices: ["planning", "active", "on_hold", "completed", "cancelled"] as const,
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      // Load projects, leaving the status filter to the storage backend
+      const projects = await loadRecords("projects", { state: argv.status })
+
+      // Output
+      if (argv.json) {
+        console.log(JSON.stringify(projects, null, 2))
+      } else {
+        displayProjects(projects, await loadRecords("goals"))
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to load projects", err)
+      if (argv.json) {
+        // Output empty array for JSON mode to maintain parseable output
+        console.log("[]")
+      }
+      process.exit(1)
+    }
+  },
+}
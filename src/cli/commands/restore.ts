@@ -0,0 +1,107 @@
+/**
+ * Restore command - Replace the config and all stored data with a backup.
+ *
+ * Every file in the archive is checked against the manifest before
+ * anything changes, and the current data is backed up to
+ * ~/.dadgpt/backups first. --dry-run only checks the archive. Encrypted
+ * backups made with a different passphrase ask for it.
+ */
+
+import * as path from "node:path"
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Backup } from "../../backup/backup"
+import { Log } from "../../util/log"
+import { StorageError } from "../../util/errors"
+import { readPassphrase } from "./encrypt"
+
+/**
+ * Options specific to the restore command.
+ */
+export interface RestoreOptions extends GlobalOptions {
+  /** Archive to restore */
+  file: string
+  /** Only check the archive */
+  "dry-run": boolean
+  /** Output as JSON */
+  json: boolean
+}
+
+const RESET = "\x1b[0m"
+
+/**
+ * Restore command definition.
+ */
+export const restoreCommand: CommandModule<GlobalOptions, RestoreOptions> = {
+  command: "restore <file>",
+  describe: "Check a backup archive and restore it, replacing the current data",
+
+  builder: (yargs) =>
+    yargs
+      .positional("file", {
+        type: "string",
+        description: "Archive written by dadgpt backup",
+        demandOption: true,
+      })
+      .option("dry-run", {
+        type: "boolean",
+        description: "Check the archive without restoring it",
+        default: false,
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      const file = path.resolve(argv.file)
+      const { problems } = await Backup.verify(file)
+      if (problems.length > 0) {
+        if (argv.json) {
+          console.log(JSON.stringify({ file, problems }, null, 2))
+        } else {
+          console.error(`\x1b[31m✗\x1b[0m  ${file} failed verification:`)
+          for (const problem of problems) {
+            console.error(`    \x1b[90m${problem}${RESET}`)
+          }
+        }
+        process.exit(1)
+      }
+
+      const options = { dryRun: argv["dry-run"] }
+      const result = await Backup.restore(file, options).catch(async (err: unknown) => {
+        if (!(err instanceof StorageError && err.code === "BACKUP_PASSPHRASE_REQUIRED")) throw err
+        return Backup.restore(file, { ...options, passphrase: await readPassphrase("Backup passphrase: ") })
+      })
+
+      if (argv.json) {
+        console.log(JSON.stringify({ file, ...result }, null, 2))
+        return
+      }
+
+      const records = `${result.records} record${result.records === 1 ? "" : "s"}`
+      const taken = new Date(result.manifest.createdAt).toLocaleString()
+      if (argv["dry-run"]) {
+        console.log(`\x1b[32m✓\x1b[0m  Backup verified: ${records} from ${taken}`)
+        console.log(
+          `Restoring would replace ${result.replaced} current record${result.replaced === 1 ? "" : "s"}${result.config ? " and the config" : ""}.`
+        )
+        console.log("\x1b[90mDry run - no changes applied.\x1b[0m")
+        return
+      }
+
+      console.log(`\x1b[32m✓\x1b[0m  Restored ${records}${result.config ? " and the config" : ""} from ${taken}`)
+      if (result.config && !result.manifest.apiKeys) {
+        console.log(`\x1b[90mThe backup had no API keys; the current ones were kept.${RESET}`)
+      }
+      if (result.safetyBackup) {
+        console.log(`\x1b[90mThe previous data was backed up to ${result.safetyBackup}${RESET}`)
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to restore backup", err)
+      process.exit(1)
+    }
+  },
+}
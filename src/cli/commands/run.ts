@@ -10,6 +10,10 @@ import { render } from "ink"
 import React from "react"
 import { App } from "../../tui/App"
 import type { GlobalOptions } from "../index"
+import { Session } from "../../session/session"
+import { Config } from "../../config/config"
+import { Provider } from "../../provider/provider"
+import { ProviderError } from "../../util/errors"
 import { Log } from "../../util/log"
 
 /**
@@ -56,18 +60,45 @@ export const runCommand: CommandModule<GlobalOptions, RunOptions> = {
       // Combine message array into a single string if provided
       const initialMessage = argv.message?.length ? argv.message.join(" ") : undefined
 
-      // Determine session ID to use
-      const sessionId: string | undefined = argv.session
+      // Validate --provider/--model (including models discovered from a
+      // local server) before starting the interface
+      const config = await Config.get()
+      await Provider.loadModels()
+      try {
+        Provider.resolveSelection(
+          { provider: config.defaultProvider, model: config.defaultModel },
+          { provider: argv.provider, model: argv.model }
+        )
+      } catch (err) {
+        if (!(err instanceof ProviderError)) throw err
+        console.error(`\x1b[31m✗\x1b[0m  ${err.message}`)
+        process.exit(1)
+      }
 
-      // If --continue is specified without --session, we could load the most recent session
-      // For now, we'll leave this as undefined and let useSession create a new session
-      // TODO: Implement loading most recent session when --continue is specified
+      // Determine session ID to use (undefined lets useSession create a new session)
+      let sessionId: string | undefined = argv.session
+
+      if (sessionId) {
+        if (!(await Session.get(sessionId))) {
+          console.error(`\x1b[31m✗\x1b[0m  Session not found: ${sessionId}`)
+          console.error("\x1b[90mRun 'dadgpt sessions' to see available sessions.\x1b[0m")
+          process.exit(1)
+        }
+      } else if (argv.continue) {
+        // Resume the most recently updated session
+        sessionId = (await Session.latest())?.id
+        if (!sessionId) {
+          console.log("\x1b[90mNo previous session found, starting a new one.\x1b[0m")
+        }
+      }
 
       // Render the Ink App
       const { waitUntilExit } = render(
         React.createElement(App, {
           initialMessage,
           sessionId,
+          provider: argv.provider,
+          model: argv.model,
         })
       )
 
@@ -0,0 +1,261 @@
+/**
+ * Sessions command - Manage chat sessions from the command line.
+ *
+ * Lists sessions (most recent first), and renames, deletes, or exports
+ * a session by ID. IDs can be shortened to any unique prefix.
+ */
+
+import type { CommandModule } from "yargs"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import type { GlobalOptions } from "../index"
+import { Session, type MessageData, type SessionData, type SessionSummary } from "../../session/session"
+import { Log } from "../../util/log"
+
+/**
+ * Actions supported by the sessions command
+ */
+type SessionsAction = "list" | "rename" | "delete" | "export"
+
+/**
+ * Export formats
+ */
+type ExportFormat = "markdown" | "json"
+
+/**
+ * Options specific to the sessions command.
+ */
+export interface SessionsOptions extends GlobalOptions {
+  /** Action to perform */
+  action: SessionsAction
+  /** Session ID (or unique prefix) */
+  id?: string
+  /** New title for rename (variadic positional argument) */
+  title?: string[]
+  /** Export format */
+  format: ExportFormat
+  /** File to write the export to (defaults to stdout) */
+  output?: string
+  /** Output as JSON */
+  json: boolean
+}
+
+const RESET = "\x1b[0m"
+
+/** Maximum length of the first-message preview in the list */
+const PREVIEW_LENGTH = 50
+
+/**
+ * Truncate a string to a maximum length with ellipsis
+ */
+function truncate(str: string, maxLength: number): string {
+  const singleLine = str.replace(/\s+/g, " ").trim()
+  if (singleLine.length <= maxLength) {
+    return singleLine
+  }
+  return singleLine.slice(0, maxLength) + "..."
+}
+
+/**
+ * Format a timestamp relative to now
+ */
+function formatRelativeTime(ts: number): string {
+  const diffMinutes = Math.floor((Date.now() - ts) / (1000 * 60))
+  if (diffMinutes < 1) return "just now"
+  if (diffMinutes < 60) return `${diffMinutes}m ago`
+  const diffHours = Math.floor(diffMinutes / 60)
+  if (diffHours < 24) return `${diffHours}h ago`
+  const diffDays = Math.floor(diffHours / 24)
+  if (diffDays < 7) return `${diffDays}d ago`
+  return new Date(ts).toISOString().slice(0, 10)
+}
+
+/**
+ * Find a session by full ID or unique ID prefix
+ */
+async function resolveSession(id: string): Promise<SessionData> {
+  const exact = await Session.get(id)
+  if (exact) return exact
+
+  const matches = (await Session.list()).filter((s) =>
+    s.id.toLowerCase().startsWith(id.toLowerCase())
+  )
+  if (matches.length === 0) {
+    throw new Error(`Session not found: ${id}`)
+  }
+  if (matches.length > 1) {
+    throw new Error(`Session ID prefix is ambiguous: ${id} matches ${matches.length} sessions`)
+  }
+  return matches[0]!
+}
+
+/**
+ * Display sessions in human-readable format
+ */
+function displaySessions(sessions: SessionSummary[]): void {
+  if (sessions.length === 0) {
+    console.log("\x1b[90mNo sessions found.\x1b[0m")
+    console.log("")
+    console.log("Start a conversation by running:")
+    console.log("  \x1b[36mdadgpt\x1b[0m")
+    return
+  }
+
+  console.log("")
+  console.log("\x1b[1mSessions\x1b[0m")
+  console.log("\x1b[90m" + "─".repeat(40) + RESET)
+
+  for (const session of sessions) {
+    const count = `${session.messageCount} message${session.messageCount === 1 ? "" : "s"}`
+    console.log(`  \x1b[36m${session.id}\x1b[0m ${session.title}`)
+    console.log(`    \x1b[90m${formatRelativeTime(session.updatedAt)} · ${count}${RESET}`)
+    if (session.preview) {
+      console.log(`    \x1b[90m"${truncate(session.preview, PREVIEW_LENGTH)}"${RESET}`)
+    }
+  }
+
+  console.log("")
+  console.log(`\x1b[90mTotal: ${sessions.length} session${sessions.length === 1 ? "" : "s"}${RESET}`)
+  console.log("\x1b[90mResume one with: dadgpt --session <id>\x1b[0m")
+}
+
+/**
+ * Render a session as Markdown
+ */
+function toMarkdown(session: SessionData, messages: MessageData[]): string {
+  const lines = [
+    `# ${session.title}`,
+    "",
+    `- Session: ${session.id}`,
+    `- Created: ${new Date(session.createdAt).toISOString()}`,
+    `- Updated: ${new Date(session.updatedAt).toISOString()}`,
+  ]
+
+  for (const message of messages) {
+    const author = message.role === "user" ? "You" : "DadGPT"
+    lines.push("", `## ${author} · ${new Date(message.timestamp).toISOString()}`)
+
+    if (message.content) {
+      lines.push("", message.content)
+    }
+
+    for (const call of message.toolCalls ?? []) {
+      lines.push("", `**Tool: ${call.toolId}** (${call.status})`, "", "```json", JSON.stringify(call.input, null, 2), "```")
+      const result = call.status === "error" ? `Error: ${call.error}` : call.output
+      if (result) {
+        lines.push("", "```", result, "```")
+      }
+    }
+  }
+
+  return lines.join("\n") + "\n"
+}
+
+/**
+ * Sessions command definition.
+ */
+export const sessionsCommand: CommandModule<GlobalOptions, SessionsOptions> = {
+  command: "sessions [action] [id] [title..]",
+  describe: "List, rename, delete, or export chat sessions",
+
+  builder: (yargs) =>
+    yargs
+      .positional("action", {
+        type: "string",
+        description: "Action to perform",
+        choices: ["list", "rename", "delete", "export"] as const,
+        default: "list" as const,
+      })
+      .positional("id", {
+        type: "string",
+        description: "Session ID (or a unique prefix of it)",
+      })
+      .positional("title", {
+        type: "string",
+        array: true,
+        description: "New title (for rename)",
+      })
+      .option("format", {
+        type: "string",
+        description: "Export format",
+        choices: ["markdown", "json"] as const,
+        default: "markdown" as const,
+      })
+      .option("output", {
+        alias: "o",
+        type: "string",
+        description: "Write the export to a file instead of stdout",
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output the session list as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      if (argv.action === "list") {
+        const sessions = await Session.summaries()
+        if (argv.json) {
+          console.log(JSON.stringify(sessions, null, 2))
+        } else {
+          displaySessions(sessions)
+        }
+        return
+      }
+
+      if (!argv.id) {
+        console.error(`\x1b[31m✗\x1b[0m  A session ID is required: dadgpt sessions ${argv.action} <id>`)
+        process.exit(1)
+      }
+
+      const session = await resolveSession(argv.id)
+
+      switch (argv.action) {
+        case "rename": {
+          const title = argv.title?.join(" ").trim()
+          if (!title) {
+            console.error("\x1b[31m✗\x1b[0m  A new title is required: dadgpt sessions rename <id> <title>")
+            process.exit(1)
+          }
+          await Session.updateTitle(session.id, title)
+          console.log(`\x1b[32m✓\x1b[0m  Renamed session to "${title}"`)
+          break
+        }
+
+        case "delete": {
+          const removed = await Session.remove(session.id)
+          if (!removed) {
+            throw new Error(`Failed to delete session: ${session.id}`)
+          }
+          console.log(`\x1b[32m✓\x1b[0m  Deleted session "${session.title}"`)
+          break
+        }
+
+        case "export": {
+          const messages = await Session.getMessages(session.id)
+          const content =
+            argv.format === "json"
+              ? JSON.stringify({ session, messages }, null, 2) + "\n"
+              : toMarkdown(session, messages)
+
+          if (argv.output) {
+            const outputPath = path.resolve(process.cwd(), argv.output)
+            await fs.writeFile(outputPath, content, "utf-8")
+            console.log(`\x1b[32m✓\x1b[0m  Exported session to ${argv.output}`)
+          } else {
+            process.stdout.write(content)
+          }
+          break
+        }
+      }
+    } catch (err) {
+      Log.formatAndLogError(`Failed to ${argv.action} sessions`, err)
+      if (argv.json && argv.action === "list") {
+        // Output empty array for JSON mode to maintain parseable output
+        console.log("[]")
+      }
+      process.exit(1)
+    }
+  },
+}
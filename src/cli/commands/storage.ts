@@ -0,0 +1,96 @@
+/**
+ * Storage command - Show and switch the storage backend.
+ *
+ * Data lives in one JSON file per record by default. `storage migrate
+ * --to sqlite` copies every record into a single SQLite database with
+ * indexed queries, and `--to json` moves it back. The old copy of the
+ * data is kept next to the data directory.
+ */
+
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Storage, type BackendName } from "../../storage/storage"
+import { Log } from "../../util/log"
+
+/**
+ * Actions supported by the storage command
+ */
+type StorageAction = "info" | "migrate"
+
+/**
+ * Options specific to the storage command.
+ */
+export interface StorageOptions extends GlobalOptions {
+  /** Action to perform */
+  action: StorageAction
+  /** Backend to migrate to */
+  to?: BackendName
+  /** Only report what would be migrated */
+  "dry-run": boolean
+}
+
+const RESET = "\x1b[0m"
+
+/**
+ * Storage command definition.
+ */
+export const storageCommand: CommandModule<GlobalOptions, StorageOptions> = {
+  command: "storage [action]",
+  describe: "Show the storage backend or migrate data to another one",
+
+  builder: (yargs) =>
+    yargs
+      .positional("action", {
+        type: "string",
+        description: "Action to perform",
+        choices: ["info", "migrate"] as const,
+        default: "info" as const,
+      })
+      .option("to", {
+        type: "string",
+        description: "Backend to migrate to",
+        choices: ["json", "sqlite"] as const,
+      })
+      .option("dry-run", {
+        type: "boolean",
+        description: "Show what would be migrated without changing anything",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      if (argv.action === "info") {
+        const backend = await Storage.backendName()
+        console.log(`Storage backend: \x1b[36m${backend}\x1b[0m`)
+        console.log(`\x1b[90mSwitch with: dadgpt storage migrate --to ${backend === "json" ? "sqlite" : "json"}${RESET}`)
+        return
+      }
+
+      if (!argv.to) {
+        console.error("\x1b[31m✗\x1b[0m  A target backend is required: dadgpt storage migrate --to <json|sqlite>")
+        process.exit(1)
+      }
+
+      const result = await Storage.migrate(argv.to, { dryRun: argv["dry-run"] })
+      if (result.from === result.to) {
+        console.log(`\x1b[90mStorage already uses the ${result.to} backend.${RESET}`)
+        return
+      }
+
+      const records = `${result.count} record${result.count === 1 ? "" : "s"}`
+      if (argv["dry-run"]) {
+        console.log(`Would copy ${records} from ${result.from} to ${result.to}.`)
+        console.log("\x1b[90mDry run - no changes applied.\x1b[0m")
+        return
+      }
+
+      console.log(`\x1b[32m✓\x1b[0m  Migrated ${records} from ${result.from} to ${result.to}`)
+      if (result.backupPath) {
+        console.log(`\x1b[90mThe ${result.from} data was moved to ${result.backupPath}${RESET}`)
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to migrate storage", err)
+      process.exit(1)
+    }
+  },
+}
@@ -0,0 +1,162 @@
+/**
+ * Sync command - Two-way sync between dadgpt.md and structured storage.
+ *
+ * Detects which side changed since the last sync. File edits are imported
+ * (matching goals, todos, projects, and family members by title/name and
+ * printing the creates and updates as a diff), and dadgpt.md is then
+ * regenerated from storage. When both sides changed, --prefer picks a side.
+ */
+
+import type { CommandModule } from "yargs"
+import * as path from "node:path"
+import type { GlobalOptions } from "../index"
+import { Sync, type SyncChange, type SyncEntity, type SyncPreference } from "../../sync/sync"
+import { Log } from "../../util/log"
+
+/**
+ * Options specific to the sync command.
+ */
+export interface SyncOptions extends GlobalOptions {
+  /** Path to the dadgpt.md file */
+  file: string
+  /** Only print the diff, do not apply it */
+  "dry-run": boolean
+  /** Side to keep when both the file and storage changed */
+  prefer?: SyncPreference
+}
+
+const RESET = "\x1b[0m"
+
+/**
+ * Section headings for each entity type, in display order
+ */
+const ENTITY_LABELS: Record<SyncEntity, string> = {
+  goal: "Goals",
+  todo: "Todos",
+  project: "Projects",
+  family: "Family",
+}
+
+/**
+ * Format a field value for the diff display
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "(none)"
+  if (Array.isArray(value)) return value.join(", ")
+  return String(value)
+}
+
+/**
+ * Display the sync diff grouped by entity type
+ */
+function displayChanges(changes: SyncChange[]): void {
+  if (changes.length === 0) {
+    console.log("\x1b[90mNo changes to import.\x1b[0m")
+    return
+  }
+
+  for (const entity of Object.keys(ENTITY_LABELS) as SyncEntity[]) {
+    const entityChanges = changes.filter((c) => c.entity === entity)
+    if (entityChanges.length === 0) continue
+
+    console.log("")
+    console.log(`\x1b[1m${ENTITY_LABELS[entity]}\x1b[0m`)
+    console.log("\x1b[90m" + "─".repeat(40) + RESET)
+
+    for (const change of entityChanges) {
+      if (change.action === "create") {
+        console.log(`  \x1b[32m+\x1b[0m ${change.title}`)
+        for (const field of change.fields) {
+          console.log(`    \x1b[90m${field.field}: ${formatValue(field.to)}${RESET}`)
+        }
+      } else {
+        console.log(`  \x1b[33m~\x1b[0m ${change.title}`)
+        for (const field of change.fields) {
+          console.log(
+            `    \x1b[90m${field.field}:${RESET} \x1b[31m${formatValue(field.from)}${RESET} → \x1b[32m${formatValue(field.to)}${RESET}`
+          )
+        }
+      }
+    }
+  }
+
+  const creates = changes.filter((c) => c.action === "create").length
+  const updates = changes.length - creates
+  console.log("")
+  console.log(`\x1b[90m${creates} to create, ${updates} to update${RESET}`)
+}
+
+/**
+ * Sync command definition.
+ */
+export const syncCommand: CommandModule<GlobalOptions, SyncOptions> = {
+  command: "sync",
+  describe: "Sync goals, todos, projects and family with dadgpt.md",
+
+  builder: (yargs) =>
+    yargs
+      .option("file", {
+        alias: "f",
+        type: "string",
+        description: "Path to the dadgpt.md file",
+        default: "dadgpt.md",
+      })
+      .option("dry-run", {
+        type: "boolean",
+        description: "Show what would change without applying it",
+        default: false,
+      })
+      .option("prefer", {
+        type: "string",
+        description: "Side to keep when both dadgpt.md and storage changed",
+        choices: ["file", "storage"] as const,
+      }),
+
+  handler: async (argv) => {
+    const filePath = path.resolve(process.cwd(), argv.file)
+
+    try {
+      const result = await Sync.run(filePath, {
+        dryRun: argv["dry-run"],
+        prefer: argv.prefer,
+      })
+
+      if (result.direction === "conflict") {
+        console.log(
+          `\x1b[31m✗\x1b[0m  ${argv.file} and storage have both changed since the last sync.`
+        )
+        console.log("   Re-run with \x1b[36m--prefer file\x1b[0m or \x1b[36m--prefer storage\x1b[0m to choose a side.")
+        process.exitCode = 1
+        return
+      }
+
+      if (result.direction === "none") {
+        console.log("\x1b[90mEverything is already in sync.\x1b[0m")
+        return
+      }
+
+      if (result.direction === "import") {
+        displayChanges(result.plan.changes)
+      }
+
+      if (argv["dry-run"]) {
+        if (result.fileUpdated) {
+          console.log(`\x1b[90mWould regenerate ${argv.file} from storage.\x1b[0m`)
+        }
+        console.log("\x1b[90mDry run - no changes applied.\x1b[0m")
+        return
+      }
+
+      const count = result.plan.changes.length
+      if (count > 0) {
+        console.log(`\x1b[32m✓\x1b[0m  Applied ${count} change${count === 1 ? "" : "s"} from ${argv.file}`)
+      }
+      if (result.fileUpdated) {
+        console.log(`\x1b[32m✓\x1b[0m  Updated ${argv.file} from storage`)
+      }
+    } catch (err) {
+      Log.formatAndLogError("Failed to sync dadgpt.md", err)
+      process.exit(1)
+    }
+  },
+}
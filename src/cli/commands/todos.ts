@@ -2,36 +2,51 @@
  * Todos command - View and manage todos from the command line.
  *
  * Lists todos sorted by priority then due date with status icons,
- * priority badges, and due dates. Supports filtering and JSON output.
+ * priority badges, due dates, and recurrence. Supports filtering and JSON output.
+ * Deferred todos stay hidden until they wake up unless --all is passed.
+ * `todos add` and `todos done` go through the todo tool, so they use the
+ * same state machine transitions and Bus events as the chat.
  */
 
 import type { CommandModule } from "yargs"
-import { Storage } from "../../storage/storage"
+import { Storage, type RecordQuery } from "../../storage/storage"
 import type { GlobalOptions } from "../index"
-import type { TodoState, TodoContext } from "../../state/todo.machine"
+import type { TodoState } from "../../state/todo.machine"
+import { TodoTool, type StoredTodo } from "../../tool/todo"
+import { loadRecords } from "../../migration/schema"
+import type { ToolContext, ToolResult } from "../../tool/types"
 import { Log } from "../../util/log"
+import { describeRecurrence } from "../../util/recurrence"
+
+/**
+ * Actions supported by the todos command
+ */
+type TodosAction = "list" | "add" | "done"
 
 /**
  * Options specific to the todos command.
  */
 export interface TodosOptions extends GlobalOptions {
+  /** Action to perform */
+  action: TodosAction
+  /** Title for add, or the todo to complete (variadic positional argument) */
+  text?: string[]
   /** Filter by status */
   status?: TodoState
-  /** Filter by priority */
+  /** Filter by priority, or the priority of a new todo */
   priority?: "low" | "medium" | "high"
-  /** Filter by tag */
-  tag?: string
+  /** Filter by tag, or the tags of a new todo */
+  tag?: string[]
+  /** Due date of a new todo */
+  due?: string
+  /** Recurrence of a new todo */
+  recurs?: string
+  /** Include deferred todos */
+  all: boolean
   /** Output as JSON */
   json: boolean
 }
 
-/**
- * Stored todo structure (matches src/tool/todo.ts)
- */
-interface StoredTodo extends TodoContext {
-  state: TodoState
-}
-
 /**
  * Status icons for todo states
  */
@@ -76,6 +91,11 @@ const PRIORITY_WEIGHT: Record<string, number> = {
 
 const RESET = "\x1b[0m"
 
+/**
+ * Tool context for calls made from the command line
+ */
+const CLI_CONTEXT: ToolContext = { sessionId: "cli" }
+
 /**
  * Format a due date for display
  */
@@ -97,22 +117,74 @@ function formatDueDate(dueDate: string | null): string {
 }
 
 /**
- * List all todos from storage
+ * List todos from storage, filtered by the storage backend
+ */
+async function listTodos(filter: RecordQuery = {}): Promise<StoredTodo[]> {
+  return loadRecords("todos", filter)
+}
+
+/**
+ * Find a todo by full ID, unique ID prefix, or title (case-insensitive).
  */
-async function listTodos(): Promise<StoredTodo[]> {
-  const todoIds = await Storage.list(["todos"])
-  const todos = await Promise.all(
-    todoIds.map((id) => Storage.read<StoredTodo>(["todos", id]))
+async function resolveTodo(ref: string): Promise<StoredTodo> {
+  const todos = await listTodos()
+  const exact = todos.find((t) => t.id === ref)
+  if (exact) return exact
+
+  const lower = ref.toLowerCase()
+  let matches = todos.filter(
+    (t) => t.id.toLowerCase().startsWith(lower) || t.title.toLowerCase() === lower
   )
-  return todos.filter((t): t is StoredTodo => t !== undefined)
+  // Past occurrences of a recurring todo share its title, so prefer open todos
+  if (matches.length > 1) {
+    const open = matches.filter((t) => t.state !== "done" && t.state !== "cancelled")
+    if (open.length > 0) matches = open
+  }
+  if (matches.length === 0) {
+    throw new Error(`Todo not found: ${ref}`)
+  }
+  if (matches.length > 1) {
+    throw new Error(`"${ref}" matches ${matches.length} todos; use the ID instead`)
+  }
+  return matches[0]!
+}
+
+/**
+ * Print the result of a todo tool call, as JSON (the stored todo) or as a
+ * status line. Sets a non-zero exit code when the tool reports an error.
+ */
+async function reportResult(result: ToolResult, json: boolean): Promise<void> {
+  if (result.title === "Error") {
+    console.error(`\x1b[31m✗\x1b[0m  ${result.output}`)
+    process.exitCode = 1
+    return
+  }
+
+  if (json) {
+    const todo = await Storage.read<StoredTodo>(["todos", result.metadata?.todoId as string])
+    console.log(JSON.stringify(todo, null, 2))
+    return
+  }
+
+  const [summary, ...rest] = result.output.split("\n")
+  console.log(`\x1b[32m✓\x1b[0m  ${summary}`)
+  for (const line of rest) {
+    console.log(`   \x1b[90m${line}${RESET}`)
+  }
 }
 
 /**
  * Display todos in human-readable format
  */
-function displayTodos(todos: StoredTodo[]): void {
+function displayTodos(todos: StoredTodo[], hiddenDeferred: number = 0): void {
+  const hiddenNote = `${hiddenDeferred} deferred todo${hiddenDeferred === 1 ? "" : "s"} hidden (use --all to show)`
+
   if (todos.length === 0) {
     console.log("\x1b[90mNo todos found.\x1b[0m")
+    if (hiddenDeferred > 0) {
+      console.log(`\x1b[90m${hiddenNote}${RESET}`)
+      return
+    }
     console.log("")
     console.log("Create todos using the chat interface or by running:")
     console.log("  \x1b[36mdadgpt \"Add a todo to finish the report\"\x1b[0m")
@@ -151,11 +223,17 @@ function displayTodos(todos: StoredTodo[]): void {
       `  ${statusColor}${statusIcon}${RESET} ${priorityBadge} ${todo.title}`
     )
 
-    // Details line: due date and tags
+    // Details line: due date, deferral, recurrence, and tags
     const details: string[] = []
     if (dueDisplay) {
       details.push(dueDisplay)
     }
+    if (todo.state === "deferred" && todo.deferredUntil) {
+      details.push(`\x1b[90mDeferred until ${todo.deferredUntil}${RESET}`)
+    }
+    if (todo.recurrence) {
+      details.push(`\x1b[35m↻ ${describeRecurrence(todo.recurrence)}${RESET}`)
+    }
     if (todo.tags.length > 0) {
       details.push(`\x1b[36m[${todo.tags.join(", ")}]${RESET}`)
     }
@@ -166,17 +244,31 @@ function displayTodos(todos: StoredTodo[]): void {
 
   console.log("")
   console.log(`\x1b[90mTotal: ${todos.length} todo${todos.length === 1 ? "" : "s"}${RESET}`)
+  if (hiddenDeferred > 0) {
+    console.log(`\x1b[90m${hiddenNote}${RESET}`)
+  }
 }
 
 /**
  * Todos command definition.
  */
 export const todosCommand: CommandModule<GlobalOptions, TodosOptions> = {
-  command: "todos",
-  describe: "List and view todos",
+  command: "todos [action] [text..]",
+  describe: "List, add, and complete todos",
 
   builder: (yargs) =>
     yargs
+      .positional("action", {
+        type: "string",
+        description: "Action to perform",
+        choices: ["list", "add", "done"] as const,
+        default: "list" as const,
+      })
+      .positional("text", {
+        type: "string",
+        array: true,
+        description: "Title (for add) or the ID, ID prefix, or title of a todo (for done)",
+      })
       .option("status", {
         alias: "s",
         type: "string",
@@ -186,13 +278,28 @@ export const todosCommand: CommandModule<GlobalOptions, TodosOptions> = {
       .option("priority", {
         alias: "p",
         type: "string",
-        description: "Filter by priority (low, medium, high)",
+        description: "Filter by priority, or set it when adding (low, medium, high)",
         choices: ["low", "medium", "high"] as const,
       })
       .option("tag", {
         alias: "t",
         type: "string",
-        description: "Filter by tag",
+        array: true,
+        description: "Filter by tag, or tag a new todo (repeatable)",
+      })
+      .option("due", {
+        type: "string",
+        description: "Due date when adding (YYYY-MM-DD)",
+      })
+      .option("recurs", {
+        type: "string",
+        description: "Recurrence when adding (daily, weekly, monthly, or an RRULE)",
+      })
+      .option("all", {
+        alias: "a",
+        type: "boolean",
+        description: "Include deferred todos that have not woken up yet",
+        default: false,
       })
       .option("json", {
         type: "boolean",
@@ -201,33 +308,70 @@ export const todosCommand: CommandModule<GlobalOptions, TodosOptions> = {
       }),
 
   handler: async (argv) => {
-    try {
-      // Load all todos
-      let todos = await listTodos()
+    if (argv.action !== "list") {
+      const text = argv.text?.join(" ").trim()
+      if (!text) {
+        const usage = argv.action === "add" ? "<title>" : "<id or title>"
+        console.error(`\x1b[31m✗\x1b[0m  Missing argument: dadgpt todos ${argv.action} ${usage}`)
+        process.exit(1)
+      }
 
-      // Apply status filter
-      if (argv.status) {
-        todos = todos.filter((t) => t.state === argv.status)
+      try {
+        const result =
+          argv.action === "add"
+            ? await TodoTool.execute(
+                {
+                  action: "create",
+                  title: text,
+                  priority: argv.priority,
+                  dueDate: argv.due,
+                  recurrence: argv.recurs,
+                  tags: argv.tag,
+                },
+                CLI_CONTEXT
+              )
+            : await TodoTool.execute(
+                { action: "complete", id: (await resolveTodo(text)).id },
+                CLI_CONTEXT
+              )
+        await reportResult(result, argv.json)
+      } catch (err) {
+        Log.formatAndLogError(`Failed to ${argv.action === "add" ? "add" : "complete"} todo`, err)
+        process.exit(1)
       }
+      return
+    }
+
+    try {
+      // Load todos, leaving the status filter to the storage backend
+      let todos = await listTodos({ state: argv.status })
 
       // Apply priority filter
       if (argv.priority) {
         todos = todos.filter((t) => t.priority === argv.priority)
       }
 
-      // Apply tag filter (case-insensitive)
-      if (argv.tag) {
-        const tagLower = argv.tag.toLowerCase()
+      // Apply tag filter (case-insensitive, any of the given tags)
+      if (argv.tag && argv.tag.length > 0) {
+        const tagsLower = argv.tag.map((tag) => tag.toLowerCase())
         todos = todos.filter((t) =>
-          t.tags.some((tag) => tag.toLowerCase() === tagLower)
+          t.tags.some((tag) => tagsLower.includes(tag.toLowerCase()))
         )
       }
 
+      // Hide deferred todos until they wake up, unless asked for
+      let hiddenDeferred = 0
+      if (!argv.all && argv.status !== "deferred") {
+        const visible = todos.filter((t) => t.state !== "deferred")
+        hiddenDeferred = todos.length - visible.length
+        todos = visible
+      }
+
       // Output
       if (argv.json) {
         console.log(JSON.stringify(todos, null, 2))
       } else {
-        displayTodos(todos)
+        displayTodos(todos, hiddenDeferred)
       }
     } catch (err) {
       Log.formatAndLogError("Failed to load todos", err)
@@ -0,0 +1,180 @@
+/**
+ * Trash command - List, restore, and purge deleted goals, projects and todos.
+ *
+ * Deleted records stay in the trash for the configured number of days
+ * (trashRetentionDays, 30 by default) before they are purged for good.
+ * Records deleted along with another one are restored and purged with it.
+ */
+
+import type { CommandModule } from "yargs"
+import type { GlobalOptions } from "../index"
+import { Trash, type TrashEntry } from "../../trash/trash"
+import type { RecordKind } from "../../integrity/integrity"
+import { Config } from "../../config/config"
+import { Log } from "../../util/log"
+
+/**
+ * Actions supported by the trash command
+ */
+type TrashAction = "list" | "restore" | "purge" | "empty"
+
+/**
+ * Options specific to the trash command.
+ */
+export interface TrashOptions extends GlobalOptions {
+  /** Action to perform */
+  action: TrashAction
+  /** ID of the deleted record */
+  id?: string
+  /** Only list this kind of record */
+  kind?: RecordKind
+  /** Output as JSON */
+  json: boolean
+}
+
+const RESET = "\x1b[0m"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Section headings for each kind of record, in display order
+ */
+const KIND_LABELS: Record<RecordKind, string> = {
+  goal: "Goals",
+  project: "Projects",
+  todo: "Todos",
+}
+
+/**
+ * Display trash entries grouped by kind
+ */
+function displayEntries(entries: TrashEntry[], retentionDays: number): void {
+  if (entries.length === 0) {
+    console.log("\x1b[90mThe trash is empty.\x1b[0m")
+    return
+  }
+
+  const titles = new Map(entries.map((e) => [e.id, e.title]))
+
+  for (const kind of Object.keys(KIND_LABELS) as RecordKind[]) {
+    const kindEntries = entries.filter((e) => e.kind === kind)
+    if (kindEntries.length === 0) continue
+
+    console.log("")
+    console.log(`\x1b[1m${KIND_LABELS[kind]}\x1b[0m`)
+    console.log("\x1b[90m" + "─".repeat(40) + RESET)
+
+    for (const entry of kindEntries) {
+      const details = [`deleted ${new Date(entry.deletedAt).toISOString().slice(0, 10)}`]
+      if (entry.deletedWith) {
+        details.push(`with "${titles.get(entry.deletedWith) ?? entry.deletedWith}"`)
+      }
+      if (retentionDays > 0) {
+        const daysLeft = Math.max(0, Math.ceil((entry.deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS))
+        details.push(`purged in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`)
+      }
+      console.log(`  \x1b[36m${entry.id}\x1b[0m ${entry.title}`)
+      console.log(`    \x1b[90m${details.join(" · ")}${RESET}`)
+    }
+  }
+
+  console.log("")
+  console.log(`\x1b[90mTotal: ${entries.length} deleted record${entries.length === 1 ? "" : "s"}${RESET}`)
+  console.log("\x1b[90mRestore one with: dadgpt trash restore <id>\x1b[0m")
+}
+
+/**
+ * Names of the records restored or purged along with the requested one
+ */
+function alongWith(entries: TrashEntry[]): string {
+  const others = entries.slice(1)
+  if (others.length === 0) return ""
+  return ` along with ${others.length} record${others.length === 1 ? "" : "s"} deleted with it`
+}
+
+/**
+ * Trash command definition.
+ */
+export const trashCommand: CommandModule<GlobalOptions, TrashOptions> = {
+  command: "trash [action] [id]",
+  describe: "List, restore, or purge deleted goals, projects and todos",
+
+  builder: (yargs) =>
+    yargs
+      .positional("action", {
+        type: "string",
+        description: "Action to perform",
+        choices: ["list", "restore", "purge", "empty"] as const,
+        default: "list" as const,
+      })
+      .positional("id", {
+        type: "string",
+        description: "ID of the deleted record (for restore and purge)",
+      })
+      .option("kind", {
+        alias: "k",
+        type: "string",
+        description: "Only list this kind of record",
+        choices: ["goal", "project", "todo"] as const,
+      })
+      .option("json", {
+        type: "boolean",
+        description: "Output the trash as JSON",
+        default: false,
+      }),
+
+  handler: async (argv) => {
+    try {
+      if (argv.action === "list") {
+        const entries = await Trash.list(argv.kind)
+        if (argv.json) {
+          console.log(JSON.stringify(entries, null, 2))
+        } else {
+          const { trashRetentionDays } = await Config.get()
+          displayEntries(entries, trashRetentionDays)
+        }
+        return
+      }
+
+      if (argv.action === "empty") {
+        const entries = await Trash.list()
+        for (const entry of entries) {
+          await Trash.purge(entry.id)
+        }
+        console.log(
+          `\x1b[32m✓\x1b[0m  Permanently deleted ${entries.length} record${entries.length === 1 ? "" : "s"}`
+        )
+        return
+      }
+
+      if (!argv.id) {
+        console.error(`\x1b[31m✗\x1b[0m  An ID is required: dadgpt trash ${argv.action} <id>`)
+        process.exit(1)
+      }
+
+      const entry = await Trash.get(argv.id)
+      if (!entry) {
+        throw new Error(`Not found in trash: ${argv.id}`)
+      }
+
+      if (argv.action === "restore") {
+        const problem = await Trash.restoreProblem(entry)
+        if (problem) {
+          throw new Error(problem)
+        }
+        const restored = (await Trash.restore(entry.id)) ?? []
+        console.log(`\x1b[32m✓\x1b[0m  Restored ${entry.kind} "${entry.title}"${alongWith(restored)}`)
+      } else {
+        const purged = (await Trash.purge(entry.id)) ?? []
+        console.log(`\x1b[32m✓\x1b[0m  Permanently deleted ${entry.kind} "${entry.title}"${alongWith(purged)}`)
+      }
+    } catch (err) {
+      Log.formatAndLogError(`Failed to ${argv.action} trash`, err)
+      if (argv.json && argv.action === "list") {
+        // Output empty array for JSON mode to maintain parseable output
+        console.log("[]")
+      }
+      process.exit(1)
+    }
+  },
+}
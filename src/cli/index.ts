@@ -3,7 +3,8 @@
  *
  * This module sets up the main CLI interface for DadGPT with:
  * - Global options: --debug, --model, --provider
- * - Middleware for logging initialization
+ * - Middleware for logging initialization, unlocking encrypted data,
+ *   waking deferred todos, and rolling up goal progress
  * - Command registration for all subcommands
  */
 
@@ -11,11 +12,29 @@ import yargs from "yargs"
 import { hideBin } from "yargs/helpers"
 import { Log, type LogLevel } from "../util/log"
 import { runCommand } from "./commands/run"
+import { askCommand } from "./commands/ask"
 import { initCommand } from "./commands/init"
 import { authCommand } from "./commands/auth"
 import { goalsCommand } from "./commands/goals"
 import { todosCommand } from "./commands/todos"
+import { projectsCommand } from "./commands/projects"
+import { familyCommand } from "./commands/family"
+import { syncCommand } from "./commands/sync"
+import { doctorCommand } from "./commands/doctor"
+import { trashCommand } from "./commands/trash"
+import { storageCommand } from "./commands/storage"
+import { migrateCommand } from "./commands/migrate"
+import { backupCommand } from "./commands/backup"
+import { restoreCommand } from "./commands/restore"
+import { encryptCommand, decryptCommand, unlockData } from "./commands/encrypt"
+import { sessionsCommand } from "./commands/sessions"
 import { Storage } from "../storage/storage"
+import { wakeDeferredTodos } from "../tool/todo"
+import { GoalProgress } from "../goal/progress"
+import { Trash } from "../trash/trash"
+import { Migration } from "../migration/migration"
+import { Backup } from "../backup/backup"
+import { Config } from "../config/config"
 
 /**
  * Global CLI options available to all commands.
@@ -66,6 +85,14 @@ export function buildCli() {
         Log.debug("Debug logging enabled")
         Log.debug("CLI args:", argv)
 
+        // Ask for the passphrase of encrypted data before anything reads it
+        try {
+          await unlockData()
+        } catch (err) {
+          Log.formatAndLogError("Failed to unlock encrypted data", err)
+          process.exit(1)
+        }
+
         // Ensure the ~/.dadgpt/data directory exists on startup
         // This prevents errors when the directory doesn't exist yet
         try {
@@ -75,6 +102,60 @@ export function buildCli() {
           // Non-fatal: continue even if we can't create the directory
           // Commands that need it will fail with a more specific error
         }
+
+        // Take the scheduled backup, before migrations change anything
+        try {
+          const { backup } = await Config.get()
+          const { created, pruned } = await Backup.runScheduled(backup)
+          if (created) {
+            Log.debug(`Created scheduled backup ${created}`)
+          }
+          if (pruned.length > 0) {
+            Log.debug(`Deleted ${pruned.length} old scheduled backup(s)`)
+          }
+        } catch (err) {
+          Log.warn("Failed to take scheduled backup:", err instanceof Error ? err.message : err)
+        }
+
+        // Upgrade records written by older versions, unless the migrate
+        // command is about to report what would change
+        if (argv._[0] !== "migrate") {
+          try {
+            const { upgrades, invalid } = await Migration.run()
+            for (const upgrade of upgrades) {
+              Log.debug(`Migrated ${upgrade.collection} from schema v${upgrade.from} to v${upgrade.to}`)
+            }
+            if (invalid.length > 0) {
+              Log.warn(`${invalid.length} stored record(s) don't match the schema; run \`dadgpt migrate --dry-run\` for details`)
+            }
+          } catch (err) {
+            Log.warn("Failed to migrate stored data:", err instanceof Error ? err.message : err)
+          }
+        }
+
+        // Return deferred todos whose date has arrived to pending
+        try {
+          const woken = await wakeDeferredTodos()
+          if (woken.length > 0) {
+            Log.debug(`Woke ${woken.length} deferred todo(s)`)
+          }
+        } catch (err) {
+          Log.debug("Failed to wake deferred todos:", err)
+        }
+
+        // Permanently delete records that have been in the trash too long
+        try {
+          const { trashRetentionDays } = await Config.get()
+          const purged = await Trash.purgeExpired(trashRetentionDays)
+          if (purged.length > 0) {
+            Log.debug(`Purged ${purged.length} expired trash entr${purged.length === 1 ? "y" : "ies"}`)
+          }
+        } catch (err) {
+          Log.debug("Failed to purge expired trash:", err)
+        }
+
+        // Keep goals in auto progress mode up to date as todos and projects change
+        GoalProgress.init()
       })
 
       // Help configuration
@@ -85,10 +166,23 @@ export function buildCli() {
 
       // Register commands
       .command(runCommand)
+      .command(askCommand)
       .command(initCommand)
       .command(authCommand)
       .command(goalsCommand)
       .command(todosCommand)
+      .command(projectsCommand)
+      .command(familyCommand)
+      .command(syncCommand)
+      .command(doctorCommand)
+      .command(trashCommand)
+      .command(storageCommand)
+      .command(migrateCommand)
+      .command(backupCommand)
+      .command(restoreCommand)
+      .command(encryptCommand)
+      .command(decryptCommand)
+      .command(sessionsCommand)
 
       // Strict mode - fail on unknown commands/options
       .strict()
@@ -1,10 +1,11 @@
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
-import * as os from "node:os"
 import { ConfigSchema, type Config as ConfigType } from "./schema"
 import { DEFAULT_CONFIG } from "./defaults"
 import { Log } from "../util/log"
 import { ConfigError } from "../util/errors"
+import { Encryption } from "../encryption/encryption"
+import { getHome } from "../storage/paths"
 
 export type { ConfigType as Config }
 
@@ -13,8 +14,7 @@ export type { ConfigType as Config }
  * Can be overridden with DADGPT_HOME environment variable.
  */
 function getConfigPath(): string {
-  const home = process.env.DADGPT_HOME ?? path.join(os.homedir(), ".dadgpt")
-  return path.join(home, "config.json")
+  return path.join(getHome(), "config.json")
 }
 
 /** Project-level config filename */
@@ -68,7 +68,8 @@ export namespace Config {
 
   /**
    * Save configuration to the global config file (~/.dadgpt/config.json).
-   * Merges with existing global config.
+   * Merges with existing global config, and encrypts the file when
+   * encryption is enabled.
    * @throws ConfigError if configuration cannot be saved
    */
   export async function save(config: Partial<ConfigType>): Promise<void> {
@@ -80,7 +81,7 @@ export namespace Config {
 
       // Ensure directory exists
       await fs.mkdir(path.dirname(configPath), { recursive: true })
-      await fs.writeFile(configPath, JSON.stringify(updated, null, 2), "utf-8")
+      await writeGlobalConfig(configPath, updated)
       invalidate()
     } catch (err) {
       Log.formatAndLogError("Failed to save configuration", err)
@@ -90,37 +91,75 @@ export namespace Config {
       )
     }
   }
+
+  /**
+   * Rewrite the global config file with the current encryption setting.
+   * @param options.plaintext - Write it in plain JSON
+   * @returns false if there is no global config file
+   */
+  export async function reencrypt(options: { plaintext?: boolean } = {}): Promise<boolean> {
+    const configPath = getConfigPath()
+    const content = await readGlobalConfig(configPath)
+    if (content === undefined) return false
+
+    await writeGlobalConfig(configPath, content, options)
+    invalidate()
+    return true
+  }
 }
 
 /**
- * Load global config from ~/.dadgpt/config.json.
- * Handles missing files, empty files, and invalid JSON gracefully.
+ * Write the global config file, sealing it when encryption is enabled
  */
-async function loadGlobalConfig(): Promise<Partial<ConfigType>> {
-  try {
-    const configPath = getConfigPath()
-    const content = await fs.readFile(configPath, "utf-8")
-
-    // Handle empty file gracefully
-    const trimmed = content.trim()
-    if (!trimmed) {
-      Log.debug("Global config file is empty, using defaults")
-      return {}
-    }
+async function writeGlobalConfig(
+  configPath: string,
+  config: Partial<ConfigType>,
+  options: { plaintext?: boolean } = {}
+): Promise<void> {
+  const codec = await Encryption.codec(options)
+  await fs.writeFile(configPath, JSON.stringify(codec.protect(config), null, 2), "utf-8")
+}
 
-    try {
-      return JSON.parse(trimmed) as Partial<ConfigType>
-    } catch (parseErr) {
-      // Invalid JSON - log warning and use defaults
-      Log.warn(
-        `Invalid JSON in config file ${configPath}, using defaults: ${parseErr instanceof Error ? parseErr.message : String(parseErr)}`
-      )
-      return {}
-    }
+/**
+ * Read the global config file, opening it if it is encrypted.
+ * @returns The parsed config, or undefined if the file doesn't exist
+ * @throws StorageError with code ENCRYPTION_LOCKED if it is encrypted and locked
+ */
+async function readGlobalConfig(configPath: string): Promise<Partial<ConfigType> | undefined> {
+  let content: string
+  try {
+    content = await fs.readFile(configPath, "utf-8")
   } catch {
     // File doesn't exist or can't be read - this is fine, use defaults
+    return undefined
+  }
+
+  // Handle empty file gracefully
+  const trimmed = content.trim()
+  if (!trimmed) {
+    Log.debug("Global config file is empty, using defaults")
     return {}
   }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(trimmed)
+  } catch (parseErr) {
+    // Invalid JSON - log warning and use defaults
+    Log.warn(
+      `Invalid JSON in config file ${configPath}, using defaults: ${parseErr instanceof Error ? parseErr.message : String(parseErr)}`
+    )
+    return {}
+  }
+  return (await Encryption.codec()).reveal<Partial<ConfigType>>(parsed)
+}
+
+/**
+ * Load global config from ~/.dadgpt/config.json.
+ * Handles missing files, empty files, and invalid JSON gracefully.
+ */
+async function loadGlobalConfig(): Promise<Partial<ConfigType>> {
+  return (await readGlobalConfig(getConfigPath())) ?? {}
 }
 
 /**
@@ -15,4 +15,10 @@ export const DEFAULT_CONFIG: Config = {
   },
   goalCategories: ["Health", "Family", "Work", "Personal", "Finance"],
   family: [],
+  trashRetentionDays: 30,
+  backup: {
+    enabled: true,
+    intervalHours: 24,
+    keep: 7,
+  },
 }
@@ -31,6 +31,14 @@ export const FamilyMemberSchema = z.object({
   notes: z.string().optional(),
 })
 
+export const BackupConfigSchema = z.object({
+  // Take a backup at startup once the newest scheduled one is this old
+  enabled: z.boolean().default(true),
+  intervalHours: z.number().positive().default(24),
+  // Number of scheduled backups kept; older ones are deleted
+  keep: z.number().int().min(1).default(7),
+})
+
 export const ConfigSchema = z.object({
   // Provider settings
   providers: z.record(ProviderConfigSchema).default({}),
@@ -54,6 +62,12 @@ export const ConfigSchema = z.object({
 
   // Family members (for family tool)
   family: z.array(FamilyMemberSchema).default([]),
+
+  // Days deleted goals, projects and todos stay in the trash (0 keeps them forever)
+  trashRetentionDays: z.number().int().min(0).default(30),
+
+  // Scheduled local backups in ~/.dadgpt/backups
+  backup: BackupConfigSchema.default({}),
 })
 
 // Exported types
@@ -62,3 +76,4 @@ export type ProviderConfig = z.infer<typeof ProviderConfigSchema>
 export type FamilyMember = z.infer<typeof FamilyMemberSchema>
 export type ModelConfig = z.infer<typeof ModelConfigSchema>
 export type PermissionRuleset = z.infer<typeof PermissionRulesetSchema>
+export type BackupConfig = z.infer<typeof BackupConfigSchema>
@@ -0,0 +1,291 @@
+/**
+ * Encryption at rest for stored records and the global config.
+ *
+ * A key is derived from the user's passphrase with scrypt; the salt and
+ * cost parameters live in an `encryption.key` file in the data directory,
+ * along with a sealed check value that tells a wrong passphrase apart from
+ * a right one. The passphrase itself is never stored. Each record is
+ * sealed on its own with AES-256-GCM and stored as an envelope object, so
+ * both storage backends keep working unchanged, and records still in plain
+ * JSON (from before encryption was turned on) remain readable.
+ */
+
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from "node:crypto"
+import { StorageError } from "../util/errors"
+import { getDataDir } from "../storage/paths"
+
+/** Key file name inside the data directory (not .json, so it isn't listed as a record) */
+export const KEY_FILE = "encryption.key"
+
+const CIPHER = "aes-256-gcm"
+const KEY_LENGTH = 32
+const IV_LENGTH = 12
+
+/** scrypt cost for new key files: about 100ms on a laptop */
+const SCRYPT_COST = { N: 2 ** 15, r: 8, p: 1 }
+
+/** Plaintext sealed into the key file to check passphrases against */
+const CHECK_VALUE = "dadgpt"
+
+/**
+ * A sealed value, stored in place of the plain record
+ */
+export interface Envelope {
+  $encrypted: typeof CIPHER
+  iv: string
+  tag: string
+  data: string
+}
+
+/**
+ * Contents of the key file
+ */
+export interface KeyFile {
+  version: 1
+  kdf: "scrypt"
+  N: number
+  r: number
+  p: number
+  salt: string
+  check: Envelope
+}
+
+/**
+ * Seals and opens values with the current key
+ */
+export interface Codec {
+  /** Whether new writes are sealed */
+  enabled: boolean
+  /** Seal a value if encryption is enabled; otherwise return it unchanged */
+  protect(value: unknown): unknown
+  /** Open a sealed value; plain values are returned unchanged */
+  reveal<T>(value: unknown): T
+}
+
+/** Key file and unlocked key for the current data directory */
+let state: { dataDir: string; keyFile: KeyFile | null; key: Buffer | null } | null = null
+
+/**
+ * Load the key file for the current data directory, reloading it when the
+ * data directory changes
+ */
+async function loadState(): Promise<NonNullable<typeof state>> {
+  const dataDir = getDataDir()
+  if (state?.dataDir === dataDir) return state
+
+  let keyFile: KeyFile | null = null
+  try {
+    keyFile = JSON.parse(await fs.readFile(path.join(dataDir, KEY_FILE), "utf-8")) as KeyFile
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new StorageError(
+        `Cannot read the encryption key file in ${dataDir}: ${err instanceof Error ? err.message : String(err)}`,
+        "ENCRYPTION_KEY_FILE"
+      )
+    }
+  }
+  state = { dataDir, keyFile, key: null }
+  return state
+}
+
+function deriveKey(passphrase: string, keyFile: Omit<KeyFile, "check">): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: keyFile.N,
+    r: keyFile.r,
+    p: keyFile.p,
+    maxmem: 256 * keyFile.N * keyFile.r,
+  }
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, Buffer.from(keyFile.salt, "base64"), KEY_LENGTH, options, (err, key) =>
+      err ? reject(err) : resolve(key)
+    )
+  })
+}
+
+function seal(key: Buffer, value: unknown): Envelope {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(CIPHER, key, iv)
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf-8"), cipher.final()])
+  return {
+    $encrypted: CIPHER,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  }
+}
+
+/**
+ * @throws Error if the key is wrong or the envelope was tampered with
+ */
+function open<T>(key: Buffer, envelope: Envelope): T {
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, "base64"))
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"))
+  const data = Buffer.concat([decipher.update(Buffer.from(envelope.data, "base64")), decipher.final()])
+  return JSON.parse(data.toString("utf-8")) as T
+}
+
+/**
+ * Derive the key for a key file and check it against the sealed check value
+ * @throws StorageError with code ENCRYPTION_WRONG_PASSPHRASE
+ */
+async function unlockKeyFile(keyFile: KeyFile, passphrase: string): Promise<Buffer> {
+  const key = await deriveKey(passphrase, keyFile)
+  try {
+    if (open<string>(key, keyFile.check) === CHECK_VALUE) return key
+  } catch {
+    // Authentication failed: wrong key
+  }
+  throw new StorageError("Wrong passphrase", "ENCRYPTION_WRONG_PASSPHRASE")
+}
+
+function lockedError(): StorageError {
+  return new StorageError(
+    "The data is encrypted and locked. Enter the passphrase when DadGPT starts, or set DADGPT_PASSPHRASE.",
+    "ENCRYPTION_LOCKED"
+  )
+}
+
+/**
+ * Encryption namespace for the passphrase, the key file, and sealing values.
+ */
+export namespace Encryption {
+  /**
+   * Check whether a stored value is sealed
+   */
+  export function isEnvelope(value: unknown): value is Envelope {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      (value as { $encrypted?: unknown }).$encrypted === CIPHER &&
+      typeof (value as Envelope).data === "string"
+    )
+  }
+
+  /**
+   * Whether the data directory has encryption turned on.
+   */
+  export async function isEnabled(): Promise<boolean> {
+    return (await loadState()).keyFile !== null
+  }
+
+  /**
+   * Whether the key has been derived from the passphrase in this process.
+   */
+  export async function isUnlocked(): Promise<boolean> {
+    return (await loadState()).key !== null
+  }
+
+  /**
+   * Derive the key from the passphrase and keep it for this process.
+   * @throws StorageError if encryption is off or the passphrase is wrong
+   */
+  export async function unlock(passphrase: string): Promise<void> {
+    const current = await loadState()
+    if (!current.keyFile) {
+      throw new StorageError("Encryption is not enabled for this data directory", "ENCRYPTION_DISABLED")
+    }
+    current.key = await unlockKeyFile(current.keyFile, passphrase)
+  }
+
+  /**
+   * Forget the key (and the key file, which is read again on next use).
+   */
+  export function lock(): void {
+    state = null
+  }
+
+  /**
+   * Turn encryption on: write a key file for a passphrase and unlock it.
+   * Existing records stay readable; rewrite them to seal them.
+   * @throws StorageError if encryption is already enabled
+   */
+  export async function enable(passphrase: string): Promise<void> {
+    const current = await loadState()
+    if (current.keyFile) {
+      throw new StorageError("Encryption is already enabled for this data directory", "ENCRYPTION_ENABLED")
+    }
+
+    const params = { version: 1 as const, kdf: "scrypt" as const, ...SCRYPT_COST, salt: randomBytes(16).toString("base64") }
+    const key = await deriveKey(passphrase, params)
+    const keyFile: KeyFile = { ...params, check: seal(key, CHECK_VALUE) }
+
+    await fs.mkdir(current.dataDir, { recursive: true })
+    const keyPath = path.join(current.dataDir, KEY_FILE)
+    await fs.writeFile(`${keyPath}.tmp`, JSON.stringify(keyFile, null, 2), { encoding: "utf-8", mode: 0o600 })
+    await fs.rename(`${keyPath}.tmp`, keyPath)
+    current.keyFile = keyFile
+    current.key = key
+  }
+
+  /**
+   * Turn encryption off by deleting the key file. Every record must have
+   * been rewritten in plain JSON first, or it can no longer be read.
+   * @throws StorageError if the data is locked
+   */
+  export async function disable(): Promise<void> {
+    const current = await loadState()
+    if (!current.keyFile) return
+    if (!current.key) throw lockedError()
+
+    await fs.rm(path.join(current.dataDir, KEY_FILE), { force: true })
+    state = null
+  }
+
+  /**
+   * Codec for the current data directory.
+   * @param options.plaintext - Write plain values even though encryption is
+   *   enabled, while turning it off
+   */
+  export async function codec(options: { plaintext?: boolean } = {}): Promise<Codec> {
+    const { keyFile, key } = await loadState()
+    const enabled = keyFile !== null && !options.plaintext
+
+    return {
+      enabled,
+      protect(value) {
+        if (!enabled) return value
+        if (!key) throw lockedError()
+        return seal(key, value)
+      },
+      reveal<T>(value: unknown): T {
+        if (!isEnvelope(value)) return value as T
+        if (!key) throw lockedError()
+        return open<T>(key, value)
+      },
+    }
+  }
+
+  /**
+   * The key file, for storing alongside sealed data (in a backup, say).
+   */
+  export async function keyFile(): Promise<KeyFile | null> {
+    return (await loadState()).keyFile
+  }
+
+  /**
+   * Codec that opens values sealed under another key file, such as the one
+   * saved in a backup. Uses the unlocked key when it is the same key file.
+   * @param passphrase - Passphrase for the key file, if it isn't the current one
+   * @throws StorageError with code ENCRYPTION_LOCKED if a passphrase is needed,
+   *   or ENCRYPTION_WRONG_PASSPHRASE if it is wrong
+   */
+  export async function codecFor(other: KeyFile, passphrase?: string): Promise<Codec> {
+    const current = await loadState()
+    let key: Buffer
+    if (current.key && current.keyFile?.salt === other.salt) {
+      key = current.key
+    } else if (passphrase !== undefined) {
+      key = await unlockKeyFile(other, passphrase)
+    } else {
+      throw new StorageError("The passphrase the data was encrypted with is needed", "ENCRYPTION_LOCKED")
+    }
+
+    return {
+      enabled: true,
+      protect: (value) => seal(key, value),
+      reveal: <T>(value: unknown): T => (isEnvelope(value) ? open<T>(key, value) : (value as T)),
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { Config } from "../config/config"
+import { Bus } from "../bus/bus"
+import { createTimestampedId } from "../util/id"
+import { ConfigError } from "../util/errors"
+import type { FamilyMember } from "../config/schema"
+
+/**
+ * Fields that can be set when adding or updating a family member.
+ * An empty birthday or notes string clears the field on update.
+ */
+export interface FamilyMemberInput {
+  name?: string
+  relationship?: string
+  birthday?: string
+  notes?: string
+}
+
+/**
+ * A birthday coming up within the requested window.
+ */
+export interface UpcomingBirthday {
+  member: FamilyMember
+  /** Date of the next birthday (YYYY-MM-DD) */
+  date: string
+  /** Days from today, 0 meaning today */
+  daysUntil: number
+  /** Age on that birthday, when the birthday includes a year */
+  turning?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Local midnight of a date
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+function formatDate(date: Date): string {
+  const pad = (n: number): string => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Family namespace for managing family members in config.family.
+ * Shared by the family tool and the family command.
+ */
+export namespace Family {
+  /**
+   * Parse a birthday (MM-DD or YYYY-MM-DD).
+   * @returns The month, day, and year (when given), or null if invalid
+   */
+  export function parseBirthday(
+    dateStr: string
+  ): { year?: number; month: number; day: number } | null {
+    const match = dateStr.match(/^(?:(\d{4})-)?(\d{2})-(\d{2})$/)
+    if (!match) return null
+
+    const month = parseInt(match[2]!, 10)
+    const day = parseInt(match[3]!, 10)
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null
+
+    return {
+      ...(match[1] !== undefined && { year: parseInt(match[1], 10) }),
+      month,
+      day,
+    }
+  }
+
+  /**
+   * Age in whole years on a date, or undefined if the birthday has no year.
+   */
+  export function age(birthday: string, on: Date = new Date()): number | undefined {
+    const parsed = parseBirthday(birthday)
+    if (!parsed?.year) return undefined
+
+    const hadBirthday =
+      on.getMonth() + 1 > parsed.month ||
+      (on.getMonth() + 1 === parsed.month && on.getDate() >= parsed.day)
+    return on.getFullYear() - parsed.year - (hadBirthday ? 0 : 1)
+  }
+
+  /**
+   * Birthdays within the next `days` days (today included), soonest first.
+   */
+  export function upcoming(
+    members: FamilyMember[],
+    days: number,
+    now: Date = new Date()
+  ): UpcomingBirthday[] {
+    const today = startOfDay(now)
+    const result: UpcomingBirthday[] = []
+
+    for (const member of members) {
+      const parsed = member.birthday ? parseBirthday(member.birthday) : null
+      if (!parsed) continue
+
+      let next = new Date(today.getFullYear(), parsed.month - 1, parsed.day)
+      if (next < today) {
+        next = new Date(today.getFullYear() + 1, parsed.month - 1, parsed.day)
+      }
+
+      // Round to absorb daylight saving shifts
+      const daysUntil = Math.round((next.getTime() - today.getTime()) / DAY_MS)
+      if (daysUntil > days) continue
+
+      result.push({
+        member,
+        date: formatDate(next),
+        daysUntil,
+        ...(parsed.year !== undefined && { turning: next.getFullYear() - parsed.year }),
+      })
+    }
+
+    return result.sort((a, b) => a.daysUntil - b.daysUntil)
+  }
+
+  /**
+   * List all family members.
+   */
+  export async function list(): Promise<FamilyMember[]> {
+    return (await Config.get()).family
+  }
+
+  /**
+   * Add a family member and publish family.added.
+   * @throws ConfigError if name or relationship is missing or the birthday is invalid
+   */
+  export async function add(input: FamilyMemberInput): Promise<FamilyMember> {
+    if (!input.name) {
+      throw new ConfigError("Name is required to add a family member.", "INVALID_FAMILY_MEMBER")
+    }
+    if (!input.relationship) {
+      throw new ConfigError("Relationship is required to add a family member.", "INVALID_FAMILY_MEMBER")
+    }
+    if (input.birthday && !parseBirthday(input.birthday)) {
+      throw new ConfigError("Invalid birthday format. Use MM-DD or YYYY-MM-DD.", "INVALID_BIRTHDAY")
+    }
+
+    const member: FamilyMember = {
+      id: createTimestampedId("family"),
+      name: input.name,
+      relationship: input.relationship,
+      birthday: input.birthday || undefined,
+      notes: input.notes || undefined,
+    }
+
+    const config = await Config.get()
+    await Config.save({ family: [...config.family, member] })
+    Bus.publish("family.added", { memberId: member.id })
+
+    return member
+  }
+
+  /**
+   * Update a family member and publish family.updated.
+   * @returns The updated member and the fields that were given, or undefined if not found
+   * @throws ConfigError if the birthday is invalid
+   */
+  export async function update(
+    id: string,
+    input: FamilyMemberInput
+  ): Promise<{ member: FamilyMember; changes: Record<string, unknown> } | undefined> {
+    const config = await Config.get()
+    const index = config.family.findIndex((m) => m.id === id)
+    if (index === -1) return undefined
+
+    if (input.birthday && !parseBirthday(input.birthday)) {
+      throw new ConfigError("Invalid birthday format. Use MM-DD or YYYY-MM-DD.", "INVALID_BIRTHDAY")
+    }
+
+    const member = { ...config.family[index]! }
+    const changes: Record<string, unknown> = {}
+
+    if (input.name !== undefined) {
+      member.name = input.name
+      changes.name = input.name
+    }
+    if (input.relationship !== undefined) {
+      member.relationship = input.relationship
+      changes.relationship = input.relationship
+    }
+    if (input.birthday !== undefined) {
+      member.birthday = input.birthday || undefined
+      changes.birthday = input.birthday
+    }
+    if (input.notes !== undefined) {
+      member.notes = input.notes || undefined
+      changes.notes = input.notes
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { member, changes }
+    }
+
+    const family = [...config.family]
+    family[index] = member
+    await Config.save({ family })
+    Bus.publish("family.updated", { memberId: id, changes })
+
+    return { member, changes }
+  }
+
+  /**
+   * Remove a family member and publish family.removed.
+   * @returns The removed member, or undefined if not found
+   */
+  export async function remove(id: string): Promise<FamilyMember | undefined> {
+    const config = await Config.get()
+    const member = config.family.find((m) => m.id === id)
+    if (!member) return undefined
+
+    await Config.save({ family: config.family.filter((m) => m.id !== id) })
+    Bus.publish("family.removed", { memberId: id })
+
+    return member
+  }
+}
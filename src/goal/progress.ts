@@ -0,0 +1,145 @@
+import { Storage } from "../storage/storage"
+import { Bus, type EventName } from "../bus/bus"
+import { Log } from "../util/log"
+import type { GoalContext } from "../state/goal.machine"
+import type { StoredGoal } from "../tool/goal"
+import type { StoredTodo } from "../tool/todo"
+import { computeProjectProgress, type StoredProject } from "../tool/project"
+import { loadRecords } from "../migration/schema"
+
+/**
+ * Events after which a goal's linked work may have changed
+ */
+const TRIGGER_EVENTS: EventName[] = [
+  "todo.created",
+  "todo.updated",
+  "todo.completed",
+  "todo.deleted",
+  "todo.restored",
+  "project.created",
+  "project.updated",
+  "project.completed",
+  "project.deleted",
+  "project.restored",
+]
+
+/** Recalculations run one at a time so they never interleave writes */
+let queue: Promise<unknown> = Promise.resolve()
+
+/** Unsubscribe functions while listening to Bus events */
+let unsubscribers: Array<() => void> = []
+
+/**
+ * GoalProgress namespace for goals in automatic progress mode, whose
+ * progress is rolled up from their milestones, linked todos, and linked
+ * projects instead of being set by hand.
+ */
+export namespace GoalProgress {
+  /**
+   * Compute a goal's progress. Each milestone and linked todo counts as one
+   * unit of work; a linked project counts as one unit filled in by its own
+   * progress. Cancelled todos and projects are left out.
+   *
+   * @returns Progress from 0 to 100, or null if the goal has no work to measure
+   */
+  export function compute(
+    goal: GoalContext,
+    todos: StoredTodo[],
+    projects: StoredProject[]
+  ): number | null {
+    let done = goal.milestones.filter((m) => m.completed).length
+    let total = goal.milestones.length
+
+    for (const todo of todos) {
+      if (todo.goalId !== goal.id || todo.state === "cancelled") continue
+      total += 1
+      if (todo.state === "done") done += 1
+    }
+
+    for (const project of projects) {
+      if (project.goalId !== goal.id || project.state === "cancelled") continue
+      total += 1
+      if (project.state === "completed") {
+        done += 1
+      } else {
+        const projectTodos = todos.filter((t) => project.todoIds.includes(t.id))
+        done += computeProjectProgress(project, projectTodos).percent / 100
+      }
+    }
+
+    return total === 0 ? null : Math.round((done / total) * 100)
+  }
+
+  /**
+   * Recalculate goals in automatic mode and save any whose progress changed,
+   * publishing goal.updated for each. Completed and abandoned goals are left alone.
+   *
+   * @param goalId - Only recalculate this goal (all goals when omitted)
+   * @returns IDs of the goals whose progress changed
+   */
+  export function recalculate(goalId?: string): Promise<string[]> {
+    const run = queue.then(async () => {
+      const goals = goalId
+        ? [await Storage.read<StoredGoal>(["goals", goalId])].filter(
+            (g): g is StoredGoal => g !== undefined
+          )
+        : await loadRecords("goals")
+      const autoGoals = goals.filter(
+        (g) => g.progressMode === "auto" && g.state !== "completed" && g.state !== "abandoned"
+      )
+      if (autoGoals.length === 0) return []
+
+      const todos = await loadRecords("todos")
+      const projects = await loadRecords("projects")
+      const changed: string[] = []
+
+      for (const goal of autoGoals) {
+        const progress = compute(goal, todos, projects)
+        if (progress === null || progress === goal.progress) continue
+
+        // Only the progress is written, onto the goal as stored now
+        const saved = await Storage.updateExisting<StoredGoal>(["goals", goal.id], (current) =>
+          current.progressMode === "auto" ? { ...current, progress, updatedAt: Date.now() } : current
+        )
+        if (saved?.progress !== progress) continue
+        Bus.publish("goal.updated", { goalId: goal.id, changes: { progress } })
+        changed.push(goal.id)
+      }
+
+      return changed
+    })
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  /**
+   * Recalculate automatic goals whenever todos or projects change.
+   * Safe to call more than once.
+   */
+  export function init(): void {
+    if (unsubscribers.length > 0) return
+
+    unsubscribers = TRIGGER_EVENTS.map((event) =>
+      Bus.subscribe(event, () => {
+        recalculate().catch((err) => {
+          Log.debug("Failed to recalculate goal progress:", err)
+        })
+      })
+    )
+  }
+
+  /**
+   * Stop listening to Bus events.
+   */
+  export function dispose(): void {
+    for (const unsubscribe of unsubscribers) unsubscribe()
+    unsubscribers = []
+  }
+
+  /**
+   * Wait for queued recalculations to finish.
+   */
+  export async function settled(): Promise<void> {
+    await queue
+  }
+}
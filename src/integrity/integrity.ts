@@ -0,0 +1,444 @@
+/**
+ * Referential integrity between goals, projects, and todos.
+ *
+ * Todos point at a goal (goalId), a project (projectId), and the todos they
+ * wait on (blockedBy). Projects point at a goal (goalId) and list their
+ * todos (todoIds). Deleting a record applies a policy to the records that
+ * still reference it, and `check`/`repair` find and fix references left
+ * dangling by older versions or by edits made outside the tools.
+ */
+
+import { Storage } from "../storage/storage"
+import { Bus } from "../bus/bus"
+import { Trash, type DetachedRef } from "../trash/trash"
+import { applyTodoEvent } from "../state/todo.machine"
+import type { StoredGoal } from "../tool/goal"
+import type { StoredTodo } from "../tool/todo"
+import type { StoredProject } from "../tool/project"
+import { loadCollection } from "../migration/schema"
+
+/**
+ * What to do with records that reference a deleted record:
+ * - detach: clear the reference and keep the record
+ * - cascade: delete the records that belong to it as well
+ * - refuse: don't delete while anything references it
+ */
+export type DeletePolicy = "detach" | "cascade" | "refuse"
+
+/**
+ * Kind of record that can be deleted
+ */
+export type RecordKind = "goal" | "project" | "todo"
+
+/**
+ * Records changed or deleted because of a delete
+ */
+export interface Affected {
+  todos: StoredTodo[]
+  projects: StoredProject[]
+}
+
+/**
+ * A dangling or one-sided reference found by `Integrity.check`
+ */
+export interface IntegrityIssue {
+  /** Kind of record holding the reference */
+  entity: "todo" | "project"
+  id: string
+  /** Title of the todo or name of the project */
+  title: string
+  field: "goalId" | "projectId" | "blockedBy" | "todoIds" | "state"
+  /** The referenced ID, or the state for a stuck todo */
+  ref: string
+  /**
+   * - missing: the referenced record does not exist
+   * - unlinked: a todo names this project but is not in its todoIds
+   * - mismatched: a listed todo names a different project
+   * - stuck: a blocked todo has no open todo left to wait on
+   */
+  problem: "missing" | "unlinked" | "mismatched" | "stuck"
+  message: string
+}
+
+/**
+ * Everything integrity checks need, loaded from storage
+ */
+interface Graph {
+  goals: Map<string, StoredGoal>
+  todos: Map<string, StoredTodo>
+  projects: Map<string, StoredProject>
+}
+
+/**
+ * Blocker IDs of a todo, including the single free-text string older
+ * versions stored
+ */
+function blockersOf(todo: StoredTodo): string[] {
+  const blockedBy: unknown = todo.blockedBy
+  if (Array.isArray(blockedBy)) return blockedBy as string[]
+  return typeof blockedBy === "string" && blockedBy ? [blockedBy] : []
+}
+
+/**
+ * Whether any of a todo's blockers still exists and isn't done. Blockers
+ * that no longer exist do not hold a todo back.
+ */
+function isWaiting(blockedBy: string[], todos: Map<string, StoredTodo>): boolean {
+  return blockedBy.some((id) => {
+    const blocker = todos.get(id)
+    return blocker !== undefined && blocker.state !== "done"
+  })
+}
+
+/**
+ * Unblock a blocked todo that has nothing left to wait on
+ */
+function unblockIfFree(todo: StoredTodo, todos: Map<string, StoredTodo>): StoredTodo {
+  if (todo.state !== "blocked" || isWaiting(todo.blockedBy, todos)) return todo
+  return applyTodoEvent(todo, { type: "UNBLOCK" })
+}
+
+/**
+ * Load goals, todos, and projects keyed by ID
+ */
+async function loadGraph(): Promise<Graph> {
+  const [goals, todos, projects] = await Promise.all([
+    loadCollection("goals"),
+    loadCollection("todos"),
+    loadCollection("projects"),
+  ])
+  return {
+    goals: new Map(goals.map((g) => [g.id, g])),
+    todos: new Map(todos.map((t) => [t.id, { ...t, projectId: t.projectId ?? null, blockedBy: blockersOf(t) }])),
+    projects: new Map(projects.map((p) => [p.id, p])),
+  }
+}
+
+/**
+ * Records that reference a record directly
+ */
+function dependentsIn(graph: Graph, kind: RecordKind, id: string): Affected {
+  const todos = [...graph.todos.values()]
+  switch (kind) {
+    case "goal":
+      return {
+        todos: todos.filter((t) => t.goalId === id),
+        projects: [...graph.projects.values()].filter((p) => p.goalId === id),
+      }
+    case "project":
+      return { todos: todos.filter((t) => t.projectId === id), projects: [] }
+    case "todo":
+      return { todos: todos.filter((t) => t.blockedBy.includes(id)), projects: [] }
+  }
+}
+
+/**
+ * Pluralize a count, e.g. "1 todo" or "2 todos"
+ */
+function count(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? "" : "s"}`
+}
+
+/**
+ * Integrity namespace for delete policies and reference repair.
+ * Used by the goal, project, and todo tools and by the doctor command.
+ */
+export namespace Integrity {
+  /**
+   * Records that reference a record: todos and projects of a goal, todos of
+   * a project, or todos blocked by a todo.
+   */
+  export async function dependents(kind: RecordKind, id: string): Promise<Affected> {
+    return dependentsIn(await loadGraph(), kind, id)
+  }
+
+  /**
+   * Clean up after a record has been moved to the trash. With "detach",
+   * references to it are cleared. With "cascade", the records that belong
+   * to it (a goal's projects and todos, a project's todos, or the todos
+   * blocked by a todo) are moved to the trash too, and references to any of
+   * them are cleared. Cleared references are noted on the trash entries so
+   * a restore can put them back. Blocked todos left with nothing to wait on
+   * are unblocked. Publishes todo/project updated, deleted, and unblocked
+   * events.
+   *
+   * @returns The records that were changed or deleted, and the todos unblocked
+   */
+  export async function release(
+    kind: RecordKind,
+    id: string,
+    policy: Exclude<DeletePolicy, "refuse">
+  ): Promise<{ detached: Affected; deleted: Affected; unblocked: StoredTodo[] }> {
+    const graph = await loadGraph()
+    graph.goals.delete(id)
+    graph.projects.delete(id)
+    graph.todos.delete(id)
+
+    const deleted: Affected = { todos: [], projects: [] }
+    if (policy === "cascade") {
+      // Walk ownership: goal -> projects and todos, project -> todos,
+      // todo -> the todos it blocks
+      const queue: Array<[RecordKind, string]> = [[kind, id]]
+      while (queue.length > 0) {
+        const [currentKind, currentId] = queue.shift()!
+        const owned = dependentsIn(graph, currentKind, currentId)
+        for (const project of owned.projects) {
+          graph.projects.delete(project.id)
+          deleted.projects.push(project)
+          queue.push(["project", project.id])
+        }
+        for (const todo of owned.todos) {
+          if (!graph.todos.delete(todo.id)) continue
+          deleted.todos.push(todo)
+          if (kind === "todo") queue.push(["todo", todo.id])
+        }
+      }
+
+      for (const project of deleted.projects) {
+        await Trash.put("project", project, id)
+        Bus.publish("project.deleted", { projectId: project.id })
+      }
+      for (const todo of deleted.todos) {
+        await Trash.put("todo", todo, id)
+        Bus.publish("todo.deleted", { todoId: todo.id })
+      }
+    }
+
+    // Clear references to anything that no longer exists
+    const removedTodoIds = new Set([...(kind === "todo" ? [id] : []), ...deleted.todos.map((t) => t.id)])
+    const removedProjectIds = new Set([...(kind === "project" ? [id] : []), ...deleted.projects.map((p) => p.id)])
+    const removedGoalId = kind === "goal" ? id : null
+    const detached: Affected = { todos: [], projects: [] }
+    const unblocked: StoredTodo[] = []
+    const cleared = new Map<string, DetachedRef[]>()
+    const note = (removedId: string, ref: DetachedRef): void => {
+      cleared.set(removedId, [...(cleared.get(removedId) ?? []), ref])
+    }
+    const now = Date.now()
+
+    // Each record is changed as it is stored when its lock is held, so
+    // edits made meanwhile by another process are kept
+    for (const { id: todoId } of graph.todos.values()) {
+      let changes: Record<string, unknown> = {}
+      let wasBlocked = false
+      const updated = await Storage.updateExisting<StoredTodo>(["todos", todoId], (todo) => {
+        changes = {}
+        wasBlocked = todo.state === "blocked"
+        if (removedGoalId && todo.goalId === removedGoalId) {
+          changes.goalId = null
+          note(removedGoalId, { kind: "todo", id: todo.id, field: "goalId" })
+        }
+        if (todo.projectId && removedProjectIds.has(todo.projectId)) {
+          changes.projectId = null
+          note(todo.projectId, { kind: "todo", id: todo.id, field: "projectId" })
+        }
+        const blockers = blockersOf(todo)
+        const blockedBy = blockers.filter((b) => !removedTodoIds.has(b))
+        if (blockedBy.length !== blockers.length) changes.blockedBy = blockedBy
+        if (Object.keys(changes).length === 0) return todo
+        return unblockIfFree({ ...todo, blockedBy: blockers, ...changes, updatedAt: now }, graph.todos)
+      })
+      if (!updated || Object.keys(changes).length === 0) continue
+
+      Bus.publish("todo.updated", { todoId, changes })
+      detached.todos.push(updated)
+      if (wasBlocked && updated.state !== "blocked") {
+        Bus.publish("todo.unblocked", { todoId, blockedBy: updated.blockedBy })
+        unblocked.push(updated)
+      }
+    }
+
+    for (const { id: projectId } of graph.projects.values()) {
+      let changes: Record<string, unknown> = {}
+      const updated = await Storage.updateExisting<StoredProject>(["projects", projectId], (project) => {
+        changes = {}
+        if (removedGoalId && project.goalId === removedGoalId) {
+          changes.goalId = null
+          note(removedGoalId, { kind: "project", id: project.id, field: "goalId" })
+        }
+        const todoIds = project.todoIds.filter((t) => !removedTodoIds.has(t))
+        if (todoIds.length !== project.todoIds.length) {
+          changes.todoIds = todoIds
+          for (const todoId of project.todoIds.filter((t) => removedTodoIds.has(t))) {
+            note(todoId, { kind: "project", id: project.id, field: "todoIds" })
+          }
+        }
+        return Object.keys(changes).length === 0 ? project : { ...project, ...changes, updatedAt: now }
+      })
+      if (!updated || Object.keys(changes).length === 0) continue
+
+      Bus.publish("project.updated", { projectId, changes })
+      detached.projects.push(updated)
+    }
+
+    for (const [removedId, refs] of cleared) {
+      await Trash.noteDetached(removedId, refs)
+    }
+
+    return { detached, deleted, unblocked }
+  }
+
+  /**
+   * Summarize affected records, e.g. `2 todos ("Buy wood", "Buy nails") and 1 project ("Treehouse")`
+   */
+  export function summarize(affected: Affected): string {
+    const parts: string[] = []
+    if (affected.todos.length > 0) {
+      parts.push(`${count(affected.todos.length, "todo")} (${affected.todos.map((t) => `"${t.title}"`).join(", ")})`)
+    }
+    if (affected.projects.length > 0) {
+      parts.push(`${count(affected.projects.length, "project")} (${affected.projects.map((p) => `"${p.name}"`).join(", ")})`)
+    }
+    return parts.join(" and ")
+  }
+
+  /**
+   * Describe the result of `release` for tool output, one line per kind of change
+   */
+  export function describe(result: { detached: Affected; deleted: Affected; unblocked?: StoredTodo[] }): string {
+    const lines: string[] = []
+    if (result.deleted.todos.length + result.deleted.projects.length > 0) {
+      lines.push(`Also deleted ${summarize(result.deleted)}`)
+    }
+    if (result.detached.todos.length + result.detached.projects.length > 0) {
+      lines.push(`Detached ${summarize(result.detached)}`)
+    }
+    if (result.unblocked && result.unblocked.length > 0) {
+      lines.push(`Unblocked ${summarize({ todos: result.unblocked, projects: [] })}`)
+    }
+    return lines.map((line) => `\n${line}`).join("")
+  }
+
+  /**
+   * Find dangling and one-sided references across the storage tree.
+   */
+  export async function check(): Promise<IntegrityIssue[]> {
+    const graph = await loadGraph()
+    const issues: IntegrityIssue[] = []
+
+    for (const todo of graph.todos.values()) {
+      const issue = (field: IntegrityIssue["field"], ref: string, message: string): void => {
+        issues.push({ entity: "todo", id: todo.id, title: todo.title, field, ref, problem: "missing", message })
+      }
+      if (todo.goalId && !graph.goals.has(todo.goalId)) {
+        issue("goalId", todo.goalId, `goal ${todo.goalId} does not exist`)
+      }
+      if (todo.projectId && !graph.projects.has(todo.projectId)) {
+        issue("projectId", todo.projectId, `project ${todo.projectId} does not exist`)
+      }
+      for (const blocker of todo.blockedBy) {
+        if (!graph.todos.has(blocker)) {
+          issue("blockedBy", blocker, `blocking todo ${blocker} does not exist`)
+        }
+      }
+      if (todo.state === "blocked" && !isWaiting(todo.blockedBy, graph.todos)) {
+        issues.push({
+          entity: "todo",
+          id: todo.id,
+          title: todo.title,
+          field: "state",
+          ref: todo.state,
+          problem: "stuck",
+          message: "todo is blocked but has no open todo to wait on",
+        })
+      }
+    }
+
+    for (const project of graph.projects.values()) {
+      const issue = (
+        field: IntegrityIssue["field"],
+        ref: string,
+        problem: IntegrityIssue["problem"],
+        message: string
+      ): void => {
+        issues.push({ entity: "project", id: project.id, title: project.name, field, ref, problem, message })
+      }
+      if (project.goalId && !graph.goals.has(project.goalId)) {
+        issue("goalId", project.goalId, "missing", `goal ${project.goalId} does not exist`)
+      }
+      for (const todoId of project.todoIds) {
+        const todo = graph.todos.get(todoId)
+        if (!todo) {
+          issue("todoIds", todoId, "missing", `todo ${todoId} does not exist`)
+        } else if (todo.projectId !== project.id) {
+          issue("todoIds", todoId, "mismatched", `todo "${todo.title}" does not belong to this project`)
+        }
+      }
+      for (const todo of graph.todos.values()) {
+        if (todo.projectId === project.id && !project.todoIds.includes(todo.id)) {
+          issue("todoIds", todo.id, "unlinked", `todo "${todo.title}" is not in the project's todo list`)
+        }
+      }
+    }
+
+    return issues
+  }
+
+  /**
+   * Fix issues found by `check`: dangling goal and project IDs are cleared,
+   * missing or mismatched IDs are dropped from lists, unlinked todos are
+   * added to their project's todoIds, and blocked todos with nothing left to
+   * wait on are unblocked. Publishes todo/project updated and todo unblocked
+   * events.
+   *
+   * @returns The number of records written
+   */
+  export async function repair(issues: IntegrityIssue[]): Promise<number> {
+    const todoIssues = new Map<string, IntegrityIssue[]>()
+    const projectIssues = new Map<string, IntegrityIssue[]>()
+    for (const issue of issues) {
+      const byId = issue.entity === "todo" ? todoIssues : projectIssues
+      byId.set(issue.id, [...(byId.get(issue.id) ?? []), issue])
+    }
+
+    // Fixes are applied to each record as it is stored when its lock is held
+    const todos = todoIssues.size > 0 ? (await loadGraph()).todos : new Map<string, StoredTodo>()
+    const now = Date.now()
+    let written = 0
+    for (const [todoId, fixes] of todoIssues) {
+      let changes: Partial<StoredTodo> = {}
+      let wasBlocked = false
+      const updated = await Storage.updateExisting<StoredTodo>(["todos", todoId], (todo) => {
+        changes = {}
+        wasBlocked = todo.state === "blocked"
+        for (const issue of fixes) {
+          if (issue.field === "blockedBy") {
+            changes.blockedBy = (changes.blockedBy ?? blockersOf(todo)).filter((b) => b !== issue.ref)
+          } else if (issue.field === "goalId" || issue.field === "projectId") {
+            changes[issue.field] = null
+          }
+        }
+        return unblockIfFree({ ...todo, blockedBy: blockersOf(todo), ...changes, updatedAt: now }, todos)
+      })
+      if (!updated) continue
+      Bus.publish("todo.updated", { todoId, changes })
+      if (wasBlocked && updated.state !== "blocked") {
+        Bus.publish("todo.unblocked", { todoId, blockedBy: updated.blockedBy })
+      }
+      written++
+    }
+    for (const [projectId, fixes] of projectIssues) {
+      let changes: Partial<StoredProject> = {}
+      const updated = await Storage.updateExisting<StoredProject>(["projects", projectId], (project) => {
+        changes = {}
+        for (const issue of fixes) {
+          if (issue.field === "goalId") {
+            changes.goalId = null
+          } else if (issue.field === "todoIds") {
+            const todoIds = changes.todoIds ?? project.todoIds
+            changes.todoIds =
+              issue.problem === "unlinked"
+                ? todoIds.includes(issue.ref) ? todoIds : [...todoIds, issue.ref]
+                : todoIds.filter((t) => t !== issue.ref)
+          }
+        }
+        return { ...project, ...changes, updatedAt: now }
+      })
+      if (!updated) continue
+      Bus.publish("project.updated", { projectId, changes })
+      written++
+    }
+
+    return written
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Schema versions and migrations for stored goals, todos, and projects.
+ *
+ * Each collection has a schema version, kept in the meta/schema record.
+ * At startup the migrations registered after a collection's version are
+ * run over its records, including the copies in the trash, and the
+ * version is moved up, so older data directories keep working as fields
+ * are added. The tools validate records against the current schema when
+ * they load them.
+ */
+
+import { Storage } from "../storage/storage"
+import { StorageError } from "../util/errors"
+import { Trash } from "../trash/trash"
+import type { RecordKind } from "../integrity/integrity"
+import { COLLECTIONS, recordProblems, type Collection } from "./schema"
+import { MIGRATIONS, type Migration as MigrationStep, type MigrationContext, type RawRecord } from "./migrations"
+
+/**
+ * Storage key of the record holding each collection's schema version
+ */
+const SCHEMA_KEY = ["meta", "schema"]
+
+/**
+ * Stored schema versions. Collections missing from it are at version 0.
+ */
+interface SchemaVersions {
+  versions: Partial<Record<Collection, number>>
+  updatedAt: number
+}
+
+/**
+ * Kind of trash entry holding each collection's records
+ */
+const TRASH_KIND: Record<Collection, RecordKind> = {
+  goals: "goal",
+  todos: "todo",
+  projects: "project",
+}
+
+/**
+ * Schema version of a collection and the migrations it still needs
+ */
+export interface CollectionStatus {
+  collection: Collection
+  /** Version the stored records are at */
+  version: number
+  /** Version this release of DadGPT writes */
+  current: number
+  pending: MigrationStep[]
+}
+
+/**
+ * Migrations run (or that would run) on one collection
+ */
+export interface CollectionUpgrade {
+  collection: Collection
+  from: number
+  to: number
+  /** Descriptions of the migrations, in order */
+  steps: string[]
+  /** Number of records, live or in the trash, that changed */
+  upgraded: number
+}
+
+/**
+ * A record that still doesn't match the current schema after migrating
+ */
+export interface InvalidRecord {
+  collection: Collection
+  id: string
+  problems: string[]
+}
+
+/**
+ * Outcome of running the pending migrations
+ */
+export interface MigrationReport {
+  upgrades: CollectionUpgrade[]
+  invalid: InvalidRecord[]
+}
+
+/**
+ * Run a record through a list of migrations
+ */
+function applySteps(record: RawRecord, steps: MigrationStep[], context: MigrationContext): RawRecord {
+  return steps.reduce((current, step) => step.up(current, context), record)
+}
+
+/**
+ * Migration namespace for upgrading stored records to the current schema.
+ */
+export namespace Migration {
+  /**
+   * Schema version this release writes for a collection: the version of
+   * its last registered migration, or 0 if it has none.
+   */
+  export function currentVersion(collection: Collection): number {
+    return MIGRATIONS.filter((m) => m.collection === collection).reduce(
+      (latest, m) => Math.max(latest, m.version),
+      0
+    )
+  }
+
+  /**
+   * Stored schema version of every collection, with its pending migrations.
+   */
+  export async function status(): Promise<CollectionStatus[]> {
+    const stored = await Storage.read<SchemaVersions>(SCHEMA_KEY)
+    return COLLECTIONS.map((collection) => {
+      const version = stored?.versions[collection] ?? 0
+      return {
+        collection,
+        version,
+        current: currentVersion(collection),
+        pending: MIGRATIONS.filter((m) => m.collection === collection && m.version > version).sort(
+          (a, b) => a.version - b.version
+        ),
+      }
+    })
+  }
+
+  /**
+   * Run the pending migrations over every collection that needs them, then
+   * record the new schema versions. Records that still don't match the
+   * schema afterwards are reported but left in place.
+   * @param options.dryRun - Only report what would change
+   * @throws StorageError with code STORAGE_SCHEMA_TOO_NEW if the data was
+   *   written by a newer version of DadGPT
+   */
+  export async function run(options: { dryRun?: boolean } = {}): Promise<MigrationReport> {
+    const report: MigrationReport = { upgrades: [], invalid: [] }
+
+    for (const { collection, version, current, pending } of await status()) {
+      if (version > current) {
+        throw new StorageError(
+          `The ${collection} were written by a newer version of DadGPT (schema version ${version}, this version supports ${current})`,
+          "STORAGE_SCHEMA_TOO_NEW"
+        )
+      }
+      if (pending.length === 0) continue
+
+      const ids = await Storage.list([collection])
+      const trashed = await Trash.list(TRASH_KIND[collection])
+      const context: MigrationContext = { ids: new Set([...ids, ...trashed.map((entry) => entry.record.id)]) }
+
+      let upgraded = 0
+      const upgrade = (id: string, record: RawRecord): RawRecord | undefined => {
+        const next = applySteps(record, pending, context)
+        const problems = recordProblems(collection, next)
+        if (problems.length > 0) report.invalid.push({ collection, id, problems })
+        if (JSON.stringify(next) === JSON.stringify(record)) return undefined
+        upgraded++
+        return next
+      }
+
+      for (const id of ids) {
+        let record: RawRecord | undefined
+        try {
+          record = await Storage.read<RawRecord>([collection, id])
+        } catch (err) {
+          // Corrupt records have already been moved to the quarantine
+          report.invalid.push({ collection, id, problems: [err instanceof Error ? err.message : String(err)] })
+          continue
+        }
+        const next = record && upgrade(id, record)
+        if (next && !options.dryRun) await Storage.write([collection, id], next)
+      }
+
+      for (const entry of trashed) {
+        const next = upgrade(entry.id, entry.record as unknown as RawRecord)
+        if (next && !options.dryRun) {
+          await Storage.write(["trash", entry.id], { ...entry, record: next })
+        }
+      }
+
+      report.upgrades.push({
+        collection,
+        from: version,
+        to: current,
+        steps: pending.map((m) => m.description),
+        upgraded,
+      })
+
+      if (!options.dryRun) {
+        await Storage.update<SchemaVersions>(SCHEMA_KEY, (prev) => ({
+          versions: { ...prev?.versions, [collection]: current },
+          updatedAt: Date.now(),
+        }))
+      }
+    }
+
+    return report
+  }
+}
@@ -0,0 +1,78 @@
+import type { Collection } from "./schema"
+
+/**
+ * A stored record before it has been upgraded and validated
+ */
+export type RawRecord = Record<string, unknown>
+
+/**
+ * What a migration can see besides the record it upgrades
+ */
+export interface MigrationContext {
+  /** IDs of every record in the collection, live or in the trash */
+  ids: ReadonlySet<string>
+}
+
+/**
+ * One step in a collection's schema history
+ */
+export interface Migration {
+  collection: Collection
+  /** Schema version the collection is at once this migration has run */
+  version: number
+  description: string
+  /**
+   * Upgrade a record from the previous version. Must return a record that
+   * already has the new shape unchanged, since records created after the
+   * collection's version was recorded can pass through it again.
+   */
+  up: (record: RawRecord, context: MigrationContext) => RawRecord
+}
+
+/**
+ * Every migration, in order. Add new migrations at the end of their
+ * collection with the next version number; never edit or remove one that
+ * has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    collection: "goals",
+    version: 1,
+    description: "Add progressMode, defaulting to manual",
+    up: (goal) => ({ ...goal, progressMode: goal.progressMode ?? "manual" }),
+  },
+  {
+    collection: "todos",
+    version: 1,
+    description: "Turn the free-text blockedBy into a list of todo IDs, moving other text to the description",
+    up: (todo, { ids }) => {
+      if (Array.isArray(todo.blockedBy)) return todo
+      const text = typeof todo.blockedBy === "string" ? todo.blockedBy.trim() : ""
+      if (!text || ids.has(text)) return { ...todo, blockedBy: text ? [text] : [] }
+
+      const description = typeof todo.description === "string" ? todo.description.trim() : ""
+      const note = `Blocked by: ${text}`
+      return { ...todo, blockedBy: [], description: description ? `${description}\n\n${note}` : note }
+    },
+  },
+  {
+    collection: "todos",
+    version: 2,
+    description: "Move the wake-up date of deferred todos from dueDate to deferredUntil",
+    up: (todo) => ({
+      ...todo,
+      deferredUntil: todo.deferredUntil ?? (todo.state === "deferred" ? todo.dueDate ?? null : null),
+    }),
+  },
+  {
+    collection: "todos",
+    version: 3,
+    description: "Add recurrence, projectId and startedAt, defaulting to null",
+    up: (todo) => ({
+      ...todo,
+      recurrence: todo.recurrence ?? null,
+      projectId: todo.projectId ?? null,
+      startedAt: todo.startedAt ?? null,
+    }),
+  },
+]
@@ -0,0 +1,181 @@
+import { z } from "zod"
+import { StorageError } from "../util/errors"
+import { Storage, type RecordQuery } from "../storage/storage"
+import { Log } from "../util/log"
+import type { StoredGoal } from "../tool/goal"
+import type { StoredTodo } from "../tool/todo"
+import type { StoredProject } from "../tool/project"
+
+/**
+ * Schemas of the records in each versioned collection, at the current
+ * schema version. Records written by older versions are upgraded by the
+ * migrations in ./migrations before they are expected to match.
+ *
+ * Unknown fields are kept, so a record written by a newer version of
+ * DadGPT isn't stripped when an older one saves it.
+ */
+
+export const GoalRecordSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    category: z.string(),
+    description: z.string(),
+    progress: z.number().min(0).max(100),
+    progressMode: z.enum(["manual", "auto"]),
+    milestones: z.array(
+      z.object({ id: z.string(), title: z.string(), completed: z.boolean() }).passthrough()
+    ),
+    dueDate: z.string().nullable(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    state: z.enum(["not_started", "in_progress", "paused", "completed", "abandoned"]),
+  })
+  .passthrough()
+
+export const TodoRecordSchema = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string(),
+    priority: z.enum(["low", "medium", "high"]),
+    dueDate: z.string().nullable(),
+    deferredUntil: z.string().nullable(),
+    recurrence: z.string().nullable(),
+    tags: z.array(z.string()),
+    goalId: z.string().nullable(),
+    projectId: z.string().nullable(),
+    blockedBy: z.array(z.string()),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    startedAt: z.number().nullable(),
+    completedAt: z.number().nullable(),
+    state: z.enum(["pending", "in_progress", "blocked", "deferred", "done", "cancelled"]),
+  })
+  .passthrough()
+
+export const ProjectRecordSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    status: z.string(),
+    budget: z.number().nullable(),
+    milestones: z.array(
+      z
+        .object({
+          id: z.string(),
+          title: z.string(),
+          completed: z.boolean(),
+          dueDate: z.string().nullable(),
+        })
+        .passthrough()
+    ),
+    todoIds: z.array(z.string()),
+    goalId: z.string().nullable(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    state: z.enum(["planning", "active", "on_hold", "completed", "cancelled"]),
+  })
+  .passthrough()
+
+/**
+ * Collections whose records have a versioned schema
+ */
+export type Collection = "goals" | "todos" | "projects"
+
+/**
+ * Record type stored in each collection
+ */
+export interface CollectionRecord {
+  goals: StoredGoal
+  todos: StoredTodo
+  projects: StoredProject
+}
+
+export const COLLECTIONS: Collection[] = ["goals", "projects", "todos"]
+
+const RECORD_SCHEMAS: Record<Collection, z.ZodTypeAny> = {
+  goals: GoalRecordSchema,
+  todos: TodoRecordSchema,
+  projects: ProjectRecordSchema,
+}
+
+/**
+ * Check a record against its collection's schema.
+ * @returns A description of each problem found, empty if the record is valid
+ */
+export function recordProblems(collection: Collection, data: unknown): string[] {
+  const result = RECORD_SCHEMAS[collection].safeParse(data)
+  if (result.success) return []
+  return result.error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+  )
+}
+
+/**
+ * Name a record for messages by its key, e.g. "todos/todo_123"
+ */
+function recordName(collection: Collection, data: unknown): string {
+  const id = (data as { id?: unknown } | null)?.id
+  return typeof id === "string" ? `${collection}/${id}` : `record in ${collection}`
+}
+
+/**
+ * Validate a record read from a collection.
+ * @throws StorageError with code STORAGE_INVALID_RECORD if it doesn't match the schema
+ */
+export function parseRecord<C extends Collection>(collection: C, data: unknown): CollectionRecord[C] {
+  const problems = recordProblems(collection, data)
+  if (problems.length > 0) {
+    throw new StorageError(
+      `Invalid ${recordName(collection, data)}: ${problems.join("; ")}. Run \`dadgpt migrate --dry-run\` to check the data directory.`,
+      "STORAGE_INVALID_RECORD"
+    )
+  }
+  return data as CollectionRecord[C]
+}
+
+/**
+ * Validate the records of a list or scan, leaving out any that don't match
+ * the schema with a warning, so one bad record doesn't hide all the others.
+ * Reads of a single record use parseRecord and fail instead.
+ */
+export function validRecords<C extends Collection>(collection: C, records: unknown[]): Array<CollectionRecord[C]> {
+  const valid: Array<CollectionRecord[C]> = []
+  for (const record of records) {
+    const problems = recordProblems(collection, record)
+    if (problems.length === 0) {
+      valid.push(record as CollectionRecord[C])
+      continue
+    }
+    Log.warn(
+      `Skipping invalid ${recordName(collection, record)}: ${problems.join("; ")}. ` +
+        "Run `dadgpt doctor` or `dadgpt migrate --dry-run` to check the data directory."
+    )
+  }
+  return valid
+}
+
+/**
+ * Load every record of a collection matching a filter, as stored.
+ * Corrupt records are quarantined and left out, so one unreadable file
+ * doesn't stop a scan of the whole collection.
+ */
+export async function loadCollection<C extends Collection>(
+  collection: C,
+  filter: RecordQuery = {}
+): Promise<Array<CollectionRecord[C]>> {
+  return Storage.query<CollectionRecord[C]>([collection], filter)
+}
+
+/**
+ * Load the valid records of a collection matching a filter.
+ * Corrupt and invalid records are left out, as for loadCollection and validRecords.
+ */
+export async function loadRecords<C extends Collection>(
+  collection: C,
+  filter: RecordQuery = {}
+): Promise<Array<CollectionRecord[C]>> {
+  return validRecords(collection, await Storage.query<unknown>([collection], filter))
+}
@@ -1,9 +1,12 @@
 /**
- * Parser for dadgpt.md files.
+ * Parser and serializer for dadgpt.md files.
  *
- * Extracts goals, todos, family members, and projects from markdown format.
+ * Extracts goals, todos, family members, and projects from markdown format,
+ * and writes them back out in the same format.
  */
 
+import { normalizeRecurrence } from "../util/recurrence"
+
 /**
  * Parsed goal from markdown.
  */
@@ -24,6 +27,8 @@ export interface ParsedTodo {
   priority?: "low" | "medium" | "high"
   tags?: string[]
   dueDate?: string
+  /** Normalized recurrence rule, e.g. "weekly" or "FREQ=WEEKLY;BYDAY=TU" */
+  recurrence?: string
   description?: string
 }
 
@@ -283,6 +288,14 @@ function parseTodoLine(
     if (key === "due" || key === "duedate") {
       return { metadata: { dueDate: value } }
     }
+    if (key === "recurs" || key === "recurrence") {
+      try {
+        return { metadata: { recurrence: normalizeRecurrence(value) } }
+      } catch {
+        // Ignore recurrence rules we cannot schedule
+        return {}
+      }
+    }
     if (key === "description") {
       return { metadata: { description: value } }
     }
@@ -300,7 +313,7 @@ function parseFamilyLine(
 ): { newItem?: ParsedFamilyMember; metadata?: Partial<ParsedFamilyMember> } {
   // Check for family member header: - **Relationship**: Name or ### Name
   // Pattern 1: - **Relationship**: Name
-  const memberMatch = line.match(/^-\s*\*\*(\w+)\*\*:\s*(.+)$/)
+  const memberMatch = line.match(/^-\s*\*\*([^*]+)\*\*:\s*(.+)$/)
   if (memberMatch) {
     const relationship = memberMatch[1]?.trim() ?? ""
     let name = memberMatch[2]?.trim() ?? ""
@@ -409,3 +422,170 @@ function parseProjectLine(
 
   return {}
 }
+
+/**
+ * Section keys in the order they are written
+ */
+const SECTION_ORDER = ["goals", "todos", "family", "projects"] as const
+
+type SectionKey = (typeof SECTION_ORDER)[number]
+
+/**
+ * Heading written for each section
+ */
+const SECTION_HEADINGS: Record<SectionKey, string> = {
+  goals: "## Goals",
+  todos: "## Todos",
+  family: "## Family",
+  projects: "## Projects",
+}
+
+/**
+ * Match a "## ..." heading line to a known section.
+ * Uses the same patterns as parseDadGPTMd.
+ */
+function matchSection(line: string): SectionKey | null {
+  const trimmed = line.trim()
+  if (trimmed.match(/^##\s+Goals?$/i)) return "goals"
+  if (trimmed.match(/^##\s+Todos?$/i)) return "todos"
+  if (trimmed.match(/^##\s+Family$/i)) return "family"
+  if (trimmed.match(/^##\s+Projects?$/i)) return "projects"
+  return null
+}
+
+/**
+ * Collapse a value onto a single line so it fits a "- Key: Value" line
+ */
+function singleLine(value: string): string {
+  return value.replace(/\s*\n\s*/g, " ").trim()
+}
+
+/**
+ * Format a checkbox line
+ */
+function checkbox(completed: boolean, title: string): string {
+  return `- [${completed ? "x" : " "}] ${singleLine(title)}`
+}
+
+/**
+ * Render the body lines of a section
+ */
+function renderSection(key: SectionKey, data: ParsedDadGPTMd): string[] {
+  const blocks: string[][] = []
+
+  if (key === "goals") {
+    for (const goal of data.goals) {
+      const block = [checkbox(goal.completed, goal.title)]
+      if (goal.category) block.push(`  - Category: ${singleLine(goal.category)}`)
+      if (goal.dueDate) block.push(`  - Due: ${goal.dueDate}`)
+      if (goal.description) block.push(`  - Description: ${singleLine(goal.description)}`)
+      blocks.push(block)
+    }
+  } else if (key === "todos") {
+    for (const todo of data.todos) {
+      const block = [checkbox(todo.completed, todo.title)]
+      if (todo.priority) block.push(`  - Priority: ${todo.priority}`)
+      if (todo.tags && todo.tags.length > 0) block.push(`  - Tags: ${todo.tags.join(", ")}`)
+      if (todo.dueDate) block.push(`  - Due: ${todo.dueDate}`)
+      if (todo.recurrence) block.push(`  - Recurs: ${todo.recurrence}`)
+      if (todo.description) block.push(`  - Description: ${singleLine(todo.description)}`)
+      blocks.push(block)
+    }
+  } else if (key === "family") {
+    for (const member of data.family) {
+      // Members without a known relationship round-trip through the "### Name" form
+      const hasRelationship = member.relationship && member.relationship !== "Unknown"
+      const indent = hasRelationship ? "  " : ""
+      const block = [
+        hasRelationship
+          ? `- **${singleLine(member.relationship)}**: ${singleLine(member.name)}`
+          : `### ${singleLine(member.name)}`,
+      ]
+      if (member.birthday) block.push(`${indent}- Birthday: ${member.birthday}`)
+      if (member.notes) block.push(`${indent}- Notes: ${singleLine(member.notes)}`)
+      blocks.push(block)
+    }
+  } else {
+    for (const project of data.projects) {
+      const block = [`### ${singleLine(project.name)}`]
+      if (project.status) block.push(`- Status: ${project.status}`)
+      if (project.goal) block.push(`- Goal: ${singleLine(project.goal)}`)
+      if (project.description) block.push(`- Description: ${singleLine(project.description)}`)
+      if (project.milestones.length > 0) {
+        block.push("- Milestones:")
+        for (const milestone of project.milestones) {
+          block.push(`  ${checkbox(milestone.completed, milestone.title)}`)
+        }
+      }
+      blocks.push(block)
+    }
+  }
+
+  const lines: string[] = []
+  for (const block of blocks) {
+    lines.push(...block, "")
+  }
+  return lines
+}
+
+/**
+ * Leave at most one blank line at the end of the output before a
+ * regenerated section. Blank lines elsewhere are the user's and are kept.
+ */
+function dropExtraBlankLines(output: string[]): void {
+  while (output.length >= 2 && output[output.length - 1] === "" && output[output.length - 2] === "") {
+    output.pop()
+  }
+}
+
+/**
+ * Serialize structured data into dadgpt.md content.
+ * This is the inverse of parseDadGPTMd: parsing the output yields the input.
+ *
+ * When existing content is given, the Goals, Todos, Family, and Projects
+ * sections are regenerated in place while the title, intro text, and any
+ * other sections are kept as they are.
+ *
+ * @param data - The structured data to write
+ * @param existing - Optional current file content to merge into
+ * @returns Markdown content
+ */
+export function serializeDadGPTMd(data: ParsedDadGPTMd, existing?: string): string {
+  const base = existing ?? "# DadGPT\n"
+  const lines = base.replace(/\s+$/, "").split("\n")
+
+  const output: string[] = []
+  const written = new Set<SectionKey>()
+  let skipping = false
+
+  for (const line of lines) {
+    // A horizontal rule ends a regenerated section (e.g. the init template footer)
+    if (skipping && line.trim().match(/^(-{3,}|\*{3,})$/)) {
+      skipping = false
+    }
+    if (line.trim().match(/^##\s+/)) {
+      const key = matchSection(line)
+      skipping = key !== null
+      if (key && !written.has(key)) {
+        written.add(key)
+        dropExtraBlankLines(output)
+        output.push(SECTION_HEADINGS[key], "", ...renderSection(key, data))
+      }
+      if (skipping) continue
+    }
+    if (!skipping) {
+      output.push(line)
+    }
+  }
+
+  // Append sections the existing content did not have
+  for (const key of SECTION_ORDER) {
+    if (written.has(key)) continue
+    if (output.length > 0 && output[output.length - 1] !== "") {
+      output.push("")
+    }
+    output.push(SECTION_HEADINGS[key], "", ...renderSection(key, data))
+  }
+
+  return output.join("\n").replace(/\s+$/, "") + "\n"
+}
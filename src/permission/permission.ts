@@ -6,6 +6,44 @@ import {
   evaluateRules,
 } from "./rules"
 
+/**
+ * User's answer to a permission prompt
+ * - once: allow this call only
+ * - always: allow this tool on this resource for the rest of the session
+ * - deny: reject this call
+ */
+export type PermissionReply = "once" | "always" | "deny"
+
+/**
+ * A tool call waiting on the user's approval
+ */
+export interface PermissionRequest {
+  /** Unique request ID */
+  id: string
+  /** Session the tool call belongs to */
+  sessionId: string
+  /** The tool identifier */
+  tool: string
+  /** Resource being accessed (e.g., file path), if any */
+  resource?: string
+  /** Arguments the model passed to the tool */
+  input: unknown
+}
+
+/**
+ * Tool calls the user chose to always allow, keyed by session ID.
+ * Each entry is a tool and resource pair (see approvalKey).
+ */
+const sessionApprovals = new Map<string, Set<string>>()
+
+/**
+ * Key for an approval: the tool together with the resource it was given
+ * for, so approving one write doesn't approve writes to every other path
+ */
+function approvalKey(tool: string, resource: string | undefined): string {
+  return resource === undefined ? tool : `${tool}:${resource}`
+}
+
 /**
  * Permission namespace for checking tool access permissions
  */
@@ -102,6 +140,39 @@ export namespace Permission {
     const decision = await check(tool, resource)
     return decision === "ask"
   }
+
+  /**
+   * Allow a tool on a resource for the rest of a session without asking again.
+   * Calls on other resources still ask.
+   *
+   * @param sessionId - The session the approval applies to
+   * @param tool - The tool identifier
+   * @param resource - The resource the approval applies to, if the tool has one
+   */
+  export function approve(sessionId: string, tool: string, resource?: string): void {
+    const approved = sessionApprovals.get(sessionId) ?? new Set<string>()
+    approved.add(approvalKey(tool, resource))
+    sessionApprovals.set(sessionId, approved)
+  }
+
+  /**
+   * Check if the user already chose to always allow a tool on a resource in a session
+   */
+  export function isApproved(sessionId: string, tool: string, resource?: string): boolean {
+    return sessionApprovals.get(sessionId)?.has(approvalKey(tool, resource)) ?? false
+  }
+
+  /**
+   * Forget "always allow" approvals for one session, or for all sessions.
+   * Useful for testing.
+   */
+  export function clearApprovals(sessionId?: string): void {
+    if (sessionId) {
+      sessionApprovals.delete(sessionId)
+    } else {
+      sessionApprovals.clear()
+    }
+  }
 }
 
 // Re-export types for convenience
@@ -1,4 +1,5 @@
 import type { PermissionRuleset } from "../config/schema"
+import { realPath, resolvePath } from "../util/path"
 
 /**
  * Permission decision result
@@ -42,32 +43,127 @@ export function matchesAnyPattern(tool: string, patterns: string[]): boolean {
   return patterns.some((pattern) => matchesPattern(tool, pattern))
 }
 
+/**
+ * Convert a path glob to a regular expression
+ * - "**" matches any number of directories
+ * - "*" matches anything except "/"
+ * - "?" matches a single character except "/"
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?"
+        i += 2
+      } else {
+        source += ".*"
+        i += 1
+      }
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Resolve a glob like a tool path, following symlinks in the part before
+ * the first wildcard so it compares against real paths
+ */
+function resolveGlob(glob: string): string {
+  const resolved = resolvePath(glob)
+  const wildcard = resolved.search(/[*?]/)
+  if (wildcard === -1) return realPath(resolved)
+
+  const slash = resolved.lastIndexOf("/", wildcard)
+  const base = realPath(resolved.slice(0, slash) || "/")
+  return `${base === "/" ? "" : base}${resolved.slice(slash)}`
+}
+
+/**
+ * Check if a file path matches a glob.
+ * The glob is resolved like a tool path ("~" expanded, relative to the
+ * current directory), so "~/notes/**" matches "/home/dad/notes/todo.md".
+ * Symlinks are followed on both sides, so a link inside ~/notes that
+ * points elsewhere is matched by where it points.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+  return globToRegExp(resolveGlob(glob)).test(realPath(filePath))
+}
+
+/**
+ * Check if a tool call matches a rule
+ * Rules can be:
+ * - Tool patterns: "write", "*", "file.*" (see matchesPattern)
+ * - Resource-scoped: "write:~/notes/**" matches write calls on paths under ~/notes
+ * - Negated resource: "read:!~/.ssh/**" matches read calls on paths outside ~/.ssh
+ *
+ * Resource-scoped rules never match calls without a resource.
+ */
+export function matchesRule(
+  tool: string,
+  resource: string | undefined,
+  rule: string
+): boolean {
+  const separator = rule.indexOf(":")
+  if (separator === -1) {
+    return matchesPattern(tool, rule)
+  }
+
+  if (!matchesPattern(tool, rule.slice(0, separator)) || resource === undefined) {
+    return false
+  }
+
+  const glob = rule.slice(separator + 1)
+  if (glob.startsWith("!")) {
+    return !matchesGlob(resource, glob.slice(1))
+  }
+  return matchesGlob(resource, glob)
+}
+
+/**
+ * Check if a tool call matches any rule in a list
+ */
+export function matchesAnyRule(
+  tool: string,
+  resource: string | undefined,
+  rules: string[]
+): boolean {
+  return rules.some((rule) => matchesRule(tool, resource, rule))
+}
+
 /**
  * Evaluate permission rules for a tool
  * Priority: deny > allow > ask
  *
  * @param tool - The tool identifier (e.g., "goal", "write", "bash")
- * @param resource - Optional resource being accessed (for future use)
+ * @param resource - Optional resource being accessed (resolved file path), matched by scoped rules
  * @param ruleset - The permission ruleset to evaluate against
  * @returns The permission decision
  */
 export function evaluateRules(
   tool: string,
-  _resource: string | undefined,
+  resource: string | undefined,
   ruleset: PermissionRuleset
 ): PermissionDecision {
   // Deny takes highest priority
-  if (matchesAnyPattern(tool, ruleset.deny)) {
+  if (matchesAnyRule(tool, resource, ruleset.deny)) {
     return "deny"
   }
 
   // Allow takes second priority
-  if (matchesAnyPattern(tool, ruleset.allow)) {
+  if (matchesAnyRule(tool, resource, ruleset.allow)) {
     return "allow"
   }
 
   // Ask takes third priority (default is to ask)
-  if (matchesAnyPattern(tool, ruleset.ask)) {
+  if (matchesAnyRule(tool, resource, ruleset.ask)) {
     return "ask"
   }
 
@@ -5,13 +5,14 @@
 export interface ModelInfo {
   id: string
   name: string
-  provider: "anthropic" | "openai"
+  provider: "anthropic" | "openai" | "openai-compatible"
   contextWindow: number
   maxOutput: number
 }
 
 /**
- * Registry of supported models with their metadata
+ * Registry of supported models with their metadata.
+ * Models discovered from OpenAI-compatible servers are added at runtime.
  */
 export const MODELS: Record<string, ModelInfo> = {
   "claude-sonnet-4-20250514": {
@@ -52,3 +53,26 @@ export const MODELS: Record<string, ModelInfo> = {
 export function getModelInfo(modelId: string): ModelInfo | undefined {
   return MODELS[modelId]
 }
+
+/**
+ * Add models to the registry (e.g., discovered from a local server).
+ * Built-in models are never replaced.
+ * @param models - The models to register
+ */
+export function registerModels(models: ModelInfo[]): void {
+  for (const model of models) {
+    if (!MODELS[model.id]) {
+      MODELS[model.id] = model
+    }
+  }
+}
+
+/**
+ * List registered models, optionally for a single provider
+ * @param provider - Optional provider ID to filter by
+ * @returns Array of model info objects
+ */
+export function listModels(provider?: string): ModelInfo[] {
+  const models = Object.values(MODELS)
+  return provider ? models.filter((m) => m.provider === provider) : models
+}
@@ -7,15 +7,25 @@ import { createOpenAI } from "@ai-sdk/openai"
 import type { LanguageModelV1 } from "ai"
 import { Config } from "../config/config"
 import { ProviderError } from "../util/errors"
+import { MODELS, registerModels, type ModelInfo } from "./models"
+import { Log } from "../util/log"
 
 /** Supported provider IDs */
-export type ProviderId = "anthropic" | "openai"
+export type ProviderId = "anthropic" | "openai" | "openai-compatible"
 
 /** Provider metadata */
 export interface ProviderInfo {
   id: ProviderId
   name: string
   envVar: string
+  /** Whether requests fail without an API key (local servers usually need none) */
+  requiresApiKey: boolean
+}
+
+/** A provider and model pair to chat with */
+export interface ModelSelection {
+  provider: string
+  model: string
 }
 
 /** Registry of available providers */
@@ -24,14 +34,42 @@ const PROVIDERS: Record<ProviderId, ProviderInfo> = {
     id: "anthropic",
     name: "Anthropic",
     envVar: "ANTHROPIC_API_KEY",
+    requiresApiKey: true,
   },
   openai: {
     id: "openai",
     name: "OpenAI",
     envVar: "OPENAI_API_KEY",
+    requiresApiKey: true,
+  },
+  "openai-compatible": {
+    id: "openai-compatible",
+    name: "OpenAI-compatible",
+    envVar: "OPENAI_COMPATIBLE_API_KEY",
+    requiresApiKey: false,
   },
 }
 
+/**
+ * Context window and output limits assumed for discovered models,
+ * since the /v1/models endpoint does not report them
+ */
+const DISCOVERED_CONTEXT_WINDOW = 8192
+const DISCOVERED_MAX_OUTPUT = 4096
+
+/** Timeout for model discovery requests, so an offline server does not block startup */
+const DISCOVERY_TIMEOUT_MS = 5000
+
+/** Model discovery in progress or done, so servers are only queried once per process */
+let discovery: Promise<void> | undefined
+
+/**
+ * Response body of an OpenAI-compatible /v1/models endpoint
+ */
+interface ModelsResponse {
+  data?: Array<{ id?: unknown }>
+}
+
 /**
  * Provider namespace for creating LLM model instances
  */
@@ -41,9 +79,12 @@ export namespace Provider {
    *
    * API keys are resolved in the following order:
    * 1. Config providers[providerId].apiKey
-   * 2. Environment variable (ANTHROPIC_API_KEY or OPENAI_API_KEY)
+   * 2. Environment variable (e.g., ANTHROPIC_API_KEY or OPENAI_API_KEY)
+   *
+   * The config baseURL is passed to the provider when set. The
+   * openai-compatible provider requires a baseURL and works without a key.
    *
-   * @param providerId - The provider ID ('anthropic' or 'openai')
+   * @param providerId - The provider ID ('anthropic', 'openai' or 'openai-compatible')
    * @param modelId - The model ID to use
    * @returns A LanguageModel instance ready for use with Vercel AI SDK
    * @throws ProviderError if provider is unsupported or API key is missing
@@ -65,8 +106,9 @@ export namespace Provider {
     const configApiKey = config.providers[providerId]?.apiKey
     const envApiKey = process.env[providerInfo.envVar]
     const apiKey = configApiKey ?? envApiKey
+    const baseURL = config.providers[providerId]?.baseURL
 
-    if (!apiKey) {
+    if (!apiKey && providerInfo.requiresApiKey) {
       throw new ProviderError(
         `Missing API key for ${providerInfo.name}. Set ${providerInfo.envVar} environment variable or configure in ~/.dadgpt/config.json`,
         "MISSING_API_KEY"
@@ -76,11 +118,27 @@ export namespace Provider {
     // Create provider instance with API key and return the model
     switch (providerId) {
       case "anthropic": {
-        const provider = createAnthropic({ apiKey })
+        const provider = createAnthropic({ apiKey, baseURL })
         return provider(modelId)
       }
       case "openai": {
-        const provider = createOpenAI({ apiKey })
+        const provider = createOpenAI({ apiKey, baseURL })
+        return provider(modelId)
+      }
+      case "openai-compatible": {
+        if (!baseURL) {
+          throw new ProviderError(
+            `Missing baseURL for ${providerInfo.name}. Set providers["openai-compatible"].baseURL in ~/.dadgpt/config.json (e.g., http://localhost:11434/v1)`,
+            "MISSING_BASE_URL"
+          )
+        }
+        const provider = createOpenAI({
+          name: "openai-compatible",
+          baseURL,
+          // Local servers usually ignore the key, but the SDK requires a string
+          apiKey: apiKey ?? "",
+          compatibility: "compatible",
+        })
         return provider(modelId)
       }
       default:
@@ -92,6 +150,151 @@ export namespace Provider {
     }
   }
 
+  /**
+   * Fetch the models served by an OpenAI-compatible server.
+   *
+   * Calls GET {baseURL}/models (e.g., http://localhost:11434/v1/models).
+   *
+   * @param baseURL - The server's API base URL, including /v1
+   * @param apiKey - Optional API key sent as a bearer token
+   * @returns The served models
+   * @throws ProviderError if the server cannot be reached or responds with an error
+   */
+  export async function discoverModels(
+    baseURL: string,
+    apiKey?: string
+  ): Promise<ModelInfo[]> {
+    const url = `${baseURL.replace(/\/+$/, "")}/models`
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+      })
+    } catch (err) {
+      throw new ProviderError(
+        `Failed to reach ${url}: ${err instanceof Error ? err.message : String(err)}`,
+        "DISCOVERY_FAILED"
+      )
+    }
+
+    if (!response.ok) {
+      throw new ProviderError(
+        `Failed to list models from ${url}: HTTP ${response.status}`,
+        "DISCOVERY_FAILED"
+      )
+    }
+
+    const body = (await response.json()) as ModelsResponse
+    return (body.data ?? [])
+      .map((entry) => entry.id)
+      .filter((id): id is string => typeof id === "string" && id.length > 0)
+      .map((id) => ({
+        id,
+        name: id,
+        provider: "openai-compatible" as const,
+        contextWindow: DISCOVERED_CONTEXT_WINDOW,
+        maxOutput: DISCOVERED_MAX_OUTPUT,
+      }))
+  }
+
+  /**
+   * Register models from the configured OpenAI-compatible server, if any.
+   *
+   * Runs discovery once per process. Failures are logged and ignored so an
+   * offline server does not prevent using other providers.
+   */
+  export async function loadModels(): Promise<void> {
+    discovery ??= (async () => {
+      const config = await Config.get()
+      const providerConfig = config.providers["openai-compatible"]
+      if (!providerConfig?.baseURL) return
+
+      try {
+        const apiKey =
+          providerConfig.apiKey ?? process.env[PROVIDERS["openai-compatible"].envVar]
+        const models = await discoverModels(providerConfig.baseURL, apiKey)
+        registerModels(models)
+        Log.debug(`Discovered ${models.length} models from ${providerConfig.baseURL}`)
+      } catch (err) {
+        Log.warn("Model discovery failed:", err instanceof Error ? err.message : String(err))
+      }
+    })()
+    return discovery
+  }
+
+  /**
+   * Forget that model discovery ran, so the next loadModels() queries again.
+   * Useful for testing.
+   */
+  export function resetDiscovery(): void {
+    discovery = undefined
+  }
+
+  /**
+   * Resolve the provider and model to use from config defaults and
+   * per-invocation overrides (e.g., --provider and --model).
+   *
+   * Overrides are validated against MODELS:
+   * - a model override alone also selects its provider
+   * - a provider override alone keeps the default model if it belongs to
+   *   that provider, otherwise uses the provider's first model
+   *
+   * @param defaults - The configured default provider and model
+   * @param overrides - Optional provider and/or model overrides
+   * @returns The provider and model to use
+   * @throws ProviderError if an override is unknown or they do not match
+   */
+  export function resolveSelection(
+    defaults: ModelSelection,
+    overrides: Partial<ModelSelection> = {}
+  ): ModelSelection {
+    const { provider, model } = overrides
+
+    if (provider !== undefined && !isSupported(provider)) {
+      throw new ProviderError(
+        `Unsupported provider: ${provider}. Supported providers: ${Object.keys(PROVIDERS).join(", ")}`,
+        "UNSUPPORTED_PROVIDER"
+      )
+    }
+
+    if (model !== undefined) {
+      const modelInfo = MODELS[model]
+      if (!modelInfo) {
+        throw new ProviderError(
+          `Unknown model: ${model}. Available models: ${Object.keys(MODELS).join(", ")}`,
+          "UNKNOWN_MODEL"
+        )
+      }
+      if (provider !== undefined && modelInfo.provider !== provider) {
+        throw new ProviderError(
+          `Model ${model} is provided by ${modelInfo.provider}, not ${provider}`,
+          "MODEL_PROVIDER_MISMATCH"
+        )
+      }
+      return { provider: modelInfo.provider, model }
+    }
+
+    if (provider === undefined || provider === defaults.provider) {
+      return defaults
+    }
+
+    const defaultInfo = MODELS[defaults.model]
+    if (defaultInfo?.provider === provider) {
+      return { provider, model: defaults.model }
+    }
+
+    const firstModel = Object.values(MODELS).find((m) => m.provider === provider)
+    if (!firstModel) {
+      throw new ProviderError(
+        `No models available for provider: ${provider}`,
+        "UNKNOWN_MODEL"
+      )
+    }
+    return { provider, model: firstModel.id }
+  }
+
   /**
    * List all available providers
    * @returns Array of provider information objects
@@ -4,7 +4,8 @@
  */
 
 import { streamText, type CoreMessage } from "ai"
-import { Session } from "./session"
+import { Session, type MessageData } from "./session"
+import type { ToolCall } from "./message"
 import { Config } from "../config/config"
 import { Provider } from "../provider/provider"
 // Import tool index to ensure tools are registered
@@ -12,6 +13,12 @@ import { ToolRegistry } from "../tool/index"
 import { getDefaultAgent } from "../agent/dad"
 import { Bus } from "../bus/bus"
 import { createId } from "../util/id"
+import { ToolError } from "../util/errors"
+import {
+  Permission,
+  type PermissionReply,
+  type PermissionRequest,
+} from "../permission/permission"
 import type { ToolContext } from "../tool/types"
 
 /**
@@ -43,6 +50,10 @@ export interface ChatLoopResult {
 export interface ChatLoopOptions {
   /** Maximum number of iterations (tool call rounds) before stopping */
   maxIterations?: number
+  /** Override the configured default provider */
+  provider?: string
+  /** Override the configured default model */
+  model?: string
   /** Callback for streaming text chunks */
   onTextChunk?: (chunk: string) => void
   /** Callback when a tool starts execution */
@@ -51,10 +62,111 @@ export interface ChatLoopOptions {
   onToolComplete?: (toolId: string, output: string) => void
   /** Callback when a tool errors */
   onToolError?: (toolId: string, error: string) => void
+  /**
+   * Callback when a tool call needs the user's approval.
+   * Without it, tool calls that would ask are denied.
+   */
+  onPermissionAsk?: (request: PermissionRequest) => Promise<PermissionReply>
 }
 
 const DEFAULT_MAX_ITERATIONS = 10
 
+/**
+ * Convert stored session messages to the AI SDK message format.
+ * Assistant messages with tool calls are replayed as an assistant message
+ * with tool-call parts followed by a tool message with their results.
+ */
+function toCoreMessages(sessionMessages: MessageData[]): CoreMessage[] {
+  const messages: CoreMessage[] = []
+
+  for (const msg of sessionMessages) {
+    if (msg.role === "user" || !msg.toolCalls?.length) {
+      messages.push({ role: msg.role, content: msg.content })
+      continue
+    }
+
+    messages.push({
+      role: "assistant",
+      content: [
+        ...(msg.content ? [{ type: "text" as const, text: msg.content }] : []),
+        ...msg.toolCalls.map((call) => ({
+          type: "tool-call" as const,
+          toolCallId: call.id,
+          toolName: call.toolId,
+          args: call.input,
+        })),
+      ],
+    })
+    messages.push({
+      role: "tool",
+      content: msg.toolCalls.map((call) => ({
+        type: "tool-result" as const,
+        toolCallId: call.id,
+        toolName: call.toolId,
+        result: call.status === "error" ? `Error: ${call.error}` : (call.output ?? ""),
+        ...(call.status === "error" ? { isError: true } : {}),
+      })),
+    })
+  }
+
+  return messages
+}
+
+/**
+ * Check the permission ruleset for a tool call, asking the user when needed.
+ * Throws a ToolError when the call is not allowed.
+ */
+async function authorize(
+  sessionId: string,
+  toolName: string,
+  args: unknown,
+  onPermissionAsk: ChatLoopOptions["onPermissionAsk"]
+): Promise<void> {
+  const resource = ToolRegistry.get(toolName)?.resource?.(args)
+  const decision = await Permission.check(toolName, resource)
+
+  if (decision === "allow") return
+  if (decision === "deny") {
+    throw new ToolError(
+      `Permission denied: the ${toolName} tool is blocked by the permission rules`,
+      "PERMISSION_DENIED"
+    )
+  }
+
+  if (Permission.isApproved(sessionId, toolName, resource)) return
+  if (!onPermissionAsk) {
+    throw new ToolError(
+      `Permission denied: the ${toolName} tool requires approval and no one is available to approve it`,
+      "PERMISSION_DENIED"
+    )
+  }
+
+  const request: PermissionRequest = {
+    id: createId(),
+    sessionId,
+    tool: toolName,
+    resource,
+    input: args,
+  }
+  Bus.publish("permission.asked", {
+    id: request.id,
+    tool: toolName,
+    resource: resource ?? "",
+  })
+
+  const reply = await onPermissionAsk(request)
+  Bus.publish("permission.replied", { id: request.id, answer: reply })
+
+  if (reply === "always") {
+    Permission.approve(sessionId, toolName, resource)
+  } else if (reply === "deny") {
+    throw new ToolError(
+      `Permission denied: the user declined the ${toolName} call`,
+      "PERMISSION_DENIED"
+    )
+  }
+}
+
 /**
  * Chat loop namespace for running AI conversations
  */
@@ -65,7 +177,7 @@ export namespace ChatLoop {
    * This function:
    * 1. Loads messages from the session
    * 2. Calls the LLM with the messages and tools
-   * 3. Processes any tool calls
+   * 3. Processes any tool calls, checking the permission ruleset first
    * 4. Continues until the assistant finishes without tool calls or max iterations reached
    *
    * @param sessionId - The session ID to run the loop for
@@ -84,6 +196,7 @@ export namespace ChatLoop {
       onToolStart,
       onToolComplete,
       onToolError,
+      onPermissionAsk,
     } = options
 
     // Check if already aborted
@@ -95,12 +208,14 @@ export namespace ChatLoop {
       }
     }
 
-    // Load config and get model
+    // Load config and get model (applying any per-invocation overrides)
     const config = await Config.get()
-    const model = await Provider.getModel(
-      config.defaultProvider,
-      config.defaultModel
+    await Provider.loadModels()
+    const selection = Provider.resolveSelection(
+      { provider: config.defaultProvider, model: config.defaultModel },
+      { provider: options.provider, model: options.model }
     )
+    const model = await Provider.getModel(selection.provider, selection.model)
 
     // Get the default agent and its system prompt
     const agent = getDefaultAgent()
@@ -108,11 +223,8 @@ export namespace ChatLoop {
     // Load session messages
     const sessionMessages = await Session.getMessages(sessionId)
 
-    // Convert to CoreMessage format for AI SDK
-    const messages: CoreMessage[] = sessionMessages.map((msg) => ({
-      role: msg.role,
-      content: msg.content,
-    }))
+    // Convert to CoreMessage format for AI SDK (replaying earlier tool calls)
+    const messages: CoreMessage[] = toCoreMessages(sessionMessages)
 
     // Create tool context
     const toolCtx: ToolContext = { sessionId }
@@ -120,6 +232,16 @@ export namespace ChatLoop {
     // Get tools formatted for AI SDK
     const tools = ToolRegistry.getToolsForAI(toolCtx)
 
+    // Give the model only the tool schemas; without execute functions the SDK
+    // returns the tool calls to us instead of running them (and skipping the
+    // permission check)
+    const toolSchemas = Object.fromEntries(
+      Object.entries(tools).map(([name, tool]) => [
+        name,
+        { description: tool.description, parameters: tool.parameters },
+      ])
+    )
+
     // Track all tool calls made
     const allToolCalls: ChatLoopResult["toolCalls"] = []
 
@@ -148,14 +270,19 @@ export namespace ChatLoop {
 
       iteration++
 
-      // Call the LLM with streaming
+      // Call the LLM with streaming. Stream errors (e.g., a rejected API key)
+      // end the text stream early instead of throwing, so capture them here.
+      let streamError: unknown
       const result = await streamText({
         model,
         system: agent.systemPrompt,
         messages,
-        tools,
+        tools: toolSchemas,
         maxSteps: 1, // We handle the loop ourselves for more control
         abortSignal: signal,
+        onError: ({ error }) => {
+          streamError = error
+        },
       })
 
       // Collect the streamed text
@@ -175,6 +302,10 @@ export namespace ChatLoop {
         }
       }
 
+      if (streamError !== undefined) {
+        throw streamError
+      }
+
       // Get the full response including tool calls
       const response = await result.response
       const usage = await result.usage
@@ -209,9 +340,11 @@ export namespace ChatLoop {
 
         // Execute each tool call
         const toolResults: CoreMessage[] = []
+        const storedToolCalls: ToolCall[] = []
 
         for (const toolCall of toolCallParts) {
           const toolCallId = createId()
+          const startedAt = Date.now()
 
           // Notify about tool start
           Bus.publish("tool.start", {
@@ -227,6 +360,9 @@ export namespace ChatLoop {
               throw new Error(`Tool not found: ${toolCall.toolName}`)
             }
 
+            // Check the permission ruleset (may prompt the user)
+            await authorize(sessionId, toolCall.toolName, toolCall.args, onPermissionAsk)
+
             const output = await tool.execute(toolCall.args, { abortSignal: signal })
 
             // Track the tool call
@@ -236,6 +372,15 @@ export namespace ChatLoop {
               input: toolCall.args,
               output,
             })
+            storedToolCalls.push({
+              id: toolCall.toolCallId,
+              toolId: toolCall.toolName,
+              status: "completed",
+              input: toolCall.args,
+              output,
+              startedAt,
+              completedAt: Date.now(),
+            })
 
             // Notify about tool completion
             Bus.publish("tool.complete", {
@@ -267,6 +412,15 @@ export namespace ChatLoop {
               input: toolCall.args,
               output: `Error: ${errorMessage}`,
             })
+            storedToolCalls.push({
+              id: toolCall.toolCallId,
+              toolId: toolCall.toolName,
+              status: "error",
+              input: toolCall.args,
+              error: errorMessage,
+              startedAt,
+              completedAt: Date.now(),
+            })
 
             // Notify about tool error
             Bus.publish("tool.error", {
@@ -296,6 +450,13 @@ export namespace ChatLoop {
 
         // Add the tool results to the conversation
         messages.push(...toolResults)
+
+        // Save the tool calls and results so later turns can replay them
+        await Session.addMessage(sessionId, {
+          role: "assistant",
+          content: iterationContent,
+          toolCalls: storedToolCalls,
+        })
       }
     }
 
@@ -3,6 +3,7 @@ import { createId } from "../util/id"
 import { Bus } from "../bus/bus"
 import { Log } from "../util/log"
 import { StorageError } from "../util/errors"
+import type { ToolCall } from "./message"
 
 /**
  * Session data structure for chat sessions.
@@ -22,6 +23,18 @@ export interface MessageData {
   role: "user" | "assistant"
   content: string
   timestamp: number
+  /** Tool calls made by the assistant in this message, with their results */
+  toolCalls?: ToolCall[]
+}
+
+/**
+ * Session with a short summary of its messages, for session pickers.
+ */
+export interface SessionSummary extends SessionData {
+  /** Number of stored messages */
+  messageCount: number
+  /** First user message, if any */
+  preview?: string
 }
 
 /**
@@ -94,6 +107,33 @@ export namespace Session {
     }
   }
 
+  /**
+   * Get the most recently updated session.
+   * @returns The latest session or undefined if there are none
+   */
+  export async function latest(): Promise<SessionData | undefined> {
+    const sessions = await list()
+    return sessions[0]
+  }
+
+  /**
+   * List all sessions with their message count and first user message.
+   * @returns Array of session summaries, most recent first
+   */
+  export async function summaries(): Promise<SessionSummary[]> {
+    const sessions = await list()
+    return Promise.all(
+      sessions.map(async (session) => {
+        const messages = await getMessages(session.id)
+        return {
+          ...session,
+          messageCount: messages.length,
+          preview: messages.find((m) => m.role === "user")?.content,
+        }
+      })
+    )
+  }
+
   /**
    * Get all messages for a session.
    * @param sessionId - The session ID
@@ -149,13 +189,10 @@ export namespace Session {
 
       // Update session's updatedAt timestamp (non-critical, log error but continue)
       try {
-        const session = await get(sessionId)
-        if (session) {
-          await Storage.write(["sessions", sessionId, "session"], {
-            ...session,
-            updatedAt: Date.now(),
-          })
-        }
+        await Storage.updateExisting<SessionData>(["sessions", sessionId, "session"], (session) => ({
+          ...session,
+          updatedAt: Date.now(),
+        }))
       } catch (updateErr) {
         Log.debug("Failed to update session timestamp", updateErr)
       }
@@ -186,17 +223,11 @@ export namespace Session {
     title: string
   ): Promise<SessionData | undefined> {
     try {
-      const session = await get(id)
-      if (!session) return undefined
-
-      const updated: SessionData = {
+      return await Storage.updateExisting<SessionData>(["sessions", id, "session"], (session) => ({
         ...session,
         title,
         updatedAt: Date.now(),
-      }
-
-      await Storage.write(["sessions", id, "session"], updated)
-      return updated
+      }))
     } catch (err) {
       Log.formatAndLogError("Failed to update session title", err)
       return undefined
@@ -1,4 +1,10 @@
-import { createMachine, assign } from "xstate"
+import { createMachine, createActor, assign } from "xstate"
+
+/**
+ * How a goal's progress is kept: set by hand, or rolled up from its
+ * milestones, linked todos, and linked projects
+ */
+export type GoalProgressMode = "manual" | "auto"
 
 export interface GoalContext {
   id: string
@@ -6,6 +12,7 @@ export interface GoalContext {
   category: string
   description: string
   progress: number
+  progressMode: GoalProgressMode
   milestones: Array<{
     id: string
     title: string
@@ -45,6 +52,7 @@ export const goalMachine = createMachine({
     category: "",
     description: "",
     progress: 0,
+    progressMode: "manual",
     milestones: [],
     dueDate: null,
     createdAt: 0,
@@ -127,9 +135,34 @@ export function createGoalContext(
     category: partial.category ?? "Personal",
     description: partial.description ?? "",
     progress: partial.progress ?? 0,
+    progressMode: partial.progressMode ?? "manual",
     milestones: partial.milestones ?? [],
     dueDate: partial.dueDate ?? null,
     createdAt: partial.createdAt ?? Date.now(),
     updatedAt: partial.updatedAt ?? Date.now(),
   }
 }
+
+/**
+ * Run an event through the goal state machine, starting from a stored
+ * goal's state
+ * @returns The goal with its new state and context
+ */
+export function applyGoalEvent<T extends GoalContext & { state: GoalState }>(goal: T, event: GoalEvent): T {
+  const actor = createActor(goalMachine, {
+    snapshot: goalMachine.resolveState({
+      value: goal.state,
+      context: goal,
+    }),
+  })
+  actor.start()
+  actor.send(event)
+  const snapshot = actor.getSnapshot()
+  actor.stop()
+
+  return {
+    ...goal,
+    ...snapshot.context,
+    state: snapshot.value as GoalState,
+  }
+}
@@ -1,4 +1,4 @@
-import { createMachine, assign } from "xstate"
+import { createMachine, createActor, assign } from "xstate"
 
 export interface TodoContext {
   id: string
@@ -6,20 +6,30 @@ export interface TodoContext {
   description: string
   priority: "low" | "medium" | "high"
   dueDate: string | null
+  /** Date a deferred todo wakes up and returns to pending (YYYY-MM-DD), or null */
+  deferredUntil: string | null
+  /** Recurrence rule ("weekly", "FREQ=MONTHLY;BYMONTHDAY=1", ...), or null for one-off todos */
+  recurrence: string | null
   tags: string[]
   goalId: string | null
-  blockedBy: string | null
+  /** Project this todo belongs to; mirrored in the project's todoIds */
+  projectId: string | null
+  /** IDs of the todos this todo depends on */
+  blockedBy: string[]
   createdAt: number
   updatedAt: number
+  /** When work first started, or null if the todo was never started */
+  startedAt: number | null
   completedAt: number | null
 }
 
 export type TodoEvent =
   | { type: "START" }
   | { type: "COMPLETE" }
-  | { type: "BLOCK"; blockedBy: string }
+  | { type: "BLOCK"; blockedBy: string[] }
   | { type: "UNBLOCK" }
   | { type: "DEFER"; until: string }
+  | { type: "WAKE" }
   | { type: "CANCEL" }
   | { type: "REOPEN" }
 
@@ -31,6 +41,13 @@ export type TodoState =
   | "done"
   | "cancelled"
 
+/**
+ * Add blocker IDs to a todo's dependencies, skipping duplicates
+ */
+function mergeBlockers(current: string[], added: string[]): string[] {
+  return [...new Set([...current, ...added])]
+}
+
 export const todoMachine = createMachine({
   id: "todo",
   initial: "pending",
@@ -44,11 +61,15 @@ export const todoMachine = createMachine({
     description: "",
     priority: "medium",
     dueDate: null,
+    deferredUntil: null,
+    recurrence: null,
     tags: [],
     goalId: null,
-    blockedBy: null,
+    projectId: null,
+    blockedBy: [],
     createdAt: 0,
     updatedAt: 0,
+    startedAt: null,
     completedAt: null,
   },
   states: {
@@ -56,7 +77,10 @@ export const todoMachine = createMachine({
       on: {
         START: {
           target: "in_progress",
-          actions: assign({ updatedAt: () => Date.now() }),
+          actions: assign({
+            startedAt: ({ context }) => context.startedAt ?? Date.now(),
+            updatedAt: () => Date.now(),
+          }),
         },
         COMPLETE: {
           target: "done",
@@ -65,10 +89,17 @@ export const todoMachine = createMachine({
             updatedAt: () => Date.now(),
           }),
         },
+        BLOCK: {
+          target: "blocked",
+          actions: assign({
+            blockedBy: ({ context, event }) => mergeBlockers(context.blockedBy, event.blockedBy),
+            updatedAt: () => Date.now(),
+          }),
+        },
         DEFER: {
           target: "deferred",
           actions: assign({
-            dueDate: ({ event }) => event.until,
+            deferredUntil: ({ event }) => event.until,
             updatedAt: () => Date.now(),
           }),
         },
@@ -90,14 +121,14 @@ export const todoMachine = createMachine({
         BLOCK: {
           target: "blocked",
           actions: assign({
-            blockedBy: ({ event }) => event.blockedBy,
+            blockedBy: ({ context, event }) => mergeBlockers(context.blockedBy, event.blockedBy),
             updatedAt: () => Date.now(),
           }),
         },
         DEFER: {
           target: "deferred",
           actions: assign({
-            dueDate: ({ event }) => event.until,
+            deferredUntil: ({ event }) => event.until,
             updatedAt: () => Date.now(),
           }),
         },
@@ -109,13 +140,18 @@ export const todoMachine = createMachine({
     },
     blocked: {
       on: {
-        UNBLOCK: {
-          target: "in_progress",
-          actions: assign({
-            blockedBy: null,
-            updatedAt: () => Date.now(),
-          }),
-        },
+        // Dependencies are kept; the todo returns to where it was blocked from
+        UNBLOCK: [
+          {
+            target: "in_progress",
+            guard: ({ context }) => context.startedAt !== null,
+            actions: assign({ updatedAt: () => Date.now() }),
+          },
+          {
+            target: "pending",
+            actions: assign({ updatedAt: () => Date.now() }),
+          },
+        ],
         CANCEL: {
           target: "cancelled",
           actions: assign({ updatedAt: () => Date.now() }),
@@ -126,7 +162,18 @@ export const todoMachine = createMachine({
       on: {
         START: {
           target: "in_progress",
-          actions: assign({ updatedAt: () => Date.now() }),
+          actions: assign({
+            deferredUntil: null,
+            startedAt: ({ context }) => context.startedAt ?? Date.now(),
+            updatedAt: () => Date.now(),
+          }),
+        },
+        WAKE: {
+          target: "pending",
+          actions: assign({
+            deferredUntil: null,
+            updatedAt: () => Date.now(),
+          }),
         },
         CANCEL: {
           target: "cancelled",
@@ -165,11 +212,39 @@ export function createTodoContext(
     description: partial.description ?? "",
     priority: partial.priority ?? "medium",
     dueDate: partial.dueDate ?? null,
+    deferredUntil: partial.deferredUntil ?? null,
+    recurrence: partial.recurrence ?? null,
     tags: partial.tags ?? [],
     goalId: partial.goalId ?? null,
-    blockedBy: partial.blockedBy ?? null,
+    projectId: partial.projectId ?? null,
+    blockedBy: partial.blockedBy ?? [],
     createdAt: partial.createdAt ?? Date.now(),
     updatedAt: partial.updatedAt ?? Date.now(),
+    startedAt: partial.startedAt ?? null,
     completedAt: partial.completedAt ?? null,
   }
 }
+
+/**
+ * Run an event through the todo state machine, starting from a stored
+ * todo's state
+ * @returns The todo with its new state and context
+ */
+export function applyTodoEvent<T extends TodoContext & { state: TodoState }>(todo: T, event: TodoEvent): T {
+  const actor = createActor(todoMachine, {
+    snapshot: todoMachine.resolveState({
+      value: todo.state,
+      context: todo,
+    }),
+  })
+  actor.start()
+  actor.send(event)
+  const snapshot = actor.getSnapshot()
+  actor.stop()
+
+  return {
+    ...todo,
+    ...snapshot.context,
+    state: snapshot.value as TodoState,
+  }
+}
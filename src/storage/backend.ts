@@ -0,0 +1,118 @@
+/**
+ * Storage backend interface.
+ *
+ * A backend stores JSON records under keys made of path segments, such as
+ * ["todos", "todo_01HX..."] or ["sessions", id, "messages", messageId].
+ * The last segment is the record's name and the ones before it are its
+ * directory. `Storage` picks a backend for the data directory and forwards
+ * every call to it.
+ */
+
+import { StorageError } from "../util/errors"
+
+/**
+ * Available backends:
+ * - json: one pretty-printed JSON file per record (the default)
+ * - sqlite: a single SQLite database file with indexed queries
+ */
+export type BackendName = "json" | "sqlite"
+
+/**
+ * Filter for `StorageBackend.query`. All given conditions must match.
+ */
+export interface RecordQuery {
+  /** Record's state field */
+  state?: string
+  /** One of the record's tags (case-insensitive) */
+  tag?: string
+  /** Record's goalId field */
+  goalId?: string
+  /** Due on or before this date (YYYY-MM-DD) */
+  dueBefore?: string
+  /** Due on or after this date (YYYY-MM-DD) */
+  dueAfter?: string
+}
+
+/**
+ * Operations every storage backend provides
+ */
+export interface StorageBackend {
+  readonly name: BackendName
+
+  /**
+   * Read a record.
+   * @returns The record, or undefined if it doesn't exist
+   * @throws StorageError with code STORAGE_CORRUPT if the stored data is corrupt
+   */
+  read<T>(key: string[]): Promise<T | undefined>
+
+  /** Create or replace a record */
+  write<T>(key: string[], data: T): Promise<void>
+
+  /**
+   * Delete a record.
+   * @returns true if it was deleted, false if it didn't exist
+   */
+  remove(key: string[]): Promise<boolean>
+
+  /**
+   * Read, change, and write a record without other writers interleaving.
+   * Creates the record if it doesn't exist.
+   */
+  update<T>(key: string[], fn: (prev: T | undefined) => T): Promise<T>
+
+  /** Names of the records directly in a directory */
+  list(prefix: string[]): Promise<string[]>
+
+  /** Names of the subdirectories directly in a directory */
+  listDirs(prefix: string[]): Promise<string[]>
+
+  /** Check whether a record exists */
+  exists(key: string[]): Promise<boolean>
+
+  /** Records directly in a directory that match a filter, in no particular order */
+  query<T>(prefix: string[], filter: RecordQuery): Promise<T[]>
+
+  /** Keys of every record, for copying all data to another backend */
+  keys(): Promise<string[][]>
+
+  /** Create the backend's storage if it doesn't exist yet */
+  ensureDir(): Promise<void>
+
+  /** Release open handles */
+  close(): void
+}
+
+/**
+ * Leave a corrupt record out of query results instead of failing the whole
+ * query. Reading it has already moved it to the quarantine and logged where.
+ * @throws The error, if it is anything other than a corrupt record
+ */
+export function skipCorrupt(err: unknown): undefined {
+  if (err instanceof StorageError && err.code === "STORAGE_CORRUPT") return undefined
+  throw err
+}
+
+/**
+ * Check a record against a query filter. Used by backends that can't
+ * filter natively.
+ */
+export function matchesQuery(record: unknown, filter: RecordQuery): boolean {
+  if (typeof record !== "object" || record === null) return false
+  const r = record as Record<string, unknown>
+
+  if (filter.state !== undefined && r.state !== filter.state) return false
+  if (filter.goalId !== undefined && r.goalId !== filter.goalId) return false
+  if (filter.tag !== undefined) {
+    const tag = filter.tag.toLowerCase()
+    const tags = Array.isArray(r.tags) ? r.tags : []
+    if (!tags.some((t) => typeof t === "string" && t.toLowerCase() === tag)) return false
+  }
+  if (filter.dueBefore !== undefined || filter.dueAfter !== undefined) {
+    if (typeof r.dueDate !== "string") return false
+    const due = r.dueDate.slice(0, 10)
+    if (filter.dueBefore !== undefined && due > filter.dueBefore) return false
+    if (filter.dueAfter !== undefined && due < filter.dueAfter) return false
+  }
+  return true
+}
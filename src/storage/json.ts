@@ -0,0 +1,238 @@
+/**
+ * JSON file storage backend: one pretty-printed JSON file per record.
+ *
+ * Writes go through a temp file and a rename so a crash never leaves a
+ * half-written file behind, `update` holds an advisory lock file, and
+ * files that turn out to be corrupt are moved to a quarantine directory.
+ */
+
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import { Log } from "../util/log"
+import { StorageError } from "../util/errors"
+import { matchesQuery, skipCorrupt, type RecordQuery, type StorageBackend } from "./backend"
+
+/** Directory under the data directory that corrupt files are moved to */
+export const QUARANTINE_DIR = "quarantine"
+
+/** How long `update` waits for another process to release a lock */
+const LOCK_TIMEOUT_MS = 5000
+
+/** Locks older than this are assumed to be left behind by a crash */
+const LOCK_STALE_MS = 30_000
+
+/** Delay between attempts to take a held lock */
+const LOCK_RETRY_MS = 20
+
+/** Counter keeping temp file names unique within this process */
+let tempCounter = 0
+
+/**
+ * Move a corrupt file aside so it is kept for inspection but no longer read.
+ * @returns Path the file was moved to
+ */
+async function quarantine(dataDir: string, filePath: string): Promise<string> {
+  const relative = path.relative(dataDir, filePath).replace(/\.json$/, "")
+  const target = path.join(dataDir, QUARANTINE_DIR, `${relative}.${Date.now()}.corrupt`)
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  await fs.rename(filePath, target)
+  return target
+}
+
+/**
+ * Check whether a lock file was left behind: it is older than
+ * LOCK_STALE_MS or the process that took it is no longer running.
+ */
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  try {
+    const stat = await fs.stat(lockPath)
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) return true
+
+    const { pid } = JSON.parse(await fs.readFile(lockPath, "utf-8")) as { pid: number }
+    try {
+      process.kill(pid, 0)
+      return false
+    } catch (err) {
+      return (err as NodeJS.ErrnoException).code === "ESRCH"
+    }
+  } catch {
+    // Lock released meanwhile, or still being written by its owner
+    return false
+  }
+}
+
+/**
+ * Take the advisory lock for a storage file, waiting up to LOCK_TIMEOUT_MS
+ * for another holder to release it.
+ * @returns Function that releases the lock
+ * @throws StorageError if the lock could not be taken in time
+ */
+async function acquireLock(filePath: string): Promise<() => Promise<void>> {
+  const lockPath = `${filePath}.lock`
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  await fs.mkdir(path.dirname(lockPath), { recursive: true })
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, createdAt: Date.now() }), {
+        encoding: "utf-8",
+        flag: "wx",
+      })
+      return () => fs.rm(lockPath, { force: true })
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err
+    }
+
+    if (await isStaleLock(lockPath)) {
+      Log.warn(`Removing stale storage lock ${lockPath}`)
+      await fs.rm(lockPath, { force: true })
+      continue
+    }
+    if (Date.now() > deadline) {
+      throw new StorageError(`Timed out waiting for storage lock ${lockPath}`, "STORAGE_LOCK_TIMEOUT")
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+  }
+}
+
+/**
+ * Create a JSON file backend for a data directory.
+ */
+export function createJsonBackend(dataDir: string): StorageBackend {
+  const filePathOf = (key: string[]): string => path.join(dataDir, ...key) + ".json"
+
+  const backend: StorageBackend = {
+    name: "json",
+
+    async read<T>(key: string[]): Promise<T | undefined> {
+      const filePath = filePathOf(key)
+      let content: string
+      try {
+        content = await fs.readFile(filePath, "utf-8")
+      } catch {
+        // File doesn't exist or can't be read
+        return undefined
+      }
+
+      let reason: string
+      const trimmed = content.trim()
+      if (!trimmed) {
+        reason = "file is empty"
+      } else {
+        try {
+          return JSON.parse(trimmed) as T
+        } catch (parseErr) {
+          reason = parseErr instanceof Error ? parseErr.message : String(parseErr)
+        }
+      }
+
+      const target = await quarantine(dataDir, filePath)
+      Log.warn(`Corrupt storage file ${filePath} (${reason}), moved to ${target}`)
+      throw new StorageError(
+        `Corrupt storage file ${filePath} (${reason}). It was moved to ${target}.`,
+        "STORAGE_CORRUPT"
+      )
+    },
+
+    async write<T>(key: string[], data: T): Promise<void> {
+      const filePath = filePathOf(key)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+      const tempPath = `${filePath}.${process.pid}.${++tempCounter}.tmp`
+      try {
+        const handle = await fs.open(tempPath, "w")
+        try {
+          await handle.writeFile(JSON.stringify(data, null, 2), "utf-8")
+          await handle.sync()
+        } finally {
+          await handle.close()
+        }
+        await fs.rename(tempPath, filePath)
+      } catch (err) {
+        await fs.rm(tempPath, { force: true })
+        throw err
+      }
+    },
+
+    async remove(key: string[]): Promise<boolean> {
+      try {
+        await fs.unlink(filePathOf(key))
+        return true
+      } catch {
+        return false
+      }
+    },
+
+    async update<T>(key: string[], fn: (prev: T | undefined) => T): Promise<T> {
+      const release = await acquireLock(filePathOf(key))
+      try {
+        const prev = await backend.read<T>(key)
+        const next = fn(prev)
+        await backend.write(key, next)
+        return next
+      } finally {
+        await release()
+      }
+    },
+
+    async list(prefix: string[]): Promise<string[]> {
+      try {
+        const entries = await fs.readdir(path.join(dataDir, ...prefix))
+        return entries.filter((e) => e.endsWith(".json")).map((e) => e.slice(0, -5))
+      } catch {
+        return []
+      }
+    },
+
+    async listDirs(prefix: string[]): Promise<string[]> {
+      try {
+        const entries = await fs.readdir(path.join(dataDir, ...prefix), { withFileTypes: true })
+        return entries.filter((e) => e.isDirectory()).map((e) => e.name)
+      } catch {
+        return []
+      }
+    },
+
+    async exists(key: string[]): Promise<boolean> {
+      try {
+        await fs.access(filePathOf(key))
+        return true
+      } catch {
+        return false
+      }
+    },
+
+    async query<T>(prefix: string[], filter: RecordQuery): Promise<T[]> {
+      const names = await backend.list(prefix)
+      const records: Array<T | undefined> = await Promise.all(
+        names.map((name) => backend.read<T>([...prefix, name]).catch(skipCorrupt))
+      )
+      return records.filter((r): r is T => r !== undefined && matchesQuery(r, filter))
+    },
+
+    async keys(): Promise<string[][]> {
+      const keys: string[][] = []
+      const walk = async (prefix: string[]): Promise<void> => {
+        for (const name of await backend.list(prefix)) {
+          keys.push([...prefix, name])
+        }
+        for (const dir of await backend.listDirs(prefix)) {
+          if (prefix.length === 0 && dir === QUARANTINE_DIR) continue
+          await walk([...prefix, dir])
+        }
+      }
+      await walk([])
+      return keys
+    },
+
+    async ensureDir(): Promise<void> {
+      await fs.mkdir(dataDir, { recursive: true })
+    },
+
+    close(): void {
+      // Nothing held open between calls
+    },
+  }
+
+  return backend
+}
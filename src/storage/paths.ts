@@ -4,17 +4,20 @@ import * as os from "node:os"
 /**
  * Get the base home directory for DadGPT.
  * Can be overridden with DADGPT_HOME environment variable.
+ * Read on every call, so tests can point it elsewhere.
  */
-function getHome(): string {
+export function getHome(): string {
   return process.env.DADGPT_HOME ?? path.join(os.homedir(), ".dadgpt")
 }
 
 /**
  * Get the data directory for DadGPT.
  * Can be overridden with DADGPT_DATA_DIR environment variable for testing.
+ * Storage, encryption and backups all resolve it here, so they always
+ * agree on where the records and the key file live.
  */
-function getDataDir(): string {
-  return process.env.DADGPT_DATA_DIR ?? path.join(getHome(), "data")
+export function getDataDir(): string {
+  return process.env.DADGPT_DATA_DIR || path.join(getHome(), "data")
 }
 
 /** Default home directory: ~/.dadgpt */
@@ -0,0 +1,256 @@
+/**
+ * SQLite storage backend: every record in one database file.
+ *
+ * Records are kept as JSON text keyed by directory and name. The state,
+ * goalId and dueDate fields are exposed as generated columns and tags are
+ * copied to their own table, all indexed, so `query` doesn't have to read
+ * every record. Uses the optional better-sqlite3 package.
+ */
+
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import type BetterSqlite3 from "better-sqlite3"
+import { Log } from "../util/log"
+import { StorageError } from "../util/errors"
+import { skipCorrupt, type RecordQuery, type StorageBackend } from "./backend"
+
+/** Database file name inside the data directory */
+export const SQLITE_FILE = "dadgpt.db"
+
+/** Directory prefix that corrupt records are moved under */
+const QUARANTINE_DIR = "quarantine"
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS entries (
+  dir TEXT NOT NULL,
+  name TEXT NOT NULL,
+  data TEXT NOT NULL,
+  state TEXT GENERATED ALWAYS AS (json_extract(data, '$.state')) VIRTUAL,
+  goal_id TEXT GENERATED ALWAYS AS (json_extract(data, '$.goalId')) VIRTUAL,
+  due_date TEXT GENERATED ALWAYS AS (substr(json_extract(data, '$.dueDate'), 1, 10)) VIRTUAL,
+  PRIMARY KEY (dir, name)
+);
+CREATE INDEX IF NOT EXISTS entries_state ON entries (dir, state);
+CREATE INDEX IF NOT EXISTS entries_goal_id ON entries (dir, goal_id);
+CREATE INDEX IF NOT EXISTS entries_due_date ON entries (dir, due_date);
+CREATE TABLE IF NOT EXISTS entry_tags (
+  dir TEXT NOT NULL,
+  name TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (dir, name, tag)
+);
+CREATE INDEX IF NOT EXISTS entry_tags_tag ON entry_tags (dir, tag);
+`
+
+/**
+ * Split a key into its directory and record name
+ */
+function splitKey(key: string[]): { dir: string; name: string } {
+  return { dir: key.slice(0, -1).join("/"), name: key[key.length - 1] ?? "" }
+}
+
+/**
+ * Lowercased string tags of a record, for the tag index
+ */
+function tagsOf(data: unknown): string[] {
+  const tags = (data as { tags?: unknown } | null)?.tags
+  if (!Array.isArray(tags)) return []
+  return [...new Set(tags.filter((t): t is string => typeof t === "string").map((t) => t.toLowerCase()))]
+}
+
+/**
+ * Open the database, loading better-sqlite3 on first use.
+ * @throws StorageError if better-sqlite3 is not installed
+ */
+async function openDatabase(dbPath: string): Promise<BetterSqlite3.Database> {
+  let Database: typeof BetterSqlite3
+  try {
+    Database = (await import("better-sqlite3")).default
+  } catch (err) {
+    throw new StorageError(
+      `The SQLite backend needs the better-sqlite3 package: ${err instanceof Error ? err.message : String(err)}`,
+      "STORAGE_BACKEND_UNAVAILABLE"
+    )
+  }
+
+  await fs.mkdir(path.dirname(dbPath), { recursive: true })
+  const db = new Database(dbPath)
+  db.pragma("journal_mode = WAL")
+  db.pragma("synchronous = NORMAL")
+  db.pragma("busy_timeout = 5000")
+  db.exec(SCHEMA)
+  return db
+}
+
+/**
+ * Create a SQLite backend for a database file.
+ */
+export async function createSqliteBackend(dbPath: string): Promise<StorageBackend> {
+  const db = await openDatabase(dbPath)
+
+  const selectData = db.prepare<[string, string], { data: string }>(
+    "SELECT data FROM entries WHERE dir = ? AND name = ?"
+  )
+  const upsert = db.prepare<[string, string, string]>(
+    "INSERT INTO entries (dir, name, data) VALUES (?, ?, ?) ON CONFLICT (dir, name) DO UPDATE SET data = excluded.data"
+  )
+  const deleteEntry = db.prepare<[string, string]>("DELETE FROM entries WHERE dir = ? AND name = ?")
+  const deleteTags = db.prepare<[string, string]>("DELETE FROM entry_tags WHERE dir = ? AND name = ?")
+  const insertTag = db.prepare<[string, string, string]>(
+    "INSERT INTO entry_tags (dir, name, tag) VALUES (?, ?, ?)"
+  )
+  const selectNames = db.prepare<[string], { name: string }>("SELECT name FROM entries WHERE dir = ?")
+  const selectDirs = db.prepare<[], { dir: string }>("SELECT DISTINCT dir FROM entries")
+  const selectKeys = db.prepare<[], { dir: string; name: string }>("SELECT dir, name FROM entries")
+
+  const put = db.transaction((dir: string, name: string, data: unknown) => {
+    upsert.run(dir, name, JSON.stringify(data))
+    deleteTags.run(dir, name)
+    for (const tag of tagsOf(data)) {
+      insertTag.run(dir, name, tag)
+    }
+  })
+
+  const drop = db.transaction((dir: string, name: string) => {
+    deleteTags.run(dir, name)
+    return deleteEntry.run(dir, name).changes > 0
+  })
+
+  /**
+   * Parse a stored record, moving it under the quarantine prefix if it is corrupt
+   */
+  const parse = <T>(dir: string, name: string, data: string): T => {
+    try {
+      return JSON.parse(data) as T
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err)
+      const target = `${QUARANTINE_DIR}/${dir}`
+      const quarantinedName = `${name}.${Date.now()}`
+      db.transaction(() => {
+        db.prepare("UPDATE entries SET dir = ?, name = ? WHERE dir = ? AND name = ?").run(
+          target,
+          quarantinedName,
+          dir,
+          name
+        )
+        deleteTags.run(dir, name)
+      })()
+      Log.warn(`Corrupt storage record ${dir}/${name} (${reason}), moved to ${target}/${quarantinedName}`)
+      throw new StorageError(
+        `Corrupt storage record ${dir}/${name} (${reason}). It was moved to ${target}/${quarantinedName}.`,
+        "STORAGE_CORRUPT"
+      )
+    }
+  }
+
+  const read = <T>(key: string[]): T | undefined => {
+    const { dir, name } = splitKey(key)
+    const row = selectData.get(dir, name)
+    return row ? parse<T>(dir, name, row.data) : undefined
+  }
+
+  return {
+    name: "sqlite",
+
+    async read<T>(key: string[]): Promise<T | undefined> {
+      return read<T>(key)
+    },
+
+    async write<T>(key: string[], data: T): Promise<void> {
+      const { dir, name } = splitKey(key)
+      put(dir, name, data)
+    },
+
+    async remove(key: string[]): Promise<boolean> {
+      const { dir, name } = splitKey(key)
+      return drop(dir, name)
+    },
+
+    async update<T>(key: string[], fn: (prev: T | undefined) => T): Promise<T> {
+      const { dir, name } = splitKey(key)
+      return db
+        .transaction(() => {
+          const next = fn(read<T>(key))
+          put(dir, name, next)
+          return next
+        })
+        .immediate()
+    },
+
+    async list(prefix: string[]): Promise<string[]> {
+      return selectNames.all(prefix.join("/")).map((row) => row.name)
+    },
+
+    async listDirs(prefix: string[]): Promise<string[]> {
+      const parent = prefix.join("/")
+      const start = parent ? `${parent}/` : ""
+      const dirs = new Set<string>()
+      for (const { dir } of selectDirs.all()) {
+        if (!dir || !dir.startsWith(start) || dir === parent) continue
+        const child = dir.slice(start.length).split("/")[0]
+        if (child) dirs.add(child)
+      }
+      return [...dirs]
+    },
+
+    async exists(key: string[]): Promise<boolean> {
+      const { dir, name } = splitKey(key)
+      return selectData.get(dir, name) !== undefined
+    },
+
+    async query<T>(prefix: string[], filter: RecordQuery): Promise<T[]> {
+      const dir = prefix.join("/")
+      const conditions = ["e.dir = ?"]
+      const params: string[] = [dir]
+
+      if (filter.state !== undefined) {
+        conditions.push("e.state = ?")
+        params.push(filter.state)
+      }
+      if (filter.goalId !== undefined) {
+        conditions.push("e.goal_id = ?")
+        params.push(filter.goalId)
+      }
+      if (filter.dueBefore !== undefined) {
+        conditions.push("e.due_date <= ?")
+        params.push(filter.dueBefore)
+      }
+      if (filter.dueAfter !== undefined) {
+        conditions.push("e.due_date >= ?")
+        params.push(filter.dueAfter)
+      }
+      if (filter.tag !== undefined) {
+        conditions.push("EXISTS (SELECT 1 FROM entry_tags t WHERE t.dir = e.dir AND t.name = e.name AND t.tag = ?)")
+        params.push(filter.tag.toLowerCase())
+      }
+
+      const rows = db
+        .prepare<string[], { name: string; data: string }>(
+          `SELECT e.name, e.data FROM entries e WHERE ${conditions.join(" AND ")}`
+        )
+        .all(...params)
+      return rows.flatMap((row) => {
+        try {
+          return [parse<T>(dir, row.name, row.data)]
+        } catch (err) {
+          return skipCorrupt(err) ?? []
+        }
+      })
+    },
+
+    async keys(): Promise<string[][]> {
+      return selectKeys
+        .all()
+        .filter((row) => row.dir !== QUARANTINE_DIR && !row.dir.startsWith(`${QUARANTINE_DIR}/`))
+        .map((row) => [...(row.dir ? row.dir.split("/") : []), row.name])
+    },
+
+    async ensureDir(): Promise<void> {
+      // The database file is created when it is opened
+    },
+
+    close(): void {
+      if (db.open) db.close()
+    },
+  }
+}
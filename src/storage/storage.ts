@@ -1,120 +1,161 @@
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
-import * as os from "node:os"
-import { getDataPath } from "./paths"
-import { Log } from "../util/log"
+import { StorageError } from "../util/errors"
+import { getDataDir } from "./paths"
+import { Encryption, KEY_FILE } from "../encryption/encryption"
+import { matchesQuery, type BackendName, type RecordQuery, type StorageBackend } from "./backend"
+import { createJsonBackend, QUARANTINE_DIR } from "./json"
+import { createSqliteBackend, SQLITE_FILE } from "./sqlite"
+
+export type { BackendName, RecordQuery, StorageBackend } from "./backend"
+
+/** Backend opened for the current data directory */
+let active: { dataDir: string; backend: Promise<StorageBackend> } | null = null
+
+/**
+ * Check whether a path exists
+ */
+async function pathExists(p: string): Promise<boolean> {
+  return fs.access(p).then(
+    () => true,
+    () => false
+  )
+}
+
+/**
+ * Open the backend for a data directory: SQLite if it holds a database
+ * file, JSON files otherwise.
+ */
+async function openBackend(dataDir: string): Promise<StorageBackend> {
+  const dbPath = path.join(dataDir, SQLITE_FILE)
+  return (await pathExists(dbPath)) ? createSqliteBackend(dbPath) : createJsonBackend(dataDir)
+}
 
 /**
- * Get the data directory, supporting DADGPT_DATA_DIR override for testing.
+ * Backend for the current data directory, opened on first use and reopened
+ * when the data directory changes.
  */
-function getDataDir(): string {
-  if (process.env.DADGPT_DATA_DIR) {
-    return process.env.DADGPT_DATA_DIR
+function backend(): Promise<StorageBackend> {
+  const dataDir = getDataDir()
+  if (active?.dataDir !== dataDir) {
+    const previous = active
+    active = { dataDir, backend: openBackend(dataDir) }
+    previous?.backend.then((b) => b.close(), () => undefined)
   }
-  const homedir = process.env.DADGPT_HOME ?? path.join(os.homedir(), ".dadgpt")
-  return path.join(homedir, "data")
+  return active.backend
+}
+
+/**
+ * Result of moving the data directory to another backend
+ */
+export interface BackendMigration {
+  from: BackendName
+  to: BackendName
+  /** Number of records copied (or that would be copied on a dry run) */
+  count: number
+  /** Where the old backend's data was moved, or null on a dry run or no-op */
+  backupPath: string | null
 }
 
 /**
- * Storage namespace for JSON file persistence operations.
- * All operations use node:fs/promises for cross-platform compatibility.
+ * Storage namespace for persisting JSON records.
+ * Records live in one JSON file each by default, or in a SQLite database
+ * once the data directory has been migrated to it (see `migrate`). When
+ * encryption is enabled, each record is sealed before it reaches the
+ * backend (see `Encryption`).
  */
 export namespace Storage {
   /**
-   * Read and parse JSON data from storage.
-   * Handles invalid JSON gracefully by returning undefined and logging a warning.
+   * Read and parse a record from storage.
+   * Corrupt data is moved to the quarantine area and reported, rather
+   * than being mistaken for a missing record.
    * @param key - Path segments relative to data directory
-   * @returns Parsed data or undefined if not found or invalid JSON
+   * @returns Parsed data or undefined if not found
+   * @throws StorageError with code STORAGE_CORRUPT if the record is corrupt,
+   *   or ENCRYPTION_LOCKED if it is encrypted and the data is locked
    */
   export async function read<T>(key: string[]): Promise<T | undefined> {
-    const filePath = getDataPath(...key)
-    try {
-      const content = await fs.readFile(filePath, "utf-8")
-
-      // Handle empty file gracefully
-      const trimmed = content.trim()
-      if (!trimmed) {
-        Log.debug(`Storage file is empty: ${filePath}`)
-        return undefined
-      }
-
-      try {
-        return JSON.parse(trimmed) as T
-      } catch (parseErr) {
-        // Invalid JSON - log warning and return undefined
-        Log.warn(
-          `Invalid JSON in storage file ${filePath}: ${parseErr instanceof Error ? parseErr.message : String(parseErr)}`
-        )
-        return undefined
-      }
-    } catch {
-      // File doesn't exist or can't be read
-      return undefined
-    }
+    const data = await (await backend()).read<unknown>(key)
+    return data === undefined ? undefined : (await Encryption.codec()).reveal<T>(data)
   }
 
   /**
-   * Write JSON data to storage with pretty printing.
-   * Creates parent directories if they don't exist.
+   * Write a record to storage, replacing it in one step so a crash never
+   * leaves it half-written.
    * @param key - Path segments relative to data directory
    * @param data - Data to serialize and write
+   * @throws StorageError with code ENCRYPTION_LOCKED if the data is locked
    */
   export async function write<T>(key: string[], data: T): Promise<void> {
-    const filePath = getDataPath(...key)
-    await fs.mkdir(path.dirname(filePath), { recursive: true })
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), "utf-8")
+    const codec = await Encryption.codec()
+    await (await backend()).write(key, codec.protect(data))
   }
 
   /**
-   * Delete a file from storage.
+   * Delete a record from storage.
    * @param key - Path segments relative to data directory
-   * @returns true if file was deleted, false if it didn't exist
+   * @returns true if the record was deleted, false if it didn't exist
    */
   export async function remove(key: string[]): Promise<boolean> {
-    const filePath = getDataPath(...key)
-    try {
-      await fs.unlink(filePath)
-      return true
-    } catch {
-      return false
-    }
+    return (await backend()).remove(key)
   }
 
   /**
    * Atomically update data in storage.
-   * Reads current value, applies update function, writes result.
-   * Creates the file if it doesn't exist.
+   * Reads current value, applies update function, writes result, all while
+   * holding a lock so concurrent updates from other processes (or this one)
+   * cannot interleave. Creates the record if it doesn't exist.
    * @param key - Path segments relative to data directory
    * @param fn - Function that receives previous value and returns new value
    * @returns The new value after update
+   * @throws StorageError if the lock could not be taken or the record is corrupt
    */
   export async function update<T>(
     key: string[],
     fn: (prev: T | undefined) => T
   ): Promise<T> {
-    const prev = await read<T>(key)
-    const next = fn(prev)
-    await write(key, next)
-    return next
+    const codec = await Encryption.codec()
+    let next: T | undefined
+    await (await backend()).update<unknown>(key, (prev) => {
+      next = fn(prev === undefined ? undefined : codec.reveal<T>(prev))
+      return codec.protect(next)
+    })
+    return next as T
   }
 
   /**
-   * List all JSON files in a directory.
-   * @param prefix - Path segments for the directory to list
-   * @returns Array of file names without .json extension
+   * Atomically update a record that already exists, like `update`, but
+   * leaving a missing record missing instead of creating it.
+   * @param key - Path segments relative to data directory
+   * @param fn - Function that receives the current value and returns the new value
+   * @returns The new value, or undefined if the record doesn't exist
+   * @throws StorageError if the lock could not be taken or the record is corrupt
    */
-  export async function list(prefix: string[]): Promise<string[]> {
-    const dir = path.join(getDataDir(), ...prefix)
+  export async function updateExisting<T>(key: string[], fn: (prev: T) => T): Promise<T | undefined> {
+    let missing = false
     try {
-      const entries = await fs.readdir(dir)
-      return entries
-        .filter((e) => e.endsWith(".json"))
-        .map((e) => e.slice(0, -5))
-    } catch {
-      return []
+      return await update<T>(key, (prev) => {
+        if (prev === undefined) {
+          missing = true
+          throw new StorageError(`Record not found: ${key.join("/")}`, "STORAGE_NOT_FOUND")
+        }
+        return fn(prev)
+      })
+    } catch (err) {
+      if (missing) return undefined
+      throw err
     }
   }
 
+  /**
+   * List all records in a directory.
+   * @param prefix - Path segments for the directory to list
+   * @returns Array of record names
+   */
+  export async function list(prefix: string[]): Promise<string[]> {
+    return (await backend()).list(prefix)
+  }
+
   /**
    * List all subdirectories in a directory.
    * Useful for storage patterns where items are stored in subdirectories.
@@ -122,28 +163,61 @@ export namespace Storage {
    * @returns Array of subdirectory names
    */
   export async function listDirs(prefix: string[]): Promise<string[]> {
-    const dir = path.join(getDataDir(), ...prefix)
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true })
-      return entries.filter((e) => e.isDirectory()).map((e) => e.name)
-    } catch {
-      return []
-    }
+    return (await backend()).listDirs(prefix)
   }
 
   /**
-   * Check if a file exists in storage.
+   * Check if a record exists in storage.
    * @param key - Path segments relative to data directory
-   * @returns true if file exists, false otherwise
+   * @returns true if the record exists, false otherwise
    */
   export async function exists(key: string[]): Promise<boolean> {
-    const filePath = getDataPath(...key)
-    try {
-      await fs.access(filePath)
-      return true
-    } catch {
-      return false
+    return (await backend()).exists(key)
+  }
+
+  /**
+   * Find the records in a directory matching a filter on state, tag,
+   * goalId, or due date. Indexed with the SQLite backend, unless the
+   * records are encrypted, in which case every record is opened and checked.
+   * Corrupt records are quarantined and left out rather than failing the query.
+   * @param prefix - Path segments for the directory to search
+   * @returns Matching records, in no particular order
+   */
+  export async function query<T>(prefix: string[], filter: RecordQuery = {}): Promise<T[]> {
+    const codec = await Encryption.codec()
+    if (!codec.enabled) {
+      const records = await (await backend()).query<unknown>(prefix, filter)
+      return records.map((r) => codec.reveal<T>(r))
+    }
+    const records = await (await backend()).query<unknown>(prefix, {})
+    return records.map((r) => codec.reveal<T>(r)).filter((r) => matchesQuery(r, filter))
+  }
+
+  /**
+   * List the key of every record in storage, leaving out quarantined ones.
+   * @returns Keys as path segments relative to the data directory
+   */
+  export async function keys(): Promise<string[][]> {
+    return (await backend()).keys()
+  }
+
+  /**
+   * Rewrite every record with the current encryption setting, sealing
+   * plain records or (with `plaintext`) opening sealed ones. Used to
+   * encrypt or decrypt an existing data directory in place.
+   * @param options.plaintext - Write every record in plain JSON
+   * @returns Number of records rewritten
+   * @throws StorageError with code ENCRYPTION_LOCKED if the data is locked
+   */
+  export async function reencrypt(options: { plaintext?: boolean } = {}): Promise<number> {
+    const codec = await Encryption.codec(options)
+    const store = await backend()
+    let count = 0
+    for (const key of await store.keys()) {
+      await store.update<unknown>(key, (prev) => codec.protect(codec.reveal(prev)))
+      count++
     }
+    return count
   }
 
   /**
@@ -152,5 +226,90 @@ export namespace Storage {
    */
   export async function ensureDir(): Promise<void> {
     await fs.mkdir(getDataDir(), { recursive: true })
+    await (await backend()).ensureDir()
+  }
+
+  /**
+   * Name of the backend the data directory uses.
+   */
+  export async function backendName(): Promise<BackendName> {
+    return (await backend()).name
+  }
+
+  /**
+   * Close the open backend. The next call reopens it.
+   */
+  export async function close(): Promise<void> {
+    const current = active
+    active = null
+    if (current) (await current.backend).close()
+  }
+
+  /**
+   * Copy every record to another backend and switch the data directory
+   * over to it. The old backend's data is moved next to the data directory
+   * (data-json-<time> or data-sqlite-<time>.db) rather than deleted.
+   * Other DadGPT processes should be closed first.
+   * @param to - Backend to move to
+   * @param options.dryRun - Only count the records that would be copied
+   */
+  export async function migrate(
+    to: BackendName,
+    options: { dryRun?: boolean } = {}
+  ): Promise<BackendMigration> {
+    const dataDir = getDataDir()
+    const source = await backend()
+    const keys = await source.keys()
+    const from = source.name
+
+    if (from === to || options.dryRun) {
+      return { from, to, count: from === to ? 0 : keys.length, backupPath: null }
+    }
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+    const dbPath = path.join(dataDir, SQLITE_FILE)
+
+    if (to === "sqlite") {
+      // Build the database under a temporary name so a failed migration
+      // leaves the JSON tree in charge
+      const tempPath = `${dbPath}.migrating`
+      await fs.rm(tempPath, { force: true })
+      const target = await createSqliteBackend(tempPath)
+      try {
+        for (const key of keys) {
+          const data = await source.read(key)
+          if (data !== undefined) await target.write(key, data)
+        }
+        if ((await target.keys()).length !== keys.length) {
+          throw new StorageError("Record count mismatch after copying to SQLite", "STORAGE_MIGRATION_FAILED")
+        }
+      } catch (err) {
+        target.close()
+        await fs.rm(tempPath, { force: true })
+        throw err
+      }
+      target.close()
+
+      const backupPath = `${dataDir}-json-${stamp}`
+      await fs.mkdir(backupPath, { recursive: true })
+      for (const entry of await fs.readdir(dataDir)) {
+        if (entry === QUARANTINE_DIR || entry === KEY_FILE || entry.startsWith(SQLITE_FILE)) continue
+        await fs.rename(path.join(dataDir, entry), path.join(backupPath, entry))
+      }
+      await fs.rename(tempPath, dbPath)
+      await close()
+      return { from, to, count: keys.length, backupPath }
+    }
+
+    const target = createJsonBackend(dataDir)
+    for (const key of keys) {
+      const data = await source.read(key)
+      if (data !== undefined) await target.write(key, data)
+    }
+    await close()
+
+    const backupPath = `${dataDir}-sqlite-${stamp}.db`
+    await fs.rename(dbPath, backupPath)
+    return { from, to, count: keys.length, backupPath }
   }
 }
@@ -0,0 +1,831 @@
+/**
+ * Sync between dadgpt.md and structured storage.
+ *
+ * Imports goals, todos, projects, and family members parsed from a
+ * dadgpt.md file into the goal/todo/project stores and config.family.
+ * Existing records are matched by title (or name) instead of duplicated.
+ *
+ * Sync is two-way: after importing, dadgpt.md is regenerated from storage.
+ * Hashes of both sides are recorded after each sync so a later sync can
+ * tell which side changed, and refuse to guess when both did.
+ *
+ * Cancelled todos and abandoned goals are left out of the file. Checking
+ * or unchecking an item moves it through its state machine with the goal
+ * and todo tools, so completing a todo also schedules its next occurrence
+ * and unblocks the todos waiting on it.
+ */
+
+import * as fs from "node:fs/promises"
+import * as crypto from "node:crypto"
+import { Storage } from "../storage/storage"
+import { Config } from "../config/config"
+import { Bus } from "../bus/bus"
+import { createTimestampedId } from "../util/id"
+import { applyGoalEvent, createGoalContext, type GoalState } from "../state/goal.machine"
+import { applyTodoEvent, createTodoContext } from "../state/todo.machine"
+import { createProjectContext, type ProjectState } from "../state/project.machine"
+import type { FamilyMember } from "../config/schema"
+import { GoalTool, type StoredGoal } from "../tool/goal"
+import { TodoTool, type StoredTodo } from "../tool/todo"
+import type { StoredProject } from "../tool/project"
+import type { ToolContext } from "../tool/types"
+import { Log } from "../util/log"
+import { anchorRecurrence } from "../util/recurrence"
+import { loadRecords } from "../migration/schema"
+import {
+  parseDadGPTMd,
+  serializeDadGPTMd,
+  type ParsedDadGPTMd,
+  type ParsedGoal,
+  type ParsedTodo,
+  type ParsedProject,
+  type ParsedFamilyMember,
+} from "../parser/dadgpt-md"
+
+/**
+ * Kind of record touched by a sync
+ */
+export type SyncEntity = "goal" | "todo" | "project" | "family"
+
+/**
+ * A single field difference between storage and dadgpt.md
+ */
+export interface FieldChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+/**
+ * A create or update that a sync would apply
+ */
+export interface SyncChange {
+  entity: SyncEntity
+  action: "create" | "update"
+  id: string
+  title: string
+  fields: FieldChange[]
+}
+
+/**
+ * Result of planning a sync: the diff plus the records to write
+ */
+export interface SyncPlan {
+  changes: SyncChange[]
+  goals: StoredGoal[]
+  todos: StoredTodo[]
+  projects: StoredProject[]
+  /** Full family list after the sync (only saved if a family change exists) */
+  family: FamilyMember[]
+}
+
+/**
+ * Which side a conflict should be resolved in favor of
+ */
+export type SyncPreference = "file" | "storage"
+
+/**
+ * Options for running a two-way sync
+ */
+export interface SyncRunOptions {
+  /** Compute what would happen without writing anything */
+  dryRun?: boolean
+  /** Resolve a conflict in favor of this side */
+  prefer?: SyncPreference
+}
+
+/**
+ * Outcome of a two-way sync
+ */
+export interface SyncResult {
+  /**
+   * What the sync did (or would do, on a dry run):
+   * - import: dadgpt.md changes were applied to storage
+   * - export: dadgpt.md was regenerated from storage
+   * - none: both sides were already in sync
+   * - conflict: both sides changed and no preference was given
+   */
+  direction: "import" | "export" | "none" | "conflict"
+  /** Creates/updates imported from dadgpt.md (empty unless importing) */
+  plan: SyncPlan
+  /** Whether dadgpt.md was (or would be) rewritten */
+  fileUpdated: boolean
+}
+
+/**
+ * Recorded state of the last sync for a dadgpt.md file
+ */
+interface SyncState {
+  file: string
+  fileHash: string
+  storageHash: string
+  syncedAt: number
+}
+
+/**
+ * All records a sync reads and writes
+ */
+interface SyncStore {
+  goals: StoredGoal[]
+  todos: StoredTodo[]
+  projects: StoredProject[]
+  family: FamilyMember[]
+}
+
+/**
+ * Context for the tool calls a sync makes
+ */
+const SYNC_CONTEXT: ToolContext = { sessionId: "sync" }
+
+/**
+ * Events that take a goal to completed from each state it can be completed from
+ */
+const COMPLETE_GOAL: Partial<Record<GoalState, Array<"START" | "RESUME" | "COMPLETE">>> = {
+  not_started: ["START", "COMPLETE"],
+  in_progress: ["COMPLETE"],
+  paused: ["RESUME", "COMPLETE"],
+}
+
+/**
+ * Fields set by state transitions rather than written directly
+ */
+const TRANSITION_FIELDS = new Set(["state", "progress", "completedAt"])
+
+/**
+ * Valid project states accepted from the "Status:" metadata line
+ */
+const PROJECT_STATES: ProjectState[] = ["planning", "active", "on_hold", "completed", "cancelled"]
+
+/**
+ * Normalize a title or name for matching
+ */
+function matchKey(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+/**
+ * Whether a todo still needs doing
+ */
+function isOpen(todo: StoredTodo): boolean {
+  return todo.state !== "done" && todo.state !== "cancelled"
+}
+
+/**
+ * Find the stored todo a parsed todo refers to, leaving out cancelled
+ * todos since the file doesn't list them. Past occurrences of a
+ * recurring todo share its title, so a checked line prefers a done todo,
+ * an unchecked one prefers an open todo, and a todo already matched by an
+ * earlier line is not matched again.
+ */
+function findTodo(todos: StoredTodo[], parsed: ParsedTodo, matched: Set<string>): StoredTodo | undefined {
+  const candidates = todos.filter(
+    (t) => t.state !== "cancelled" && !matched.has(t.id) && matchKey(t.title) === matchKey(parsed.title)
+  )
+  const preferred = candidates.find((t) => (parsed.completed ? t.state === "done" : isOpen(t)))
+  return preferred ?? candidates[0]
+}
+
+/**
+ * Check if a birthday string is in MM-DD or YYYY-MM-DD format
+ */
+function isValidBirthday(value: string): boolean {
+  return /^(\d{4}-)?\d{2}-\d{2}$/.test(value)
+}
+
+/**
+ * Compare current values with desired values and return the differences.
+ * Only keys present in `next` are compared.
+ */
+function diffFields(
+  current: Record<string, unknown>,
+  next: Record<string, unknown>
+): FieldChange[] {
+  const changes: FieldChange[] = []
+  for (const [field, to] of Object.entries(next)) {
+    const from = current[field]
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to })
+    }
+  }
+  return changes
+}
+
+/**
+ * Load every goal, todo, project, and family member
+ */
+async function loadStore(): Promise<SyncStore> {
+  const config = await Config.get()
+  return {
+    goals: await loadRecords("goals"),
+    todos: await loadRecords("todos"),
+    projects: await loadRecords("projects"),
+    family: [...config.family],
+  }
+}
+
+/**
+ * Return the store as it would look after applying a plan
+ */
+function applyToStore(store: SyncStore, syncPlan: SyncPlan): SyncStore {
+  function merge<T extends { id: string }>(current: T[], updates: T[]): T[] {
+    const byId = new Map(current.map((r) => [r.id, r]))
+    for (const record of updates) {
+      byId.set(record.id, record)
+    }
+    return Array.from(byId.values())
+  }
+
+  return {
+    goals: merge(store.goals, syncPlan.goals),
+    todos: merge(store.todos, syncPlan.todos),
+    projects: merge(store.projects, syncPlan.projects),
+    family: syncPlan.changes.some((c) => c.entity === "family") ? syncPlan.family : store.family,
+  }
+}
+
+/**
+ * Convert stored records into the structure written to dadgpt.md. A
+ * checkbox can't show cancelled or abandoned, so those records are left out.
+ */
+function toParsed(store: SyncStore): ParsedDadGPTMd {
+  const byCreated = <T extends { id: string; createdAt: number }>(records: T[]): T[] =>
+    [...records].sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id))
+
+  return {
+    goals: byCreated(store.goals.filter((g) => g.state !== "abandoned")).map((g) => ({
+      title: g.title,
+      completed: g.state === "completed",
+      category: g.category || undefined,
+      dueDate: g.dueDate ?? undefined,
+      description: g.description || undefined,
+    })),
+    todos: byCreated(store.todos.filter((t) => t.state !== "cancelled")).map((t) => ({
+      title: t.title,
+      completed: t.state === "done",
+      priority: t.priority,
+      tags: t.tags.length > 0 ? t.tags : undefined,
+      dueDate: t.dueDate ?? undefined,
+      recurrence: t.recurrence ?? undefined,
+      description: t.description || undefined,
+    })),
+    family: store.family.map((m) => ({
+      name: m.name,
+      relationship: m.relationship,
+      birthday: m.birthday,
+      notes: m.notes,
+    })),
+    projects: byCreated(store.projects).map((p) => ({
+      name: p.name,
+      status: p.state,
+      goal: store.goals.find((g) => g.id === p.goalId)?.title,
+      description: p.description || undefined,
+      milestones: p.milestones.map((m) => ({ title: m.title, completed: m.completed })),
+    })),
+  }
+}
+
+/**
+ * SHA-256 hex digest of a string
+ */
+function hash(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex")
+}
+
+/**
+ * Storage key for the sync state of a dadgpt.md file
+ */
+function stateKey(filePath: string): string[] {
+  return ["sync", hash(filePath).slice(0, 16)]
+}
+
+/**
+ * Read a file, returning undefined if it does not exist
+ */
+async function readFileIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, "utf-8")
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Plan the goal changes for a parsed goal
+ */
+function planGoal(
+  parsed: ParsedGoal,
+  existing: StoredGoal | undefined,
+  now: number
+): { record: StoredGoal; change: SyncChange } | null {
+  if (!existing) {
+    const id = createTimestampedId("goal")
+    const context = createGoalContext({
+      id,
+      title: parsed.title,
+      category: parsed.category ?? "Personal",
+      description: parsed.description ?? "",
+      dueDate: parsed.dueDate ?? null,
+      createdAt: now,
+      updatedAt: now,
+    })
+    const events = parsed.completed ? COMPLETE_GOAL.not_started! : []
+    const record = events.reduce<StoredGoal>(
+      (goal, type) => applyGoalEvent(goal, { type }),
+      { ...context, state: "not_started" }
+    )
+    return {
+      record,
+      change: {
+        entity: "goal",
+        action: "create",
+        id,
+        title: parsed.title,
+        fields: diffFields({}, {
+          category: record.category,
+          dueDate: record.dueDate ?? undefined,
+          description: record.description || undefined,
+          state: record.state,
+        }).filter((f) => f.to !== undefined),
+      },
+    }
+  }
+
+  const next: Record<string, unknown> = {}
+  if (parsed.category) next.category = parsed.category
+  if (parsed.dueDate) next.dueDate = parsed.dueDate
+  if (parsed.description) next.description = parsed.description
+  // Checking a goal completes it; completed goals are final and are never reopened
+  const events = parsed.completed ? COMPLETE_GOAL[existing.state] : undefined
+  if (events) {
+    const completed = events.reduce((goal, type) => applyGoalEvent(goal, { type }), existing)
+    next.state = completed.state
+    next.progress = completed.progress
+  }
+
+  const fields = diffFields(existing as unknown as Record<string, unknown>, next)
+  if (fields.length === 0) return null
+
+  return {
+    record: { ...existing, ...next, updatedAt: now } as StoredGoal,
+    change: { entity: "goal", action: "update", id: existing.id, title: existing.title, fields },
+  }
+}
+
+/**
+ * Plan the todo changes for a parsed todo
+ * @param canReopen - Whether unchecking a done todo may reopen it; not
+ *   while an open todo with the same title exists
+ */
+function planTodo(
+  parsed: ParsedTodo,
+  existing: StoredTodo | undefined,
+  now: number,
+  canReopen: boolean
+): { record: StoredTodo; change: SyncChange } | null {
+  if (!existing) {
+    const id = createTimestampedId("todo")
+    const context = createTodoContext({
+      id,
+      title: parsed.title,
+      description: parsed.description ?? "",
+      priority: parsed.priority ?? "medium",
+      dueDate: parsed.dueDate ?? null,
+      recurrence: parsed.recurrence ? anchorRecurrence(parsed.recurrence, parsed.dueDate) : null,
+      tags: parsed.tags ?? [],
+      createdAt: now,
+      updatedAt: now,
+    })
+    const pending: StoredTodo = { ...context, state: "pending" }
+    const record = parsed.completed ? applyTodoEvent(pending, { type: "COMPLETE" }) : pending
+    return {
+      record,
+      change: {
+        entity: "todo",
+        action: "create",
+        id,
+        title: parsed.title,
+        fields: diffFields({}, {
+          priority: record.priority,
+          dueDate: record.dueDate ?? undefined,
+          recurrence: record.recurrence ?? undefined,
+          tags: record.tags.length > 0 ? record.tags : undefined,
+          description: record.description || undefined,
+          state: record.state,
+        }).filter((f) => f.to !== undefined),
+      },
+    }
+  }
+
+  const next: Record<string, unknown> = {}
+  if (parsed.priority) next.priority = parsed.priority
+  if (parsed.tags) next.tags = parsed.tags
+  if (parsed.dueDate) next.dueDate = parsed.dueDate
+  if (parsed.recurrence) next.recurrence = anchorRecurrence(parsed.recurrence, parsed.dueDate ?? existing.dueDate)
+  if (parsed.description) next.description = parsed.description
+  // Checking a todo completes it if its state allows (a blocked todo stays
+  // blocked); unchecking a done todo reopens it
+  const event = parsed.completed
+    ? existing.state !== "done" ? "COMPLETE" : undefined
+    : existing.state === "done" && canReopen ? "REOPEN" : undefined
+  if (event) {
+    const transitioned = applyTodoEvent(existing, { type: event })
+    next.state = transitioned.state
+    next.completedAt = transitioned.completedAt
+  }
+
+  const fields = diffFields(existing as unknown as Record<string, unknown>, next)
+    .filter((f) => f.field !== "completedAt")
+  if (fields.length === 0) return null
+
+  return {
+    record: { ...existing, ...next, updatedAt: now } as StoredTodo,
+    change: { entity: "todo", action: "update", id: existing.id, title: existing.title, fields },
+  }
+}
+
+/**
+ * Plan the project changes for a parsed project
+ */
+function planProject(
+  parsed: ParsedProject,
+  existing: StoredProject | undefined,
+  goals: StoredGoal[],
+  now: number
+): { record: StoredProject; change: SyncChange } | null {
+  // Resolve "Status:" to a project state (e.g. "On hold" -> on_hold)
+  const status = parsed.status?.trim().toLowerCase().replace(/[\s-]+/g, "_")
+  const state = PROJECT_STATES.find((s) => s === status)
+
+  // Resolve "Goal:" to a goal ID by title
+  const goal = parsed.goal
+    ? goals.find((g) => matchKey(g.title) === matchKey(parsed.goal!))
+    : undefined
+
+  const base: StoredProject = existing ?? {
+    ...createProjectContext({
+      id: createTimestampedId("project"),
+      name: parsed.name,
+      createdAt: now,
+      updatedAt: now,
+    }),
+    state: "planning",
+  }
+
+  const next: Record<string, unknown> = {}
+  if (parsed.description) next.description = parsed.description
+  if (state) {
+    next.state = state
+    next.status = state
+  }
+  if (goal) next.goalId = goal.id
+
+  const fields = diffFields(base as unknown as Record<string, unknown>, next)
+    .filter((f) => f.field !== "status")
+
+  // Merge milestones by title
+  const milestones = base.milestones.map((m) => ({ ...m }))
+  for (const parsedMilestone of parsed.milestones) {
+    const match = milestones.find((m) => matchKey(m.title) === matchKey(parsedMilestone.title))
+    if (!match) {
+      milestones.push({
+        id: createTimestampedId("milestone"),
+        title: parsedMilestone.title,
+        completed: parsedMilestone.completed,
+        dueDate: null,
+      })
+      fields.push({
+        field: `milestone "${parsedMilestone.title}"`,
+        from: undefined,
+        to: parsedMilestone.completed ? "done" : "open",
+      })
+    } else if (match.completed !== parsedMilestone.completed) {
+      fields.push({
+        field: `milestone "${match.title}"`,
+        from: match.completed ? "done" : "open",
+        to: parsedMilestone.completed ? "done" : "open",
+      })
+      match.completed = parsedMilestone.completed
+    }
+  }
+
+  if (existing && fields.length === 0) return null
+
+  return {
+    record: { ...base, ...next, milestones, updatedAt: now } as StoredProject,
+    change: {
+      entity: "project",
+      action: existing ? "update" : "create",
+      id: base.id,
+      title: existing ? existing.name : parsed.name,
+      fields,
+    },
+  }
+}
+
+/**
+ * Plan the family changes for a parsed family member
+ */
+function planFamilyMember(
+  parsed: ParsedFamilyMember,
+  existing: FamilyMember | undefined
+): { record: FamilyMember; change: SyncChange } | null {
+  const birthday = parsed.birthday && isValidBirthday(parsed.birthday) ? parsed.birthday : undefined
+  const notes = parsed.notes || undefined
+
+  if (!existing) {
+    const record: FamilyMember = {
+      id: createTimestampedId("family"),
+      name: parsed.name,
+      relationship: parsed.relationship,
+      birthday,
+      notes,
+    }
+    return {
+      record,
+      change: {
+        entity: "family",
+        action: "create",
+        id: record.id,
+        title: parsed.name,
+        fields: diffFields({}, { relationship: record.relationship, birthday, notes })
+          .filter((f) => f.to !== undefined),
+      },
+    }
+  }
+
+  const next: Record<string, unknown> = {}
+  // "### Name" headers carry no relationship; keep the stored one
+  if (parsed.relationship && parsed.relationship !== "Unknown") {
+    next.relationship = parsed.relationship
+  }
+  if (birthday) next.birthday = birthday
+  if (notes) next.notes = notes
+
+  const fields = diffFields(existing as unknown as Record<string, unknown>, next)
+  if (fields.length === 0) return null
+
+  return {
+    record: { ...existing, ...next } as FamilyMember,
+    change: { entity: "family", action: "update", id: existing.id, title: existing.name, fields },
+  }
+}
+
+/**
+ * Wait for a transition made through a tool, logging it if the tool
+ * refused (say, because the record changed state since the plan was made)
+ */
+async function transition(call: Promise<{ title: string; output: string }>): Promise<void> {
+  const result = await call
+  if (result.title === "Error") Log.warn(`Sync could not change state: ${result.output}`)
+}
+
+/**
+ * Sync namespace for importing dadgpt.md content into storage
+ */
+export namespace Sync {
+  /**
+   * Compute the creates and updates needed to bring storage in line
+   * with a parsed dadgpt.md file. Nothing is written.
+   *
+   * @param parsed - Parsed dadgpt.md content
+   * @returns The sync plan
+   */
+  export async function plan(parsed: ParsedDadGPTMd): Promise<SyncPlan> {
+    const now = Date.now()
+    const store = await loadStore()
+
+    const result: SyncPlan = {
+      changes: [],
+      goals: [],
+      todos: [],
+      projects: [],
+      family: store.family,
+    }
+
+    // Goals - every goal (stored or new) is kept for project goal resolution,
+    // but abandoned goals aren't in the file and aren't matched
+    const allGoals = [...store.goals]
+    for (const item of parsed.goals) {
+      const existing = allGoals.find((g) => g.state !== "abandoned" && matchKey(g.title) === matchKey(item.title))
+      const planned = planGoal(item, existing, now)
+      if (!planned) continue
+      result.goals.push(planned.record)
+      result.changes.push(planned.change)
+      if (existing) {
+        allGoals[allGoals.indexOf(existing)] = planned.record
+      } else {
+        allGoals.push(planned.record)
+      }
+    }
+
+    // Todos
+    const allTodos = [...store.todos]
+    const matchedTodos = new Set<string>()
+    for (const item of parsed.todos) {
+      const existing = findTodo(allTodos, item, matchedTodos)
+      const canReopen = !allTodos.some(
+        (t) => t.id !== existing?.id && isOpen(t) && matchKey(t.title) === matchKey(item.title)
+      )
+      const planned = planTodo(item, existing, now, canReopen)
+      if (existing) matchedTodos.add(existing.id)
+      if (!planned) continue
+      result.todos.push(planned.record)
+      result.changes.push(planned.change)
+      if (!existing) {
+        allTodos.push(planned.record)
+        matchedTodos.add(planned.record.id)
+      }
+    }
+
+    // Projects
+    const allProjects = [...store.projects]
+    for (const item of parsed.projects) {
+      const existing = allProjects.find((p) => matchKey(p.name) === matchKey(item.name))
+      const planned = planProject(item, existing, allGoals, now)
+      if (!planned) continue
+      result.projects.push(planned.record)
+      result.changes.push(planned.change)
+      if (!existing) allProjects.push(planned.record)
+    }
+
+    // Family
+    for (const item of parsed.family) {
+      const index = result.family.findIndex((m) => matchKey(m.name) === matchKey(item.name))
+      const planned = planFamilyMember(item, result.family[index])
+      if (!planned) continue
+      result.changes.push(planned.change)
+      if (index === -1) {
+        result.family.push(planned.record)
+      } else {
+        result.family[index] = planned.record
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Apply a sync plan: write new records, update existing ones under their
+   * lock, save family to config, and publish the matching Bus events.
+   * Completions and reopens go through the goal and todo tools, which
+   * publish their own completed events.
+   *
+   * @param syncPlan - Plan returned by Sync.plan()
+   */
+  export async function apply(syncPlan: SyncPlan): Promise<void> {
+    const goals = new Map(syncPlan.goals.map((g) => [g.id, g]))
+    const todos = new Map(syncPlan.todos.map((t) => [t.id, t]))
+    const projects = new Map(syncPlan.projects.map((p) => [p.id, p]))
+    const now = Date.now()
+
+    const familyChanged = syncPlan.changes.some((c) => c.entity === "family")
+    if (familyChanged) {
+      await Config.save({ family: syncPlan.family })
+    }
+
+    for (const change of syncPlan.changes) {
+      const changes = Object.fromEntries(change.fields.map((f) => [f.field, f.to]))
+      const fields = Object.fromEntries(
+        change.fields.filter((f) => !TRANSITION_FIELDS.has(f.field)).map((f) => [f.field, f.to])
+      )
+      const state = change.fields.find((f) => f.field === "state")
+
+      switch (change.entity) {
+        case "goal":
+          if (change.action === "create") {
+            await Storage.write(["goals", change.id], goals.get(change.id)!)
+            Bus.publish("goal.created", { goalId: change.id })
+            break
+          }
+          if (Object.keys(fields).length > 0) {
+            await Storage.updateExisting<StoredGoal>(["goals", change.id], (g) => ({ ...g, ...fields, updatedAt: now }))
+          }
+          Bus.publish("goal.updated", { goalId: change.id, changes })
+          for (const event of state ? (COMPLETE_GOAL[state.from as GoalState] ?? []) : []) {
+            await transition(GoalTool.execute({ action: "transition", id: change.id, event }, SYNC_CONTEXT))
+          }
+          break
+        case "todo":
+          if (change.action === "create") {
+            await Storage.write(["todos", change.id], todos.get(change.id)!)
+            Bus.publish("todo.created", { todoId: change.id })
+            break
+          }
+          if (Object.keys(fields).length > 0) {
+            await Storage.updateExisting<StoredTodo>(["todos", change.id], (t) => ({ ...t, ...fields, updatedAt: now }))
+          }
+          Bus.publish("todo.updated", { todoId: change.id, changes })
+          if (state?.to === "done") {
+            await transition(TodoTool.execute({ action: "complete", id: change.id }, SYNC_CONTEXT))
+          } else if (state) {
+            await transition(TodoTool.execute({ action: "transition", id: change.id, event: "REOPEN" }, SYNC_CONTEXT))
+          }
+          break
+        case "project": {
+          const project = projects.get(change.id)!
+          if (change.action === "create") {
+            await Storage.write(["projects", change.id], project)
+            Bus.publish("project.created", { projectId: change.id })
+            break
+          }
+          // Todos may have been linked meanwhile, so todoIds is kept as stored
+          await Storage.updateExisting<StoredProject>(["projects", change.id], (p) => ({
+            ...p,
+            description: project.description,
+            state: project.state,
+            status: project.status,
+            goalId: project.goalId,
+            milestones: project.milestones,
+            updatedAt: now,
+          }))
+          Bus.publish("project.updated", { projectId: change.id, changes })
+          break
+        }
+        case "family":
+          if (change.action === "create") {
+            Bus.publish("family.added", { memberId: change.id })
+          } else {
+            Bus.publish("family.updated", { memberId: change.id, changes })
+          }
+          break
+      }
+    }
+  }
+
+  /**
+   * Render dadgpt.md content from the current storage.
+   *
+   * @param existing - Optional current file content whose other sections are kept
+   * @returns Markdown content
+   */
+  export async function render(existing?: string): Promise<string> {
+    return serializeDadGPTMd(toParsed(await loadStore()), existing)
+  }
+
+  /**
+   * Run a two-way sync between a dadgpt.md file and storage.
+   *
+   * Compares both sides against the hashes recorded at the last sync:
+   * - only the file changed: import it, then regenerate the file
+   * - only storage changed: regenerate the file
+   * - both changed: report a conflict unless `prefer` picks a side
+   *
+   * The first sync of a file always imports, since importing only creates
+   * and updates records and never removes anything from storage.
+   *
+   * @param filePath - Absolute path to dadgpt.md (created if missing)
+   * @param options - Dry run and conflict preference
+   * @returns What the sync did
+   */
+  export async function run(
+    filePath: string,
+    options: SyncRunOptions = {}
+  ): Promise<SyncResult> {
+    const content = await readFileIfExists(filePath)
+    const state = await Storage.read<SyncState>(stateKey(filePath))
+    const store = await loadStore()
+
+    const fileChanged = content !== undefined && (!state || hash(content) !== state.fileHash)
+    const storageChanged = !state || hash(serializeDadGPTMd(toParsed(store))) !== state.storageHash
+
+    const emptyPlan: SyncPlan = { changes: [], goals: [], todos: [], projects: [], family: store.family }
+
+    if (state && fileChanged && storageChanged && !options.prefer) {
+      return { direction: "conflict", plan: emptyPlan, fileUpdated: false }
+    }
+
+    const importFile = fileChanged && options.prefer !== "storage"
+    const syncPlan = importFile ? await plan(parseDadGPTMd(content!)) : emptyPlan
+
+    // Regenerate the file from storage as it will be after the import
+    let merged = applyToStore(store, syncPlan)
+    let rendered = serializeDadGPTMd(toParsed(merged), content)
+    let fileUpdated = rendered !== content
+    const direction = importFile ? "import" : fileUpdated ? "export" : "none"
+
+    if (options.dryRun) {
+      return { direction, plan: syncPlan, fileUpdated }
+    }
+
+    if (syncPlan.changes.length > 0) {
+      await apply(syncPlan)
+      // Completing a todo can schedule its next occurrence and unblock
+      // others, so render what was actually stored
+      merged = await loadStore()
+      rendered = serializeDadGPTMd(toParsed(merged), content)
+      fileUpdated = rendered !== content
+    }
+    if (fileUpdated) {
+      await fs.writeFile(filePath, rendered, "utf-8")
+    }
+
+    await Storage.write<SyncState>(stateKey(filePath), {
+      file: filePath,
+      fileHash: hash(rendered),
+      storageHash: hash(serializeDadGPTMd(toParsed(merged))),
+      syncedAt: Date.now(),
+    })
+
+    return { direction, plan: syncPlan, fileUpdated }
+  }
+}
@@ -1,9 +1,7 @@
 import { z } from "zod"
 import type { Tool, ToolContext, ToolResult } from "./types"
 import { Config } from "../config/config"
-import { Bus } from "../bus/bus"
-import { createTimestampedId } from "../util/id"
-import type { FamilyMember } from "../config/schema"
+import { Family } from "../family/family"
 
 /**
  * Parameters schema for the family tool
@@ -23,51 +21,6 @@ const FamilyToolParams = z.object({
 
 type FamilyToolArgs = z.infer<typeof FamilyToolParams>
 
-/**
- * Parse a date string (MM-DD or YYYY-MM-DD) and get the month/day
- */
-function parseBirthday(dateStr: string): { month: number; day: number } | null {
-  // Try YYYY-MM-DD format
-  const fullMatch = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})$/)
-  if (fullMatch) {
-    return {
-      month: parseInt(fullMatch[2]!, 10),
-      day: parseInt(fullMatch[3]!, 10),
-    }
-  }
-
-  // Try MM-DD format
-  const shortMatch = dateStr.match(/^(\d{2})-(\d{2})$/)
-  if (shortMatch) {
-    return {
-      month: parseInt(shortMatch[1]!, 10),
-      day: parseInt(shortMatch[2]!, 10),
-    }
-  }
-
-  return null
-}
-
-/**
- * Calculate days until a birthday/anniversary from today
- */
-function daysUntil(month: number, day: number): number {
-  const today = new Date()
-  const thisYear = today.getFullYear()
-
-  // Create date for this year
-  let nextOccurrence = new Date(thisYear, month - 1, day)
-
-  // If already passed this year, use next year
-  if (nextOccurrence < today) {
-    nextOccurrence = new Date(thisYear + 1, month - 1, day)
-  }
-
-  // Calculate days difference
-  const diffTime = nextOccurrence.getTime() - today.getTime()
-  return Math.ceil(diffTime / (1000 * 60 * 60 * 24))
-}
-
 /**
  * Execute the family tool actions
  */
@@ -130,52 +83,20 @@ async function handleList(): Promise<ToolResult> {
  * Handle add action - add a new family member
  */
 async function handleAdd(args: FamilyToolArgs): Promise<ToolResult> {
-  if (!args.name) {
-    return {
-      title: "Error",
-      output: "Name is required to add a family member.",
-    }
-  }
-
-  if (!args.relationship) {
+  let member
+  try {
+    member = await Family.add(args)
+  } catch (err) {
     return {
       title: "Error",
-      output: "Relationship is required to add a family member.",
-    }
-  }
-
-  // Validate birthday format if provided
-  if (args.birthday) {
-    const parsed = parseBirthday(args.birthday)
-    if (!parsed) {
-      return {
-        title: "Error",
-        output: "Invalid birthday format. Use MM-DD or YYYY-MM-DD.",
-      }
+      output: err instanceof Error ? err.message : String(err),
     }
   }
 
-  const id = createTimestampedId("family")
-  const newMember: FamilyMember = {
-    id,
-    name: args.name,
-    relationship: args.relationship,
-    birthday: args.birthday,
-    notes: args.notes,
-  }
-
-  // Get current config and add new member
-  const config = await Config.get()
-  const updatedFamily = [...config.family, newMember]
-
-  // Save to config
-  await Config.save({ family: updatedFamily })
-  Bus.publish("family.added", { memberId: id })
-
   return {
     title: "Family Member Added",
-    output: `Added ${args.name} (${args.relationship}) to family${args.birthday ? ` with birthday ${args.birthday}` : ""}.`,
-    metadata: { memberId: id },
+    output: `Added ${member.name} (${member.relationship}) to family${member.birthday ? ` with birthday ${member.birthday}` : ""}.`,
+    metadata: { memberId: member.id },
   }
 }
 
@@ -225,49 +146,24 @@ async function handleUpdate(args: FamilyToolArgs): Promise<ToolResult> {
     }
   }
 
-  const config = await Config.get()
-  const memberIndex = config.family.findIndex((m) => m.id === args.id)
-
-  if (memberIndex === -1) {
+  let result
+  try {
+    result = await Family.update(args.id, args)
+  } catch (err) {
     return {
       title: "Error",
-      output: `Family member not found: ${args.id}`,
+      output: err instanceof Error ? err.message : String(err),
     }
   }
 
-  const member = config.family[memberIndex]!
-  const changes: Record<string, unknown> = {}
-
-  if (args.name !== undefined) {
-    member.name = args.name
-    changes.name = args.name
-  }
-
-  if (args.relationship !== undefined) {
-    member.relationship = args.relationship
-    changes.relationship = args.relationship
-  }
-
-  if (args.birthday !== undefined) {
-    // Validate birthday format
-    if (args.birthday !== "") {
-      const parsed = parseBirthday(args.birthday)
-      if (!parsed) {
-        return {
-          title: "Error",
-          output: "Invalid birthday format. Use MM-DD or YYYY-MM-DD.",
-        }
-      }
+  if (!result) {
+    return {
+      title: "Error",
+      output: `Family member not found: ${args.id}`,
     }
-    member.birthday = args.birthday || undefined
-    changes.birthday = args.birthday
-  }
-
-  if (args.notes !== undefined) {
-    member.notes = args.notes || undefined
-    changes.notes = args.notes
   }
 
+  const { member, changes } = result
   if (Object.keys(changes).length === 0) {
     return {
       title: "No Changes",
@@ -275,12 +171,6 @@ async function handleUpdate(args: FamilyToolArgs): Promise<ToolResult> {
     }
   }
 
-  // Save updated config
-  const updatedFamily = [...config.family]
-  updatedFamily[memberIndex] = member
-  await Config.save({ family: updatedFamily })
-  Bus.publish("family.updated", { memberId: args.id, changes })
-
   return {
     title: "Family Member Updated",
     output: `Updated ${member.name}: ${Object.keys(changes).join(", ")}`,
@@ -299,9 +189,7 @@ async function handleRemove(args: FamilyToolArgs): Promise<ToolResult> {
     }
   }
 
-  const config = await Config.get()
-  const member = config.family.find((m) => m.id === args.id)
-
+  const member = await Family.remove(args.id)
   if (!member) {
     return {
       title: "Error",
@@ -309,10 +197,6 @@ async function handleRemove(args: FamilyToolArgs): Promise<ToolResult> {
     }
   }
 
-  const updatedFamily = config.family.filter((m) => m.id !== args.id)
-  await Config.save({ family: updatedFamily })
-  Bus.publish("family.removed", { memberId: args.id })
-
   return {
     title: "Family Member Removed",
     output: `Removed ${member.name} (${member.relationship}) from family.`,
@@ -324,32 +208,9 @@ async function handleRemove(args: FamilyToolArgs): Promise<ToolResult> {
  * Handle upcoming action - list upcoming birthdays/anniversaries
  */
 async function handleUpcoming(args: FamilyToolArgs): Promise<ToolResult> {
-  const config = await Config.get()
-  const family = config.family
-
   // Default to 30 days if not specified
   const daysLimit = args.days ?? 30
-
-  // Filter members with birthdays and calculate days until
-  const upcoming: Array<{
-    member: FamilyMember
-    daysUntilBirthday: number
-  }> = []
-
-  for (const member of family) {
-    if (member.birthday) {
-      const parsed = parseBirthday(member.birthday)
-      if (parsed) {
-        const days = daysUntil(parsed.month, parsed.day)
-        if (days <= daysLimit) {
-          upcoming.push({
-            member,
-            daysUntilBirthday: days,
-          })
-        }
-      }
-    }
-  }
+  const upcoming = Family.upcoming(await Family.list(), daysLimit)
 
   if (upcoming.length === 0) {
     return {
@@ -359,18 +220,16 @@ async function handleUpcoming(args: FamilyToolArgs): Promise<ToolResult> {
     }
   }
 
-  // Sort by days until birthday
-  upcoming.sort((a, b) => a.daysUntilBirthday - b.daysUntilBirthday)
-
   const output = upcoming
     .map((item) => {
       const daysText =
-        item.daysUntilBirthday === 0
+        item.daysUntil === 0
           ? "TODAY!"
-          : item.daysUntilBirthday === 1
+          : item.daysUntil === 1
             ? "Tomorrow"
-            : `in ${item.daysUntilBirthday} days`
-      return `- ${item.member.name} (${item.member.relationship}): ${item.member.birthday} - ${daysText}`
+            : `in ${item.daysUntil} days`
+      const turningText = item.turning !== undefined ? ` (turning ${item.turning})` : ""
+      return `- ${item.member.name} (${item.member.relationship}): ${item.member.birthday} - ${daysText}${turningText}`
     })
     .join("\n")
 
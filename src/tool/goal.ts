@@ -1,11 +1,14 @@
 import { z } from "zod"
-import { createActor } from "xstate"
 import type { Tool, ToolContext, ToolResult } from "./types"
-import { Storage } from "../storage/storage"
+import { Storage, type RecordQuery } from "../storage/storage"
 import { Bus } from "../bus/bus"
 import { createTimestampedId } from "../util/id"
+import { GoalProgress } from "../goal/progress"
+import { Integrity } from "../integrity/integrity"
+import { Trash } from "../trash/trash"
+import { loadRecords, parseRecord } from "../migration/schema"
 import {
-  goalMachine,
+  applyGoalEvent,
   createGoalContext,
   type GoalContext,
   type GoalState,
@@ -20,7 +23,7 @@ const GOALS_PREFIX = ["goals"]
 /**
  * Stored goal includes state machine state
  */
-interface StoredGoal extends GoalContext {
+export interface StoredGoal extends GoalContext {
   state: GoalState
 }
 
@@ -28,7 +31,7 @@ interface StoredGoal extends GoalContext {
  * Parameters schema for the goal tool
  */
 const GoalToolParams = z.object({
-  action: z.enum(["list", "create", "get", "update", "transition", "delete"]),
+  action: z.enum(["list", "create", "get", "update", "transition", "delete", "restore", "purge"]),
   // For create
   title: z.string().optional(),
   category: z.string().optional(),
@@ -37,8 +40,10 @@ const GoalToolParams = z.object({
   milestones: z
     .array(z.object({ title: z.string() }))
     .optional(),
-  // For get, update, transition, delete
+  // For get, update, transition, delete, restore, purge
   id: z.string().optional(),
+  // For create and update
+  progressMode: z.enum(["manual", "auto"]).optional(),
   // For update
   progress: z.number().min(0).max(100).optional(),
   // For transition
@@ -46,6 +51,8 @@ const GoalToolParams = z.object({
     .enum(["START", "PAUSE", "RESUME", "COMPLETE", "ABANDON", "COMPLETE_MILESTONE"])
     .optional(),
   milestoneId: z.string().optional(),
+  // For delete: what to do with todos and projects that reference the goal
+  policy: z.enum(["detach", "cascade", "refuse"]).optional(),
   // For list filters
   categoryFilter: z.string().optional(),
   statusFilter: z.enum(["not_started", "in_progress", "paused", "completed", "abandoned"]).optional(),
@@ -54,28 +61,35 @@ const GoalToolParams = z.object({
 type GoalToolArgs = z.infer<typeof GoalToolParams>
 
 /**
- * Load a goal from storage
+ * Load a goal from storage, validating it against the goal schema
  */
 async function loadGoal(id: string): Promise<StoredGoal | undefined> {
-  return Storage.read<StoredGoal>([...GOALS_PREFIX, id])
+  const goal = await Storage.read<unknown>([...GOALS_PREFIX, id])
+  return goal === undefined ? undefined : parseRecord("goals", goal)
 }
 
 /**
- * Save a goal to storage
+ * Save a new goal to storage
  */
 async function saveGoal(goal: StoredGoal): Promise<void> {
   await Storage.write([...GOALS_PREFIX, goal.id], goal)
 }
 
 /**
- * List all goals from storage
+ * Change a stored goal while holding its lock, so a write from another
+ * process can't land in between and be lost. `fn` gets the goal as it is
+ * stored now, and may return it unchanged when the change no longer applies.
+ * @returns The goal as written, or undefined if it doesn't exist
  */
-async function listGoals(): Promise<StoredGoal[]> {
-  const goalIds = await Storage.list(GOALS_PREFIX)
-  const goals = await Promise.all(
-    goalIds.map((id) => loadGoal(id))
-  )
-  return goals.filter((g): g is StoredGoal => g !== undefined)
+async function updateGoal(id: string, fn: (goal: StoredGoal) => StoredGoal): Promise<StoredGoal | undefined> {
+  return Storage.updateExisting<StoredGoal>([...GOALS_PREFIX, id], (goal) => fn(parseRecord("goals", goal)))
+}
+
+/**
+ * List goals from storage, filtered by the storage backend
+ */
+async function listGoals(filter: RecordQuery = {}): Promise<StoredGoal[]> {
+  return loadRecords("goals", filter)
 }
 
 /**
@@ -98,6 +112,10 @@ async function executeGoalTool(
       return handleTransition(args)
     case "delete":
       return handleDelete(args)
+    case "restore":
+      return handleRestore(args)
+    case "purge":
+      return handlePurge(args)
     default:
       return {
         title: "Error",
@@ -110,7 +128,7 @@ async function executeGoalTool(
  * Handle list action
  */
 async function handleList(args: GoalToolArgs): Promise<ToolResult> {
-  let goals = await listGoals()
+  let goals = await listGoals({ state: args.statusFilter })
 
   // Apply category filter
   if (args.categoryFilter) {
@@ -119,11 +137,6 @@ async function handleList(args: GoalToolArgs): Promise<ToolResult> {
     )
   }
 
-  // Apply status filter
-  if (args.statusFilter) {
-    goals = goals.filter((g) => g.state === args.statusFilter)
-  }
-
   // Sort by createdAt descending (newest first)
   goals.sort((a, b) => b.createdAt - a.createdAt)
 
@@ -177,6 +190,7 @@ async function handleCreate(args: GoalToolArgs): Promise<ToolResult> {
     description: args.description ?? "",
     dueDate: args.dueDate ?? null,
     milestones,
+    progressMode: args.progressMode ?? "manual",
     createdAt: now,
     updatedAt: now,
   })
@@ -188,6 +202,9 @@ async function handleCreate(args: GoalToolArgs): Promise<ToolResult> {
 
   await saveGoal(goal)
   Bus.publish("goal.created", { goalId: id })
+  if (goal.progressMode === "auto") {
+    await GoalProgress.recalculate(id)
+  }
 
   return {
     title: "Goal Created",
@@ -224,7 +241,7 @@ async function handleGet(args: GoalToolArgs): Promise<ToolResult> {
 Title: ${goal.title}
 Category: ${goal.category}
 Status: ${goal.state}
-Progress: ${goal.progress}%
+Progress: ${goal.progress}%${goal.progressMode === "auto" ? " (auto)" : ""}
 Description: ${goal.description || "(none)"}
 Due Date: ${goal.dueDate || "(none)"}${milestonesOutput}
 Created: ${new Date(goal.createdAt).toLocaleString()}
@@ -239,7 +256,8 @@ Updated: ${new Date(goal.updatedAt).toLocaleString()}
 }
 
 /**
- * Handle update action
+ * Handle update action. Setting progress by hand switches the goal to
+ * manual progress; switching to auto recalculates it right away.
  */
 async function handleUpdate(args: GoalToolArgs): Promise<ToolResult> {
   if (!args.id) {
@@ -249,47 +267,59 @@ async function handleUpdate(args: GoalToolArgs): Promise<ToolResult> {
     }
   }
 
-  const goal = await loadGoal(args.id)
-  if (!goal) {
+  if (args.progress !== undefined && args.progressMode === "auto") {
     return {
       title: "Error",
-      output: `Goal not found: ${args.id}`,
+      output: "Progress cannot be set by hand in auto progress mode.",
     }
   }
 
-  const changes: Record<string, unknown> = {}
-
-  if (args.title !== undefined) {
-    goal.title = args.title
-    changes.title = args.title
-  }
-
-  if (args.description !== undefined) {
-    goal.description = args.description
-    changes.description = args.description
-  }
-
-  if (args.progress !== undefined) {
-    // Use state machine for progress update if in_progress
-    if (goal.state === "in_progress") {
-      const actor = createActor(goalMachine, {
-        snapshot: goalMachine.resolveState({
-          value: goal.state,
-          context: goal,
-        }),
-      })
-      actor.start()
-      actor.send({ type: "UPDATE_PROGRESS", progress: args.progress })
-      const snapshot = actor.getSnapshot()
-      goal.progress = snapshot.context.progress
-      goal.updatedAt = snapshot.context.updatedAt
-      actor.stop()
-    } else {
-      // Allow direct progress update for non-in_progress states
-      goal.progress = Math.min(100, Math.max(0, args.progress))
-      goal.updatedAt = Date.now()
+  // Apply the changes to the goal as stored when the lock is held
+  let changes: Record<string, unknown> = {}
+  const goal = await updateGoal(args.id, (goal) => {
+    changes = {}
+
+    if (args.title !== undefined) {
+      goal.title = args.title
+      changes.title = args.title
+    }
+
+    if (args.description !== undefined) {
+      goal.description = args.description
+      changes.description = args.description
+    }
+
+    if (args.progress !== undefined) {
+      // Use state machine for progress update if in_progress
+      if (goal.state === "in_progress") {
+        const next = applyGoalEvent(goal, { type: "UPDATE_PROGRESS", progress: args.progress })
+        goal.progress = next.progress
+        goal.updatedAt = next.updatedAt
+      } else {
+        // Allow direct progress update for non-in_progress states
+        goal.progress = Math.min(100, Math.max(0, args.progress))
+        goal.updatedAt = Date.now()
+      }
+      changes.progress = goal.progress
+      if (goal.progressMode === "auto") {
+        goal.progressMode = "manual"
+        changes.progressMode = "manual"
+      }
+    }
+
+    if (args.progressMode !== undefined && args.progressMode !== (goal.progressMode ?? "manual")) {
+      goal.progressMode = args.progressMode
+      changes.progressMode = args.progressMode
+    }
+
+    if (Object.keys(changes).length > 0) goal.updatedAt = Date.now()
+    return goal
+  })
+  if (!goal) {
+    return {
+      title: "Error",
+      output: `Goal not found: ${args.id}`,
     }
-    changes.progress = goal.progress
   }
 
   if (Object.keys(changes).length === 0) {
@@ -299,13 +329,18 @@ async function handleUpdate(args: GoalToolArgs): Promise<ToolResult> {
     }
   }
 
-  goal.updatedAt = Date.now()
-  await saveGoal(goal)
   Bus.publish("goal.updated", { goalId: args.id, changes })
 
+  let progressNote = ""
+  if (changes.progressMode === "auto") {
+    await GoalProgress.recalculate(args.id)
+    const recalculated = await loadGoal(args.id)
+    progressNote = `\nProgress is now ${recalculated?.progress ?? goal.progress}%`
+  }
+
   return {
     title: "Goal Updated",
-    output: `Updated goal "${goal.title}": ${Object.keys(changes).join(", ")}`,
+    output: `Updated goal "${goal.title}": ${Object.keys(changes).join(", ")}${progressNote}`,
     metadata: { goalId: args.id, changes },
   }
 }
@@ -344,20 +379,10 @@ async function handleTransition(args: GoalToolArgs): Promise<ToolResult> {
     }
   }
 
-  // Create actor with current state
-  const actor = createActor(goalMachine, {
-    snapshot: goalMachine.resolveState({
-      value: goal.state,
-      context: goal,
-    }),
-  })
-  actor.start()
-
   // Build the event
   let event: GoalEvent
   if (args.event === "COMPLETE_MILESTONE") {
     if (!args.milestoneId) {
-      actor.stop()
       return {
         title: "Error",
         output: "milestoneId is required for COMPLETE_MILESTONE event.",
@@ -368,37 +393,43 @@ async function handleTransition(args: GoalToolArgs): Promise<ToolResult> {
     event = { type: args.event } as GoalEvent
   }
 
-  // Send the event
-  actor.send(event)
-
-  // Get the new state
-  const snapshot = actor.getSnapshot()
-  const newState = snapshot.value as GoalState
-  const newContext = snapshot.context
-
-  actor.stop()
-
-  // Update stored goal
-  const updatedGoal: StoredGoal = {
-    ...newContext,
-    state: newState,
+  // Send the event to the goal as stored when the lock is held
+  let previousState = goal.state as GoalState
+  const updatedGoal = await updateGoal(args.id, (current) => {
+    previousState = current.state
+    if (current.state === "completed" || current.state === "abandoned") return current
+    return applyGoalEvent(current, event)
+  })
+  if (!updatedGoal) {
+    return {
+      title: "Error",
+      output: `Goal not found: ${args.id}`,
+    }
   }
-  await saveGoal(updatedGoal)
+  if (previousState === "completed" || previousState === "abandoned") {
+    return {
+      title: "Error",
+      output: `Cannot transition goal in final state: ${previousState}`,
+    }
+  }
+  const newState = updatedGoal.state
 
   // Publish events
   if (newState === "completed") {
     Bus.publish("goal.completed", { goalId: args.id })
+  } else if (args.event === "COMPLETE_MILESTONE" && updatedGoal.progressMode === "auto") {
+    await GoalProgress.recalculate(args.id)
   }
 
   return {
     title: "Goal Transitioned",
-    output: `Goal "${goal.title}" transitioned from ${goal.state} to ${newState}`,
-    metadata: { goalId: args.id, previousState: goal.state, newState },
+    output: `Goal "${goal.title}" transitioned from ${previousState} to ${newState}`,
+    metadata: { goalId: args.id, previousState, newState },
   }
 }
 
 /**
- * Handle delete action
+ * Handle delete action, applying the delete policy to the goal's todos and projects
  */
 async function handleDelete(args: GoalToolArgs): Promise<ToolResult> {
   if (!args.id) {
@@ -416,20 +447,97 @@ async function handleDelete(args: GoalToolArgs): Promise<ToolResult> {
     }
   }
 
-  const deleted = await Storage.remove([...GOALS_PREFIX, args.id])
-  if (!deleted) {
-    return {
-      title: "Error",
-      output: `Failed to delete goal: ${args.id}`,
+  const policy = args.policy ?? "detach"
+  if (policy === "refuse") {
+    const dependents = await Integrity.dependents("goal", args.id)
+    if (dependents.todos.length + dependents.projects.length > 0) {
+      return {
+        title: "Error",
+        output: `Cannot delete goal "${goal.title}": it is still referenced by ${Integrity.summarize(dependents)}. Delete with policy "detach" or "cascade" instead.`,
+      }
     }
   }
 
+  await Trash.put("goal", goal)
   Bus.publish("goal.deleted", { goalId: args.id })
+  const released = await Integrity.release("goal", args.id, policy === "cascade" ? "cascade" : "detach")
 
   return {
     title: "Goal Deleted",
-    output: `Deleted goal: "${goal.title}" (ID: ${args.id})`,
-    metadata: { goalId: args.id },
+    output: `Moved goal to the trash: "${goal.title}" (ID: ${args.id})${Integrity.describe(released)}`,
+    metadata: {
+      goalId: args.id,
+      policy,
+      deletedTodoIds: released.deleted.todos.map((t) => t.id),
+      deletedProjectIds: released.deleted.projects.map((p) => p.id),
+      detachedTodoIds: released.detached.todos.map((t) => t.id),
+      detachedProjectIds: released.detached.projects.map((p) => p.id),
+    },
+  }
+}
+
+/**
+ * Handle restore action - bring a goal back from the trash along with
+ * anything deleted with it
+ */
+async function handleRestore(args: GoalToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to restore a goal.",
+    }
+  }
+
+  const entry = await Trash.get(args.id)
+  if (!entry || entry.kind !== "goal") {
+    return {
+      title: "Error",
+      output: `Goal not found in trash: ${args.id}`,
+    }
+  }
+
+  const problem = await Trash.restoreProblem(entry)
+  if (problem) {
+    return {
+      title: "Error",
+      output: `Cannot restore goal: ${problem}`,
+    }
+  }
+
+  const restored = (await Trash.restore(args.id)) ?? []
+
+  return {
+    title: "Goal Restored",
+    output: `Restored goal: "${entry.title}" (ID: ${args.id})${Trash.describe(restored, "Also restored")}`,
+    metadata: { goalId: args.id, restoredIds: restored.map((e) => e.id) },
+  }
+}
+
+/**
+ * Handle purge action - permanently delete a goal from the trash
+ */
+async function handlePurge(args: GoalToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to purge a goal.",
+    }
+  }
+
+  const entry = await Trash.get(args.id)
+  if (!entry || entry.kind !== "goal") {
+    return {
+      title: "Error",
+      output: `Goal not found in trash: ${args.id}`,
+    }
+  }
+
+  const purged = (await Trash.purge(args.id)) ?? []
+
+  return {
+    title: "Goal Purged",
+    output: `Permanently deleted goal: "${entry.title}" (ID: ${args.id})${Trash.describe(purged, "Also purged")}`,
+    metadata: { goalId: args.id, purgedIds: purged.map((e) => e.id) },
   }
 }
 
@@ -440,11 +548,14 @@ export const GoalTool: Tool<typeof GoalToolParams> = {
   id: "goal",
   description: `Manage goals with full lifecycle support. Actions:
 - list: List all goals (optional filters: categoryFilter, statusFilter)
-- create: Create a new goal (required: title; optional: category, description, dueDate, milestones)
+- create: Create a new goal (required: title; optional: category, description, dueDate, milestones, progressMode)
 - get: Get goal details by ID
-- update: Update goal fields (title, description, progress)
+- update: Update goal fields (title, description, progress, progressMode). Setting progress by hand switches the goal to manual progress
+- progressMode: "manual" (default) or "auto", which rolls progress up from completed milestones, the goal's todos (goalId), and its projects (goalId)
 - transition: Change goal state (events: START, PAUSE, RESUME, COMPLETE, ABANDON, COMPLETE_MILESTONE)
-- delete: Remove a goal by ID`,
+- delete: Move a goal to the trash by ID. policy decides what happens to its todos and projects: detach (default, unlink them), cascade (delete them too), or refuse (fail if any exist)
+- restore: Bring a deleted goal back from the trash by ID, with anything deleted along with it
+- purge: Permanently delete a goal that is in the trash`,
   parameters: GoalToolParams,
   execute: executeGoalTool,
 }
@@ -1,9 +1,13 @@
 import { z } from "zod"
 import { createActor } from "xstate"
 import type { Tool, ToolContext, ToolResult } from "./types"
-import { Storage } from "../storage/storage"
+import type { StoredTodo } from "./todo"
+import { Storage, type RecordQuery } from "../storage/storage"
 import { Bus } from "../bus/bus"
 import { createTimestampedId } from "../util/id"
+import { Integrity } from "../integrity/integrity"
+import { Trash } from "../trash/trash"
+import { loadRecords, parseRecord, validRecords } from "../migration/schema"
 import {
   projectMachine,
   createProjectContext,
@@ -17,10 +21,15 @@ import {
  */
 const PROJECTS_PREFIX = ["projects"]
 
+/**
+ * Storage key prefix for todos, whose projectId mirrors the project's todoIds
+ */
+const TODOS_PREFIX = ["todos"]
+
 /**
  * Stored project includes state machine state
  */
-interface StoredProject extends ProjectContext {
+export interface StoredProject extends ProjectContext {
   state: ProjectState
 }
 
@@ -28,13 +37,13 @@ interface StoredProject extends ProjectContext {
  * Parameters schema for the project tool
  */
 const ProjectToolParams = z.object({
-  action: z.enum(["list", "create", "get", "update", "transition", "addMilestone", "delete"]),
+  action: z.enum(["list", "create", "get", "update", "transition", "addMilestone", "delete", "restore", "purge"]),
   // For create
   name: z.string().optional(),
   description: z.string().optional(),
   budget: z.number().optional(),
   goalId: z.string().optional(),
-  // For get, update, transition, addMilestone, delete
+  // For get, update, transition, addMilestone, delete, restore, purge
   id: z.string().optional(),
   // For addMilestone
   milestoneTitle: z.string().optional(),
@@ -44,6 +53,8 @@ const ProjectToolParams = z.object({
     .enum(["START", "PAUSE", "RESUME", "COMPLETE", "CANCEL", "COMPLETE_MILESTONE"])
     .optional(),
   milestoneId: z.string().optional(),
+  // For delete: what to do with the project's todos
+  policy: z.enum(["detach", "cascade", "refuse"]).optional(),
   // For list filters
   statusFilter: z.enum(["planning", "active", "on_hold", "completed", "cancelled"]).optional(),
 })
@@ -51,28 +62,99 @@ const ProjectToolParams = z.object({
 type ProjectToolArgs = z.infer<typeof ProjectToolParams>
 
 /**
- * Load a project from storage
+ * Load a project from storage, validating it against the project schema
  */
 async function loadProject(id: string): Promise<StoredProject | undefined> {
-  return Storage.read<StoredProject>([...PROJECTS_PREFIX, id])
+  const project = await Storage.read<unknown>([...PROJECTS_PREFIX, id])
+  return project === undefined ? undefined : parseRecord("projects", project)
 }
 
 /**
- * Save a project to storage
+ * Save a new project to storage
  */
 async function saveProject(project: StoredProject): Promise<void> {
   await Storage.write([...PROJECTS_PREFIX, project.id], project)
 }
 
 /**
- * List all projects from storage
+ * Change a stored project while holding its lock, so a write from another
+ * process can't land in between and be lost. `fn` gets the project as it
+ * is stored now, and may return it unchanged when the change no longer applies.
+ * @returns The project as written, or undefined if it doesn't exist
+ */
+async function updateProject(
+  id: string,
+  fn: (project: StoredProject) => StoredProject
+): Promise<StoredProject | undefined> {
+  return Storage.updateExisting<StoredProject>([...PROJECTS_PREFIX, id], (project) =>
+    fn(parseRecord("projects", project))
+  )
+}
+
+/**
+ * Run an event through the project state machine
+ * @returns The project with its new state and context
+ */
+function applyEvent(project: StoredProject, event: ProjectEvent): StoredProject {
+  const actor = createActor(projectMachine, {
+    snapshot: projectMachine.resolveState({
+      value: project.state,
+      context: project,
+    }),
+  })
+  actor.start()
+  actor.send(event)
+  const snapshot = actor.getSnapshot()
+  actor.stop()
+
+  return {
+    ...snapshot.context,
+    state: snapshot.value as ProjectState,
+  }
+}
+
+/**
+ * Whether a project can no longer change state
+ */
+function isFinal(project: StoredProject): boolean {
+  return project.state === "completed" || project.state === "cancelled"
+}
+
+/**
+ * List projects from storage, filtered by the storage backend
+ */
+async function listProjects(filter: RecordQuery = {}): Promise<StoredProject[]> {
+  return loadRecords("projects", filter)
+}
+
+/**
+ * Load the todos linked to a project, skipping any that no longer exist
  */
-async function listProjects(): Promise<StoredProject[]> {
-  const projectIds = await Storage.list(PROJECTS_PREFIX)
-  const projects = await Promise.all(
-    projectIds.map((id) => loadProject(id))
+async function loadLinkedTodos(project: StoredProject): Promise<StoredTodo[]> {
+  const todos = await Promise.all(
+    project.todoIds.map((id) => Storage.read<unknown>([...TODOS_PREFIX, id]))
   )
-  return projects.filter((p): p is StoredProject => p !== undefined)
+  return validRecords("todos", todos.filter((t) => t !== undefined))
+}
+
+/**
+ * Project progress, counting completed milestones and done todos alike.
+ * Cancelled todos are left out of the total.
+ */
+export function computeProjectProgress(
+  project: StoredProject,
+  todos: StoredTodo[]
+): { percent: number; milestones: [number, number]; todos: [number, number] } {
+  const milestonesDone = project.milestones.filter((m) => m.completed).length
+  const countedTodos = todos.filter((t) => t.state !== "cancelled")
+  const todosDone = countedTodos.filter((t) => t.state === "done").length
+
+  const total = project.milestones.length + countedTodos.length
+  return {
+    percent: total === 0 ? 0 : Math.round(((milestonesDone + todosDone) / total) * 100),
+    milestones: [milestonesDone, project.milestones.length],
+    todos: [todosDone, countedTodos.length],
+  }
 }
 
 /**
@@ -97,6 +179,10 @@ async function executeProjectTool(
       return handleAddMilestone(args)
     case "delete":
       return handleDelete(args)
+    case "restore":
+      return handleRestore(args)
+    case "purge":
+      return handlePurge(args)
     default:
       return {
         title: "Error",
@@ -109,12 +195,7 @@ async function executeProjectTool(
  * Handle list action
  */
 async function handleList(args: ProjectToolArgs): Promise<ToolResult> {
-  let projects = await listProjects()
-
-  // Apply status filter
-  if (args.statusFilter) {
-    projects = projects.filter((p) => p.state === args.statusFilter)
-  }
+  const projects = await listProjects({ state: args.statusFilter })
 
   // Sort by createdAt descending (newest first)
   projects.sort((a, b) => b.createdAt - a.createdAt)
@@ -199,10 +280,17 @@ async function handleGet(args: ProjectToolArgs): Promise<ToolResult> {
     }
   }
 
+  const todos = await loadLinkedTodos(project)
+  const progress = computeProjectProgress(project, todos)
+
   const milestonesOutput =
     project.milestones.length > 0
       ? `\nMilestones:\n${project.milestones.map((m) => `  - [${m.completed ? "x" : " "}] ${m.title}${m.dueDate ? ` (Due: ${m.dueDate})` : ""}`).join("\n")}`
       : ""
+  const todosOutput =
+    todos.length > 0
+      ? `\n${todos.map((t) => `  - [${t.state}] ${t.title} (ID: ${t.id})`).join("\n")}`
+      : " (none)"
 
   const output = `
 Name: ${project.name}
@@ -210,7 +298,8 @@ Status: ${project.state}
 Description: ${project.description || "(none)"}
 Budget: ${project.budget !== null ? `$${project.budget}` : "(none)"}
 Goal ID: ${project.goalId || "(none)"}
-Todos: ${project.todoIds.length > 0 ? project.todoIds.join(", ") : "(none)"}${milestonesOutput}
+Progress: ${progress.percent}% (${progress.milestones[0]}/${progress.milestones[1]} milestones, ${progress.todos[0]}/${progress.todos[1]} todos)
+Todos:${todosOutput}${milestonesOutput}
 Created: ${new Date(project.createdAt).toLocaleString()}
 Updated: ${new Date(project.updatedAt).toLocaleString()}
 `.trim()
@@ -218,7 +307,7 @@ Updated: ${new Date(project.updatedAt).toLocaleString()}
   return {
     title: `Project: ${project.name}`,
     output,
-    metadata: { project },
+    metadata: { project, progress: progress.percent },
   }
 }
 
@@ -233,34 +322,39 @@ async function handleUpdate(args: ProjectToolArgs): Promise<ToolResult> {
     }
   }
 
-  const project = await loadProject(args.id)
-  if (!project) {
-    return {
-      title: "Error",
-      output: `Project not found: ${args.id}`,
-    }
-  }
+  // Apply the changes to the project as stored when the lock is held
+  let changes: Record<string, unknown> = {}
+  const project = await updateProject(args.id, (project) => {
+    changes = {}
 
-  const changes: Record<string, unknown> = {}
+    if (args.name !== undefined) {
+      project.name = args.name
+      changes.name = args.name
+    }
 
-  if (args.name !== undefined) {
-    project.name = args.name
-    changes.name = args.name
-  }
+    if (args.description !== undefined) {
+      project.description = args.description
+      changes.description = args.description
+    }
 
-  if (args.description !== undefined) {
-    project.description = args.description
-    changes.description = args.description
-  }
+    if (args.budget !== undefined) {
+      project.budget = args.budget
+      changes.budget = args.budget
+    }
 
-  if (args.budget !== undefined) {
-    project.budget = args.budget
-    changes.budget = args.budget
-  }
+    if (args.goalId !== undefined) {
+      project.goalId = args.goalId
+      changes.goalId = args.goalId
+    }
 
-  if (args.goalId !== undefined) {
-    project.goalId = args.goalId
-    changes.goalId = args.goalId
+    if (Object.keys(changes).length > 0) project.updatedAt = Date.now()
+    return project
+  })
+  if (!project) {
+    return {
+      title: "Error",
+      output: `Project not found: ${args.id}`,
+    }
   }
 
   if (Object.keys(changes).length === 0) {
@@ -270,8 +364,6 @@ async function handleUpdate(args: ProjectToolArgs): Promise<ToolResult> {
     }
   }
 
-  project.updatedAt = Date.now()
-  await saveProject(project)
   Bus.publish("project.updated", { projectId: args.id, changes })
 
   return {
@@ -315,20 +407,10 @@ async function handleTransition(args: ProjectToolArgs): Promise<ToolResult> {
     }
   }
 
-  // Create actor with current state
-  const actor = createActor(projectMachine, {
-    snapshot: projectMachine.resolveState({
-      value: project.state,
-      context: project,
-    }),
-  })
-  actor.start()
-
   // Build the event
   let event: ProjectEvent
   if (args.event === "COMPLETE_MILESTONE") {
     if (!args.milestoneId) {
-      actor.stop()
       return {
         title: "Error",
         output: "milestoneId is required for COMPLETE_MILESTONE event.",
@@ -339,41 +421,50 @@ async function handleTransition(args: ProjectToolArgs): Promise<ToolResult> {
     event = { type: args.event } as ProjectEvent
   }
 
-  // Send the event
-  actor.send(event)
-
-  // Get the new state
-  const snapshot = actor.getSnapshot()
-  const newState = snapshot.value as ProjectState
-  const newContext = snapshot.context
-
-  actor.stop()
+  // Send the event to the project as stored when the lock is held, leaving
+  // it alone if the event doesn't apply from that state
+  let previousState = project.state as ProjectState
+  const updatedProject = await updateProject(args.id, (current) => {
+    previousState = current.state
+    if (isFinal(current)) return current
+    const next = applyEvent(current, event)
+    return args.event !== "COMPLETE_MILESTONE" && next.state === current.state ? current : next
+  })
+  if (!updatedProject) {
+    return {
+      title: "Error",
+      output: `Project not found: ${args.id}`,
+    }
+  }
+  if (previousState === "completed" || previousState === "cancelled") {
+    return {
+      title: "Error",
+      output: `Cannot transition project in final state: ${previousState}`,
+    }
+  }
 
   // Check if state actually changed (for non-COMPLETE_MILESTONE events)
-  if (args.event !== "COMPLETE_MILESTONE" && newState === project.state) {
+  const newState = updatedProject.state
+  if (args.event !== "COMPLETE_MILESTONE" && newState === previousState) {
     return {
       title: "No Change",
-      output: `Event ${args.event} is not valid from state ${project.state}.`,
-      metadata: { projectId: args.id, currentState: project.state },
+      output: `Event ${args.event} is not valid from state ${previousState}.`,
+      metadata: { projectId: args.id, currentState: previousState },
     }
   }
 
-  // Update stored project
-  const updatedProject: StoredProject = {
-    ...newContext,
-    state: newState,
+  // Publish events; every state change can move an auto-mode goal's progress
+  if (newState !== previousState) {
+    Bus.publish("project.updated", { projectId: args.id, changes: { state: newState } })
   }
-  await saveProject(updatedProject)
-
-  // Publish events
   if (newState === "completed") {
     Bus.publish("project.completed", { projectId: args.id })
   }
 
   return {
     title: "Project Transitioned",
-    output: `Project "${project.name}" transitioned from ${project.state} to ${newState}`,
-    metadata: { projectId: args.id, previousState: project.state, newState },
+    output: `Project "${project.name}" transitioned from ${previousState} to ${newState}`,
+    metadata: { projectId: args.id, previousState, newState },
   }
 }
 
@@ -411,41 +502,36 @@ async function handleAddMilestone(args: ProjectToolArgs): Promise<ToolResult> {
     }
   }
 
-  // Create actor with current state
-  const actor = createActor(projectMachine, {
-    snapshot: projectMachine.resolveState({
-      value: project.state,
-      context: project,
-    }),
-  })
-  actor.start()
-
   // Generate milestone ID
   const milestoneId = createTimestampedId("milestone")
-
-  // Send ADD_MILESTONE event
-  actor.send({
+  const event: ProjectEvent = {
     type: "ADD_MILESTONE",
     milestone: {
       id: milestoneId,
       title: args.milestoneTitle,
       dueDate: args.milestoneDueDate ?? null,
     },
-  })
-
-  // Get the new state
-  const snapshot = actor.getSnapshot()
-  const newContext = snapshot.context
-  const newState = snapshot.value as ProjectState
-
-  actor.stop()
+  }
 
-  // Update stored project
-  const updatedProject: StoredProject = {
-    ...newContext,
-    state: newState,
+  // Add it to the project as stored when the lock is held
+  let finalState: ProjectState | null = null
+  const updatedProject = await updateProject(args.id, (current) => {
+    if (!isFinal(current)) return applyEvent(current, event)
+    finalState = current.state
+    return current
+  })
+  if (!updatedProject) {
+    return {
+      title: "Error",
+      output: `Project not found: ${args.id}`,
+    }
+  }
+  if (finalState) {
+    return {
+      title: "Error",
+      output: `Cannot add milestone to project in final state: ${finalState}`,
+    }
   }
-  await saveProject(updatedProject)
 
   return {
     title: "Milestone Added",
@@ -455,7 +541,7 @@ async function handleAddMilestone(args: ProjectToolArgs): Promise<ToolResult> {
 }
 
 /**
- * Handle delete action
+ * Handle delete action, applying the delete policy to the project's todos
  */
 async function handleDelete(args: ProjectToolArgs): Promise<ToolResult> {
   if (!args.id) {
@@ -473,20 +559,95 @@ async function handleDelete(args: ProjectToolArgs): Promise<ToolResult> {
     }
   }
 
-  const deleted = await Storage.remove([...PROJECTS_PREFIX, args.id])
-  if (!deleted) {
-    return {
-      title: "Error",
-      output: `Failed to delete project: ${args.id}`,
+  const policy = args.policy ?? "detach"
+  if (policy === "refuse") {
+    const dependents = await Integrity.dependents("project", args.id)
+    if (dependents.todos.length + dependents.projects.length > 0) {
+      return {
+        title: "Error",
+        output: `Cannot delete project "${project.name}": it is still referenced by ${Integrity.summarize(dependents)}. Delete with policy "detach" or "cascade" instead.`,
+      }
     }
   }
 
+  await Trash.put("project", project)
   Bus.publish("project.deleted", { projectId: args.id })
+  const released = await Integrity.release("project", args.id, policy === "cascade" ? "cascade" : "detach")
 
   return {
     title: "Project Deleted",
-    output: `Deleted project: "${project.name}" (ID: ${args.id})`,
-    metadata: { projectId: args.id },
+    output: `Moved project to the trash: "${project.name}" (ID: ${args.id})${Integrity.describe(released)}`,
+    metadata: {
+      projectId: args.id,
+      policy,
+      deletedTodoIds: released.deleted.todos.map((t) => t.id),
+      detachedTodoIds: released.detached.todos.map((t) => t.id),
+    },
+  }
+}
+
+/**
+ * Handle restore action - bring a project back from the trash along with
+ * anything deleted with it
+ */
+async function handleRestore(args: ProjectToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to restore a project.",
+    }
+  }
+
+  const entry = await Trash.get(args.id)
+  if (!entry || entry.kind !== "project") {
+    return {
+      title: "Error",
+      output: `Project not found in trash: ${args.id}`,
+    }
+  }
+
+  const problem = await Trash.restoreProblem(entry)
+  if (problem) {
+    return {
+      title: "Error",
+      output: `Cannot restore project: ${problem}`,
+    }
+  }
+
+  const restored = (await Trash.restore(args.id)) ?? []
+
+  return {
+    title: "Project Restored",
+    output: `Restored project: "${entry.title}" (ID: ${args.id})${Trash.describe(restored, "Also restored")}`,
+    metadata: { projectId: args.id, restoredIds: restored.map((e) => e.id) },
+  }
+}
+
+/**
+ * Handle purge action - permanently delete a project from the trash
+ */
+async function handlePurge(args: ProjectToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to purge a project.",
+    }
+  }
+
+  const entry = await Trash.get(args.id)
+  if (!entry || entry.kind !== "project") {
+    return {
+      title: "Error",
+      output: `Project not found in trash: ${args.id}`,
+    }
+  }
+
+  const purged = (await Trash.purge(args.id)) ?? []
+
+  return {
+    title: "Project Purged",
+    output: `Permanently deleted project: "${entry.title}" (ID: ${args.id})${Trash.describe(purged, "Also purged")}`,
+    metadata: { projectId: args.id, purgedIds: purged.map((e) => e.id) },
   }
 }
 
@@ -498,11 +659,13 @@ export const ProjectTool: Tool<typeof ProjectToolParams> = {
   description: `Manage projects with full lifecycle support. Actions:
 - list: List all projects (optional filter: statusFilter)
 - create: Create a new project (required: name; optional: description, budget, goalId)
-- get: Get project details by ID
+- get: Get project details by ID, including its todos and progress (completed milestones plus done todos). Link a todo with the todo tool's projectId
 - update: Update project fields (name, description, budget, goalId)
 - transition: Change project state (events: START, PAUSE, RESUME, COMPLETE, CANCEL, COMPLETE_MILESTONE)
 - addMilestone: Add a milestone to a project (required: milestoneTitle; optional: milestoneDueDate)
-- delete: Remove a project by ID`,
+- delete: Move a project to the trash by ID. policy decides what happens to its todos: detach (default, unlink them), cascade (delete them too), or refuse (fail if any exist)
+- restore: Bring a deleted project back from the trash by ID, with anything deleted along with it
+- purge: Permanently delete a project that is in the trash`,
   parameters: ProjectToolParams,
   execute: executeProjectTool,
 }
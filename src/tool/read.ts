@@ -2,6 +2,7 @@ import { z } from "zod"
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
 import type { Tool, ToolContext, ToolResult } from "./types"
+import { resolvePath } from "../util/path"
 
 /**
  * Parameters schema for the read tool
@@ -24,16 +25,6 @@ const ReadToolParams = z.object({
 
 type ReadToolArgs = z.infer<typeof ReadToolParams>
 
-/**
- * Resolve a path to an absolute path
- */
-function resolvePath(filePath: string): string {
-  if (path.isAbsolute(filePath)) {
-    return filePath
-  }
-  return path.resolve(process.cwd(), filePath)
-}
-
 /**
  * Execute the read tool
  */
@@ -120,11 +111,12 @@ async function executeReadTool(
 export const ReadTool: Tool<typeof ReadToolParams> = {
   id: "read",
   description: `Read the contents of a file. Supports reading partial files with offset and limit.
-- path: The file path to read (absolute or relative to current directory)
+- path: The file path to read (absolute, relative to current directory, or starting with ~)
 - offset: Optional starting line number (0-indexed, default: 0)
 - limit: Optional maximum number of lines to read (default: all lines)
 
 Output includes line numbers for easy reference.`,
   parameters: ReadToolParams,
   execute: executeReadTool,
+  resource: (args) => resolvePath(args.path),
 }
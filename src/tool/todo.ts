@@ -1,11 +1,15 @@
 import { z } from "zod"
-import { createActor } from "xstate"
 import type { Tool, ToolContext, ToolResult } from "./types"
-import { Storage } from "../storage/storage"
+import type { StoredProject } from "./project"
+import { Storage, type RecordQuery } from "../storage/storage"
 import { Bus } from "../bus/bus"
 import { createTimestampedId } from "../util/id"
+import { Integrity } from "../integrity/integrity"
+import { Trash } from "../trash/trash"
+import { loadRecords, parseRecord } from "../migration/schema"
+import { anchorRecurrence, describeRecurrence, nextOccurrence, normalizeRecurrence } from "../util/recurrence"
 import {
-  todoMachine,
+  applyTodoEvent,
   createTodoContext,
   type TodoContext,
   type TodoState,
@@ -17,10 +21,15 @@ import {
  */
 const TODOS_PREFIX = ["todos"]
 
+/**
+ * Storage key prefix for projects, whose todoIds mirror each todo's projectId
+ */
+const PROJECTS_PREFIX = ["projects"]
+
 /**
  * Stored todo includes state machine state
  */
-interface StoredTodo extends TodoContext {
+export interface StoredTodo extends TodoContext {
   state: TodoState
 }
 
@@ -28,22 +37,27 @@ interface StoredTodo extends TodoContext {
  * Parameters schema for the todo tool
  */
 const TodoToolParams = z.object({
-  action: z.enum(["list", "create", "get", "complete", "transition", "delete"]),
-  // For create
+  action: z.enum(["list", "create", "get", "update", "complete", "transition", "chain", "delete", "restore", "purge"]),
+  // For create and update
   title: z.string().optional(),
   description: z.string().optional(),
   priority: z.enum(["low", "medium", "high"]).optional(),
   dueDate: z.string().optional(),
+  recurrence: z.string().optional(),
   tags: z.array(z.string()).optional(),
   goalId: z.string().optional(),
-  // For get, complete, transition, delete
+  projectId: z.string().optional(),
+  // For create and the BLOCK transition: IDs of the todos this one depends on
+  blockedBy: z.array(z.string()).optional(),
+  // For get, update, complete, transition, chain, delete, restore, purge
   id: z.string().optional(),
   // For transition
   event: z
     .enum(["START", "COMPLETE", "BLOCK", "UNBLOCK", "DEFER", "CANCEL", "REOPEN"])
     .optional(),
-  blockedBy: z.string().optional(),
   until: z.string().optional(),
+  // For delete: what to do with todos blocked by this one
+  policy: z.enum(["detach", "cascade", "refuse"]).optional(),
   // For list filters
   statusFilter: z.enum(["pending", "in_progress", "blocked", "deferred", "done", "cancelled"]).optional(),
   priorityFilter: z.enum(["low", "medium", "high"]).optional(),
@@ -53,28 +67,232 @@ const TodoToolParams = z.object({
 type TodoToolArgs = z.infer<typeof TodoToolParams>
 
 /**
- * Load a todo from storage
+ * Load a todo from storage, validating it against the todo schema
  */
 async function loadTodo(id: string): Promise<StoredTodo | undefined> {
-  return Storage.read<StoredTodo>([...TODOS_PREFIX, id])
+  const todo = await Storage.read<unknown>([...TODOS_PREFIX, id])
+  return todo === undefined ? undefined : parseRecord("todos", todo)
 }
 
 /**
- * Save a todo to storage
+ * Save a new todo to storage
  */
 async function saveTodo(todo: StoredTodo): Promise<void> {
   await Storage.write([...TODOS_PREFIX, todo.id], todo)
 }
 
 /**
- * List all todos from storage
+ * Change a stored todo while holding its lock, so a write from another
+ * process (a scheduled `ask` and the TUI, say) can't land in between and
+ * be lost. `fn` gets the todo as it is stored now, and may return it
+ * unchanged when the change no longer applies.
+ * @returns The todo as written, or undefined if it doesn't exist
+ */
+async function updateTodo(id: string, fn: (todo: StoredTodo) => StoredTodo): Promise<StoredTodo | undefined> {
+  return Storage.updateExisting<StoredTodo>([...TODOS_PREFIX, id], (todo) => fn(parseRecord("todos", todo)))
+}
+
+/**
+ * List todos from storage, filtered by the storage backend
+ */
+async function listTodos(filter: RecordQuery = {}): Promise<StoredTodo[]> {
+  return loadRecords("todos", filter)
+}
+
+/**
+ * Add a todo to, or remove it from, a project's todoIds.
+ * Does nothing if the project does not exist or is already up to date.
  */
-async function listTodos(): Promise<StoredTodo[]> {
-  const todoIds = await Storage.list(TODOS_PREFIX)
-  const todos = await Promise.all(
-    todoIds.map((id) => loadTodo(id))
-  )
-  return todos.filter((t): t is StoredTodo => t !== undefined)
+async function setProjectLink(projectId: string, todoId: string, linked: boolean): Promise<void> {
+  let changed = false
+  const project = await Storage.updateExisting<StoredProject>([...PROJECTS_PREFIX, projectId], (project) => {
+    if (project.todoIds.includes(todoId) === linked) return project
+    changed = true
+    const todoIds = linked
+      ? [...project.todoIds, todoId]
+      : project.todoIds.filter((id) => id !== todoId)
+    return { ...project, todoIds, updatedAt: Date.now() }
+  })
+  if (project && changed) {
+    Bus.publish("project.updated", { projectId, changes: { todoIds: project.todoIds } })
+  }
+}
+
+/**
+ * Today's local date as YYYY-MM-DD
+ */
+function today(now: Date = new Date()): string {
+  const pad = (n: number): string => String(n).padStart(2, "0")
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+/**
+ * Create the next occurrence of a completed recurring todo.
+ * The next due date follows the todo's due date (or today when it has none),
+ * skipping occurrences that are already in the past.
+ *
+ * @returns The new todo, or undefined if the todo does not recur or its rule has ended
+ */
+async function spawnNextOccurrence(todo: StoredTodo): Promise<StoredTodo | undefined> {
+  if (!todo.recurrence) return undefined
+
+  const current = today()
+  const hasDate = todo.dueDate !== null && /^\d{4}-\d{2}-\d{2}/.test(todo.dueDate)
+  // Keep any time of day from the original due date
+  const timeSuffix = hasDate ? todo.dueDate!.slice(10) : ""
+
+  // Todos saved before monthly rules were pinned get pinned to this due date
+  const recurrence = anchorRecurrence(todo.recurrence, hasDate ? todo.dueDate : null)
+  let next = nextOccurrence(recurrence, hasDate ? todo.dueDate! : current)
+  while (next !== null && next < current) {
+    next = nextOccurrence(recurrence, next)
+  }
+  if (next === null) return undefined
+
+  const now = Date.now()
+  const context = createTodoContext({
+    id: createTimestampedId("todo"),
+    title: todo.title,
+    description: todo.description,
+    priority: todo.priority,
+    dueDate: next + timeSuffix,
+    recurrence,
+    tags: [...todo.tags],
+    goalId: todo.goalId,
+    projectId: todo.projectId,
+    createdAt: now,
+    updatedAt: now,
+  })
+  const nextTodo: StoredTodo = { ...context, state: "pending" }
+
+  await saveTodo(nextTodo)
+  if (nextTodo.projectId) {
+    await setProjectLink(nextTodo.projectId, nextTodo.id, true)
+  }
+  Bus.publish("todo.created", { todoId: nextTodo.id })
+  return nextTodo
+}
+
+/**
+ * Describe the spawned next occurrence for tool output
+ */
+function nextOccurrenceNote(nextTodo: StoredTodo | undefined): string {
+  if (!nextTodo) return ""
+  return `\nNext occurrence due ${nextTodo.dueDate} (ID: ${nextTodo.id})`
+}
+
+/**
+ * Return deferred todos to pending once their deferredUntil date has
+ * arrived. Called on startup so todos wake up without anyone asking.
+ *
+ * @returns The todos that woke up
+ */
+export async function wakeDeferredTodos(now: Date = new Date()): Promise<StoredTodo[]> {
+  const current = today(now)
+  const woken: StoredTodo[] = []
+
+  for (const todo of await listTodos({ state: "deferred" })) {
+    if (!todo.deferredUntil) continue
+    if (todo.deferredUntil.slice(0, 10) > current) continue
+
+    const updatedTodo = await updateTodo(todo.id, (t) => (t.state === "deferred" ? applyTodoEvent(t, { type: "WAKE" }) : t))
+    if (updatedTodo?.state !== "pending") continue
+    Bus.publish("todo.woke", { todoId: todo.id, deferredUntil: todo.deferredUntil })
+    woken.push(updatedTodo)
+  }
+
+  return woken
+}
+
+/**
+ * Find a dependency path from any of the blockers back to the todo.
+ * @returns The cycle as a list of IDs starting and ending with todoId, or null if there is none
+ */
+function findCycle(
+  todoId: string,
+  blockers: string[],
+  todos: Map<string, StoredTodo>
+): string[] | null {
+  const visited = new Set<string>()
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === todoId) return [...path, id]
+    if (visited.has(id)) return null
+    visited.add(id)
+    for (const next of todos.get(id)?.blockedBy ?? []) {
+      const cycle = visit(next, [...path, id])
+      if (cycle) return cycle
+    }
+    return null
+  }
+
+  for (const blocker of blockers) {
+    const cycle = visit(blocker, [todoId])
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Check that blockers exist and would not make the todo depend on itself.
+ * @returns An error message, or null if the blockers are valid
+ */
+function validateBlockers(
+  todoId: string,
+  blockers: string[],
+  todos: Map<string, StoredTodo>
+): string | null {
+  if (blockers.includes(todoId)) {
+    return "A todo cannot be blocked by itself."
+  }
+
+  const missing = blockers.filter((id) => !todos.has(id))
+  if (missing.length > 0) {
+    return `Blocking todo not found: ${missing.join(", ")}`
+  }
+
+  const cycle = findCycle(todoId, blockers, todos)
+  if (cycle) {
+    const titles = cycle.map((id) => `"${todos.get(id)?.title ?? id}"`)
+    return `Dependency cycle detected: ${titles.join(" → ")}`
+  }
+  return null
+}
+
+/**
+ * Unblock todos that were waiting on a completed todo once all of their
+ * blockers are done. Blockers that no longer exist do not hold a todo back.
+ *
+ * @returns The todos that were unblocked
+ */
+async function unblockDependents(completedId: string): Promise<StoredTodo[]> {
+  const todos = await listTodos()
+  const byId = new Map(todos.map((t) => [t.id, t]))
+  const unblocked: StoredTodo[] = []
+
+  for (const todo of todos) {
+    if (todo.state !== "blocked" || !todo.blockedBy.includes(completedId)) continue
+    const waiting = todo.blockedBy.some((id) => {
+      const blocker = byId.get(id)
+      return blocker !== undefined && blocker.state !== "done"
+    })
+    if (waiting) continue
+
+    const updatedTodo = await updateTodo(todo.id, (t) => (t.state === "blocked" ? applyTodoEvent(t, { type: "UNBLOCK" }) : t))
+    if (!updatedTodo || updatedTodo.state === "blocked") continue
+    Bus.publish("todo.unblocked", { todoId: todo.id, blockedBy: todo.blockedBy })
+    unblocked.push(updatedTodo)
+  }
+
+  return unblocked
+}
+
+/**
+ * Describe unblocked dependents for tool output
+ */
+function unblockedNote(unblocked: StoredTodo[]): string {
+  if (unblocked.length === 0) return ""
+  return `\nUnblocked: ${unblocked.map((t) => `"${t.title}"`).join(", ")}`
 }
 
 /**
@@ -100,12 +318,20 @@ async function executeTodoTool(
       return handleCreate(args)
     case "get":
       return handleGet(args)
+    case "update":
+      return handleUpdate(args)
     case "complete":
       return handleComplete(args)
     case "transition":
       return handleTransition(args)
+    case "chain":
+      return handleChain(args)
     case "delete":
       return handleDelete(args)
+    case "restore":
+      return handleRestore(args)
+    case "purge":
+      return handlePurge(args)
     default:
       return {
         title: "Error",
@@ -118,26 +344,13 @@ async function executeTodoTool(
  * Handle list action
  */
 async function handleList(args: TodoToolArgs): Promise<ToolResult> {
-  let todos = await listTodos()
-
-  // Apply status filter
-  if (args.statusFilter) {
-    todos = todos.filter((t) => t.state === args.statusFilter)
-  }
+  let todos = await listTodos({ state: args.statusFilter, tag: args.tagFilter })
 
   // Apply priority filter
   if (args.priorityFilter) {
     todos = todos.filter((t) => t.priority === args.priorityFilter)
   }
 
-  // Apply tag filter
-  if (args.tagFilter) {
-    const tagLower = args.tagFilter.toLowerCase()
-    todos = todos.filter((t) =>
-      t.tags.some((tag) => tag.toLowerCase() === tagLower)
-    )
-  }
-
   // Sort by priority (high first) then by dueDate (earliest first)
   todos.sort((a, b) => {
     // First by priority (high > medium > low)
@@ -172,7 +385,7 @@ async function handleList(args: TodoToolArgs): Promise<ToolResult> {
   const output = todos
     .map(
       (t) =>
-        `- [${t.state}] ${priorityIcon[t.priority] ?? ""} ${t.title}${t.dueDate ? ` | Due: ${t.dueDate}` : ""}${t.tags.length > 0 ? ` | Tags: ${t.tags.join(", ")}` : ""}`
+        `- [${t.state}] ${priorityIcon[t.priority] ?? ""} ${t.title}${t.dueDate ? ` | Due: ${t.dueDate}` : ""}${t.deferredUntil ? ` | Deferred until: ${t.deferredUntil}` : ""}${t.recurrence ? ` | Recurs: ${describeRecurrence(t.recurrence)}` : ""}${t.tags.length > 0 ? ` | Tags: ${t.tags.join(", ")}` : ""}`
     )
     .join("\n")
 
@@ -194,33 +407,76 @@ async function handleCreate(args: TodoToolArgs): Promise<ToolResult> {
     }
   }
 
+  let recurrence: string | null = null
+  if (args.recurrence) {
+    try {
+      // Monthly todos keep the day of their first due date
+      recurrence = anchorRecurrence(args.recurrence, args.dueDate)
+    } catch (err) {
+      return {
+        title: "Error",
+        output: err instanceof Error ? err.message : String(err),
+      }
+    }
+  }
+
+  if (args.projectId && !(await Storage.exists([...PROJECTS_PREFIX, args.projectId]))) {
+    return {
+      title: "Error",
+      output: `Project not found: ${args.projectId}`,
+    }
+  }
+
   const id = createTimestampedId("todo")
   const now = Date.now()
 
+  // A todo with unfinished blockers starts out blocked
+  const blockedBy = [...new Set(args.blockedBy ?? [])]
+  let state: TodoState = "pending"
+  if (blockedBy.length > 0) {
+    const todos = new Map((await listTodos()).map((t) => [t.id, t]))
+    const error = validateBlockers(id, blockedBy, todos)
+    if (error) {
+      return {
+        title: "Error",
+        output: error,
+      }
+    }
+    if (blockedBy.some((blocker) => todos.get(blocker)?.state !== "done")) {
+      state = "blocked"
+    }
+  }
+
   const context = createTodoContext({
     id,
     title: args.title,
     description: args.description ?? "",
     priority: args.priority ?? "medium",
     dueDate: args.dueDate ?? null,
+    recurrence,
     tags: args.tags ?? [],
     goalId: args.goalId ?? null,
+    projectId: args.projectId ?? null,
+    blockedBy,
     createdAt: now,
     updatedAt: now,
   })
 
   const todo: StoredTodo = {
     ...context,
-    state: "pending",
+    state,
   }
 
   await saveTodo(todo)
+  if (todo.projectId) {
+    await setProjectLink(todo.projectId, id, true)
+  }
   Bus.publish("todo.created", { todoId: id })
 
   return {
     title: "Todo Created",
-    output: `Created todo: "${args.title}" (ID: ${id})`,
-    metadata: { todoId: id },
+    output: `Created todo: "${args.title}" (ID: ${id})${state === "blocked" ? `\nBlocked by ${blockedBy.length} todo${blockedBy.length === 1 ? "" : "s"}` : ""}`,
+    metadata: { todoId: id, state },
   }
 }
 
@@ -249,9 +505,12 @@ Status: ${todo.state}
 Priority: ${todo.priority}
 Description: ${todo.description || "(none)"}
 Due Date: ${todo.dueDate || "(none)"}
+Deferred Until: ${todo.deferredUntil || "(none)"}
+Recurs: ${todo.recurrence ? describeRecurrence(todo.recurrence) : "(none)"}
 Tags: ${todo.tags.length > 0 ? todo.tags.join(", ") : "(none)"}
 Goal ID: ${todo.goalId || "(none)"}
-Blocked By: ${todo.blockedBy || "(none)"}
+Project ID: ${todo.projectId || "(none)"}
+Blocked By: ${todo.blockedBy.length > 0 ? todo.blockedBy.join(", ") : "(none)"}
 Created: ${new Date(todo.createdAt).toLocaleString()}
 Updated: ${new Date(todo.updatedAt).toLocaleString()}
 Completed: ${todo.completedAt ? new Date(todo.completedAt).toLocaleString() : "(not completed)"}
@@ -264,6 +523,125 @@ Completed: ${todo.completedAt ? new Date(todo.completedAt).toLocaleString() : "(
   }
 }
 
+/**
+ * Format a field value for update summaries
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === "") return "(none)"
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "(none)"
+  return String(value)
+}
+
+/**
+ * Handle update action - edit fields in place, keeping the ID and history.
+ * Only fields whose value actually changes are recorded; an empty dueDate,
+ * recurrence, goalId, or projectId clears it. Moving a todo to another
+ * project updates both projects' todoIds.
+ */
+async function handleUpdate(args: TodoToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to update a todo.",
+    }
+  }
+
+  const todo = await loadTodo(args.id)
+  if (!todo) {
+    return {
+      title: "Error",
+      output: `Todo not found: ${args.id}`,
+    }
+  }
+
+  if (args.title !== undefined && !args.title.trim()) {
+    return {
+      title: "Error",
+      output: "Title cannot be empty.",
+    }
+  }
+
+  if (args.projectId && !(await Storage.exists([...PROJECTS_PREFIX, args.projectId]))) {
+    return {
+      title: "Error",
+      output: `Project not found: ${args.projectId}`,
+    }
+  }
+
+  let recurrence: string | null | undefined
+  if (args.recurrence !== undefined) {
+    try {
+      recurrence = args.recurrence ? normalizeRecurrence(args.recurrence) : null
+    } catch (err) {
+      return {
+        title: "Error",
+        output: err instanceof Error ? err.message : String(err),
+      }
+    }
+  }
+
+  const updates: Partial<TodoContext> = {
+    title: args.title,
+    description: args.description,
+    priority: args.priority,
+    tags: args.tags,
+    dueDate: args.dueDate === undefined ? undefined : args.dueDate || null,
+    recurrence,
+    goalId: args.goalId === undefined ? undefined : args.goalId || null,
+    projectId: args.projectId === undefined ? undefined : args.projectId || null,
+  }
+
+  // Compare against the todo as stored when the lock is held, so changes
+  // made meanwhile by another process are kept
+  const changes: Record<string, unknown> = {}
+  const previous: Record<string, unknown> = {}
+  const updatedTodo = await updateTodo(args.id, (todo) => {
+    // A new monthly rule keeps the day of the todo's due date
+    const fields: Partial<TodoContext> = recurrence
+      ? { ...updates, recurrence: anchorRecurrence(recurrence, updates.dueDate === undefined ? todo.dueDate : updates.dueDate) }
+      : updates
+    for (const [field, value] of Object.entries(fields) as Array<[keyof TodoContext, unknown]>) {
+      if (value === undefined) continue
+      const current = todo[field] ?? null
+      if (JSON.stringify(current) === JSON.stringify(value)) continue
+      previous[field] = current
+      changes[field] = value
+    }
+    if (Object.keys(changes).length === 0) return todo
+    return { ...todo, ...(changes as Partial<TodoContext>), updatedAt: Date.now() }
+  })
+  if (!updatedTodo) {
+    return {
+      title: "Error",
+      output: `Todo not found: ${args.id}`,
+    }
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return {
+      title: "No Changes",
+      output: "No fields were changed.",
+      metadata: { todoId: args.id },
+    }
+  }
+
+  if ("projectId" in changes) {
+    if (previous.projectId) await setProjectLink(previous.projectId as string, args.id, false)
+    if (updatedTodo.projectId) await setProjectLink(updatedTodo.projectId, args.id, true)
+  }
+  Bus.publish("todo.updated", { todoId: args.id, changes })
+
+  const summary = Object.keys(changes)
+    .map((field) => `${field}: ${formatValue(previous[field])} → ${formatValue(changes[field])}`)
+    .join("\n")
+
+  return {
+    title: "Todo Updated",
+    output: `Updated todo "${updatedTodo.title}":\n${summary}`,
+    metadata: { todoId: args.id, changes, previous },
+  }
+}
+
 /**
  * Handle complete action - shortcut to mark a todo as done
  */
@@ -301,35 +679,46 @@ async function handleComplete(args: TodoToolArgs): Promise<ToolResult> {
     }
   }
 
-  // Create actor with current state
-  const actor = createActor(todoMachine, {
-    snapshot: todoMachine.resolveState({
-      value: todo.state,
-      context: todo,
-    }),
+  // Complete the todo as stored when the lock is held, in case another
+  // process changed its state meanwhile
+  let previousState = todo.state as TodoState
+  const updatedTodo = await updateTodo(args.id, (current) => {
+    previousState = current.state
+    return completableStates.includes(current.state) ? applyTodoEvent(current, { type: "COMPLETE" }) : current
   })
-  actor.start()
-  actor.send({ type: "COMPLETE" })
-
-  const snapshot = actor.getSnapshot()
-  const newState = snapshot.value as TodoState
-  const newContext = snapshot.context
-
-  actor.stop()
-
-  // Update stored todo
-  const updatedTodo: StoredTodo = {
-    ...newContext,
-    state: newState,
+  if (!updatedTodo) {
+    return {
+      title: "Error",
+      output: `Todo not found: ${args.id}`,
+    }
+  }
+  if (previousState === "done") {
+    return {
+      title: "Already Complete",
+      output: `Todo "${todo.title}" is already completed.`,
+      metadata: { todoId: args.id },
+    }
+  }
+  if (updatedTodo.state !== "done") {
+    return {
+      title: "Error",
+      output: `Cannot complete todo from state: ${previousState}. Use transition to change state first.`,
+    }
   }
-  await saveTodo(updatedTodo)
 
   Bus.publish("todo.completed", { todoId: args.id })
 
+  const nextTodo = await spawnNextOccurrence(updatedTodo)
+  const unblocked = await unblockDependents(args.id)
+
   return {
     title: "Todo Completed",
-    output: `Completed todo: "${todo.title}"`,
-    metadata: { todoId: args.id },
+    output: `Completed todo: "${todo.title}"${nextOccurrenceNote(nextTodo)}${unblockedNote(unblocked)}`,
+    metadata: {
+      todoId: args.id,
+      nextTodoId: nextTodo?.id,
+      unblockedIds: unblocked.map((t) => t.id),
+    },
   }
 }
 
@@ -359,82 +748,167 @@ async function handleTransition(args: TodoToolArgs): Promise<ToolResult> {
     }
   }
 
-  // Create actor with current state
-  const actor = createActor(todoMachine, {
-    snapshot: todoMachine.resolveState({
-      value: todo.state,
-      context: todo,
-    }),
-  })
-  actor.start()
-
   // Build the event
   let event: TodoEvent
   switch (args.event) {
-    case "BLOCK":
-      if (!args.blockedBy) {
-        actor.stop()
+    case "BLOCK": {
+      if (!args.blockedBy || args.blockedBy.length === 0) {
         return {
           title: "Error",
-          output: "blockedBy is required for BLOCK event.",
+          output: "blockedBy (todo IDs) is required for BLOCK event.",
+        }
+      }
+      const todos = new Map((await listTodos()).map((t) => [t.id, t]))
+      const error = validateBlockers(args.id, args.blockedBy, todos)
+      if (error) {
+        return {
+          title: "Error",
+          output: error,
+        }
+      }
+      if (args.blockedBy.every((id) => todos.get(id)?.state === "done")) {
+        return {
+          title: "Error",
+          output: "All of the blocking todos are already done.",
         }
       }
       event = { type: "BLOCK", blockedBy: args.blockedBy }
       break
+    }
     case "DEFER":
       if (!args.until) {
-        actor.stop()
         return {
           title: "Error",
           output: "until (date) is required for DEFER event.",
         }
       }
+      if (!/^\d{4}-\d{2}-\d{2}/.test(args.until)) {
+        return {
+          title: "Error",
+          output: "until must be a date (YYYY-MM-DD).",
+        }
+      }
       event = { type: "DEFER", until: args.until }
       break
     default:
       event = { type: args.event } as TodoEvent
   }
 
-  // Send the event
-  actor.send(event)
-
-  // Get the new state
-  const snapshot = actor.getSnapshot()
-  const newState = snapshot.value as TodoState
-  const newContext = snapshot.context
-
-  actor.stop()
+  // Send the event to the todo as stored when the lock is held, leaving it
+  // alone if the event is not valid from that state
+  let previousState = todo.state as TodoState
+  const updatedTodo = await updateTodo(args.id, (current) => {
+    previousState = current.state
+    const next = applyTodoEvent(current, event)
+    return next.state === current.state ? current : next
+  })
+  if (!updatedTodo) {
+    return {
+      title: "Error",
+      output: `Todo not found: ${args.id}`,
+    }
+  }
 
   // Check if state actually changed
-  if (newState === todo.state) {
+  const newState = updatedTodo.state
+  if (newState === previousState) {
     return {
       title: "No Change",
-      output: `Event ${args.event} is not valid from state ${todo.state}.`,
-      metadata: { todoId: args.id, currentState: todo.state },
+      output: `Event ${args.event} is not valid from state ${previousState}.`,
+      metadata: { todoId: args.id, currentState: previousState },
     }
   }
 
-  // Update stored todo
-  const updatedTodo: StoredTodo = {
-    ...newContext,
-    state: newState,
-  }
-  await saveTodo(updatedTodo)
-
-  // Publish events
+  // Publish events; every state change can move an auto-mode goal's progress
+  Bus.publish("todo.updated", { todoId: args.id, changes: { state: newState } })
+  let nextTodo: StoredTodo | undefined
+  let unblocked: StoredTodo[] = []
   if (newState === "done") {
     Bus.publish("todo.completed", { todoId: args.id })
+    nextTodo = await spawnNextOccurrence(updatedTodo)
+    unblocked = await unblockDependents(args.id)
   }
 
   return {
     title: "Todo Transitioned",
-    output: `Todo "${todo.title}" transitioned from ${todo.state} to ${newState}`,
-    metadata: { todoId: args.id, previousState: todo.state, newState },
+    output: `Todo "${todo.title}" transitioned from ${previousState} to ${newState}${nextOccurrenceNote(nextTodo)}${unblockedNote(unblocked)}`,
+    metadata: {
+      todoId: args.id,
+      previousState,
+      newState,
+      nextTodoId: nextTodo?.id,
+      unblockedIds: unblocked.map((t) => t.id),
+    },
   }
 }
 
 /**
- * Handle delete action
+ * Handle chain action - show what a todo is waiting on, all the way down,
+ * and which todos are waiting on it
+ */
+async function handleChain(args: TodoToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to get a dependency chain.",
+    }
+  }
+
+  const todos = new Map((await listTodos()).map((t) => [t.id, t]))
+  const todo = todos.get(args.id)
+  if (!todo) {
+    return {
+      title: "Error",
+      output: `Todo not found: ${args.id}`,
+    }
+  }
+
+  const lines: string[] = []
+  const blockers: string[] = []
+  const remaining: string[] = []
+  const seen = new Set<string>([todo.id])
+
+  const walk = (current: StoredTodo, depth: number): void => {
+    for (const id of current.blockedBy) {
+      const indent = "  ".repeat(depth)
+      const blocker = todos.get(id)
+      if (!blocker) {
+        lines.push(`${indent}- [missing] ${id}`)
+        continue
+      }
+      lines.push(`${indent}- [${blocker.state}] ${blocker.title} (ID: ${id})`)
+      if (seen.has(id)) continue
+      seen.add(id)
+      blockers.push(id)
+      if (blocker.state !== "done") remaining.push(id)
+      walk(blocker, depth + 1)
+    }
+  }
+  walk(todo, 1)
+
+  const dependents = [...todos.values()].filter((t) => t.blockedBy.includes(todo.id))
+
+  const output = [
+    `- [${todo.state}] ${todo.title} (ID: ${todo.id})`,
+    ...(lines.length > 0 ? lines : ["  (no blockers)"]),
+    `Blocks: ${dependents.length > 0 ? dependents.map((t) => `"${t.title}"`).join(", ") : "(none)"}`,
+  ].join("\n")
+
+  return {
+    title: `Dependencies: ${todo.title}`,
+    output,
+    metadata: {
+      todoId: todo.id,
+      blockers,
+      remaining,
+      dependents: dependents.map((t) => t.id),
+    },
+  }
+}
+
+/**
+ * Handle delete action, applying the delete policy to todos blocked by this one.
+ * With detach, blocked todos whose other blockers are all done are unblocked.
  */
 async function handleDelete(args: TodoToolArgs): Promise<ToolResult> {
   if (!args.id) {
@@ -452,20 +926,98 @@ async function handleDelete(args: TodoToolArgs): Promise<ToolResult> {
     }
   }
 
-  const deleted = await Storage.remove([...TODOS_PREFIX, args.id])
-  if (!deleted) {
-    return {
-      title: "Error",
-      output: `Failed to delete todo: ${args.id}`,
+  const policy = args.policy ?? "detach"
+  if (policy === "refuse") {
+    const dependents = await Integrity.dependents("todo", args.id)
+    if (dependents.todos.length + dependents.projects.length > 0) {
+      return {
+        title: "Error",
+        output: `Cannot delete todo "${todo.title}": it is still referenced by ${Integrity.summarize(dependents)}. Delete with policy "detach" or "cascade" instead.`,
+      }
     }
   }
 
+  await Trash.put("todo", todo)
   Bus.publish("todo.deleted", { todoId: args.id })
+  const unblocked = policy === "cascade" ? [] : await unblockDependents(args.id)
+  const released = await Integrity.release("todo", args.id, policy === "cascade" ? "cascade" : "detach")
 
   return {
     title: "Todo Deleted",
-    output: `Deleted todo: "${todo.title}" (ID: ${args.id})`,
-    metadata: { todoId: args.id },
+    output: `Moved todo to the trash: "${todo.title}" (ID: ${args.id})${Integrity.describe(released)}${unblockedNote(unblocked)}`,
+    metadata: {
+      todoId: args.id,
+      policy,
+      deletedTodoIds: released.deleted.todos.map((t) => t.id),
+      detachedTodoIds: released.detached.todos.map((t) => t.id),
+      detachedProjectIds: released.detached.projects.map((p) => p.id),
+      unblockedIds: unblocked.map((t) => t.id),
+    },
+  }
+}
+
+/**
+ * Handle restore action - bring a todo back from the trash along with
+ * anything deleted with it
+ */
+async function handleRestore(args: TodoToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to restore a todo.",
+    }
+  }
+
+  const entry = await Trash.get(args.id)
+  if (!entry || entry.kind !== "todo") {
+    return {
+      title: "Error",
+      output: `Todo not found in trash: ${args.id}`,
+    }
+  }
+
+  const problem = await Trash.restoreProblem(entry)
+  if (problem) {
+    return {
+      title: "Error",
+      output: `Cannot restore todo: ${problem}`,
+    }
+  }
+
+  const restored = (await Trash.restore(args.id)) ?? []
+
+  return {
+    title: "Todo Restored",
+    output: `Restored todo: "${entry.title}" (ID: ${args.id})${Trash.describe(restored, "Also restored")}`,
+    metadata: { todoId: args.id, restoredIds: restored.map((e) => e.id) },
+  }
+}
+
+/**
+ * Handle purge action - permanently delete a todo from the trash
+ */
+async function handlePurge(args: TodoToolArgs): Promise<ToolResult> {
+  if (!args.id) {
+    return {
+      title: "Error",
+      output: "ID is required to purge a todo.",
+    }
+  }
+
+  const entry = await Trash.get(args.id)
+  if (!entry || entry.kind !== "todo") {
+    return {
+      title: "Error",
+      output: `Todo not found in trash: ${args.id}`,
+    }
+  }
+
+  const purged = (await Trash.purge(args.id)) ?? []
+
+  return {
+    title: "Todo Purged",
+    output: `Permanently deleted todo: "${entry.title}" (ID: ${args.id})${Trash.describe(purged, "Also purged")}`,
+    metadata: { todoId: args.id, purgedIds: purged.map((e) => e.id) },
   }
 }
 
@@ -476,11 +1028,16 @@ export const TodoTool: Tool<typeof TodoToolParams> = {
   id: "todo",
   description: `Manage todos with full lifecycle support. Actions:
 - list: List all todos (optional filters: statusFilter, priorityFilter, tagFilter). Sorted by priority then dueDate.
-- create: Create a new todo (required: title; optional: description, priority, dueDate, tags, goalId)
+- create: Create a new todo (required: title; optional: description, priority, dueDate, recurrence, tags, goalId, projectId, blockedBy). A todo with unfinished blockers starts out blocked
 - get: Get todo details by ID
-- complete: Quick shortcut to mark a todo as done
-- transition: Change todo state (events: START, COMPLETE, BLOCK, UNBLOCK, DEFER, CANCEL, REOPEN)
-- delete: Remove a todo by ID`,
+- update: Edit a todo in place, keeping its ID (id plus any of: title, description, priority, dueDate, recurrence, tags, goalId, projectId; pass "" to clear dueDate, recurrence, goalId, or projectId)
+- complete: Quick shortcut to mark a todo as done. Completing a recurring todo creates its next occurrence
+- recurrence: "daily", "weekly", "monthly", or an RRULE using FREQ (DAILY/WEEKLY/MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, UNTIL. Examples: trash every Tuesday = "FREQ=WEEKLY;BYDAY=TU", mortgage on the 1st = "FREQ=MONTHLY;BYMONTHDAY=1"
+- transition: Change todo state (events: START, COMPLETE, BLOCK, UNBLOCK, DEFER, CANCEL, REOPEN). DEFER needs until (YYYY-MM-DD); the todo keeps its due date and returns to pending on that date. BLOCK needs blockedBy, the IDs of the todos it waits on; it is unblocked automatically once they are all done
+- chain: Show the dependency chain for a todo by ID: what it is waiting on and what it blocks
+- delete: Move a todo to the trash by ID. policy decides what happens to todos blocked by it: detach (default, drop the dependency), cascade (delete them too), or refuse (fail if any exist)
+- restore: Bring a deleted todo back from the trash by ID, with anything deleted along with it
+- purge: Permanently delete a todo that is in the trash`,
   parameters: TodoToolParams,
   execute: executeTodoTool,
 }
@@ -25,6 +25,8 @@ export interface Tool<TParams extends z.ZodTypeAny = z.ZodTypeAny> {
   description: string
   parameters: TParams
   execute: (args: z.infer<TParams>, ctx: ToolContext) => Promise<ToolResult>
+  /** Resource a call accesses (e.g., resolved file path), matched by scoped permission rules */
+  resource?: (args: z.infer<TParams>) => string | undefined
 }
 
 /**
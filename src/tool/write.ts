@@ -2,6 +2,7 @@ import { z } from "zod"
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
 import type { Tool, ToolContext, ToolResult } from "./types"
+import { resolvePath } from "../util/path"
 
 /**
  * Parameters schema for the write tool
@@ -23,16 +24,6 @@ const WriteToolParams = z.object({
 
 type WriteToolArgs = z.infer<typeof WriteToolParams>
 
-/**
- * Resolve a path to an absolute path
- */
-function resolvePath(filePath: string): string {
-  if (path.isAbsolute(filePath)) {
-    return filePath
-  }
-  return path.resolve(process.cwd(), filePath)
-}
-
 /**
  * Execute the write tool
  */
@@ -140,10 +131,11 @@ async function executeWriteTool(
 export const WriteTool: Tool<typeof WriteToolParams> = {
   id: "write",
   description: `Write content to a file. Can create new files or overwrite/append to existing ones.
-- path: The file path to write (absolute or relative to current directory)
+- path: The file path to write (absolute, relative to current directory, or starting with ~)
 - content: The content to write to the file
 - append: If true, append to existing file instead of overwriting (default: false)
 - createDirectories: If true, create parent directories if they don't exist (default: true)`,
   parameters: WriteToolParams,
   execute: executeWriteTool,
+  resource: (args) => resolvePath(args.path),
 }
@@ -0,0 +1,265 @@
+/**
+ * Trash for deleted goals, projects, and todos.
+ *
+ * Deleting a record moves it to the trash instead of removing it, along
+ * with the references that were cleared when it went (todos detached from
+ * a deleted goal, for example), so restoring it puts everything back.
+ * Records deleted by a cascade are restored and purged with the record
+ * whose delete took them.
+ */
+
+import { Storage } from "../storage/storage"
+import { Bus } from "../bus/bus"
+import type { RecordKind } from "../integrity/integrity"
+import type { StoredGoal } from "../tool/goal"
+import type { StoredTodo } from "../tool/todo"
+import type { StoredProject } from "../tool/project"
+
+/**
+ * A reference to a deleted record that was cleared when it was deleted
+ */
+export interface DetachedRef {
+  /** Kind of record that held the reference */
+  kind: "todo" | "project"
+  id: string
+  field: "goalId" | "projectId" | "todoIds"
+}
+
+/**
+ * A deleted record waiting in the trash
+ */
+export interface TrashEntry {
+  kind: RecordKind
+  id: string
+  /** Goal or todo title, or project name */
+  title: string
+  record: StoredGoal | StoredTodo | StoredProject
+  deletedAt: number
+  /** ID of the record whose cascade delete took this one with it */
+  deletedWith: string | null
+  /** References cleared by the delete, put back on restore */
+  detached: DetachedRef[]
+}
+
+const TRASH_PREFIX = "trash"
+
+/**
+ * Storage directory of each kind of record
+ */
+const STORAGE_PREFIX: Record<RecordKind, string> = {
+  goal: "goals",
+  project: "projects",
+  todo: "todos",
+}
+
+/**
+ * Name of the ID field in each kind of record's events
+ */
+const EVENT_ID_FIELD: Record<RecordKind, string> = {
+  goal: "goalId",
+  project: "projectId",
+  todo: "todoId",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Plural noun for each kind of record, in display order
+ */
+const KIND_PLURALS: Array<[RecordKind, string]> = [
+  ["goal", "goals"],
+  ["project", "projects"],
+  ["todo", "todos"],
+]
+
+/**
+ * Entries that go with an entry: itself first, then those deleted with it
+ */
+async function withCascaded(entry: TrashEntry): Promise<TrashEntry[]> {
+  const cascaded = (await Trash.list()).filter((e) => e.deletedWith === entry.id)
+  return [entry, ...cascaded]
+}
+
+/**
+ * Put back a reference cleared when a record was deleted, unless the
+ * record holding it is gone or has been pointed elsewhere since.
+ */
+async function relink(ref: DetachedRef, targetId: string, now: number): Promise<void> {
+  const key = [STORAGE_PREFIX[ref.kind], ref.id]
+  let changes: Record<string, unknown> | null = null
+  await Storage.updateExisting<Record<string, unknown>>(key, (record) => {
+    if (ref.field === "todoIds") {
+      const todoIds = (record.todoIds as string[] | undefined) ?? []
+      if (todoIds.includes(targetId)) return record
+      changes = { todoIds: [...todoIds, targetId] }
+    } else {
+      if (record[ref.field]) return record
+      changes = { [ref.field]: targetId }
+    }
+    return { ...record, ...changes, updatedAt: now }
+  })
+  if (!changes) return
+
+  Bus.publish(`${ref.kind}.updated`, { [EVENT_ID_FIELD[ref.kind]]: ref.id, changes })
+}
+
+/**
+ * Trash namespace for soft-deleting, restoring, and purging records.
+ * Used by the goal, project, and todo tools and by the trash command.
+ */
+export namespace Trash {
+  /**
+   * Move a record to the trash, removing it from live storage.
+   *
+   * @param deletedWith - ID of the record whose cascade delete took this one
+   * @returns The new trash entry
+   */
+  export async function put(
+    kind: RecordKind,
+    record: StoredGoal | StoredTodo | StoredProject,
+    deletedWith: string | null = null
+  ): Promise<TrashEntry> {
+    const entry: TrashEntry = {
+      kind,
+      id: record.id,
+      title: "name" in record ? record.name : record.title,
+      record,
+      deletedAt: Date.now(),
+      deletedWith,
+      detached: [],
+    }
+    await Storage.write([TRASH_PREFIX, record.id], entry)
+    await Storage.remove([STORAGE_PREFIX[kind], record.id])
+    return entry
+  }
+
+  /**
+   * Remember references cleared because a trashed record was deleted,
+   * so `restore` can put them back.
+   */
+  export async function noteDetached(id: string, refs: DetachedRef[]): Promise<void> {
+    if (refs.length === 0) return
+    await Storage.updateExisting<TrashEntry>([TRASH_PREFIX, id], (entry) => ({
+      ...entry,
+      detached: [...entry.detached, ...refs],
+    }))
+  }
+
+  /**
+   * Get a trash entry by the deleted record's ID
+   */
+  export async function get(id: string): Promise<TrashEntry | undefined> {
+    return Storage.read<TrashEntry>([TRASH_PREFIX, id])
+  }
+
+  /**
+   * List trash entries, most recently deleted first.
+   *
+   * @param kind - Only list this kind of record
+   */
+  export async function list(kind?: RecordKind): Promise<TrashEntry[]> {
+    const ids = await Storage.list([TRASH_PREFIX])
+    const entries: Array<TrashEntry | undefined> = await Promise.all(ids.map((id) => get(id)))
+    return entries
+      .filter((e): e is TrashEntry => e !== undefined && (!kind || e.kind === kind))
+      .sort((a, b) => b.deletedAt - a.deletedAt)
+  }
+
+  /**
+   * Why a trash entry can't be restored, if anything: it was deleted along
+   * with a record that is still in the trash, or its ID is taken again.
+   */
+  export async function restoreProblem(entry: TrashEntry): Promise<string | undefined> {
+    const owner = entry.deletedWith ? await get(entry.deletedWith) : undefined
+    if (owner) {
+      return `"${entry.title}" was deleted along with ${owner.kind} "${owner.title}" (ID: ${owner.id}). Restore that instead.`
+    }
+    if (await Storage.exists([STORAGE_PREFIX[entry.kind], entry.id])) {
+      return `A ${entry.kind} with ID ${entry.id} already exists.`
+    }
+    return undefined
+  }
+
+  /**
+   * Restore a trashed record, the records deleted with it, and the
+   * references cleared when they were deleted. Dependencies between todos
+   * are not restored, since the todos waiting on it may have moved on.
+   * Publishes goal/project/todo restored events.
+   *
+   * @returns The restored entries, the requested one first, or undefined if not in the trash
+   */
+  export async function restore(id: string): Promise<TrashEntry[] | undefined> {
+    const entry = await get(id)
+    if (!entry) return undefined
+
+    const entries = await withCascaded(entry)
+    for (const e of entries) {
+      await Storage.write([STORAGE_PREFIX[e.kind], e.id], e.record)
+    }
+
+    const now = Date.now()
+    for (const e of entries) {
+      for (const ref of e.detached) {
+        await relink(ref, e.id, now)
+      }
+      await Storage.remove([TRASH_PREFIX, e.id])
+      Bus.publish(`${e.kind}.restored`, { [EVENT_ID_FIELD[e.kind]]: e.id })
+    }
+
+    return entries
+  }
+
+  /**
+   * Permanently delete a trashed record and the records deleted with it.
+   *
+   * @returns The purged entries, the requested one first, or undefined if not in the trash
+   */
+  export async function purge(id: string): Promise<TrashEntry[] | undefined> {
+    const entry = await get(id)
+    if (!entry) return undefined
+
+    const entries = await withCascaded(entry)
+    for (const e of entries) {
+      await Storage.remove([TRASH_PREFIX, e.id])
+    }
+    return entries
+  }
+
+  /**
+   * Describe the entries that went along with a restore or purge, e.g.
+   * `Also restored 1 project ("Home gym") and 2 todos ("Buy weights", "Stretch")`
+   *
+   * @param entries - Entries from `restore` or `purge`, the requested one first
+   */
+  export function describe(entries: TrashEntry[], verb: string): string {
+    const others = entries.slice(1)
+    if (others.length === 0) return ""
+
+    const parts: string[] = []
+    for (const [kind, plural] of KIND_PLURALS) {
+      const ofKind = others.filter((e) => e.kind === kind)
+      if (ofKind.length === 0) continue
+      const noun = ofKind.length === 1 ? kind : plural
+      parts.push(`${ofKind.length} ${noun} (${ofKind.map((e) => `"${e.title}"`).join(", ")})`)
+    }
+    return `\n${verb} ${parts.join(" and ")}`
+  }
+
+  /**
+   * Permanently delete entries that have been in the trash longer than the
+   * retention period.
+   *
+   * @param retentionDays - Days to keep deleted records (0 keeps them forever)
+   * @returns The purged entries
+   */
+  export async function purgeExpired(retentionDays: number, now: number = Date.now()): Promise<TrashEntry[]> {
+    if (retentionDays <= 0) return []
+
+    const cutoff = now - retentionDays * DAY_MS
+    const expired = (await list()).filter((e) => e.deletedAt < cutoff)
+    for (const e of expired) {
+      await Storage.remove([TRASH_PREFIX, e.id])
+    }
+    return expired
+  }
+}
@@ -3,10 +3,20 @@ import { Box, Text } from "ink"
 import { Header } from "./components/Header"
 import { ChatView } from "./components/ChatView"
 import { InputBox } from "./components/InputBox"
+import { PermissionPrompt } from "./components/PermissionPrompt"
+import { SessionPicker } from "./components/SessionPicker"
 import { useSession, type Message } from "./hooks/useSession"
 import { useChat } from "./hooks/useChat"
 import { useKeyboard } from "./hooks/useKeyboard"
 import { Config, type Config as ConfigType } from "../config/config"
+import { Provider } from "../provider/provider"
+import { Session as SessionStore, type SessionSummary } from "../session/session"
+import { Log } from "../util/log"
+
+/**
+ * Input that opens the session switcher
+ */
+const SESSIONS_COMMAND = "/sessions"
 
 /**
  * Main App component props
@@ -16,6 +26,10 @@ export interface AppProps {
   initialMessage?: string
   /** Existing session ID to continue */
   sessionId?: string
+  /** Override the configured default provider */
+  provider?: string
+  /** Override the configured default model */
+  model?: string
 }
 
 /**
@@ -26,17 +40,22 @@ export interface AppProps {
 export function App({
   initialMessage,
   sessionId,
+  provider,
+  model,
 }: AppProps): React.ReactElement {
   const [config, setConfig] = useState<ConfigType | null>(null)
+  const [activeSessionId, setActiveSessionId] = useState(sessionId)
+  const [sessionChoices, setSessionChoices] = useState<SessionSummary[] | null>(null)
   const initialMessageSent = useRef(false)
 
   // Use hooks for session management and chat
-  const { session, messages, addMessage, refreshMessages } = useSession(sessionId)
+  const { session, messages, addMessage, refreshMessages } = useSession(activeSessionId)
 
-  const { isLoading, streamingContent, sendMessage } = useChat(session?.id)
+  const { isLoading, streamingContent, pendingPermission, sendMessage, replyPermission } =
+    useChat(session?.id, { provider, model })
 
-  // Handle keyboard shortcuts (Ctrl+C, Escape)
-  useKeyboard()
+  // Handle keyboard shortcuts (Ctrl+C, Escape); the session picker handles its own Escape
+  useKeyboard({ isActive: sessionChoices === null })
 
   // Load config on mount
   useEffect(() => {
@@ -58,6 +77,11 @@ export function App({
   const handleSubmit = async (content: string): Promise<void> => {
     if (!session) return
 
+    if (content === SESSIONS_COMMAND) {
+      await openSessionPicker()
+      return
+    }
+
     // Add user message to local state and storage
     await addMessage({
       role: "user",
@@ -71,6 +95,30 @@ export function App({
     await refreshMessages()
   }
 
+  /**
+   * Load sessions and show the session switcher.
+   */
+  const openSessionPicker = async (): Promise<void> => {
+    try {
+      setSessionChoices(await SessionStore.summaries())
+    } catch (err) {
+      Log.formatAndLogError("Failed to load sessions", err)
+    }
+  }
+
+  /**
+   * Switch to the chosen session, or create a new one.
+   */
+  const handleSessionSelect = async (id: string | null): Promise<void> => {
+    setSessionChoices(null)
+    try {
+      const nextId = id ?? (await SessionStore.create()).id
+      setActiveSessionId(nextId)
+    } catch (err) {
+      Log.formatAndLogError("Failed to switch session", err)
+    }
+  }
+
   // Show loading state while config is loading
   if (!config) {
     return (
@@ -80,6 +128,12 @@ export function App({
     )
   }
 
+  // Model in use for this run (overrides are validated before the app starts)
+  const selection = Provider.resolveSelection(
+    { provider: config.defaultProvider, model: config.defaultModel },
+    { provider, model }
+  )
+
   // Combine stored messages with streaming content for display
   const displayMessages: Message[] = [
     ...messages,
@@ -99,8 +153,8 @@ export function App({
     <Box flexDirection="column" height="100%">
       {/* Header with logo */}
       <Header
-        model={config.defaultModel}
-        provider={config.defaultProvider}
+        model={selection.model}
+        provider={selection.provider}
         cwd={process.cwd()}
       />
 
@@ -112,14 +166,31 @@ export function App({
         />
       </Box>
 
-      {/* Input area */}
-      <Box marginTop={1}>
-        <InputBox
-          onSubmit={handleSubmit}
-          disabled={isLoading}
-          placeholder={isLoading ? "Waiting for response..." : "Type a message..."}
-        />
-      </Box>
+      {/* Permission prompt or session picker replace the input while open */}
+      {pendingPermission ? (
+        <Box marginTop={1}>
+          <PermissionPrompt request={pendingPermission} onReply={replyPermission} />
+        </Box>
+      ) : sessionChoices ? (
+        <Box marginTop={1}>
+          <SessionPicker
+            sessions={sessionChoices}
+            currentSessionId={session?.id}
+            onSelect={handleSessionSelect}
+            onCancel={() => setSessionChoices(null)}
+          />
+        </Box>
+      ) : (
+        <Box marginTop={1}>
+          <InputBox
+            onSubmit={handleSubmit}
+            disabled={isLoading}
+            placeholder={
+              isLoading ? "Waiting for response..." : `Type a message (${SESSIONS_COMMAND} to switch sessions)...`
+            }
+          />
+        </Box>
+      )}
     </Box>
   )
 }
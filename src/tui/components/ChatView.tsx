@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react"
 import { Box, Text } from "ink"
 import { MessageBubble } from "./MessageBubble"
+import type { ToolCall } from "../../session/message"
 
 /**
  * Message interface for chat messages
@@ -10,6 +11,7 @@ export interface Message {
   role: "user" | "assistant"
   content: string
   timestamp: number
+  toolCalls?: ToolCall[]
 }
 
 /**
@@ -63,6 +65,7 @@ export function ChatView({
             role={msg.role}
             content={msg.content}
             timestamp={msg.timestamp}
+            toolCalls={msg.toolCalls}
           />
         ))
       )}
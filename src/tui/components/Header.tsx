@@ -1,5 +1,6 @@
 import React from "react"
 import { Box, Text } from "ink"
+import { getModelInfo } from "../../provider/models"
 
 /**
  * ASCII art logo for DadGPT header
@@ -15,9 +16,9 @@ const ASCII_LOGO = `
  * Header component props
  */
 export interface HeaderProps {
-  /** Current model name (e.g., "claude-sonnet-4-20250514") */
+  /** Active model ID (e.g., "claude-sonnet-4-20250514") */
   model: string
-  /** Current provider name (e.g., "anthropic") */
+  /** Active provider ID (e.g., "anthropic") */
   provider: string
   /** Current working directory */
   cwd: string
@@ -25,8 +26,11 @@ export interface HeaderProps {
 
 /**
  * Header component displaying ASCII art logo, tagline, and status bar
+ * The status bar shows the active model's display name when it is known
  */
 export function Header({ model, provider, cwd }: HeaderProps): React.ReactElement {
+  const modelName = getModelInfo(model)?.name
+
   return (
     <Box flexDirection="column" marginBottom={1}>
       {/* ASCII Art Logo */}
@@ -42,7 +46,12 @@ export function Header({ model, provider, cwd }: HeaderProps): React.ReactElemen
       {/* Status Bar */}
       <Box marginTop={1}>
         <Text color="gray">
-          {model}
+          {modelName ? (
+            <Text color="blueBright">{modelName}</Text>
+          ) : (
+            model
+          )}
+          {modelName && <Text dimColor> ({model})</Text>}
           <Text color="gray"> · </Text>
           {provider}
           <Text color="gray"> · </Text>
@@ -1,5 +1,7 @@
 import React from "react"
 import { Box, Text } from "ink"
+import { ToolCall } from "./ToolCall"
+import type { ToolCall as ToolCallData } from "../../session/message"
 
 /**
  * Message bubble component props
@@ -11,6 +13,8 @@ export interface MessageBubbleProps {
   content: string
   /** Optional timestamp as Unix milliseconds */
   timestamp?: number
+  /** Tool calls made by the assistant in this message */
+  toolCalls?: ToolCallData[]
 }
 
 /**
@@ -27,11 +31,13 @@ function formatTime(ts: number): string {
 /**
  * Message bubble component for displaying chat messages
  * User messages show 'You' in blueBright, assistant shows 'DadGPT' in gray
+ * Assistant tool calls are listed below the message text
  */
 export function MessageBubble({
   role,
   content,
   timestamp,
+  toolCalls,
 }: MessageBubbleProps): React.ReactElement {
   const isUser = role === "user"
 
@@ -51,9 +57,23 @@ export function MessageBubble({
       </Box>
 
       {/* Message content */}
-      <Box>
-        <Text wrap="wrap">{content}</Text>
-      </Box>
+      {content && (
+        <Box>
+          <Text wrap="wrap">{content}</Text>
+        </Box>
+      )}
+
+      {/* Tool calls and their results */}
+      {toolCalls?.map((call) => (
+        <ToolCall
+          key={call.id}
+          tool={call.toolId}
+          status={call.status}
+          input={call.input as Record<string, unknown> | undefined}
+          output={call.output}
+          error={call.error}
+        />
+      ))}
     </Box>
   )
 }
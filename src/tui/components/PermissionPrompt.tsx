@@ -0,0 +1,81 @@
+import React from "react"
+import { Box, Text, useInput } from "ink"
+import type { PermissionReply, PermissionRequest } from "../../permission/permission"
+
+/**
+ * Permission prompt component props
+ */
+export interface PermissionPromptProps {
+  /** The tool call waiting on approval */
+  request: PermissionRequest
+  /** Callback with the user's answer */
+  onReply: (reply: PermissionReply) => void
+}
+
+/**
+ * Key bindings for each answer
+ */
+const REPLY_KEYS: Record<string, PermissionReply> = {
+  y: "once",
+  a: "always",
+  n: "deny",
+}
+
+/**
+ * Truncate a string to a maximum length with ellipsis
+ */
+function truncate(str: string, maxLength: number): string {
+  if (str.length <= maxLength) {
+    return str
+  }
+  return str.slice(0, maxLength) + "..."
+}
+
+/**
+ * Permission prompt component
+ * Asks the user to approve, deny, or always allow a tool call
+ */
+export function PermissionPrompt({
+  request,
+  onReply,
+}: PermissionPromptProps): React.ReactElement {
+  useInput((input) => {
+    const reply = REPLY_KEYS[input.toLowerCase()]
+    if (reply) {
+      onReply(reply)
+    }
+  })
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor="yellow"
+      paddingX={1}
+    >
+      <Box>
+        <Text color="yellow">? </Text>
+        <Text>Allow the </Text>
+        <Text color="white" bold>
+          {request.tool}
+        </Text>
+        <Text> tool to run?</Text>
+      </Box>
+
+      {request.resource && (
+        <Text color="cyan">{request.resource}</Text>
+      )}
+
+      <Text dimColor>{truncate(JSON.stringify(request.input), 100)}</Text>
+
+      <Box marginTop={1}>
+        <Text color="green">[y]</Text>
+        <Text> Allow once  </Text>
+        <Text color="blueBright">[a]</Text>
+        <Text> Always allow {request.resource ? "this path " : ""}this session  </Text>
+        <Text color="red">[n]</Text>
+        <Text> Deny</Text>
+      </Box>
+    </Box>
+  )
+}
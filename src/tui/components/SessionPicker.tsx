@@ -0,0 +1,117 @@
+import React, { useState } from "react"
+import { Box, Text, useInput } from "ink"
+import type { SessionSummary } from "../../session/session"
+
+/**
+ * Session picker component props
+ */
+export interface SessionPickerProps {
+  /** Sessions to choose from, most recent first */
+  sessions: SessionSummary[]
+  /** ID of the session currently open */
+  currentSessionId?: string
+  /** Callback with the chosen session ID, or null to start a new session */
+  onSelect: (sessionId: string | null) => void
+  /** Callback when the picker is closed without choosing */
+  onCancel: () => void
+}
+
+/** Maximum number of sessions shown at once */
+const VISIBLE_ROWS = 8
+
+/**
+ * Truncate a string to a maximum length with ellipsis
+ */
+function truncate(str: string, maxLength: number): string {
+  const singleLine = str.replace(/\s+/g, " ").trim()
+  if (singleLine.length <= maxLength) {
+    return singleLine
+  }
+  return singleLine.slice(0, maxLength) + "..."
+}
+
+/**
+ * Format a timestamp as a short date and time
+ */
+function formatTime(ts: number): string {
+  return new Date(ts).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+/**
+ * Session picker component
+ * Lists sessions with arrow-key navigation; the first row starts a new session
+ */
+export function SessionPicker({
+  sessions,
+  currentSessionId,
+  onSelect,
+  onCancel,
+}: SessionPickerProps): React.ReactElement {
+  // Row 0 is "New session", rows 1..n are sessions
+  const [selected, setSelected] = useState(0)
+  const rowCount = sessions.length + 1
+
+  useInput((_input, key) => {
+    if (key.upArrow) {
+      setSelected((s) => (s - 1 + rowCount) % rowCount)
+    } else if (key.downArrow) {
+      setSelected((s) => (s + 1) % rowCount)
+    } else if (key.return) {
+      onSelect(selected === 0 ? null : sessions[selected - 1]!.id)
+    } else if (key.escape) {
+      onCancel()
+    }
+  })
+
+  // Keep the selected row in view
+  const firstVisible = Math.max(0, Math.min(selected - 1, sessions.length - VISIBLE_ROWS))
+  const visibleSessions = sessions.slice(firstVisible, firstVisible + VISIBLE_ROWS)
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor="blueBright"
+      paddingX={1}
+    >
+      <Text bold>Switch session</Text>
+
+      <Box marginTop={1}>
+        <Text color={selected === 0 ? "blueBright" : undefined}>
+          {selected === 0 ? "› " : "  "}+ New session
+        </Text>
+      </Box>
+
+      {visibleSessions.map((session, index) => {
+        const row = firstVisible + index + 1
+        const isSelected = row === selected
+        const label =
+          session.title === "New Chat" && session.preview
+            ? truncate(session.preview, 40)
+            : session.title
+        return (
+          <Box key={session.id}>
+            <Text color={isSelected ? "blueBright" : undefined}>
+              {isSelected ? "› " : "  "}
+              {label}
+            </Text>
+            <Text dimColor>
+              {" · "}
+              {formatTime(session.updatedAt)} · {session.messageCount} msgs
+            </Text>
+            {session.id === currentSessionId && <Text color="green"> (current)</Text>}
+          </Box>
+        )
+      })}
+
+      <Box marginTop={1}>
+        <Text dimColor>↑/↓ to move · Enter to open · Esc to close</Text>
+      </Box>
+    </Box>
+  )
+}
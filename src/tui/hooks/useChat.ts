@@ -1,5 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from "react"
 import { ChatLoop, type ChatLoopResult } from "../../session/loop"
+import type { PermissionReply, PermissionRequest } from "../../permission/permission"
 import { Log } from "../../util/log"
 import { ProviderError } from "../../util/errors"
 
@@ -14,30 +15,56 @@ export interface ToolCallInfo {
   error?: string
 }
 
+/**
+ * Per-invocation model overrides (from --provider and --model)
+ */
+export interface ChatModelOverrides {
+  provider?: string
+  model?: string
+}
+
 /**
  * Hook for AI chat interactions.
  * Uses ChatLoop for full tool support and streaming responses.
  * Supports abort/cancellation via AbortController.
+ * Tool calls that need approval are exposed as pendingPermission until answered.
  */
-export function useChat(sessionId?: string) {
+export function useChat(sessionId?: string, overrides: ChatModelOverrides = {}) {
+  const { provider, model } = overrides
   const [isLoading, setIsLoading] = useState(false)
   const [streamingContent, setStreamingContent] = useState("")
   const [error, setError] = useState<Error | null>(null)
   const [activeToolCalls, setActiveToolCalls] = useState<ToolCallInfo[]>([])
+  const [pendingPermission, setPendingPermission] = useState<PermissionRequest | null>(null)
   const abortControllerRef = useRef<AbortController | null>(null)
+  const permissionResolverRef = useRef<((reply: PermissionReply) => void) | null>(null)
 
   // Cleanup abort controller on unmount
   useEffect(() => {
     return () => {
+      permissionResolverRef.current?.("deny")
       abortControllerRef.current?.abort()
     }
   }, [])
 
+  /**
+   * Answer the pending permission prompt.
+   */
+  const replyPermission = useCallback((reply: PermissionReply) => {
+    const resolve = permissionResolverRef.current
+    permissionResolverRef.current = null
+    setPendingPermission(null)
+    resolve?.(reply)
+  }, [])
+
   /**
    * Cancel any ongoing AI request.
    */
   const cancel = useCallback(() => {
     if (abortControllerRef.current) {
+      permissionResolverRef.current?.("deny")
+      permissionResolverRef.current = null
+      setPendingPermission(null)
       abortControllerRef.current.abort()
       abortControllerRef.current = null
       setIsLoading(false)
@@ -68,6 +95,8 @@ export function useChat(sessionId?: string) {
       try {
         // Use ChatLoop.run() which handles tools, system prompts, and everything
         const result = await ChatLoop.run(sessionId, signal, {
+          provider,
+          model,
           onTextChunk: (chunk) => {
             setStreamingContent((prev) => prev + chunk)
           },
@@ -95,6 +124,11 @@ export function useChat(sessionId?: string) {
               )
             )
           },
+          onPermissionAsk: (request) =>
+            new Promise<PermissionReply>((resolve) => {
+              permissionResolverRef.current = resolve
+              setPendingPermission(request)
+            }),
         })
 
         // Clear streaming content when done - ChatLoop saves the message
@@ -123,7 +157,7 @@ export function useChat(sessionId?: string) {
         abortControllerRef.current = null
       }
     },
-    [sessionId]
+    [sessionId, provider, model]
   )
 
   return {
@@ -131,7 +165,9 @@ export function useChat(sessionId?: string) {
     streamingContent,
     error,
     activeToolCalls,
+    pendingPermission,
     sendMessage,
+    replyPermission,
     cancel,
   }
 }
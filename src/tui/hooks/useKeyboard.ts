@@ -1,11 +1,19 @@
 import { useInput, useApp } from "ink"
 
+/**
+ * Options for the keyboard hook
+ */
+export interface KeyboardOptions {
+  /** Whether the shortcuts are active (disable while an overlay handles Escape) */
+  isActive?: boolean
+}
+
 /**
  * Hook for keyboard shortcuts.
  * Handles Ctrl+C and Escape to exit the application.
  * This is a side-effect only hook that returns nothing.
  */
-export function useKeyboard(): void {
+export function useKeyboard({ isActive = true }: KeyboardOptions = {}): void {
   const { exit } = useApp()
 
   useInput((input, key) => {
@@ -18,5 +26,5 @@ export function useKeyboard(): void {
     if (key.escape) {
       exit()
     }
-  })
+  }, { isActive })
 }
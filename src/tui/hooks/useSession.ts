@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from "react"
 import { Storage } from "../../storage/storage"
+import { Session as SessionStore } from "../../session/session"
+import type { ToolCall } from "../../session/message"
 import { createId } from "../../util/id"
 import { Bus } from "../../bus/bus"
 import { Log } from "../../util/log"
@@ -15,6 +17,8 @@ export interface Message {
   role: "user" | "assistant"
   content: string
   timestamp: number
+  /** Tool calls made by the assistant, with their results */
+  toolCalls?: ToolCall[]
 }
 
 /**
@@ -50,27 +54,8 @@ export function useSession(existingSessionId?: string) {
           ])
           if (loaded) {
             setSession(loaded)
-            // Load messages
-            const msgIds = await Storage.list([
-              "sessions",
-              existingSessionId,
-              "messages",
-            ])
-            const loadedMessages = await Promise.all(
-              msgIds.map((id) =>
-                Storage.read<Message>([
-                  "sessions",
-                  existingSessionId,
-                  "messages",
-                  id,
-                ])
-              )
-            )
-            // Filter out undefined and sort by timestamp
-            const validMessages = loadedMessages
-              .filter((msg): msg is Message => msg !== undefined)
-              .sort((a, b) => a.timestamp - b.timestamp)
-            setMessages(validMessages)
+            // Load messages (sorted by timestamp, then id)
+            setMessages(await SessionStore.getMessages(existingSessionId))
             return
           }
         }
@@ -102,16 +87,7 @@ export function useSession(existingSessionId?: string) {
     if (!session) return
 
     try {
-      const msgIds = await Storage.list(["sessions", session.id, "messages"])
-      const loadedMessages = await Promise.all(
-        msgIds.map((id) =>
-          Storage.read<Message>(["sessions", session.id, "messages", id])
-        )
-      )
-      const validMessages = loadedMessages
-        .filter((msg): msg is Message => msg !== undefined)
-        .sort((a, b) => a.timestamp - b.timestamp)
-      setMessages(validMessages)
+      setMessages(await SessionStore.getMessages(session.id))
     } catch (err) {
       Log.formatAndLogError("Failed to refresh messages", err)
     }
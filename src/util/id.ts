@@ -1,8 +1,17 @@
-import { ulid } from "ulid"
+import { monotonicFactory } from "ulid"
+
+/**
+ * Monotonic ULID generator, so IDs created in the same millisecond
+ * still sort in creation order. Session messages are ordered by timestamp
+ * and then by ID, and a tool call, its result, and the assistant's reply
+ * are often saved within one millisecond; plain ULIDs would order those by
+ * their random part and replay them shuffled.
+ */
+const ulid = monotonicFactory()
 
 /**
  * Creates a new ULID (Universally Unique Lexicographically Sortable Identifier).
- * ULIDs are sortable by creation time.
+ * ULIDs are sortable by creation time, including within the same millisecond.
  */
 export function createId(): string {
   return ulid()
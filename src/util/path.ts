@@ -0,0 +1,48 @@
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+
+/**
+ * Expand a leading "~" to the user's home directory.
+ * @example expandHome("~/notes") => "/home/dad/notes"
+ */
+export function expandHome(filePath: string): string {
+  if (filePath === "~") {
+    return os.homedir()
+  }
+  if (filePath.startsWith("~/")) {
+    return path.join(os.homedir(), filePath.slice(2))
+  }
+  return filePath
+}
+
+/**
+ * Resolve a path to a normalized absolute path.
+ * Expands "~" and resolves relative paths against the current directory,
+ * collapsing "." and ".." segments.
+ */
+export function resolvePath(filePath: string): string {
+  return path.resolve(process.cwd(), expandHome(filePath))
+}
+
+/**
+ * Resolve a path and follow symlinks, so it names the file that would
+ * actually be read or written. For a path that doesn't exist yet, the
+ * nearest existing parent directory is followed and the rest appended.
+ * @example realPath("~/notes/link/new.md") => "/home/dad/elsewhere/new.md"
+ */
+export function realPath(filePath: string): string {
+  const resolved = resolvePath(filePath)
+  const missing: string[] = []
+  let current = resolved
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing)
+    } catch {
+      const parent = path.dirname(current)
+      if (parent === current) return resolved
+      missing.unshift(path.basename(current))
+      current = parent
+    }
+  }
+}
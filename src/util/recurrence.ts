@@ -0,0 +1,313 @@
+/**
+ * Recurrence rules for repeating todos.
+ *
+ * Supports a subset of iCalendar RRULE: FREQ (DAILY, WEEKLY, MONTHLY),
+ * INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly), and UNTIL. The shorthands
+ * "daily", "weekly", and "monthly" are accepted as well.
+ * Dates are calendar dates in YYYY-MM-DD form.
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY"
+
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU"
+
+/**
+ * Parsed recurrence rule
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  /** Repeat every N days, weeks, or months */
+  interval: number
+  /** Days of the week (WEEKLY only) */
+  byDay?: Weekday[]
+  /** Days of the month, -1 being the last day (MONTHLY only) */
+  byMonthDay?: number[]
+  /** Last date an occurrence may fall on (YYYY-MM-DD) */
+  until?: string
+}
+
+/** Weekdays in Date.getUTCDay() order */
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+}
+
+const SHORTHANDS: Record<string, RecurrenceFrequency> = {
+  daily: "DAILY",
+  weekly: "WEEKLY",
+  monthly: "MONTHLY",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Parse a YYYY-MM-DD date (ignoring any time part) as a UTC midnight Date
+ */
+function parseDate(value: string): Date | undefined {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return undefined
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Format a UTC midnight Date as YYYY-MM-DD
+ */
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Number of days in a month (month is 0-based)
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+/**
+ * Ordinal suffix for a day of the month (1st, 2nd, 3rd, 4th...)
+ */
+function ordinal(n: number): string {
+  const mod100 = n % 100
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`
+  switch (n % 10) {
+    case 1:
+      return `${n}st`
+    case 2:
+      return `${n}nd`
+    case 3:
+      return `${n}rd`
+    default:
+      return `${n}th`
+  }
+}
+
+/**
+ * Parse a recurrence string into a rule.
+ * Accepts "daily", "weekly", "monthly", or an RRULE such as
+ * "FREQ=WEEKLY;BYDAY=TU" (an "RRULE:" prefix is optional).
+ *
+ * @throws Error if the string is not a supported recurrence
+ */
+export function parseRecurrence(input: string): RecurrenceRule {
+  const value = input.trim()
+  const shorthand = SHORTHANDS[value.toLowerCase()]
+  if (shorthand) {
+    return { freq: shorthand, interval: 1 }
+  }
+
+  const parts = value.replace(/^RRULE:/i, "").split(";").filter((p) => p.trim().length > 0)
+  if (parts.length === 0) {
+    throw new Error("Recurrence is empty")
+  }
+
+  const rule: Partial<RecurrenceRule> = { interval: 1 }
+  for (const part of parts) {
+    const [rawKey, rawValue] = part.split("=")
+    const key = rawKey?.trim().toUpperCase() ?? ""
+    const val = rawValue?.trim().toUpperCase() ?? ""
+
+    switch (key) {
+      case "FREQ":
+        if (val !== "DAILY" && val !== "WEEKLY" && val !== "MONTHLY") {
+          throw new Error(`Unsupported recurrence frequency: ${val || "(none)"}. Use DAILY, WEEKLY, or MONTHLY`)
+        }
+        rule.freq = val
+        break
+      case "INTERVAL": {
+        const interval = Number(val)
+        if (!Number.isInteger(interval) || interval < 1) {
+          throw new Error(`Invalid recurrence interval: ${val}`)
+        }
+        rule.interval = interval
+        break
+      }
+      case "BYDAY": {
+        const days = val.split(",").map((d) => d.trim())
+        for (const day of days) {
+          if (!WEEKDAYS.includes(day as Weekday)) {
+            throw new Error(`Invalid recurrence day: ${day}. Use MO, TU, WE, TH, FR, SA, or SU`)
+          }
+        }
+        rule.byDay = WEEKDAYS.filter((d) => days.includes(d))
+        break
+      }
+      case "BYMONTHDAY": {
+        const days = val.split(",").map((d) => Number(d.trim()))
+        for (const day of days) {
+          if (!Number.isInteger(day) || day === 0 || day < -1 || day > 31) {
+            throw new Error(`Invalid recurrence day of month: ${val}. Use 1-31 or -1 for the last day`)
+          }
+        }
+        rule.byMonthDay = [...new Set(days)].sort((a, b) => a - b)
+        break
+      }
+      case "UNTIL": {
+        const until = parseDate(val.replace(/^(\d{4})(\d{2})(\d{2})/, "$1-$2-$3"))
+        if (!until) {
+          throw new Error(`Invalid recurrence end date: ${val}`)
+        }
+        rule.until = formatDate(until)
+        break
+      }
+      default:
+        throw new Error(`Unsupported recurrence part: ${key || part}`)
+    }
+  }
+
+  if (!rule.freq) {
+    throw new Error("Recurrence is missing FREQ")
+  }
+  if (rule.byDay && rule.freq !== "WEEKLY") {
+    throw new Error("BYDAY is only supported with FREQ=WEEKLY")
+  }
+  if (rule.byMonthDay && rule.freq !== "MONTHLY") {
+    throw new Error("BYMONTHDAY is only supported with FREQ=MONTHLY")
+  }
+
+  return rule as RecurrenceRule
+}
+
+/**
+ * Format a rule as a recurrence string.
+ * Plain rules use the shorthand ("weekly"); anything else is an RRULE.
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  if (rule.interval === 1 && !rule.byDay && !rule.byMonthDay && !rule.until) {
+    return rule.freq.toLowerCase()
+  }
+
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay) parts.push(`BYDAY=${rule.byDay.join(",")}`)
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`)
+  return parts.join(";")
+}
+
+/**
+ * Normalize a recurrence string, e.g. "rrule:freq=weekly;byday=tu,mo"
+ * => "FREQ=WEEKLY;BYDAY=MO,TU".
+ *
+ * @throws Error if the string is not a supported recurrence
+ */
+export function normalizeRecurrence(input: string): string {
+  return formatRecurrence(parseRecurrence(input))
+}
+
+/**
+ * Pin a plain monthly rule to the day of a due date, e.g. "monthly" with a
+ * due date of 2027-01-31 => "FREQ=MONTHLY;BYMONTHDAY=31". Without the pin each
+ * occurrence would repeat the previous one's day, so a month-end todo that
+ * falls back to Feb 28 would stay on the 28th from then on.
+ * Other rules, and monthly rules without a due date, are only normalized.
+ *
+ * @throws Error if the string is not a supported recurrence
+ */
+export function anchorRecurrence(input: string, dueDate: string | null | undefined): string {
+  const rule = parseRecurrence(input)
+  const due = dueDate ? parseDate(dueDate) : undefined
+  if (rule.freq === "MONTHLY" && !rule.byMonthDay && due) {
+    rule.byMonthDay = [due.getUTCDate()]
+  }
+  return formatRecurrence(rule)
+}
+
+/**
+ * Describe a recurrence in plain English, e.g. "Every Tuesday"
+ * or "Monthly on the 1st".
+ */
+export function describeRecurrence(input: string): string {
+  const rule = parseRecurrence(input)
+  const unit = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" }[rule.freq]
+  let text =
+    rule.interval === 1
+      ? { DAILY: "Daily", WEEKLY: "Weekly", MONTHLY: "Monthly" }[rule.freq]
+      : `Every ${rule.interval} ${unit}s`
+
+  if (rule.byDay) {
+    if (rule.interval === 1) {
+      const names = rule.byDay.map((d) => (rule.byDay!.length === 1 ? WEEKDAY_NAMES[d] : WEEKDAY_NAMES[d].slice(0, 3)))
+      text = `Every ${names.join(", ")}`
+    } else {
+      text += ` on ${rule.byDay.map((d) => WEEKDAY_NAMES[d].slice(0, 3)).join(", ")}`
+    }
+  }
+  if (rule.byMonthDay) {
+    text += ` on the ${rule.byMonthDay.map((d) => (d === -1 ? "last day" : ordinal(d))).join(", ")}`
+  }
+  if (rule.until) {
+    text += ` until ${rule.until}`
+  }
+  return text
+}
+
+/**
+ * Compute the first occurrence strictly after a date.
+ * Monthly days past the end of a short month fall on its last day.
+ *
+ * @param input - Recurrence string
+ * @param after - Date to start from (YYYY-MM-DD)
+ * @returns The next date (YYYY-MM-DD), or null once the rule has ended
+ */
+export function nextOccurrence(input: string, after: string): string | null {
+  const rule = parseRecurrence(input)
+  const start = parseDate(after)
+  if (!start) {
+    throw new Error(`Invalid date: ${after}`)
+  }
+
+  let next: Date | undefined
+  switch (rule.freq) {
+    case "DAILY":
+      next = new Date(start.getTime() + rule.interval * DAY_MS)
+      break
+
+    case "WEEKLY": {
+      if (!rule.byDay) {
+        next = new Date(start.getTime() + rule.interval * 7 * DAY_MS)
+        break
+      }
+      // Weeks start on Monday; only every INTERVAL-th week counts
+      const weekStart = (d: Date): number => d.getTime() - ((d.getUTCDay() + 6) % 7) * DAY_MS
+      const firstWeek = weekStart(start)
+      for (let i = 1; i <= 7 * (rule.interval + 1); i++) {
+        const candidate = new Date(start.getTime() + i * DAY_MS)
+        const week = Math.round((weekStart(candidate) - firstWeek) / (7 * DAY_MS))
+        if (week % rule.interval === 0 && rule.byDay.includes(WEEKDAYS[candidate.getUTCDay()]!)) {
+          next = candidate
+          break
+        }
+      }
+      break
+    }
+
+    case "MONTHLY": {
+      const days = rule.byMonthDay ?? [start.getUTCDate()]
+      // The current month can still hold a later day; otherwise step INTERVAL months
+      for (let step = 0; step <= 1 && !next; step++) {
+        const year = start.getUTCFullYear()
+        const month = start.getUTCMonth() + step * rule.interval
+        const length = daysInMonth(year, month)
+        const candidates = days
+          .map((d) => (d === -1 ? length : Math.min(d, length)))
+          .sort((a, b) => a - b)
+          .map((d) => new Date(Date.UTC(year, month, d)))
+        next = candidates.find((c) => c.getTime() > start.getTime())
+      }
+      break
+    }
+  }
+
+  if (!next) return null
+  const result = formatDate(next)
+  if (rule.until && result > rule.until) return null
+  return result
+}
@@ -17,14 +17,20 @@ import { Bus } from "../../src/bus/bus"
 import { ToolRegistry } from "../../src/tool/registry"
 import { GoalTool } from "../../src/tool/goal"
 import { TodoTool } from "../../src/tool/todo"
+import { WriteTool } from "../../src/tool/write"
+import { Permission } from "../../src/permission/permission"
 import { Config } from "../../src/config/config"
 
 // Mock the Provider module to avoid real API calls
-vi.mock("../../src/provider/provider", () => ({
-  Provider: {
-    getModel: vi.fn(),
-  },
-}))
+vi.mock("../../src/provider/provider", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../../src/provider/provider")>()
+  return {
+    Provider: {
+      ...actual.Provider,
+      getModel: vi.fn(),
+    },
+  }
+})
 
 // Mock the streamText function from 'ai' to control LLM responses
 vi.mock("ai", () => ({
@@ -63,6 +69,8 @@ describe("E2E Chat Flow", () => {
     // Register the tools we need for testing
     ToolRegistry.register(GoalTool)
     ToolRegistry.register(TodoTool)
+    ToolRegistry.register(WriteTool)
+    Permission.clearApprovals()
 
     // Reset all mocks
     vi.clearAllMocks()
@@ -179,6 +187,52 @@ describe("E2E Chat Flow", () => {
       expect(streamText).toHaveBeenCalledOnce()
     })
 
+    test("uses provider and model overrides instead of the config defaults", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Hi" })
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+      vi.mocked(streamText).mockReturnValue(createMockTextResponse("Hello!") as never)
+
+      await ChatLoop.run(session.id, undefined, { model: "gpt-4o-mini" })
+
+      expect(Provider.getModel).toHaveBeenCalledWith("openai", "gpt-4o-mini")
+    })
+
+    test("rejects an unknown model override", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Hi" })
+
+      await expect(
+        ChatLoop.run(session.id, undefined, { model: "not-a-model" })
+      ).rejects.toThrow(/Unknown model/)
+      expect(streamText).not.toHaveBeenCalled()
+    })
+
+    test("throws errors reported by the stream", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Hi" })
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+      vi.mocked(streamText).mockImplementation((options) => {
+        options.onError?.({ error: new Error("401 Unauthorized") })
+        return createMockTextResponse("") as never
+      })
+
+      await expect(ChatLoop.run(session.id)).rejects.toThrow("401 Unauthorized")
+    })
+
+    test("gives the model tool schemas without execute functions", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Hi" })
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+      vi.mocked(streamText).mockReturnValue(createMockTextResponse("Hello!") as never)
+
+      await ChatLoop.run(session.id)
+
+      const tools = vi.mocked(streamText).mock.calls[0][0].tools ?? {}
+      expect(Object.keys(tools)).toEqual(expect.arrayContaining(["goal", "todo"]))
+      expect(tools.goal).not.toHaveProperty("execute")
+    })
+
     test("streams text chunks to callback", async () => {
       // Setup: Create a session
       const session = await Session.create()
@@ -444,7 +498,305 @@ describe("E2E Chat Flow", () => {
     })
   })
 
+  describe("permission enforcement", () => {
+    /**
+     * Mock the LLM to call the write tool once, then reply with text
+     */
+    function mockWriteThenReply(filePath: string) {
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+      let callCount = 0
+      vi.mocked(streamText).mockImplementation(() => {
+        callCount++
+        if (callCount % 2 === 1) {
+          return createMockToolCallResponse(
+            "write",
+            { path: filePath, content: "hello" },
+            `tool-call-write-${callCount}`
+          ) as never
+        }
+        return createMockTextResponse("Done.") as never
+      })
+    }
+
+    test("runs allowed tools without asking", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "List todos" })
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+      let callCount = 0
+      vi.mocked(streamText).mockImplementation(() => {
+        callCount++
+        return (
+          callCount === 1
+            ? createMockToolCallResponse("todo", { action: "list" }, "tool-call-todo")
+            : createMockTextResponse("No todos.")
+        ) as never
+      })
+
+      const onPermissionAsk = vi.fn()
+      const result = await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+
+      expect(onPermissionAsk).not.toHaveBeenCalled()
+      expect(result.toolCalls[0].output).not.toContain("Permission denied")
+    })
+
+    test("asks before running a tool under ask and runs it when approved", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a file" })
+      const filePath = path.join(testDir, "approved.txt")
+      mockWriteThenReply(filePath)
+
+      const askedHandler = vi.fn()
+      const repliedHandler = vi.fn()
+      Bus.subscribe("permission.asked", askedHandler)
+      Bus.subscribe("permission.replied", repliedHandler)
+
+      const onPermissionAsk = vi.fn().mockResolvedValue("once")
+      await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+
+      expect(onPermissionAsk).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: session.id, tool: "write", resource: filePath })
+      )
+      expect(askedHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ tool: "write", resource: filePath })
+      )
+      expect(repliedHandler).toHaveBeenCalledWith(expect.objectContaining({ answer: "once" }))
+      expect(await fs.readFile(filePath, "utf-8")).toBe("hello")
+    })
+
+    test("returns a denied call to the model as a tool error", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a file" })
+      const filePath = path.join(testDir, "denied.txt")
+      mockWriteThenReply(filePath)
+
+      const toolErrors: string[] = []
+      const result = await ChatLoop.run(session.id, undefined, {
+        onPermissionAsk: async () => "deny",
+        onToolError: (_toolId, error) => toolErrors.push(error),
+      })
+
+      expect(result.toolCalls[0].output).toContain("Permission denied")
+      expect(toolErrors[0]).toContain("declined")
+      await expect(fs.access(filePath)).rejects.toThrow()
+
+      // The error is sent back to the model as a tool result
+      const secondCall = vi.mocked(streamText).mock.calls[1][0]
+      const toolMessage = secondCall.messages?.find((m) => m.role === "tool")
+      expect(toolMessage?.content).toEqual([
+        expect.objectContaining({ isError: true, toolName: "write" }),
+      ])
+    })
+
+    test("denies tools under ask when no prompt handler is given", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a file" })
+      const filePath = path.join(testDir, "headless.txt")
+      mockWriteThenReply(filePath)
+
+      const result = await ChatLoop.run(session.id)
+
+      expect(result.toolCalls[0].output).toContain("Permission denied")
+      await expect(fs.access(filePath)).rejects.toThrow()
+    })
+
+    test("denies tools in the deny list without asking", async () => {
+      await fs.writeFile(
+        path.join(homeDir, "config.json"),
+        JSON.stringify({ permissions: { allow: [], deny: ["write"], ask: [] } })
+      )
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a file" })
+      mockWriteThenReply(path.join(testDir, "blocked.txt"))
+
+      const onPermissionAsk = vi.fn()
+      const result = await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+
+      expect(onPermissionAsk).not.toHaveBeenCalled()
+      expect(result.toolCalls[0].output).toContain("blocked by the permission rules")
+    })
+
+    test("scoped rules allow writes inside a folder and deny them outside", async () => {
+      const notesDir = path.join(testDir, "notes")
+      await fs.writeFile(
+        path.join(homeDir, "config.json"),
+        JSON.stringify({
+          permissions: {
+            allow: [`write:${notesDir}/**`],
+            deny: [`write:!${notesDir}/**`],
+            ask: [],
+          },
+        })
+      )
+      const onPermissionAsk = vi.fn()
+
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a note" })
+      mockWriteThenReply(path.join(notesDir, "groceries.md"))
+      const inside = await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+
+      await Session.addMessage(session.id, { role: "user", content: "Write outside" })
+      mockWriteThenReply(path.join(notesDir, "..", "escape.md"))
+      const outside = await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+
+      expect(onPermissionAsk).not.toHaveBeenCalled()
+      expect(await fs.readFile(path.join(notesDir, "groceries.md"), "utf-8")).toBe("hello")
+      expect(inside.toolCalls[0].output).not.toContain("Permission denied")
+      expect(outside.toolCalls[0].output).toContain("Permission denied")
+      await expect(fs.access(path.join(testDir, "escape.md"))).rejects.toThrow()
+    })
+
+    test("always allow skips the prompt for the rest of the session", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a file" })
+      mockWriteThenReply(path.join(testDir, "always.txt"))
+
+      const onPermissionAsk = vi.fn().mockResolvedValue("always")
+      await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+      await Session.addMessage(session.id, { role: "user", content: "Write it again" })
+      await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+
+      expect(onPermissionAsk).toHaveBeenCalledOnce()
+    })
+
+    test("always allow only covers the path it was given for", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a file" })
+      mockWriteThenReply(path.join(testDir, "always.txt"))
+
+      const onPermissionAsk = vi.fn().mockResolvedValue("always")
+      await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+      await Session.addMessage(session.id, { role: "user", content: "Write another file" })
+      mockWriteThenReply(path.join(testDir, "other.txt"))
+      await ChatLoop.run(session.id, undefined, { onPermissionAsk })
+
+      expect(onPermissionAsk).toHaveBeenCalledTimes(2)
+      expect(onPermissionAsk).toHaveBeenLastCalledWith(
+        expect.objectContaining({ resource: path.join(testDir, "other.txt") })
+      )
+    })
+  })
+
   describe("session persistence", () => {
+    test("persists tool calls and results in session history", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Create a goal" })
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+
+      let callCount = 0
+      vi.mocked(streamText).mockImplementation(() => {
+        callCount++
+        return (
+          callCount === 1
+            ? createMockToolCallResponse(
+                "goal",
+                { action: "create", title: "Learn Piano", category: "Personal" },
+                "tool-call-goal"
+              )
+            : createMockTextResponse("Created your goal.")
+        ) as never
+      })
+
+      await ChatLoop.run(session.id)
+
+      const messages = await Session.getMessages(session.id)
+      expect(messages.map((m) => m.content)).toEqual(["Create a goal", "", "Created your goal."])
+
+      const toolMessage = messages[1]
+      expect(toolMessage.role).toBe("assistant")
+      expect(toolMessage.toolCalls).toHaveLength(1)
+      expect(toolMessage.toolCalls?.[0]).toMatchObject({
+        id: "tool-call-goal",
+        toolId: "goal",
+        status: "completed",
+        input: { action: "create", title: "Learn Piano", category: "Personal" },
+      })
+      expect(toolMessage.toolCalls?.[0].output).toContain("Learn Piano")
+      expect(toolMessage.toolCalls?.[0].completedAt).toBeDefined()
+    })
+
+    test("replays earlier tool calls and results on later turns", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Create a goal" })
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+
+      let callCount = 0
+      vi.mocked(streamText).mockImplementation(() => {
+        callCount++
+        return (
+          callCount === 1
+            ? createMockToolCallResponse(
+                "goal",
+                { action: "create", title: "Learn Piano", category: "Personal" },
+                "tool-call-goal"
+              )
+            : createMockTextResponse("Done.")
+        ) as never
+      })
+      await ChatLoop.run(session.id)
+
+      await Session.addMessage(session.id, { role: "user", content: "What was its ID?" })
+      await ChatLoop.run(session.id)
+
+      const thirdCall = vi.mocked(streamText).mock.calls[2][0]
+      expect(thirdCall.messages?.map((m) => m.role)).toEqual([
+        "user",
+        "assistant",
+        "tool",
+        "assistant",
+        "user",
+      ])
+      expect(thirdCall.messages?.[1].content).toEqual([
+        {
+          type: "tool-call",
+          toolCallId: "tool-call-goal",
+          toolName: "goal",
+          args: { action: "create", title: "Learn Piano", category: "Personal" },
+        },
+      ])
+      const [result] = thirdCall.messages?.[2].content as Array<{ toolCallId: string; result: string }>
+      expect(result.toolCallId).toBe("tool-call-goal")
+      expect(result.result).toMatch(/goal_[0-9A-Z]+/)
+    })
+
+    test("replays failed tool calls as errors", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Write a file" })
+      vi.mocked(Provider.getModel).mockResolvedValue({} as never)
+
+      let callCount = 0
+      vi.mocked(streamText).mockImplementation(() => {
+        callCount++
+        return (
+          callCount === 1
+            ? createMockToolCallResponse(
+                "write",
+                { path: path.join(testDir, "x.txt"), content: "x" },
+                "tool-call-write"
+              )
+            : createMockTextResponse("I wasn't allowed to.")
+        ) as never
+      })
+      await ChatLoop.run(session.id)
+
+      const messages = await Session.getMessages(session.id)
+      expect(messages[1].toolCalls?.[0]).toMatchObject({
+        status: "error",
+        error: expect.stringContaining("Permission denied"),
+      })
+
+      await Session.addMessage(session.id, { role: "user", content: "Try again" })
+      await ChatLoop.run(session.id)
+
+      const thirdCall = vi.mocked(streamText).mock.calls[2][0]
+      expect(thirdCall.messages?.[2].content).toEqual([
+        expect.objectContaining({
+          toolCallId: "tool-call-write",
+          isError: true,
+          result: expect.stringContaining("Error: Permission denied"),
+        }),
+      ])
+    })
+
     test("persists conversation across chat loop runs", async () => {
       // Create session and add initial user message
       const session = await Session.create("Persistence Test")
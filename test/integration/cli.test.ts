@@ -10,6 +10,9 @@ import { execa } from "execa"
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
 import * as os from "node:os"
+import * as http from "node:http"
+import type { AddressInfo } from "node:net"
+import { gunzipSync } from "node:zlib"
 
 // Get the project root directory (where this test runs from)
 const PROJECT_ROOT = path.resolve(__dirname, "../..")
@@ -45,7 +48,10 @@ describe("CLI Integration", () => {
    * The CLI is executed from the project root, but we can change the
    * working directory for specific commands using the cwd option.
    */
-  async function runCli(args: string[], options: { workDir?: string } = {}) {
+  async function runCli(
+    args: string[],
+    options: { workDir?: string; input?: string; env?: Record<string, string> } = {}
+  ) {
     // Commands that need to operate in the test directory (like init)
     // use workDir option. Otherwise, we run from project root.
     const workingDir = options.workDir ?? PROJECT_ROOT
@@ -56,8 +62,10 @@ describe("CLI Integration", () => {
         ...process.env,
         DADGPT_DATA_DIR: dataDir,
         DADGPT_HOME: homeDir,
+        ...options.env,
       },
       reject: false, // Don't throw on non-zero exit codes
+      ...(options.input !== undefined && { input: options.input }),
     })
     return result
   }
@@ -253,6 +261,58 @@ describe("CLI Integration", () => {
       expect(parsed[0].title).toBe("JSON Test Goal")
       expect(parsed[0].progress).toBe(33)
     })
+    /**
+     * Write a not-started goal straight into storage
+     */
+    async function writeGoal(id: string, title: string, state = "not_started"): Promise<void> {
+      const goalDir = path.join(dataDir, "goals")
+      await fs.mkdir(goalDir, { recursive: true })
+      await fs.writeFile(
+        path.join(goalDir, `${id}.json`),
+        JSON.stringify({
+          id,
+          title,
+          category: "Personal",
+          description: "",
+          progress: 0,
+          milestones: [],
+          dueDate: null,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          state,
+        }),
+        "utf-8"
+      )
+    }
+
+    test("starts a goal by title", async () => {
+      await writeGoal("goal-spanish", "Learn Spanish")
+
+      const result = await runCli(["goals", "start", "learn spanish"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("transitioned from not_started to in_progress")
+      const goal = JSON.parse(await fs.readFile(path.join(dataDir, "goals", "goal-spanish.json"), "utf-8"))
+      expect(goal.state).toBe("in_progress")
+    })
+
+    test("updates progress by ID prefix", async () => {
+      await writeGoal("goal-spanish", "Learn Spanish", "in_progress")
+
+      const result = await runCli(["goals", "progress", "goal-sp", "40", "--json"])
+
+      expect(result.exitCode).toBe(0)
+      expect(JSON.parse(result.stdout)).toMatchObject({ id: "goal-spanish", progress: 40 })
+    })
+
+    test("refuses to start a completed goal", async () => {
+      await writeGoal("goal-done", "Done Goal", "completed")
+
+      const result = await runCli(["goals", "start", "goal-done"])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("Cannot start goal")
+    })
   })
 
   describe("todos command", () => {
@@ -389,6 +449,747 @@ describe("CLI Integration", () => {
       expect(parsed[0].tags).toContain("test")
       expect(parsed[0].tags).toContain("json")
     })
+    test("adds a todo", async () => {
+      const result = await runCli([
+        "todos", "add", "Fix", "gutter", "--priority", "high", "--due", "2026-11-01", "--tag", "house", "--json",
+      ])
+
+      expect(result.exitCode).toBe(0)
+      const todo = JSON.parse(result.stdout)
+      expect(todo).toMatchObject({
+        title: "Fix gutter",
+        priority: "high",
+        dueDate: "2026-11-01",
+        tags: ["house"],
+        state: "pending",
+      })
+      expect(await fs.readdir(path.join(dataDir, "todos"))).toEqual([`${todo.id}.json`])
+    })
+
+    test("completes a todo by title", async () => {
+      const todoDir = path.join(dataDir, "todos")
+      await fs.mkdir(todoDir, { recursive: true })
+      await fs.writeFile(
+        path.join(todoDir, "todo-gutter.json"),
+        JSON.stringify({
+          id: "todo-gutter",
+          title: "Fix gutter",
+          description: "",
+          priority: "high",
+          dueDate: null,
+          recurrence: null,
+          tags: [],
+          goalId: null,
+          blockedBy: null,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          completedAt: null,
+          state: "pending",
+        }),
+        "utf-8"
+      )
+
+      const result = await runCli(["todos", "done", "fix", "gutter"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain('Completed todo: "Fix gutter"')
+      const todo = JSON.parse(await fs.readFile(path.join(todoDir, "todo-gutter.json"), "utf-8"))
+      expect(todo.state).toBe("done")
+      expect(todo.completedAt).toEqual(expect.any(Number))
+    })
+
+    test("fails to complete an unknown todo", async () => {
+      const result = await runCli(["todos", "done", "todo-missing"])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("Todo not found")
+    })
+
+    test("wakes deferred todos on startup and hides the rest", async () => {
+      const todoDir = path.join(dataDir, "todos")
+      await fs.mkdir(todoDir, { recursive: true })
+      const deferred = (id: string, title: string, deferredUntil: string) =>
+        fs.writeFile(
+          path.join(todoDir, `${id}.json`),
+          JSON.stringify({
+            id,
+            title,
+            description: "",
+            priority: "medium",
+            dueDate: "2026-01-15",
+            deferredUntil,
+            recurrence: null,
+            tags: [],
+            goalId: null,
+            blockedBy: [],
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            startedAt: null,
+            completedAt: null,
+            state: "deferred",
+          }),
+          "utf-8"
+        )
+      await deferred("todo-taxes", "File taxes", "2020-01-01")
+      await deferred("todo-garage", "Clean garage", "2999-01-01")
+
+      const result = await runCli(["todos"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("File taxes")
+      expect(result.stdout).not.toContain("Clean garage")
+      expect(result.stdout).toContain("1 deferred todo hidden (use --all to show)")
+      const taxes = JSON.parse(await fs.readFile(path.join(todoDir, "todo-taxes.json"), "utf-8"))
+      expect(taxes).toMatchObject({ state: "pending", dueDate: "2026-01-15", deferredUntil: null })
+    })
+  })
+
+  describe("projects command", () => {
+    /**
+     * Write a project record straight into storage
+     */
+    async function writeProject(project: Record<string, unknown>): Promise<void> {
+      const projectDir = path.join(dataDir, "projects")
+      await fs.mkdir(projectDir, { recursive: true })
+      await fs.writeFile(
+        path.join(projectDir, `${project.id}.json`),
+        JSON.stringify({
+          description: "",
+          budget: null,
+          milestones: [],
+          todoIds: [],
+          goalId: null,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          ...project,
+        }),
+        "utf-8"
+      )
+    }
+
+    test("shows empty state when no projects exist", async () => {
+      const result = await runCli(["projects"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("No projects found")
+    })
+
+    test("lists projects with milestones, budget and linked goal", async () => {
+      const goalDir = path.join(dataDir, "goals")
+      await fs.mkdir(goalDir, { recursive: true })
+      await fs.writeFile(
+        path.join(goalDir, "goal-kids.json"),
+        JSON.stringify({
+          id: "goal-kids",
+          title: "Build things with the kids",
+          category: "Family",
+          description: "",
+          progress: 0,
+          progressMode: "manual",
+          milestones: [],
+          dueDate: null,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          state: "in_progress",
+        }),
+        "utf-8"
+      )
+      await writeProject({
+        id: "project-treehouse",
+        name: "Treehouse",
+        status: "active",
+        state: "active",
+        budget: 1500,
+        goalId: "goal-kids",
+        milestones: [
+          { id: "m1", title: "Buy lumber", completed: true, dueDate: null },
+          { id: "m2", title: "Build floor", completed: false, dueDate: "2026-11-01" },
+        ],
+      })
+
+      const result = await runCli(["projects"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Active")
+      expect(result.stdout).toContain("Treehouse")
+      expect(result.stdout).toContain("[█████░░░░░]")
+      expect(result.stdout).toContain("1/2 milestones")
+      expect(result.stdout).toContain("Budget: $1,500")
+      expect(result.stdout).toContain("Next: Build floor (Due: 2026-11-01)")
+      expect(result.stdout).toContain("Goal: Build things with the kids")
+    })
+
+    test("filters by status and outputs JSON", async () => {
+      await writeProject({ id: "project-deck", name: "Deck", status: "planning", state: "planning" })
+      await writeProject({ id: "project-shed", name: "Shed", status: "completed", state: "completed" })
+
+      const result = await runCli(["projects", "--status", "planning", "--json"])
+
+      expect(result.exitCode).toBe(0)
+      const parsed = JSON.parse(result.stdout)
+      expect(parsed).toHaveLength(1)
+      expect(parsed[0].name).toBe("Deck")
+    })
+  })
+
+  describe("family command", () => {
+    /**
+     * Write family members straight into the global config
+     */
+    async function writeFamily(family: Array<Record<string, unknown>>): Promise<void> {
+      await fs.writeFile(path.join(homeDir, "config.json"), JSON.stringify({ family }), "utf-8")
+    }
+
+    /**
+     * Read family members back from the global config
+     */
+    async function readFamily(): Promise<Array<Record<string, unknown>>> {
+      return JSON.parse(await fs.readFile(path.join(homeDir, "config.json"), "utf-8")).family
+    }
+
+    test("adds a family member", async () => {
+      const result = await runCli(["family", "add", "Alice", "Smith", "-r", "Wife", "-b", "1985-03-15"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Added Alice Smith (Wife)")
+      expect(await readFamily()).toMatchObject([
+        { name: "Alice Smith", relationship: "Wife", birthday: "1985-03-15" },
+      ])
+    })
+
+    test("lists members with ages", async () => {
+      await writeFamily([{ id: "family_1", name: "Alice", relationship: "Wife", birthday: "1985-03-15" }])
+
+      const result = await runCli(["family"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Alice")
+      expect(result.stdout).toMatch(/Birthday: 1985-03-15 · age \d+/)
+    })
+
+    test("shows upcoming birthdays as JSON", async () => {
+      const soon = new Date()
+      soon.setDate(soon.getDate() + 3)
+      const mmdd = `${String(soon.getMonth() + 1).padStart(2, "0")}-${String(soon.getDate()).padStart(2, "0")}`
+      await writeFamily([
+        { id: "family_1", name: "Bob", relationship: "Son", birthday: `2015-${mmdd}` },
+        { id: "family_2", name: "Carol", relationship: "Mom" },
+      ])
+
+      const result = await runCli(["family", "--upcoming", "7", "--json"])
+
+      expect(result.exitCode).toBe(0)
+      const parsed = JSON.parse(result.stdout)
+      expect(parsed).toHaveLength(1)
+      expect(parsed[0]).toMatchObject({ daysUntil: 3, member: { name: "Bob" } })
+      expect(parsed[0].turning).toBe(soon.getFullYear() - 2015)
+    })
+
+    test("updates a member by name", async () => {
+      await writeFamily([{ id: "family_1", name: "Bob", relationship: "Son", notes: "Soccer" }])
+
+      const result = await runCli(["family", "update", "bob", "--birthday", "06-20", "--notes", ""])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Updated Bob: birthday, notes")
+      const [member] = await readFamily()
+      expect(member?.birthday).toBe("06-20")
+      expect(member?.notes).toBeUndefined()
+    })
+
+    test("removes a member by ID prefix", async () => {
+      await writeFamily([
+        { id: "family_1", name: "Alice", relationship: "Wife" },
+        { id: "family_2", name: "Bob", relationship: "Son" },
+      ])
+
+      const result = await runCli(["family", "remove", "family_2"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Removed Bob (Son)")
+      expect((await readFamily()).map((m) => m.name)).toEqual(["Alice"])
+    })
+
+    test("fails for an invalid birthday", async () => {
+      const result = await runCli(["family", "add", "Alice", "-r", "Wife", "-b", "March 15"])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("Invalid birthday format")
+    })
+  })
+
+  describe("sync command", () => {
+    const SYNC_CONTENT = `## Goals
+
+- [ ] Learn Spanish
+  - Category: Personal
+
+## Todos
+
+- [ ] Fix gutter
+  - Priority: high
+`
+
+    test("--dry-run shows the diff without writing", async () => {
+      await fs.writeFile(path.join(testDir, "dadgpt.md"), SYNC_CONTENT, "utf-8")
+
+      const result = await runCli(["sync", "--dry-run"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Learn Spanish")
+      expect(result.stdout).toContain("Fix gutter")
+      expect(result.stdout).toContain("Dry run")
+
+      const goalsDir = path.join(dataDir, "goals")
+      const goalsExist = await fs.access(goalsDir).then(() => true).catch(() => false)
+      expect(goalsExist).toBe(false)
+    })
+
+    test("imports items into storage", async () => {
+      await fs.writeFile(path.join(testDir, "dadgpt.md"), SYNC_CONTENT, "utf-8")
+
+      const result = await runCli(["sync"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Applied 2 changes")
+      expect(await fs.readdir(path.join(dataDir, "goals"))).toHaveLength(1)
+      expect(await fs.readdir(path.join(dataDir, "todos"))).toHaveLength(1)
+    })
+
+    test("creates dadgpt.md from storage when missing", async () => {
+      await fs.mkdir(path.join(dataDir, "todos"), { recursive: true })
+      await fs.writeFile(
+        path.join(dataDir, "todos", "todo_1.json"),
+        JSON.stringify({
+          id: "todo_1",
+          title: "Stored Todo",
+          description: "",
+          priority: "high",
+          dueDate: null,
+          tags: [],
+          goalId: null,
+          blockedBy: null,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+          completedAt: null,
+          state: "pending",
+        })
+      )
+
+      const result = await runCli(["sync"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Updated dadgpt.md from storage")
+      const content = await fs.readFile(path.join(testDir, "dadgpt.md"), "utf-8")
+      expect(content).toContain("- [ ] Stored Todo")
+      expect(content).toContain("  - Priority: high")
+    })
+  })
+
+  describe("doctor command", () => {
+    test("--dry-run reports dangling references without repairing them", async () => {
+      await fs.mkdir(path.join(dataDir, "todos"), { recursive: true })
+      const todo = {
+        id: "todo_1",
+        title: "Orphaned Todo",
+        description: "",
+        priority: "medium",
+        dueDate: null,
+        tags: [],
+        goalId: "goal_gone",
+        projectId: null,
+        blockedBy: [],
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        completedAt: null,
+        state: "pending",
+      }
+      await fs.writeFile(path.join(dataDir, "todos", "todo_1.json"), JSON.stringify(todo))
+
+      const result = await runCli(["doctor", "--dry-run"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stdout).toContain("Orphaned Todo")
+      expect(result.stdout).toContain("goal goal_gone does not exist")
+      expect(result.stdout).toContain("Found 1 issue. Dry run")
+      const stored = JSON.parse(await fs.readFile(path.join(dataDir, "todos", "todo_1.json"), "utf-8"))
+      expect(stored.goalId).toBe("goal_gone")
+    })
+  })
+
+  describe("trash command", () => {
+    test("lists deleted records", async () => {
+      await fs.mkdir(path.join(dataDir, "trash"), { recursive: true })
+      const entry = {
+        kind: "goal",
+        id: "goal_1",
+        title: "Trashed Goal",
+        record: { id: "goal_1", title: "Trashed Goal" },
+        deletedAt: Date.now(),
+        deletedWith: null,
+        detached: [],
+      }
+      await fs.writeFile(path.join(dataDir, "trash", "goal_1.json"), JSON.stringify(entry))
+
+      const result = await runCli(["trash"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("Goals")
+      expect(result.stdout).toContain("Trashed Goal")
+      expect(result.stdout).toContain("purged in 30 days")
+    })
+  })
+
+  describe("storage command", () => {
+    test("migrate --dry-run counts the records without moving them", async () => {
+      await fs.mkdir(path.join(dataDir, "goals"), { recursive: true })
+      await fs.writeFile(path.join(dataDir, "goals", "goal_1.json"), JSON.stringify({ id: "goal_1" }))
+
+      const result = await runCli(["storage", "migrate", "--to", "sqlite", "--dry-run"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(0)
+      // The goal plus the schema versions recorded at startup
+      expect(result.stdout).toContain("Would copy 2 records from json to sqlite")
+      await expect(fs.access(path.join(dataDir, "dadgpt.db"))).rejects.toThrow()
+    })
+  })
+
+  describe("migrate command", () => {
+    test("--dry-run lists pending migrations without applying them", async () => {
+      const goal = {
+        id: "goal_1",
+        title: "Fitness",
+        category: "Health",
+        description: "",
+        progress: 0,
+        milestones: [],
+        dueDate: null,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        state: "not_started",
+      }
+      await fs.mkdir(path.join(dataDir, "goals"), { recursive: true })
+      await fs.writeFile(path.join(dataDir, "goals", "goal_1.json"), JSON.stringify(goal))
+
+      const result = await runCli(["migrate", "--dry-run"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("v0 → v1")
+      expect(result.stdout).toContain("Add progressMode, defaulting to manual")
+      expect(result.stdout).toContain("Dry run - no changes applied.")
+      const stored = JSON.parse(await fs.readFile(path.join(dataDir, "goals", "goal_1.json"), "utf-8"))
+      expect(stored.progressMode).toBeUndefined()
+    })
+  })
+
+  describe("backup command", () => {
+    test("writes an archive with a manifest and leaves API keys out on request", async () => {
+      await fs.writeFile(
+        path.join(homeDir, "config.json"),
+        JSON.stringify({ providers: { anthropic: { id: "anthropic", apiKey: "sk-secret" } } })
+      )
+      await fs.mkdir(path.join(dataDir, "goals"), { recursive: true })
+      await fs.writeFile(path.join(dataDir, "goals", "goal_1.json"), JSON.stringify({ id: "goal_1" }))
+      const archive = path.join(testDir, "family.tar.gz")
+
+      const result = await runCli(["backup", archive, "--exclude-api-keys"], { workDir: testDir })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain(`to ${archive}`)
+      expect(result.stdout).toContain("API keys were left out")
+      const archived = gunzipSync(await fs.readFile(archive)).toString("utf-8")
+      expect(archived).toContain('"format": "dadgpt-backup"')
+      expect(archived).toContain("data/goals/goal_1.json")
+      expect(archived).not.toContain("sk-secret")
+    })
+  })
+
+  describe("restore command", () => {
+    test("refuses a file that isn't a backup", async () => {
+      const archive = path.join(testDir, "broken.tar.gz")
+      await fs.writeFile(archive, "not a backup")
+
+      const result = await runCli(["restore", archive], { workDir: testDir })
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("failed verification")
+      expect(result.stderr).toContain("Not a readable backup archive")
+    })
+  })
+
+  describe("encrypt command", () => {
+    test("encrypts the existing records and config in place", async () => {
+      await fs.writeFile(path.join(homeDir, "config.json"), JSON.stringify({ theme: "dark" }))
+      await fs.mkdir(path.join(dataDir, "goals"), { recursive: true })
+      await fs.writeFile(path.join(dataDir, "goals", "goal_1.json"), JSON.stringify({ id: "goal_1", title: "Run a marathon" }))
+
+      const result = await runCli(["encrypt"], { env: { DADGPT_PASSPHRASE: "correct horse" } })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("and the config")
+      expect(await fs.readFile(path.join(dataDir, "encryption.key"), "utf-8")).toContain('"kdf": "scrypt"')
+      expect(await fs.readFile(path.join(dataDir, "goals", "goal_1.json"), "utf-8")).not.toContain("marathon")
+      expect(await fs.readFile(path.join(homeDir, "config.json"), "utf-8")).toContain('"$encrypted"')
+    })
+  })
+
+  describe("sessions command", () => {
+    /**
+     * Write a session with messages directly to the data directory
+     */
+    async function writeSession(id: string, title: string, messages: string[]) {
+      const sessionDir = path.join(dataDir, "sessions", id)
+      await fs.mkdir(path.join(sessionDir, "messages"), { recursive: true })
+      const now = Date.now()
+      await fs.writeFile(
+        path.join(sessionDir, "session.json"),
+        JSON.stringify({ id, title, createdAt: now, updatedAt: now })
+      )
+      for (const [index, content] of messages.entries()) {
+        const messageId = `${id}_msg${index}`
+        await fs.writeFile(
+          path.join(sessionDir, "messages", `${messageId}.json`),
+          JSON.stringify({
+            id: messageId,
+            role: index % 2 === 0 ? "user" : "assistant",
+            content,
+            timestamp: now + index,
+          })
+        )
+      }
+    }
+
+    test("shows empty state when no sessions exist", async () => {
+      const result = await runCli(["sessions"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("No sessions found")
+    })
+
+    test("lists sessions with a preview of the first message", async () => {
+      await writeSession("01SESSIONAAA", "New Chat", ["What's for dinner?", "Tacos!"])
+
+      const result = await runCli(["sessions"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("01SESSIONAAA")
+      expect(result.stdout).toContain("2 messages")
+      expect(result.stdout).toContain("What's for dinner?")
+    })
+
+    test("renames a session by ID prefix", async () => {
+      await writeSession("01SESSIONBBB", "New Chat", ["Hello"])
+
+      const result = await runCli(["sessions", "rename", "01SESSIONB", "Dinner", "plans"])
+
+      expect(result.exitCode).toBe(0)
+      const session = JSON.parse(
+        await fs.readFile(path.join(dataDir, "sessions", "01SESSIONBBB", "session.json"), "utf-8")
+      )
+      expect(session.title).toBe("Dinner plans")
+    })
+
+    test("deletes a session", async () => {
+      await writeSession("01SESSIONBBB", "Dinner plans", ["Hello"])
+
+      const result = await runCli(["sessions", "delete", "01SESSIONBBB"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain('Deleted session "Dinner plans"')
+      const exists = await fs
+        .access(path.join(dataDir, "sessions", "01SESSIONBBB", "session.json"))
+        .then(() => true)
+        .catch(() => false)
+      expect(exists).toBe(false)
+    })
+
+    test("exports a session as markdown", async () => {
+      await writeSession("01SESSIONCCC", "Weekend", ["Plan Saturday", "Park, then pizza."])
+
+      const result = await runCli(["sessions", "export", "01SESSIONCCC"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain("# Weekend")
+      expect(result.stdout).toContain("## You")
+      expect(result.stdout).toContain("Plan Saturday")
+      expect(result.stdout).toContain("## DadGPT")
+      expect(result.stdout).toContain("Park, then pizza.")
+    })
+
+    test("fails for an unknown session", async () => {
+      const result = await runCli(["sessions", "delete", "01NOPE"])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr + result.stdout).toContain("Session not found")
+    })
+  })
+
+  describe("run command", () => {
+    test("rejects an unknown --model before starting", async () => {
+      const result = await runCli(["--model", "gpt-9"])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("Unknown model: gpt-9")
+    })
+
+    test("rejects a --model from a different --provider", async () => {
+      const result = await runCli(["--provider", "anthropic", "--model", "gpt-4o"])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("provided by openai, not anthropic")
+    })
+  })
+
+  describe("ask command", () => {
+    let server: http.Server
+    let chatRequests: Array<{ messages: Array<{ role: string; content: unknown }> }>
+    let chatStatus: number
+
+    /**
+     * Format chat completion chunks as a server-sent event stream
+     */
+    function sse(deltas: Array<{ delta: Record<string, unknown>; finish_reason: string | null }>): string {
+      return (
+        deltas
+          .map(
+            (choice) =>
+              `data: ${JSON.stringify({
+                id: "chatcmpl-1",
+                object: "chat.completion.chunk",
+                created: 0,
+                model: "local-model",
+                choices: [{ index: 0, ...choice }],
+              })}\n\n`
+          )
+          .join("") + "data: [DONE]\n\n"
+      )
+    }
+
+    beforeEach(async () => {
+      chatRequests = []
+      chatStatus = 200
+
+      // Fake OpenAI-compatible server: calls the todo tool when asked to, otherwise replies with text
+      server = http.createServer((req, res) => {
+        let body = ""
+        req.on("data", (chunk) => (body += chunk))
+        req.on("end", () => {
+          if (req.url === "/v1/models") {
+            res.writeHead(200, { "Content-Type": "application/json" })
+            res.end(JSON.stringify({ data: [{ id: "local-model" }] }))
+            return
+          }
+
+          const request = JSON.parse(body)
+          chatRequests.push(request)
+          if (chatStatus !== 200) {
+            res.writeHead(chatStatus, { "Content-Type": "application/json" })
+            res.end(JSON.stringify({ error: { message: "Bad request from test server" } }))
+            return
+          }
+
+          const lastMessage = request.messages[request.messages.length - 1]
+          const wantsTool =
+            lastMessage.role === "user" && String(lastMessage.content).includes("Add a todo")
+
+          res.writeHead(200, { "Content-Type": "text/event-stream" })
+          res.end(
+            wantsTool
+              ? sse([
+                  {
+                    delta: {
+                      role: "assistant",
+                      tool_calls: [
+                        {
+                          index: 0,
+                          id: "call_1",
+                          type: "function",
+                          function: {
+                            name: "todo",
+                            arguments: JSON.stringify({ action: "create", title: "Buy milk" }),
+                          },
+                        },
+                      ],
+                    },
+                    finish_reason: null,
+                  },
+                  { delta: {}, finish_reason: "tool_calls" },
+                ])
+              : sse([
+                  { delta: { role: "assistant", content: "Hello from " }, finish_reason: null },
+                  { delta: { content: "the server" }, finish_reason: null },
+                  { delta: {}, finish_reason: "stop" },
+                ])
+          )
+        })
+      })
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+      const port = (server.address() as AddressInfo).port
+
+      await fs.writeFile(
+        path.join(homeDir, "config.json"),
+        JSON.stringify({
+          providers: {
+            "openai-compatible": {
+              id: "openai-compatible",
+              baseURL: `http://127.0.0.1:${port}/v1`,
+            },
+          },
+          defaultProvider: "openai-compatible",
+          defaultModel: "local-model",
+        })
+      )
+    })
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    test("streams the reply to stdout", async () => {
+      const result = await runCli(["ask", "Say", "hello"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toBe("Hello from the server")
+      expect(chatRequests[0]?.messages.at(-1)).toMatchObject({ role: "user", content: "Say hello" })
+    })
+
+    test("reads the prompt from stdin and prints JSON", async () => {
+      const result = await runCli(["ask", "--json"], { input: "What's for dinner?\n" })
+
+      expect(result.exitCode).toBe(0)
+      const output = JSON.parse(result.stdout)
+      expect(output.content).toBe("Hello from the server")
+      expect(output.aborted).toBe(false)
+      expect(output.sessionId).toBeTruthy()
+      expect(chatRequests[0]?.messages.at(-1)).toMatchObject({ content: "What's for dinner?" })
+    })
+
+    test("prints tool calls to stderr", async () => {
+      const result = await runCli(["ask", "Add a todo to buy milk"])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stderr).toContain("→ todo")
+      expect(result.stderr).toContain("✓")
+      expect(result.stdout).toBe("Hello from the server")
+      expect(await fs.readdir(path.join(dataDir, "todos"))).toHaveLength(1)
+    })
+
+    test("exits non-zero on provider errors", async () => {
+      chatStatus = 400
+
+      const result = await runCli(["ask", "Hello"])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("Failed to get a response")
+    })
+
+    test("fails without a prompt", async () => {
+      const result = await runCli(["ask"], { input: "" })
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("No prompt given")
+      expect(chatRequests).toHaveLength(0)
+    })
   })
 
   describe("help command", () => {
@@ -400,6 +1201,15 @@ describe("CLI Integration", () => {
       expect(result.stdout).toContain("init")
       expect(result.stdout).toContain("goals")
       expect(result.stdout).toContain("todos")
+      expect(result.stdout).toContain("projects")
+      expect(result.stdout).toContain("doctor")
+      expect(result.stdout).toContain("trash")
+      expect(result.stdout).toContain("storage")
+      expect(result.stdout).toContain("migrate")
+      expect(result.stdout).toContain("backup")
+      expect(result.stdout).toContain("restore")
+      expect(result.stdout).toContain("encrypt")
+      expect(result.stdout).toContain("decrypt")
     })
   })
 })
@@ -148,6 +148,41 @@ describe("Session Integration", () => {
     })
   })
 
+  describe("Session.latest", () => {
+    test("returns undefined when no sessions exist", async () => {
+      expect(await Session.latest()).toBeUndefined()
+    })
+
+    test("returns the most recently updated session", async () => {
+      const older = await Session.create("Older")
+      await new Promise(resolve => setTimeout(resolve, 10))
+      await Session.create("Newer")
+      await new Promise(resolve => setTimeout(resolve, 10))
+      await Session.addMessage(older.id, { role: "user", content: "Back again" })
+
+      const latest = await Session.latest()
+      expect(latest?.id).toBe(older.id)
+    })
+  })
+
+  describe("Session.summaries", () => {
+    test("includes message count and first user message", async () => {
+      const session = await Session.create()
+      await Session.addMessage(session.id, { role: "user", content: "Plan the weekend" })
+      await Session.addMessage(session.id, { role: "assistant", content: "Sure!" })
+      await Session.create("Empty")
+
+      const summaries = await Session.summaries()
+      const summary = summaries.find(s => s.id === session.id)
+      const empty = summaries.find(s => s.title === "Empty")
+
+      expect(summary?.messageCount).toBe(2)
+      expect(summary?.preview).toBe("Plan the weekend")
+      expect(empty?.messageCount).toBe(0)
+      expect(empty?.preview).toBeUndefined()
+    })
+  })
+
   describe("Session.addMessage", () => {
     test("adds a user message to a session", async () => {
       const session = await Session.create()
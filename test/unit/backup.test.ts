@@ -0,0 +1,204 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { gunzipSync, gzipSync } from "node:zlib"
+import { Backup } from "../../src/backup/backup"
+import { packTar, unpackTar } from "../../src/backup/tar"
+import { Storage } from "../../src/storage/storage"
+import { Config } from "../../src/config/config"
+
+describe("Backup", () => {
+  let testDir: string
+  let homeDir: string
+  let archive: string
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `dadgpt-backup-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    homeDir = path.join(testDir, "home")
+    archive = path.join(testDir, "backup.tar.gz")
+    await fs.mkdir(homeDir, { recursive: true })
+    process.env.DADGPT_HOME = homeDir
+    process.env.DADGPT_DATA_DIR = path.join(homeDir, "data")
+    Config.invalidate()
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    delete process.env.DADGPT_HOME
+    delete process.env.DADGPT_DATA_DIR
+    Config.invalidate()
+    await fs.rm(testDir, { recursive: true, force: true })
+  })
+
+  async function writeConfig(config: object): Promise<void> {
+    await fs.writeFile(path.join(homeDir, "config.json"), JSON.stringify(config))
+  }
+
+  test("tar archives round-trip, including paths longer than 100 bytes", () => {
+    const long = `data/sessions/${"s".repeat(60)}/messages/${"m".repeat(60)}.json`
+    const entries = [
+      { path: "manifest.json", data: Buffer.from("{}") },
+      { path: long, data: Buffer.from("x".repeat(513)) },
+    ]
+
+    expect(unpackTar(packTar(entries, 0))).toEqual(entries)
+  })
+
+  test("creates an archive that verifies and lists every record", async () => {
+    await writeConfig({ theme: "light", providers: { anthropic: { id: "anthropic", apiKey: "sk-secret" } } })
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Fitness" })
+    await Storage.write(["sessions", "s1", "messages", "m1"], { id: "m1" })
+
+    const manifest = await Backup.create(archive)
+
+    expect(manifest).toMatchObject({ format: "dadgpt-backup", version: 1, apiKeys: true, records: 2 })
+    expect(manifest.files.map((f) => f.path).sort()).toEqual([
+      "config.json",
+      "data/goals/goal-1.json",
+      "data/sessions/s1/messages/m1.json",
+    ])
+    expect(await Backup.verify(archive)).toEqual({ manifest, problems: [] })
+  })
+
+  test.skipIf(process.platform === "win32")("archives are readable only by their owner", async () => {
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Fitness" })
+
+    await Backup.create(archive)
+
+    expect((await fs.stat(archive)).mode & 0o777).toBe(0o600)
+  })
+
+  test("can leave API keys out of the config", async () => {
+    await writeConfig({ providers: { anthropic: { id: "anthropic", apiKey: "sk-secret" } } })
+
+    await Backup.create(archive, { includeApiKeys: false })
+
+    const files = unpackTar(gunzipSync(await fs.readFile(archive)))
+    const config = files.find((f) => f.path === "config.json")!.data.toString("utf-8")
+    expect(config).not.toContain("sk-secret")
+    expect(JSON.parse(config)).toEqual({ providers: { anthropic: { id: "anthropic" } } })
+  })
+
+  test("reports files that don't match the manifest", async () => {
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Fitness" })
+    await Backup.create(archive)
+
+    const files = unpackTar(gunzipSync(await fs.readFile(archive)))
+    const tampered = files.map((f) =>
+      f.path === "data/goals/goal-1.json" ? { ...f, data: Buffer.from('{"id":"goal-1","title":"Hacked"}') } : f
+    )
+    tampered.push({ path: "data/../../escape.json", data: Buffer.from("{}") })
+    await fs.writeFile(archive, gzipSync(packTar(tampered, 0)))
+
+    const { problems } = await Backup.verify(archive)
+
+    expect(problems).toEqual([
+      "data/goals/goal-1.json does not match its checksum",
+      "data/../../escape.json is not listed in the manifest",
+    ])
+    await expect(Backup.restore(archive)).rejects.toMatchObject({ code: "BACKUP_INVALID" })
+    expect(await Storage.read(["goals", "goal-1"])).toEqual({ id: "goal-1", title: "Fitness" })
+  })
+
+  test("rejects files that aren't backups", async () => {
+    await fs.writeFile(archive, "not an archive")
+
+    const { manifest, problems } = await Backup.verify(archive)
+
+    expect(manifest).toBeNull()
+    expect(problems[0]).toContain("Not a readable backup archive")
+  })
+
+  test("restore replaces the data, keeps current API keys, and backs up what it replaced", async () => {
+    await writeConfig({ theme: "light", providers: { anthropic: { id: "anthropic", apiKey: "sk-old" } } })
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Fitness" })
+    await Backup.create(archive, { includeApiKeys: false })
+
+    await writeConfig({ theme: "dark", providers: { anthropic: { id: "anthropic", apiKey: "sk-new" } } })
+    await Storage.remove(["goals", "goal-1"])
+    await Storage.write(["goals", "goal-2"], { id: "goal-2", title: "Added later" })
+
+    expect(await Backup.restore(archive, { dryRun: true })).toMatchObject({ records: 1, replaced: 1, safetyBackup: null })
+    expect(await Storage.exists(["goals", "goal-2"])).toBe(true)
+
+    const result = await Backup.restore(archive)
+
+    expect(result).toMatchObject({ records: 1, replaced: 1, config: true })
+    expect(await Storage.list(["goals"])).toEqual(["goal-1"])
+    const config = await Config.get()
+    expect(config.theme).toBe("light")
+    expect(config.providers.anthropic?.apiKey).toBe("sk-new")
+    expect(path.dirname(result.safetyBackup!)).toBe(Backup.directory())
+    expect((await Backup.verify(result.safetyBackup!)).manifest?.files.map((f) => f.path)).toContain(
+      "data/goals/goal-2.json"
+    )
+  })
+
+  test("a restore that fails part way puts the previous data back", async () => {
+    await writeConfig({ theme: "light" })
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Fitness" })
+    await Storage.write(["goals", "goal-2"], { id: "goal-2", title: "Reading" })
+    await Backup.create(archive)
+
+    await writeConfig({ theme: "dark" })
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Running" })
+    await Storage.remove(["goals", "goal-2"])
+    await Storage.write(["goals", "goal-3"], { id: "goal-3", title: "Added later" })
+
+    const write = Storage.write
+    let writes = 0
+    vi.spyOn(Storage, "write").mockImplementation(async (key, data) => {
+      if (++writes === 2) throw new Error("disk full")
+      return write(key, data)
+    })
+
+    await expect(Backup.restore(archive)).rejects.toMatchObject({ code: "BACKUP_RESTORE_FAILED" })
+
+    expect((await Storage.list(["goals"])).sort()).toEqual(["goal-1", "goal-3"])
+    expect(await Storage.read(["goals", "goal-1"])).toEqual({ id: "goal-1", title: "Running" })
+    expect((await Config.get()).theme).toBe("dark")
+  })
+
+  describe("runScheduled", () => {
+    const settings = { enabled: true, intervalHours: 24, keep: 2 }
+    const day = (n: number): Date => new Date(Date.UTC(2026, 0, n, 12))
+
+    test("does nothing while there is nothing to back up", async () => {
+      expect(await Backup.runScheduled(settings, day(1))).toEqual({ created: null, pruned: [] })
+      expect(await Backup.list()).toEqual([])
+    })
+
+    test("takes a backup once per interval and keeps only the newest", async () => {
+      await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Fitness" })
+
+      const first = await Backup.runScheduled(settings, day(1))
+      expect(first.created).toContain("auto-2026-01-01")
+      expect((await Backup.runScheduled(settings, new Date(day(1).getTime() + 60_000))).created).toBeNull()
+
+      await Backup.runScheduled(settings, day(2))
+      const third = await Backup.runScheduled(settings, day(3))
+
+      expect(third.pruned).toEqual([first.created])
+      expect((await Backup.list()).map((b) => path.basename(b.file))).toEqual([
+        "auto-2026-01-03T12-00-00-000Z.tar.gz",
+        "auto-2026-01-02T12-00-00-000Z.tar.gz",
+      ])
+    })
+
+    test("leaves API keys out of scheduled backups", async () => {
+      await writeConfig({ providers: { anthropic: { id: "anthropic", apiKey: "sk-secret" } } })
+
+      const { created } = await Backup.runScheduled(settings, day(1))
+
+      expect((await Backup.verify(created!)).manifest?.apiKeys).toBe(false)
+      expect(gunzipSync(await fs.readFile(created!)).toString("latin1")).not.toContain("sk-secret")
+    })
+
+    test("can be turned off", async () => {
+      await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Fitness" })
+
+      expect(await Backup.runScheduled({ ...settings, enabled: false }, day(1))).toEqual({ created: null, pruned: [] })
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { Encryption } from "../../src/encryption/encryption"
+import { Storage } from "../../src/storage/storage"
+import { Config } from "../../src/config/config"
+import { Backup } from "../../src/backup/backup"
+
+describe("Encryption", () => {
+  let testDir: string
+  let homeDir: string
+  let dataDir: string
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `dadgpt-encryption-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    homeDir = path.join(testDir, "home")
+    dataDir = path.join(homeDir, "data")
+    await fs.mkdir(dataDir, { recursive: true })
+    process.env.DADGPT_HOME = homeDir
+    process.env.DADGPT_DATA_DIR = dataDir
+    Config.invalidate()
+  })
+
+  afterEach(async () => {
+    Encryption.lock()
+    await Storage.close()
+    delete process.env.DADGPT_HOME
+    delete process.env.DADGPT_DATA_DIR
+    Config.invalidate()
+    await fs.rm(testDir, { recursive: true, force: true })
+  })
+
+  async function rawRecord(...key: string[]): Promise<string> {
+    return fs.readFile(path.join(dataDir, ...key) + ".json", "utf-8")
+  }
+
+  test("seals records on disk and opens them on read", async () => {
+    await Encryption.enable("correct horse")
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Run a marathon" })
+
+    const raw = JSON.parse(await rawRecord("goals", "goal-1"))
+    expect(Encryption.isEnvelope(raw)).toBe(true)
+    expect(JSON.stringify(raw)).not.toContain("marathon")
+    expect(await Storage.read(["goals", "goal-1"])).toEqual({ id: "goal-1", title: "Run a marathon" })
+    expect(await Storage.update<{ id: string; title: string }>(["goals", "goal-1"], (g) => ({ ...g!, title: "Walk" }))).toEqual(
+      { id: "goal-1", title: "Walk" }
+    )
+    expect(await Storage.list(["goals"])).toEqual(["goal-1"])
+  })
+
+  test("stays locked until the right passphrase is given", async () => {
+    await Encryption.enable("correct horse")
+    await Storage.write(["goals", "goal-1"], { id: "goal-1" })
+    Encryption.lock()
+
+    expect(await Encryption.isEnabled()).toBe(true)
+    await expect(Storage.read(["goals", "goal-1"])).rejects.toMatchObject({ code: "ENCRYPTION_LOCKED" })
+    await expect(Storage.write(["goals", "goal-2"], { id: "goal-2" })).rejects.toMatchObject({ code: "ENCRYPTION_LOCKED" })
+    await expect(Encryption.unlock("wrong horse")).rejects.toMatchObject({ code: "ENCRYPTION_WRONG_PASSPHRASE" })
+
+    await Encryption.unlock("correct horse")
+    expect(await Storage.read(["goals", "goal-1"])).toEqual({ id: "goal-1" })
+  })
+
+  test("encrypts and decrypts an existing data directory in place", async () => {
+    await Storage.write(["todos", "todo-1"], { id: "todo-1", state: "pending", tags: ["home"] })
+    await Storage.write(["todos", "todo-2"], { id: "todo-2", state: "completed", tags: [] })
+
+    await Encryption.enable("correct horse")
+    expect(await Storage.reencrypt()).toBe(2)
+
+    expect(await rawRecord("todos", "todo-1")).not.toContain("pending")
+    expect(await Storage.query(["todos"], { tag: "home" })).toEqual([{ id: "todo-1", state: "pending", tags: ["home"] }])
+
+    expect(await Storage.reencrypt({ plaintext: true })).toBe(2)
+    await Encryption.disable()
+
+    expect(await Encryption.isEnabled()).toBe(false)
+    expect(JSON.parse(await rawRecord("todos", "todo-2"))).toEqual({ id: "todo-2", state: "completed", tags: [] })
+    await expect(fs.access(path.join(dataDir, "encryption.key"))).rejects.toThrow()
+  })
+
+  test("encrypts the global config", async () => {
+    await Encryption.enable("correct horse")
+    await Config.save({ theme: "light", providers: { anthropic: { id: "anthropic", apiKey: "sk-secret" } } })
+
+    expect(await fs.readFile(path.join(homeDir, "config.json"), "utf-8")).not.toContain("sk-secret")
+    expect((await Config.get()).providers.anthropic?.apiKey).toBe("sk-secret")
+
+    await Config.reencrypt({ plaintext: true })
+    expect(await fs.readFile(path.join(homeDir, "config.json"), "utf-8")).toContain("sk-secret")
+  })
+
+  test("backups stay encrypted and need the passphrase to restore elsewhere", async () => {
+    const archive = path.join(testDir, "backup.tar.gz")
+    await Encryption.enable("correct horse")
+    await Storage.write(["goals", "goal-1"], { id: "goal-1", title: "Run a marathon" })
+    const manifest = await Backup.create(archive)
+
+    expect(manifest.encrypted).toBe(true)
+    expect((await fs.readFile(archive)).toString("latin1")).not.toContain("marathon")
+
+    // Restore into a fresh, unencrypted home
+    Encryption.lock()
+    homeDir = path.join(testDir, "other")
+    dataDir = path.join(homeDir, "data")
+    process.env.DADGPT_HOME = homeDir
+    process.env.DADGPT_DATA_DIR = dataDir
+
+    await expect(Backup.restore(archive)).rejects.toMatchObject({ code: "BACKUP_PASSPHRASE_REQUIRED" })
+    await expect(Backup.restore(archive, { passphrase: "wrong horse" })).rejects.toMatchObject({
+      code: "ENCRYPTION_WRONG_PASSPHRASE",
+    })
+    await Backup.restore(archive, { passphrase: "correct horse" })
+
+    expect(JSON.parse(await rawRecord("goals", "goal-1"))).toEqual({ id: "goal-1", title: "Run a marathon" })
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { Family } from "../../src/family/family"
+import { Config } from "../../src/config/config"
+import { Bus } from "../../src/bus/bus"
+import type { FamilyMember } from "../../src/config/schema"
+
+describe("Family", () => {
+  describe("parseBirthday", () => {
+    test("parses MM-DD and YYYY-MM-DD", () => {
+      expect(Family.parseBirthday("03-15")).toEqual({ month: 3, day: 15 })
+      expect(Family.parseBirthday("1985-03-15")).toEqual({ year: 1985, month: 3, day: 15 })
+    })
+
+    test("rejects other formats and out-of-range dates", () => {
+      expect(Family.parseBirthday("March 15")).toBeNull()
+      expect(Family.parseBirthday("3-15")).toBeNull()
+      expect(Family.parseBirthday("13-01")).toBeNull()
+      expect(Family.parseBirthday("1985-02-32")).toBeNull()
+    })
+  })
+
+  describe("age", () => {
+    test("counts whole years", () => {
+      expect(Family.age("1985-03-15", new Date(2026, 2, 14))).toBe(40)
+      expect(Family.age("1985-03-15", new Date(2026, 2, 15))).toBe(41)
+    })
+
+    test("is undefined without a birth year", () => {
+      expect(Family.age("03-15", new Date(2026, 2, 15))).toBeUndefined()
+    })
+  })
+
+  describe("upcoming", () => {
+    const now = new Date(2026, 9, 19, 15, 30)
+    const members: FamilyMember[] = [
+      { id: "1", name: "Alice", relationship: "Wife", birthday: "1985-10-20" },
+      { id: "2", name: "Bob", relationship: "Son", birthday: "10-19" },
+      { id: "3", name: "Carol", relationship: "Mom", birthday: "1956-01-05" },
+      { id: "4", name: "Dan", relationship: "Brother" },
+    ]
+
+    test("includes today's birthdays and sorts by days until", () => {
+      const upcoming = Family.upcoming(members, 30, now)
+
+      expect(upcoming.map((u) => u.member.name)).toEqual(["Bob", "Alice"])
+      expect(upcoming[0]).toMatchObject({ date: "2026-10-19", daysUntil: 0 })
+      expect(upcoming[0]?.turning).toBeUndefined()
+      expect(upcoming[1]).toMatchObject({ date: "2026-10-20", daysUntil: 1, turning: 41 })
+    })
+
+    test("wraps into next year", () => {
+      const upcoming = Family.upcoming(members, 90, now)
+      const carol = upcoming.find((u) => u.member.name === "Carol")
+
+      expect(carol).toMatchObject({ date: "2027-01-05", daysUntil: 78, turning: 71 })
+    })
+  })
+
+  describe("add, update and remove", () => {
+    let homeDir: string
+
+    beforeEach(async () => {
+      homeDir = path.join(os.tmpdir(), `dadgpt-family-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+      await fs.mkdir(homeDir, { recursive: true })
+      process.env.DADGPT_HOME = homeDir
+      Config.invalidate()
+      Bus.clear()
+    })
+
+    afterEach(async () => {
+      delete process.env.DADGPT_HOME
+      Config.invalidate()
+      await fs.rm(homeDir, { recursive: true, force: true })
+    })
+
+    test("add saves the member and publishes family.added", async () => {
+      const handler = vi.fn()
+      Bus.subscribe("family.added", handler)
+
+      const member = await Family.add({ name: "Alice", relationship: "Wife", birthday: "1985-03-15" })
+
+      expect(await Family.list()).toEqual([member])
+      expect(handler).toHaveBeenCalledWith({ memberId: member.id })
+    })
+
+    test("add rejects missing fields and bad birthdays", async () => {
+      await expect(Family.add({ relationship: "Wife" })).rejects.toThrow("Name is required")
+      await expect(Family.add({ name: "Alice" })).rejects.toThrow("Relationship is required")
+      await expect(
+        Family.add({ name: "Alice", relationship: "Wife", birthday: "March 15" })
+      ).rejects.toThrow("Invalid birthday format")
+    })
+
+    test("update changes the given fields and clears empty ones", async () => {
+      const member = await Family.add({ name: "Bob", relationship: "Son", birthday: "06-20", notes: "Soccer" })
+
+      const result = await Family.update(member.id, { birthday: "2015-06-20", notes: "" })
+
+      expect(result?.changes).toEqual({ birthday: "2015-06-20", notes: "" })
+      const [stored] = await Family.list()
+      expect(stored?.birthday).toBe("2015-06-20")
+      expect(stored?.notes).toBeUndefined()
+      expect(await Family.update("missing", { name: "X" })).toBeUndefined()
+    })
+
+    test("remove deletes the member", async () => {
+      const member = await Family.add({ name: "Bob", relationship: "Son" })
+
+      expect(await Family.remove(member.id)).toEqual(member)
+      expect(await Family.list()).toEqual([])
+      expect(await Family.remove(member.id)).toBeUndefined()
+    })
+  })
+})
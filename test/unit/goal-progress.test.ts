@@ -0,0 +1,160 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { GoalProgress } from "../../src/goal/progress"
+import { GoalTool } from "../../src/tool/goal"
+import { TodoTool } from "../../src/tool/todo"
+import { ProjectTool } from "../../src/tool/project"
+import { Storage } from "../../src/storage/storage"
+import { Bus } from "../../src/bus/bus"
+import { createGoalContext } from "../../src/state/goal.machine"
+import { createTodoContext, type TodoState } from "../../src/state/todo.machine"
+import { createProjectContext, type ProjectState } from "../../src/state/project.machine"
+import type { StoredTodo } from "../../src/tool/todo"
+import type { StoredProject } from "../../src/tool/project"
+import type { ToolContext } from "../../src/tool/types"
+
+describe("GoalProgress", () => {
+  describe("compute", () => {
+    const goal = createGoalContext({
+      id: "goal-1",
+      milestones: [
+        { id: "m1", title: "Plan", completed: true },
+        { id: "m2", title: "Build", completed: false },
+      ],
+    })
+
+    const todo = (id: string, state: TodoState, goalId: string | null = "goal-1"): StoredTodo => ({
+      ...createTodoContext({ id, goalId }),
+      state,
+    })
+
+    const project = (id: string, state: ProjectState, todoIds: string[] = []): StoredProject => ({
+      ...createProjectContext({ id, goalId: "goal-1", todoIds }),
+      state,
+    })
+
+    test("counts milestones and linked todos, leaving out cancelled todos", () => {
+      const todos = [
+        todo("t1", "done"),
+        todo("t2", "pending"),
+        todo("t3", "cancelled"),
+        todo("t4", "done", "goal-2"),
+      ]
+
+      // 1 of 2 milestones plus 1 of 2 todos
+      expect(GoalProgress.compute(goal, todos, [])).toBe(50)
+    })
+
+    test("counts a project by its own progress", () => {
+      const todos = [todo("p1", "done", null), todo("p2", "pending", null)]
+      const projects = [
+        project("project-1", "completed"),
+        project("project-2", "active", ["p1", "p2"]),
+        project("project-3", "cancelled"),
+      ]
+
+      // (1 milestone + 1 completed project + half a project) / 4
+      expect(GoalProgress.compute(goal, todos, projects)).toBe(63)
+    })
+
+    test("returns null when there is nothing to measure", () => {
+      expect(GoalProgress.compute(createGoalContext({ id: "goal-1" }), [], [])).toBeNull()
+    })
+  })
+
+  describe("recalculation on Bus events", () => {
+    let testDir: string
+    const mockCtx: ToolContext = { sessionId: "test-session" }
+
+    beforeEach(async () => {
+      testDir = path.join(os.tmpdir(), `dadgpt-goal-progress-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+      await fs.mkdir(testDir, { recursive: true })
+      process.env.DADGPT_DATA_DIR = testDir
+      Bus.clear()
+      GoalProgress.dispose()
+      GoalProgress.init()
+    })
+
+    afterEach(async () => {
+      await GoalProgress.settled()
+      GoalProgress.dispose()
+      delete process.env.DADGPT_DATA_DIR
+      await fs.rm(testDir, { recursive: true, force: true })
+    })
+
+    async function createGoal(progressMode: "manual" | "auto"): Promise<string> {
+      const result = await GoalTool.execute(
+        { action: "create", title: `${progressMode} goal`, progressMode },
+        mockCtx
+      )
+      return result.metadata?.goalId as string
+    }
+
+    async function progressOf(goalId: string): Promise<number | undefined> {
+      return (await Storage.read<{ progress: number }>(["goals", goalId]))?.progress
+    }
+
+    test("completing a linked todo updates goals in auto mode only", async () => {
+      const handler = vi.fn()
+      Bus.subscribe("goal.updated", handler)
+      const auto = await createGoal("auto")
+      const manual = await createGoal("manual")
+      const ids: string[] = []
+      for (const goalId of [auto, auto, manual]) {
+        const todo = await TodoTool.execute({ action: "create", title: "Step", goalId }, mockCtx)
+        ids.push(todo.metadata?.todoId as string)
+      }
+
+      await TodoTool.execute({ action: "complete", id: ids[0] }, mockCtx)
+      await TodoTool.execute({ action: "complete", id: ids[2] }, mockCtx)
+      await GoalProgress.settled()
+
+      expect(await progressOf(auto)).toBe(50)
+      expect(await progressOf(manual)).toBe(0)
+      expect(handler).toHaveBeenCalledWith({ goalId: auto, changes: { progress: 50 } })
+    })
+
+    test("completing a linked project updates the goal", async () => {
+      const auto = await createGoal("auto")
+      const result = await ProjectTool.execute(
+        { action: "create", name: "Treehouse", goalId: auto },
+        mockCtx
+      )
+      const projectId = result.metadata?.projectId as string
+      await ProjectTool.execute({ action: "transition", id: projectId, event: "START" }, mockCtx)
+
+      await ProjectTool.execute({ action: "transition", id: projectId, event: "COMPLETE" }, mockCtx)
+      await GoalProgress.settled()
+
+      expect(await progressOf(auto)).toBe(100)
+    })
+
+    test("a corrupt file doesn't stop the recalculation", async () => {
+      const auto = await createGoal("auto")
+      const todo = await TodoTool.execute({ action: "create", title: "Step", goalId: auto }, mockCtx)
+      await TodoTool.execute({ action: "create", title: "Other", goalId: auto }, mockCtx)
+      await fs.writeFile(path.join(testDir, "todos", "todo_broken.json"), '{"id": "todo_broken", "tit')
+
+      await TodoTool.execute({ action: "complete", id: todo.metadata?.todoId as string }, mockCtx)
+      await GoalProgress.settled()
+
+      expect(await progressOf(auto)).toBe(50)
+    })
+
+    test("cancelling a linked project updates the goal", async () => {
+      const auto = await createGoal("auto")
+      const todo = await TodoTool.execute({ action: "create", title: "Plan", goalId: auto }, mockCtx)
+      await TodoTool.execute({ action: "complete", id: todo.metadata?.todoId as string }, mockCtx)
+      const result = await ProjectTool.execute({ action: "create", name: "Treehouse", goalId: auto }, mockCtx)
+      await GoalProgress.settled()
+      expect(await progressOf(auto)).toBe(50)
+
+      await ProjectTool.execute({ action: "transition", id: result.metadata?.projectId as string, event: "CANCEL" }, mockCtx)
+      await GoalProgress.settled()
+
+      expect(await progressOf(auto)).toBe(100)
+    })
+  })
+})
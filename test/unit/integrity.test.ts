@@ -0,0 +1,146 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { Integrity } from "../../src/integrity/integrity"
+import { Storage } from "../../src/storage/storage"
+import { Bus } from "../../src/bus/bus"
+import { createTodoContext, type TodoState } from "../../src/state/todo.machine"
+import { createProjectContext } from "../../src/state/project.machine"
+import { createGoalContext } from "../../src/state/goal.machine"
+
+describe("Integrity", () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `dadgpt-integrity-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    await fs.mkdir(testDir, { recursive: true })
+    process.env.DADGPT_DATA_DIR = testDir
+    Bus.clear()
+  })
+
+  afterEach(async () => {
+    delete process.env.DADGPT_DATA_DIR
+    await fs.rm(testDir, { recursive: true, force: true })
+  })
+
+  async function writeTodo(
+    id: string,
+    fields: Parameters<typeof createTodoContext>[0] = {},
+    state: TodoState = "pending"
+  ): Promise<void> {
+    await Storage.write(["todos", id], { ...createTodoContext({ id, title: id, ...fields }), state })
+  }
+
+  async function writeProject(id: string, fields: Parameters<typeof createProjectContext>[0] = {}): Promise<void> {
+    await Storage.write(["projects", id], { ...createProjectContext({ id, name: id, ...fields }), state: "planning" })
+  }
+
+  describe("check", () => {
+    test("finds dangling and one-sided references", async () => {
+      await Storage.write(["goals", "goal-1"], { ...createGoalContext({ id: "goal-1" }), state: "active" })
+      await writeProject("project-1", { goalId: "goal-gone", todoIds: ["todo-gone", "todo-2"] })
+      await writeTodo("todo-1", { goalId: "goal-1", projectId: "project-1", blockedBy: ["todo-gone"] })
+      await writeTodo("todo-2", { projectId: "project-gone" })
+
+      const issues = await Integrity.check()
+
+      expect(issues.map((i) => [i.id, i.field, i.ref, i.problem])).toEqual([
+        ["todo-1", "blockedBy", "todo-gone", "missing"],
+        ["todo-2", "projectId", "project-gone", "missing"],
+        ["project-1", "goalId", "goal-gone", "missing"],
+        ["project-1", "todoIds", "todo-gone", "missing"],
+        ["project-1", "todoIds", "todo-2", "mismatched"],
+        ["project-1", "todoIds", "todo-1", "unlinked"],
+      ])
+    })
+
+    test("returns nothing for a consistent tree", async () => {
+      await writeProject("project-1", { todoIds: ["todo-1"] })
+      await writeTodo("todo-1", { projectId: "project-1" })
+      await writeTodo("todo-2", { blockedBy: ["todo-1"] })
+
+      expect(await Integrity.check()).toEqual([])
+    })
+
+    test("skips a corrupt file and checks the rest", async () => {
+      await writeTodo("todo-1", { blockedBy: ["todo-gone"] })
+      await fs.writeFile(path.join(testDir, "todos", "todo-2.json"), '{"id": "todo-2", "tit')
+
+      const issues = await Integrity.check()
+
+      expect(issues.map((i) => i.id)).toEqual(["todo-1"])
+    })
+  })
+
+  describe("repair", () => {
+    test("clears dangling references and relinks todos to their project", async () => {
+      await writeProject("project-1", { goalId: "goal-gone", todoIds: ["todo-gone", "todo-2"] })
+      await writeTodo("todo-1", { projectId: "project-1", blockedBy: ["todo-gone", "todo-2"] })
+      await writeTodo("todo-2", { projectId: "project-gone" })
+
+      const written = await Integrity.repair(await Integrity.check())
+
+      expect(written).toBe(3)
+      expect(await Integrity.check()).toEqual([])
+      expect(await Storage.read(["projects", "project-1"])).toMatchObject({ goalId: null, todoIds: ["todo-1"] })
+      expect(await Storage.read(["todos", "todo-1"])).toMatchObject({ blockedBy: ["todo-2"] })
+      expect(await Storage.read(["todos", "todo-2"])).toMatchObject({ projectId: null })
+    })
+
+    test("unblocks blocked todos with nothing left to wait on", async () => {
+      const unblocked = vi.fn()
+      Bus.subscribe("todo.unblocked", unblocked)
+      await writeTodo("todo-1", { blockedBy: [] }, "blocked")
+      await writeTodo("todo-2", { blockedBy: ["todo-gone"] }, "blocked")
+      await writeTodo("todo-3", { blockedBy: ["todo-gone", "todo-4"] }, "blocked")
+      await writeTodo("todo-4")
+
+      const issues = await Integrity.check()
+      expect(issues.map((i) => [i.id, i.field, i.problem])).toEqual([
+        ["todo-1", "state", "stuck"],
+        ["todo-2", "blockedBy", "missing"],
+        ["todo-2", "state", "stuck"],
+        ["todo-3", "blockedBy", "missing"],
+      ])
+
+      await Integrity.repair(issues)
+
+      expect(await Integrity.check()).toEqual([])
+      expect(await Storage.read(["todos", "todo-1"])).toMatchObject({ state: "pending" })
+      expect(await Storage.read(["todos", "todo-2"])).toMatchObject({ state: "pending", blockedBy: [] })
+      expect(await Storage.read(["todos", "todo-3"])).toMatchObject({ state: "blocked", blockedBy: ["todo-4"] })
+      expect(unblocked.mock.calls.map(([e]) => e.todoId)).toEqual(["todo-1", "todo-2"])
+    })
+  })
+
+  describe("release", () => {
+    test("cascade from a project deletes its todos and clears references to them", async () => {
+      await writeProject("project-1", { todoIds: ["todo-1"] })
+      await writeTodo("todo-1", { projectId: "project-1" })
+      await writeTodo("todo-2", { blockedBy: ["todo-1"] })
+      await Storage.remove(["projects", "project-1"])
+
+      const result = await Integrity.release("project", "project-1", "cascade")
+
+      expect(result.deleted.todos.map((t) => t.id)).toEqual(["todo-1"])
+      expect(result.detached.todos.map((t) => t.id)).toEqual(["todo-2"])
+      expect(await Storage.read(["todos", "todo-2"])).toMatchObject({ blockedBy: [] })
+      expect(Integrity.describe(result)).toBe('\nAlso deleted 1 todo ("todo-1")\nDetached 1 todo ("todo-2")')
+    })
+
+    test("unblocks a todo once the todos it waited on are gone or done", async () => {
+      await writeProject("project-1", { todoIds: ["todo-1"] })
+      await writeTodo("todo-1", { projectId: "project-1" })
+      await writeTodo("todo-2", { blockedBy: ["todo-1", "todo-3"] }, "blocked")
+      await writeTodo("todo-3", {}, "done")
+      await Storage.remove(["projects", "project-1"])
+
+      const result = await Integrity.release("project", "project-1", "cascade")
+
+      expect(result.unblocked.map((t) => t.id)).toEqual(["todo-2"])
+      expect(await Storage.read(["todos", "todo-2"])).toMatchObject({ state: "pending", blockedBy: ["todo-3"] })
+      expect(Integrity.describe(result)).toContain('\nUnblocked 1 todo ("todo-2")')
+    })
+  })
+})
@@ -0,0 +1,195 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { Migration } from "../../src/migration/migration"
+import { MIGRATIONS } from "../../src/migration/migrations"
+import { parseRecord, recordProblems } from "../../src/migration/schema"
+import { Storage } from "../../src/storage/storage"
+import { Trash } from "../../src/trash/trash"
+import { GoalTool } from "../../src/tool/goal"
+import { Log } from "../../src/util/log"
+import { createTodoContext } from "../../src/state/todo.machine"
+import { createGoalContext } from "../../src/state/goal.machine"
+import { createProjectContext } from "../../src/state/project.machine"
+
+/**
+ * A todo as the first release stored it
+ */
+const legacyTodo = {
+  id: "todo-1",
+  title: "Call the plumber",
+  description: "",
+  priority: "medium",
+  dueDate: "2026-03-01",
+  tags: [],
+  goalId: null,
+  blockedBy: "waiting on a quote",
+  createdAt: 1000,
+  updatedAt: 1000,
+  completedAt: null,
+  state: "deferred",
+}
+
+/**
+ * A goal from before progress modes
+ */
+const legacyGoal = {
+  id: "goal-1",
+  title: "Fitness",
+  category: "Health",
+  description: "",
+  progress: 20,
+  milestones: [],
+  dueDate: null,
+  createdAt: 1000,
+  updatedAt: 1000,
+  state: "in_progress",
+}
+
+describe("Migration", () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `dadgpt-migration-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    await fs.mkdir(testDir, { recursive: true })
+    process.env.DADGPT_DATA_DIR = testDir
+  })
+
+  afterEach(async () => {
+    delete process.env.DADGPT_DATA_DIR
+    await fs.rm(testDir, { recursive: true, force: true })
+  })
+
+  test("versions follow the registered migrations", () => {
+    for (const collection of ["goals", "todos", "projects"] as const) {
+      const versions = MIGRATIONS.filter((m) => m.collection === collection).map((m) => m.version)
+      expect(versions).toEqual(versions.map((_, i) => i + 1))
+      expect(Migration.currentVersion(collection)).toBe(versions.length)
+    }
+  })
+
+  test("records created by this version match the schema and pass through migrations unchanged", () => {
+    const records = {
+      goals: { ...createGoalContext({ id: "goal-1", title: "Fitness" }), state: "not_started" },
+      todos: { ...createTodoContext({ id: "todo-1", title: "Mow" }), state: "pending" },
+      projects: { ...createProjectContext({ id: "project-1", name: "Shed" }), state: "planning" },
+    }
+
+    for (const [collection, record] of Object.entries(records)) {
+      expect(recordProblems(collection as keyof typeof records, record)).toEqual([])
+    }
+    for (const migration of MIGRATIONS) {
+      expect(migration.up(records[migration.collection], { ids: new Set() })).toEqual(records[migration.collection])
+    }
+  })
+
+  test("upgrades old records, including those in the trash, and records the new versions", async () => {
+    await Storage.write(["todos", "todo-1"], legacyTodo)
+    await Storage.write(["goals", "goal-1"], legacyGoal)
+    await Storage.write(["goals", "goal-2"], { ...legacyGoal, id: "goal-2" })
+    await Trash.put("goal", { ...legacyGoal, id: "goal-2" } as never)
+
+    const report = await Migration.run()
+
+    expect(report.invalid).toEqual([])
+    expect(report.upgrades).toEqual([
+      {
+        collection: "goals",
+        from: 0,
+        to: 1,
+        steps: ["Add progressMode, defaulting to manual"],
+        upgraded: 2,
+      },
+      expect.objectContaining({ collection: "todos", from: 0, to: 3, upgraded: 1 }),
+    ])
+    expect(await Storage.read(["todos", "todo-1"])).toMatchObject({
+      blockedBy: [],
+      description: "Blocked by: waiting on a quote",
+      deferredUntil: "2026-03-01",
+      recurrence: null,
+      projectId: null,
+      startedAt: null,
+    })
+    expect(await Storage.read(["goals", "goal-1"])).toMatchObject({ progressMode: "manual" })
+    expect((await Trash.get("goal-2"))?.record).toMatchObject({ progressMode: "manual" })
+    expect((await Migration.status()).every((s) => s.version === s.current && s.pending.length === 0)).toBe(true)
+
+    // Nothing left to do on the next start
+    expect(await Migration.run()).toEqual({ upgrades: [], invalid: [] })
+  })
+
+  test("keeps a blockedBy that names a real todo and moves other text to the description", async () => {
+    await Storage.write(["todos", "todo-1"], { ...legacyTodo, description: "Kitchen sink", blockedBy: "the quote" })
+    await Storage.write(["todos", "todo-2"], { ...legacyTodo, id: "todo-2", blockedBy: "todo-3" })
+    await Storage.write(["todos", "todo-3"], { ...legacyTodo, id: "todo-3", blockedBy: "" })
+
+    await Migration.run()
+
+    expect(await Storage.read(["todos", "todo-1"])).toMatchObject({
+      blockedBy: [],
+      description: "Kitchen sink\n\nBlocked by: the quote",
+    })
+    expect(await Storage.read(["todos", "todo-2"])).toMatchObject({ blockedBy: ["todo-3"], description: "" })
+    expect(await Storage.read(["todos", "todo-3"])).toMatchObject({ blockedBy: [] })
+  })
+
+  test("a dry run reports pending migrations without changing anything", async () => {
+    await Storage.write(["goals", "goal-1"], legacyGoal)
+
+    const report = await Migration.run({ dryRun: true })
+
+    expect(report.upgrades.map((u) => [u.collection, u.upgraded])).toContainEqual(["goals", 1])
+    expect(await Storage.read(["goals", "goal-1"])).toEqual(legacyGoal)
+    expect((await Migration.status()).find((s) => s.collection === "goals")?.version).toBe(0)
+  })
+
+  test("reports records that still don't match the schema", async () => {
+    await Storage.write(["todos", "todo-1"], { ...legacyTodo, title: 42, priority: "urgent" })
+
+    const { invalid } = await Migration.run()
+
+    expect(invalid).toEqual([
+      {
+        collection: "todos",
+        id: "todo-1",
+        problems: [expect.stringContaining("title:"), expect.stringContaining("priority:")],
+      },
+    ])
+  })
+
+  test("refuses data written by a newer version", async () => {
+    await Storage.write(["meta", "schema"], { versions: { goals: 99 }, updatedAt: 1000 })
+
+    await expect(Migration.run()).rejects.toMatchObject({ code: "STORAGE_SCHEMA_TOO_NEW" })
+  })
+
+  test("tools reject records that don't match the schema", async () => {
+    await Storage.write(["goals", "goal-1"], { ...legacyGoal, progressMode: "manual", state: "active" })
+
+    expect(() => parseRecord("goals", { ...legacyGoal, state: "active" })).toThrow(/Invalid goals\/goal-1/)
+    await expect(GoalTool.execute({ action: "get", id: "goal-1" }, { sessionId: "test" })).rejects.toMatchObject({
+      code: "STORAGE_INVALID_RECORD",
+    })
+  })
+
+  test("lists leave out records that don't match the schema, with a warning", async () => {
+    const warn = vi.spyOn(Log, "warn").mockImplementation(() => {})
+    try {
+      await Storage.write(["goals", "goal-1"], legacyGoal)
+      await Storage.write(["goals", "goal-2"], {
+        ...createGoalContext({ id: "goal-2", title: "Reading" }),
+        state: "in_progress",
+      })
+
+      const result = await GoalTool.execute({ action: "list" }, { sessionId: "test" })
+
+      expect(result.output).toContain("Reading")
+      expect(result.output).not.toContain("Fitness")
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("Skipping invalid goals/goal-1"))
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("dadgpt doctor"))
+    } finally {
+      warn.mockRestore()
+    }
+  })
+})
@@ -3,6 +3,7 @@ import * as fs from "node:fs/promises"
 import * as path from "node:path"
 import {
   parseDadGPTMd,
+  serializeDadGPTMd,
   type ParsedDadGPTMd,
   type ParsedGoal,
   type ParsedTodo,
@@ -152,6 +153,23 @@ describe("parseDadGPTMd", () => {
 
       expect(result.todos[0]?.tags).toEqual([])
     })
+
+    test("parses and normalizes Recurs metadata", () => {
+      const content = `## Todos
+
+- [ ] Take out the trash
+  - Recurs: rrule:freq=weekly;byday=tu
+- [ ] Water plants
+  - Recurs: Daily
+- [ ] Something odd
+  - Recurs: every blue moon`
+
+      const result = parseDadGPTMd(content)
+
+      expect(result.todos[0]?.recurrence).toBe("FREQ=WEEKLY;BYDAY=TU")
+      expect(result.todos[1]?.recurrence).toBe("daily")
+      expect(result.todos[2]?.recurrence).toBeUndefined()
+    })
   })
 
   describe("Family Section", () => {
@@ -500,3 +518,167 @@ More content.`
     })
   })
 })
+
+describe("serializeDadGPTMd", () => {
+  test("round-trips the fixture file", async () => {
+    const content = await fs.readFile(FIXTURE_PATH, "utf-8")
+    const parsed = parseDadGPTMd(content)
+
+    expect(parseDadGPTMd(serializeDadGPTMd(parsed))).toEqual(parsed)
+  })
+
+  test("writes checkboxes and metadata lines", () => {
+    const output = serializeDadGPTMd({
+      goals: [{ title: "Run a marathon", completed: true, category: "Health", dueDate: "2026-06-01" }],
+      todos: [
+        { title: "Fix gutter", completed: false, priority: "high", tags: ["house", "outside"] },
+      ],
+      family: [],
+      projects: [],
+    })
+
+    expect(output).toContain(`## Goals
+
+- [x] Run a marathon
+  - Category: Health
+  - Due: 2026-06-01`)
+    expect(output).toContain(`## Todos
+
+- [ ] Fix gutter
+  - Priority: high
+  - Tags: house, outside`)
+  })
+
+  test("writes and re-reads recurrence", () => {
+    const data: ParsedDadGPTMd = {
+      goals: [],
+      todos: [
+        { title: "Pay mortgage", completed: false, dueDate: "2026-11-01", recurrence: "FREQ=MONTHLY;BYMONTHDAY=1" },
+      ],
+      family: [],
+      projects: [],
+    }
+    const output = serializeDadGPTMd(data)
+
+    expect(output).toContain(`- [ ] Pay mortgage
+  - Due: 2026-11-01
+  - Recurs: FREQ=MONTHLY;BYMONTHDAY=1`)
+    expect(parseDadGPTMd(output).todos).toEqual(data.todos)
+  })
+
+  test("writes project milestone lists", () => {
+    const output = serializeDadGPTMd({
+      goals: [],
+      todos: [],
+      family: [],
+      projects: [
+        {
+          name: "Treehouse",
+          status: "active",
+          goal: "Build things with the kids",
+          milestones: [
+            { title: "Buy lumber", completed: true },
+            { title: "Build floor", completed: false },
+          ],
+        },
+      ],
+    })
+
+    expect(output).toContain(`### Treehouse
+- Status: active
+- Goal: Build things with the kids
+- Milestones:
+  - [x] Buy lumber
+  - [ ] Build floor`)
+  })
+
+  test("writes family members without a relationship as headers", () => {
+    const data: ParsedDadGPTMd = {
+      goals: [],
+      todos: [],
+      family: [
+        { name: "Sarah", relationship: "Wife", birthday: "1990-05-15" },
+        { name: "Grandma Rose", relationship: "Unknown", notes: "Lives in Florida" },
+        { name: "Max", relationship: "Step Son" },
+      ],
+      projects: [],
+    }
+
+    const output = serializeDadGPTMd(data)
+
+    expect(output).toContain("- **Wife**: Sarah\n  - Birthday: 1990-05-15")
+    expect(output).toContain("### Grandma Rose\n- Notes: Lives in Florida")
+    expect(parseDadGPTMd(output).family).toEqual(data.family)
+  })
+
+  test("collapses multi-line descriptions onto one line", () => {
+    const output = serializeDadGPTMd({
+      goals: [{ title: "Read more", completed: false, description: "Twelve books\nthis year" }],
+      todos: [],
+      family: [],
+      projects: [],
+    })
+
+    expect(output).toContain("  - Description: Twelve books this year")
+  })
+
+  test("keeps the title, intro and unknown sections of existing content", () => {
+    const existing = `# My DadGPT
+
+Personal life management file.
+
+## Goals
+
+- [ ] Old goal
+
+## Notes
+
+Remember to call the plumber.
+
+## Todos
+
+- [ ] Old todo
+
+---
+
+Edit this file by hand!
+`
+
+    const output = serializeDadGPTMd(
+      {
+        goals: [{ title: "New goal", completed: false }],
+        todos: [],
+        family: [],
+        projects: [],
+      },
+      existing
+    )
+
+    expect(output.startsWith("# My DadGPT\n\nPersonal life management file.")).toBe(true)
+    expect(output).toContain("## Notes\n\nRemember to call the plumber.")
+    expect(output).toContain("- [ ] New goal")
+    expect(output).not.toContain("Old goal")
+    expect(output).not.toContain("Old todo")
+    expect(output).toContain("---\n\nEdit this file by hand!")
+    // Missing sections are appended
+    expect(output).toContain("## Family")
+    expect(output).toContain("## Projects")
+  })
+
+  test("keeps blank lines inside preserved sections", () => {
+    const notes = "## Notes\n\nPlumber: 555-0100\n\n\nElectrician: 555-0199\n"
+    const existing = `# My DadGPT\n\n## Goals\n\n- [ ] Old goal\n\n\n${notes}\n## Todos\n\n- [ ] Old todo\n`
+    const data = {
+      goals: [{ title: "New goal", completed: false }],
+      todos: [{ title: "New todo", completed: false }],
+      family: [],
+      projects: [],
+    }
+
+    const output = serializeDadGPTMd(data, existing)
+
+    expect(output).toContain(`- [ ] New goal\n\n${notes}\n## Todos\n\n- [ ] New todo\n`)
+    expect(serializeDadGPTMd(data, output)).toBe(output)
+    expect(parseDadGPTMd(output).goals).toEqual(data.goals)
+  })
+})
@@ -6,6 +6,8 @@ import { Permission } from "../../src/permission/permission"
 import {
   matchesPattern,
   matchesAnyPattern,
+  matchesGlob,
+  matchesRule,
   evaluateRules,
   DEFAULT_RULES,
 } from "../../src/permission/rules"
@@ -110,6 +112,94 @@ describe("Permission Rules", () => {
       expect(evaluateRules("write", undefined, DEFAULT_RULES)).toBe("ask")
       expect(evaluateRules("bash", undefined, DEFAULT_RULES)).toBe("ask")
     })
+
+    test("scoped rules allow writes inside a folder only", () => {
+      const ruleset = {
+        allow: ["write:~/notes/**"],
+        deny: ["write:!~/notes/**"],
+        ask: [],
+      }
+      const home = os.homedir()
+
+      expect(evaluateRules("write", path.join(home, "notes/kids/school.md"), ruleset)).toBe("allow")
+      expect(evaluateRules("write", path.join(home, ".bashrc"), ruleset)).toBe("deny")
+      expect(evaluateRules("write", "/etc/hosts", ruleset)).toBe("deny")
+    })
+
+    test("negated scoped rules exclude a folder from a broader allow", () => {
+      const ruleset = {
+        allow: ["read:!~/.ssh/**"],
+        deny: [],
+        ask: ["read"],
+      }
+      const home = os.homedir()
+
+      expect(evaluateRules("read", path.join(home, "notes.md"), ruleset)).toBe("allow")
+      expect(evaluateRules("read", path.join(home, ".ssh/id_ed25519"), ruleset)).toBe("ask")
+    })
+  })
+
+  describe("matchesGlob", () => {
+    test("** matches any depth", () => {
+      expect(matchesGlob("/data/notes/a.md", "/data/notes/**")).toBe(true)
+      expect(matchesGlob("/data/notes/x/y/a.md", "/data/notes/**")).toBe(true)
+      expect(matchesGlob("/data/other/a.md", "/data/notes/**")).toBe(false)
+    })
+
+    test("**/ matches zero or more directories", () => {
+      expect(matchesGlob("/data/a.md", "/data/**/*.md")).toBe(true)
+      expect(matchesGlob("/data/x/y/a.md", "/data/**/*.md")).toBe(true)
+      expect(matchesGlob("/data/x/a.txt", "/data/**/*.md")).toBe(false)
+    })
+
+    test("* and ? do not cross directories", () => {
+      expect(matchesGlob("/data/a.md", "/data/*.md")).toBe(true)
+      expect(matchesGlob("/data/x/a.md", "/data/*.md")).toBe(false)
+      expect(matchesGlob("/data/ab", "/data/a?")).toBe(true)
+      expect(matchesGlob("/data/a/", "/data/a?")).toBe(false)
+    })
+
+    test("expands ~ and escapes regex characters", () => {
+      expect(matchesGlob(path.join(os.homedir(), "notes/a.md"), "~/notes/*")).toBe(true)
+      expect(matchesGlob("/data/a+b.md", "/data/a+b.md")).toBe(true)
+      expect(matchesGlob("/data/aab.md", "/data/a+b.md")).toBe(false)
+    })
+
+    test("resolves relative globs against the current directory", () => {
+      expect(matchesGlob(path.join(process.cwd(), "notes/a.md"), "notes/**")).toBe(true)
+    })
+
+    test("follows symlinks before matching", async () => {
+      const root = await fs.mkdtemp(path.join(os.tmpdir(), "dadgpt-glob-"))
+      try {
+        await fs.mkdir(path.join(root, "notes"))
+        await fs.mkdir(path.join(root, "secrets"))
+        await fs.symlink(path.join(root, "secrets"), path.join(root, "notes", "link"))
+
+        expect(matchesGlob(path.join(root, "notes", "link", "key"), `${root}/notes/**`)).toBe(false)
+        expect(matchesGlob(path.join(root, "notes", "link", "new", "key"), `${root}/secrets/**`)).toBe(true)
+        expect(matchesGlob(path.join(root, "notes", "a.md"), `${root}/notes/**`)).toBe(true)
+      } finally {
+        await fs.rm(root, { recursive: true, force: true })
+      }
+    })
+  })
+
+  describe("matchesRule", () => {
+    test("plain tool patterns ignore the resource", () => {
+      expect(matchesRule("write", "/any/path", "write")).toBe(true)
+      expect(matchesRule("write", undefined, "*")).toBe(true)
+    })
+
+    test("scoped rules require a matching tool", () => {
+      expect(matchesRule("read", "/data/a.md", "write:/data/**")).toBe(false)
+      expect(matchesRule("write", "/data/a.md", "*:/data/**")).toBe(true)
+    })
+
+    test("scoped rules never match calls without a resource", () => {
+      expect(matchesRule("write", undefined, "write:/data/**")).toBe(false)
+      expect(matchesRule("write", undefined, "write:!/data/**")).toBe(false)
+    })
   })
 })
 
@@ -292,4 +382,36 @@ describe("Permission namespace", () => {
       expect(result).toBe(false)
     })
   })
+
+  describe("session approvals", () => {
+    afterEach(() => {
+      Permission.clearApprovals()
+    })
+
+    test("approve() allows a tool for that session only", () => {
+      Permission.approve("session-1", "write")
+
+      expect(Permission.isApproved("session-1", "write")).toBe(true)
+      expect(Permission.isApproved("session-1", "bash")).toBe(false)
+      expect(Permission.isApproved("session-2", "write")).toBe(false)
+    })
+
+    test("approve() with a resource allows the tool on that resource only", () => {
+      Permission.approve("session-1", "write", "/home/dad/notes/a.md")
+
+      expect(Permission.isApproved("session-1", "write", "/home/dad/notes/a.md")).toBe(true)
+      expect(Permission.isApproved("session-1", "write", "/home/dad/.ssh/config")).toBe(false)
+      expect(Permission.isApproved("session-1", "write")).toBe(false)
+    })
+
+    test("clearApprovals() forgets a single session", () => {
+      Permission.approve("session-1", "write")
+      Permission.approve("session-2", "write")
+
+      Permission.clearApprovals("session-1")
+
+      expect(Permission.isApproved("session-1", "write")).toBe(false)
+      expect(Permission.isApproved("session-2", "write")).toBe(true)
+    })
+  })
 })
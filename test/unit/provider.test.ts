@@ -2,9 +2,12 @@ import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
 import * as fs from "node:fs/promises"
 import * as os from "node:os"
 import * as path from "node:path"
+import * as http from "node:http"
+import type { AddressInfo } from "node:net"
 import { Provider } from "../../src/provider/provider"
 import { MODELS, getModelInfo } from "../../src/provider/models"
 import { Config } from "../../src/config/config"
+import { ProviderError } from "../../src/util/errors"
 
 describe("Models", () => {
   describe("MODELS registry", () => {
@@ -149,6 +152,7 @@ describe("Provider namespace", () => {
     test("returns true for supported providers", () => {
       expect(Provider.isSupported("anthropic")).toBe(true)
       expect(Provider.isSupported("openai")).toBe(true)
+      expect(Provider.isSupported("openai-compatible")).toBe(true)
     })
 
     test("returns false for unsupported providers", () => {
@@ -171,6 +175,60 @@ describe("Provider namespace", () => {
     })
   })
 
+  describe("resolveSelection()", () => {
+    const defaults = { provider: "anthropic", model: "claude-sonnet-4-20250514" }
+
+    test("returns the defaults without overrides", () => {
+      expect(Provider.resolveSelection(defaults)).toEqual(defaults)
+      expect(Provider.resolveSelection(defaults, {})).toEqual(defaults)
+    })
+
+    test("a model override also selects its provider", () => {
+      expect(Provider.resolveSelection(defaults, { model: "gpt-4o-mini" })).toEqual({
+        provider: "openai",
+        model: "gpt-4o-mini",
+      })
+    })
+
+    test("a provider override picks that provider's first model", () => {
+      expect(Provider.resolveSelection(defaults, { provider: "openai" })).toEqual({
+        provider: "openai",
+        model: "gpt-4o",
+      })
+    })
+
+    test("a provider override keeps a default model from that provider", () => {
+      const openaiDefaults = { provider: "anthropic", model: "gpt-4o-mini" }
+      expect(Provider.resolveSelection(openaiDefaults, { provider: "openai" })).toEqual({
+        provider: "openai",
+        model: "gpt-4o-mini",
+      })
+    })
+
+    test("accepts a matching provider and model", () => {
+      expect(
+        Provider.resolveSelection(defaults, { provider: "anthropic", model: "claude-3-5-haiku-20241022" })
+      ).toEqual({ provider: "anthropic", model: "claude-3-5-haiku-20241022" })
+    })
+
+    test("throws ProviderError for an unknown model", () => {
+      expect(() => Provider.resolveSelection(defaults, { model: "gpt-9" })).toThrow(ProviderError)
+      expect(() => Provider.resolveSelection(defaults, { model: "gpt-9" })).toThrow(/Unknown model: gpt-9/)
+    })
+
+    test("throws ProviderError for an unsupported provider", () => {
+      expect(() => Provider.resolveSelection(defaults, { provider: "acme" })).toThrow(
+        /Unsupported provider: acme/
+      )
+    })
+
+    test("throws ProviderError when the model is not from the provider", () => {
+      expect(() =>
+        Provider.resolveSelection(defaults, { provider: "anthropic", model: "gpt-4o" })
+      ).toThrow(/provided by openai, not anthropic/)
+    })
+  })
+
   describe("getModel()", () => {
     test("throws ProviderError for unsupported provider", async () => {
       await expect(
@@ -249,5 +307,102 @@ describe("Provider namespace", () => {
       const model = await Provider.getModel("openai", "gpt-4o")
       expect(model).toBeDefined()
     })
+
+    test("creates OpenAI-compatible model without an API key", async () => {
+      await fs.writeFile(
+        path.join(testDir, "config.json"),
+        JSON.stringify({
+          providers: {
+            "openai-compatible": { id: "openai-compatible", baseURL: "http://localhost:11434/v1" },
+          },
+        })
+      )
+
+      const model = await Provider.getModel("openai-compatible", "llama3.2")
+      expect(model).toBeDefined()
+      expect(model.modelId).toBe("llama3.2")
+    })
+
+    test("throws ProviderError when OpenAI-compatible baseURL is missing", async () => {
+      await expect(Provider.getModel("openai-compatible", "llama3.2")).rejects.toThrow(
+        "Missing baseURL for OpenAI-compatible"
+      )
+    })
+  })
+
+  describe("model discovery", () => {
+    let server: http.Server
+    let baseURL: string
+    let requests: Array<{ url?: string; authorization?: string }>
+    let status: number
+
+    beforeEach(async () => {
+      requests = []
+      status = 200
+      server = http.createServer((req, res) => {
+        requests.push({ url: req.url, authorization: req.headers.authorization })
+        res.writeHead(status, { "Content-Type": "application/json" })
+        res.end(JSON.stringify({ object: "list", data: [{ id: "llama3.2" }, { id: "qwen2.5:7b" }] }))
+      })
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+      baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+      Provider.resetDiscovery()
+    })
+
+    afterEach(async () => {
+      await new Promise((resolve) => server.close(resolve))
+      delete MODELS["llama3.2"]
+      delete MODELS["qwen2.5:7b"]
+      Provider.resetDiscovery()
+    })
+
+    test("discoverModels() lists models from /v1/models", async () => {
+      const models = await Provider.discoverModels(baseURL + "/", "local-key")
+
+      expect(models.map((m) => m.id)).toEqual(["llama3.2", "qwen2.5:7b"])
+      expect(models[0]!.provider).toBe("openai-compatible")
+      expect(requests[0]).toEqual({ url: "/v1/models", authorization: "Bearer local-key" })
+    })
+
+    test("discoverModels() throws ProviderError on HTTP errors", async () => {
+      status = 500
+      await expect(Provider.discoverModels(baseURL)).rejects.toThrow(ProviderError)
+    })
+
+    test("loadModels() registers discovered models alongside MODELS", async () => {
+      await fs.writeFile(
+        path.join(testDir, "config.json"),
+        JSON.stringify({
+          providers: { "openai-compatible": { id: "openai-compatible", baseURL } },
+        })
+      )
+
+      await Provider.loadModels()
+      await Provider.loadModels()
+
+      expect(requests).toHaveLength(1)
+      expect(getModelInfo("llama3.2")?.provider).toBe("openai-compatible")
+      expect(getModelInfo("claude-sonnet-4-20250514")?.provider).toBe("anthropic")
+      expect(
+        Provider.resolveSelection(
+          { provider: "anthropic", model: "claude-sonnet-4-20250514" },
+          { model: "qwen2.5:7b" }
+        )
+      ).toEqual({ provider: "openai-compatible", model: "qwen2.5:7b" })
+    })
+
+    test("loadModels() ignores an unreachable server", async () => {
+      await new Promise((resolve) => server.close(resolve))
+      server = http.createServer()
+      await fs.writeFile(
+        path.join(testDir, "config.json"),
+        JSON.stringify({
+          providers: { "openai-compatible": { id: "openai-compatible", baseURL } },
+        })
+      )
+
+      await expect(Provider.loadModels()).resolves.toBeUndefined()
+      expect(getModelInfo("llama3.2")).toBeUndefined()
+    })
   })
 })
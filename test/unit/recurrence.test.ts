@@ -0,0 +1,147 @@
+import { describe, test, expect } from "vitest"
+import {
+  parseRecurrence,
+  normalizeRecurrence,
+  describeRecurrence,
+  nextOccurrence,
+  anchorRecurrence,
+} from "../../src/util/recurrence"
+
+describe("Recurrence", () => {
+  describe("parseRecurrence", () => {
+    test("accepts shorthands", () => {
+      expect(parseRecurrence("daily")).toEqual({ freq: "DAILY", interval: 1 })
+      expect(parseRecurrence("Weekly")).toEqual({ freq: "WEEKLY", interval: 1 })
+      expect(parseRecurrence(" MONTHLY ")).toEqual({ freq: "MONTHLY", interval: 1 })
+    })
+
+    test("parses RRULE parts", () => {
+      expect(parseRecurrence("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO;UNTIL=20271231")).toEqual({
+        freq: "WEEKLY",
+        interval: 2,
+        byDay: ["MO", "TH"],
+        until: "2027-12-31",
+      })
+      expect(parseRecurrence("freq=monthly;bymonthday=15,1,-1")).toEqual({
+        freq: "MONTHLY",
+        interval: 1,
+        byMonthDay: [-1, 1, 15],
+      })
+    })
+
+    test("rejects unsupported rules", () => {
+      expect(() => parseRecurrence("FREQ=YEARLY")).toThrow("Unsupported recurrence frequency")
+      expect(() => parseRecurrence("INTERVAL=2")).toThrow("missing FREQ")
+      expect(() => parseRecurrence("FREQ=DAILY;INTERVAL=0")).toThrow("Invalid recurrence interval")
+      expect(() => parseRecurrence("FREQ=WEEKLY;BYDAY=XX")).toThrow("Invalid recurrence day")
+      expect(() => parseRecurrence("FREQ=MONTHLY;BYMONTHDAY=32")).toThrow("Invalid recurrence day of month")
+      expect(() => parseRecurrence("FREQ=DAILY;BYDAY=MO")).toThrow("only supported with FREQ=WEEKLY")
+      expect(() => parseRecurrence("FREQ=DAILY;COUNT=3")).toThrow("Unsupported recurrence part: COUNT")
+      expect(() => parseRecurrence("every tuesday")).toThrow()
+    })
+  })
+
+  describe("normalizeRecurrence", () => {
+    test("uses the shorthand for plain rules", () => {
+      expect(normalizeRecurrence("FREQ=DAILY")).toBe("daily")
+      expect(normalizeRecurrence("FREQ=WEEKLY;INTERVAL=1")).toBe("weekly")
+    })
+
+    test("writes a canonical RRULE otherwise", () => {
+      expect(normalizeRecurrence("rrule:byday=tu,mo;freq=weekly")).toBe("FREQ=WEEKLY;BYDAY=MO,TU")
+      expect(normalizeRecurrence("FREQ=MONTHLY;UNTIL=2027-06-30;INTERVAL=3")).toBe(
+        "FREQ=MONTHLY;INTERVAL=3;UNTIL=20270630"
+      )
+    })
+  })
+
+  describe("anchorRecurrence", () => {
+    test("pins a plain monthly rule to the due date's day", () => {
+      expect(anchorRecurrence("monthly", "2027-01-31")).toBe("FREQ=MONTHLY;BYMONTHDAY=31")
+      expect(anchorRecurrence("FREQ=MONTHLY;INTERVAL=2", "2027-01-15T09:00")).toBe(
+        "FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15"
+      )
+    })
+
+    test("leaves other rules and undated todos alone", () => {
+      expect(anchorRecurrence("FREQ=MONTHLY;BYMONTHDAY=1", "2027-01-31")).toBe("FREQ=MONTHLY;BYMONTHDAY=1")
+      expect(anchorRecurrence("weekly", "2027-01-31")).toBe("weekly")
+      expect(anchorRecurrence("monthly", null)).toBe("monthly")
+    })
+
+    test("a pinned month-end rule returns to the 31st after a short month", () => {
+      const rule = anchorRecurrence("monthly", "2027-01-31")
+      const february = nextOccurrence(rule, "2027-01-31")
+      expect(february).toBe("2027-02-28")
+      expect(nextOccurrence(rule, february!)).toBe("2027-03-31")
+    })
+  })
+
+  describe("describeRecurrence", () => {
+    test("describes rules in plain English", () => {
+      expect(describeRecurrence("daily")).toBe("Daily")
+      expect(describeRecurrence("FREQ=DAILY;INTERVAL=3")).toBe("Every 3 days")
+      expect(describeRecurrence("FREQ=WEEKLY;BYDAY=TU")).toBe("Every Tuesday")
+      expect(describeRecurrence("FREQ=WEEKLY;BYDAY=MO,TH")).toBe("Every Mon, Thu")
+      expect(describeRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=SA")).toBe("Every 2 weeks on Sat")
+      expect(describeRecurrence("FREQ=MONTHLY;BYMONTHDAY=1")).toBe("Monthly on the 1st")
+      expect(describeRecurrence("FREQ=MONTHLY;BYMONTHDAY=-1;UNTIL=20271231")).toBe(
+        "Monthly on the last day until 2027-12-31"
+      )
+    })
+  })
+
+  describe("nextOccurrence", () => {
+    test("daily steps by the interval", () => {
+      expect(nextOccurrence("daily", "2026-12-31")).toBe("2027-01-01")
+      expect(nextOccurrence("FREQ=DAILY;INTERVAL=3", "2026-10-20")).toBe("2026-10-23")
+    })
+
+    test("weekly without days repeats on the same weekday", () => {
+      expect(nextOccurrence("weekly", "2026-10-20")).toBe("2026-10-27")
+      expect(nextOccurrence("FREQ=WEEKLY;INTERVAL=2", "2026-10-20")).toBe("2026-11-03")
+    })
+
+    test("weekly with days picks the next listed day", () => {
+      // 2026-10-20 is a Tuesday
+      expect(nextOccurrence("FREQ=WEEKLY;BYDAY=TU", "2026-10-20")).toBe("2026-10-27")
+      expect(nextOccurrence("FREQ=WEEKLY;BYDAY=TU,FR", "2026-10-20")).toBe("2026-10-23")
+      expect(nextOccurrence("FREQ=WEEKLY;BYDAY=MO", "2026-10-20")).toBe("2026-10-26")
+    })
+
+    test("weekly intervals skip the weeks in between", () => {
+      // Same week still counts, then two weeks on
+      expect(nextOccurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,SA", "2026-10-20")).toBe("2026-10-24")
+      expect(nextOccurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,SA", "2026-10-24")).toBe("2026-11-03")
+    })
+
+    test("monthly repeats on the same day of the month", () => {
+      expect(nextOccurrence("monthly", "2026-10-15")).toBe("2026-11-15")
+      expect(nextOccurrence("FREQ=MONTHLY;INTERVAL=6", "2026-10-15")).toBe("2027-04-15")
+    })
+
+    test("monthly with days picks the next listed day", () => {
+      expect(nextOccurrence("FREQ=MONTHLY;BYMONTHDAY=1", "2026-10-01")).toBe("2026-11-01")
+      expect(nextOccurrence("FREQ=MONTHLY;BYMONTHDAY=1,15", "2026-10-01")).toBe("2026-10-15")
+      expect(nextOccurrence("FREQ=MONTHLY;BYMONTHDAY=-1", "2027-01-31")).toBe("2027-02-28")
+    })
+
+    test("monthly days past the end of a short month fall on its last day", () => {
+      expect(nextOccurrence("monthly", "2027-01-31")).toBe("2027-02-28")
+      expect(nextOccurrence("FREQ=MONTHLY;BYMONTHDAY=31", "2027-02-28")).toBe("2027-03-31")
+    })
+
+    test("ignores a time of day on the start date", () => {
+      expect(nextOccurrence("daily", "2026-10-20T09:00:00")).toBe("2026-10-21")
+    })
+
+    test("returns null once UNTIL has passed", () => {
+      expect(nextOccurrence("FREQ=WEEKLY;UNTIL=20261031", "2026-10-20")).toBe("2026-10-27")
+      expect(nextOccurrence("FREQ=WEEKLY;UNTIL=20261031", "2026-10-27")).toBeNull()
+    })
+
+    test("rejects an invalid start date", () => {
+      expect(() => nextOccurrence("daily", "next week")).toThrow("Invalid date")
+    })
+  })
+})
@@ -176,6 +176,7 @@ describe("Goal State Machine", () => {
     expect(context.category).toBe("Personal") // Default
     expect(context.description).toBe("")
     expect(context.progress).toBe(0)
+    expect(context.progressMode).toBe("manual")
     expect(context.milestones).toEqual([])
     expect(context.dueDate).toBeNull()
     expect(context.createdAt).toBe(mockNow)
@@ -189,6 +190,7 @@ describe("Goal State Machine", () => {
       category: "Work",
       description: "Master TypeScript for better code",
       progress: 25,
+      progressMode: "auto",
       milestones: [{ id: "m1", title: "Basics", completed: true }],
       dueDate: "2024-12-31",
       createdAt: 1699000000000,
@@ -45,7 +45,7 @@ describe("Todo State Machine", () => {
     actor.start()
     actor.send({ type: "START" })
 
-    actor.send({ type: "BLOCK", blockedBy: "other-todo-123" })
+    actor.send({ type: "BLOCK", blockedBy: ["other-todo-123"] })
     expect(actor.getSnapshot().value).toBe("blocked")
 
     actor.send({ type: "UNBLOCK" })
@@ -54,20 +54,39 @@ describe("Todo State Machine", () => {
     actor.stop()
   })
 
-  test("blocked stores blockedBy ID", () => {
+  test("blocked stores blockedBy IDs", () => {
     const actor = createActor(todoMachine)
     actor.start()
     actor.send({ type: "START" })
 
-    const blockingTodoId = "blocking-todo-456"
-    actor.send({ type: "BLOCK", blockedBy: blockingTodoId })
+    actor.send({ type: "BLOCK", blockedBy: ["blocking-todo-456", "blocking-todo-789"] })
 
     expect(actor.getSnapshot().value).toBe("blocked")
-    expect(actor.getSnapshot().context.blockedBy).toBe(blockingTodoId)
+    expect(actor.getSnapshot().context.blockedBy).toEqual(["blocking-todo-456", "blocking-todo-789"])
 
-    // UNBLOCK clears the blockedBy ID
+    // UNBLOCK keeps the dependencies; blocking again adds to them
     actor.send({ type: "UNBLOCK" })
-    expect(actor.getSnapshot().context.blockedBy).toBeNull()
+    expect(actor.getSnapshot().context.blockedBy).toEqual(["blocking-todo-456", "blocking-todo-789"])
+    actor.send({ type: "BLOCK", blockedBy: ["blocking-todo-789", "blocking-todo-999"] })
+    expect(actor.getSnapshot().context.blockedBy).toEqual([
+      "blocking-todo-456",
+      "blocking-todo-789",
+      "blocking-todo-999",
+    ])
+
+    actor.stop()
+  })
+
+  test("a todo blocked before it was started unblocks to pending", () => {
+    const actor = createActor(todoMachine)
+    actor.start()
+
+    actor.send({ type: "BLOCK", blockedBy: ["other-todo"] })
+    expect(actor.getSnapshot().value).toBe("blocked")
+
+    actor.send({ type: "UNBLOCK" })
+    expect(actor.getSnapshot().value).toBe("pending")
+    expect(actor.getSnapshot().context.startedAt).toBeNull()
 
     actor.stop()
   })
@@ -78,7 +97,26 @@ describe("Todo State Machine", () => {
 
     actor.send({ type: "DEFER", until: "2024-12-31" })
     expect(actor.getSnapshot().value).toBe("deferred")
-    expect(actor.getSnapshot().context.dueDate).toBe("2024-12-31")
+    expect(actor.getSnapshot().context.deferredUntil).toBe("2024-12-31")
+    expect(actor.getSnapshot().context.dueDate).toBeNull()
+
+    actor.stop()
+  })
+
+  test("deferred todo wakes to pending and keeps its due date", () => {
+    const actor = createActor(todoMachine, {
+      snapshot: todoMachine.resolveState({
+        value: "pending",
+        context: createTodoContext({ id: "test-todo", dueDate: "2025-02-01" }),
+      }),
+    })
+    actor.start()
+
+    actor.send({ type: "DEFER", until: "2025-01-15" })
+    actor.send({ type: "WAKE" })
+    expect(actor.getSnapshot().value).toBe("pending")
+    expect(actor.getSnapshot().context.deferredUntil).toBeNull()
+    expect(actor.getSnapshot().context.dueDate).toBe("2025-02-01")
 
     actor.stop()
   })
@@ -131,7 +169,7 @@ describe("Todo State Machine", () => {
 
     actor.send({ type: "DEFER", until: "2025-01-15" })
     expect(actor.getSnapshot().value).toBe("deferred")
-    expect(actor.getSnapshot().context.dueDate).toBe("2025-01-15")
+    expect(actor.getSnapshot().context.deferredUntil).toBe("2025-01-15")
 
     actor.stop()
   })
@@ -169,7 +207,7 @@ describe("Todo State Machine", () => {
     const actor3 = createActor(todoMachine)
     actor3.start()
     actor3.send({ type: "START" })
-    actor3.send({ type: "BLOCK", blockedBy: "other" })
+    actor3.send({ type: "BLOCK", blockedBy: ["other"] })
     actor3.send({ type: "CANCEL" })
     expect(actor3.getSnapshot().value).toBe("cancelled")
     actor3.stop()
@@ -197,6 +235,7 @@ describe("Todo State Machine", () => {
 
     actor.send({ type: "START" })
     expect(actor.getSnapshot().context.updatedAt).toBe(mockNow)
+    expect(actor.getSnapshot().context.startedAt).toBe(mockNow)
 
     actor.stop()
   })
@@ -209,11 +248,15 @@ describe("Todo State Machine", () => {
     expect(context.description).toBe("")
     expect(context.priority).toBe("medium") // Default
     expect(context.dueDate).toBeNull()
+    expect(context.deferredUntil).toBeNull()
+    expect(context.recurrence).toBeNull()
     expect(context.tags).toEqual([])
     expect(context.goalId).toBeNull()
-    expect(context.blockedBy).toBeNull()
+    expect(context.projectId).toBeNull()
+    expect(context.blockedBy).toEqual([])
     expect(context.createdAt).toBe(mockNow)
     expect(context.updatedAt).toBe(mockNow)
+    expect(context.startedAt).toBeNull()
     expect(context.completedAt).toBeNull()
   })
 
@@ -224,11 +267,15 @@ describe("Todo State Machine", () => {
       description: "Create comprehensive unit tests",
       priority: "high",
       dueDate: "2024-12-31",
+      deferredUntil: null,
+      recurrence: "FREQ=WEEKLY;BYDAY=MO",
       tags: ["testing", "important"],
       goalId: "goal-123",
-      blockedBy: "todo-456",
+      projectId: "project-789",
+      blockedBy: ["todo-456"],
       createdAt: 1699000000000,
       updatedAt: 1699500000000,
+      startedAt: 1699100000000,
       completedAt: null,
     }
 
@@ -262,14 +309,15 @@ describe("Todo State Machine", () => {
     actor.stop()
   })
 
-  test("BLOCK only works from in_progress state", () => {
+  test("BLOCK only works from pending and in_progress states", () => {
     const actor = createActor(todoMachine)
     actor.start()
+    actor.send({ type: "COMPLETE" })
 
-    // Try to BLOCK from pending - should not transition
-    actor.send({ type: "BLOCK", blockedBy: "other-todo" })
-    expect(actor.getSnapshot().value).toBe("pending")
-    expect(actor.getSnapshot().context.blockedBy).toBeNull()
+    // Try to BLOCK from done - should not transition
+    actor.send({ type: "BLOCK", blockedBy: ["other-todo"] })
+    expect(actor.getSnapshot().value).toBe("done")
+    expect(actor.getSnapshot().context.blockedBy).toEqual([])
 
     actor.stop()
   })
@@ -303,7 +351,7 @@ describe("Todo State Machine", () => {
     const actor1 = createActor(todoMachine)
     actor1.start()
     actor1.send({ type: "START" })
-    actor1.send({ type: "BLOCK", blockedBy: "other" })
+    actor1.send({ type: "BLOCK", blockedBy: ["other"] })
     actor1.send({ type: "COMPLETE" })
     expect(actor1.getSnapshot().value).toBe("blocked")
     actor1.stop()
@@ -0,0 +1,107 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { Storage } from "../../src/storage/storage"
+
+const sqliteAvailable = await import("better-sqlite3").then(
+  () => true,
+  () => false
+)
+
+describe.skipIf(!sqliteAvailable)("Storage with the SQLite backend", () => {
+  let testDir: string
+  let dataDir: string
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `dadgpt-sqlite-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    dataDir = path.join(testDir, "data")
+    await fs.mkdir(dataDir, { recursive: true })
+    process.env.DADGPT_DATA_DIR = dataDir
+  })
+
+  afterEach(async () => {
+    await Storage.close()
+    delete process.env.DADGPT_DATA_DIR
+    await fs.rm(testDir, { recursive: true, force: true })
+  })
+
+  async function migrateToSqlite(): Promise<void> {
+    const result = await Storage.migrate("sqlite")
+    expect(result.to).toBe("sqlite")
+  }
+
+  test("migrate copies every record into the database and moves the JSON files aside", async () => {
+    await Storage.write(["goals", "goal_1"], { id: "goal_1", title: "Run" })
+    await Storage.write(["sessions", "s1", "session"], { id: "s1" })
+    await Storage.write(["sessions", "s1", "messages", "m1"], { id: "m1" })
+
+    expect(await Storage.migrate("sqlite", { dryRun: true })).toEqual({
+      from: "json",
+      to: "sqlite",
+      count: 3,
+      backupPath: null,
+    })
+    const result = await Storage.migrate("sqlite")
+
+    expect(result.count).toBe(3)
+    expect(await Storage.backendName()).toBe("sqlite")
+    expect((await fs.readdir(dataDir)).filter((e) => !e.startsWith("dadgpt.db"))).toEqual([])
+    expect(await fs.readdir(result.backupPath!)).toEqual(expect.arrayContaining(["goals", "sessions"]))
+    expect(await Storage.read(["goals", "goal_1"])).toEqual({ id: "goal_1", title: "Run" })
+    expect(await Storage.listDirs(["sessions"])).toEqual(["s1"])
+    expect(await Storage.list(["sessions", "s1", "messages"])).toEqual(["m1"])
+  })
+
+  test("write, update, exists and remove work against the database", async () => {
+    await migrateToSqlite()
+
+    await Storage.write(["counter"], { count: 1 })
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        Storage.update<{ count: number }>(["counter"], (prev) => ({ count: (prev?.count ?? 0) + 1 }))
+      )
+    )
+
+    expect(await Storage.read(["counter"])).toEqual({ count: 6 })
+    expect(await Storage.exists(["counter"])).toBe(true)
+    expect(await Storage.remove(["counter"])).toBe(true)
+    expect(await Storage.remove(["counter"])).toBe(false)
+    expect(await Storage.read(["counter"])).toBeUndefined()
+  })
+
+  test("query filters by state, tag, goalId and due date", async () => {
+    await migrateToSqlite()
+    const todo = (id: string, fields: Record<string, unknown>): Promise<void> =>
+      Storage.write(["todos", id], { id, state: "pending", tags: [], goalId: null, dueDate: null, ...fields })
+    await todo("a", { tags: ["Garden"], goalId: "goal_1", dueDate: "2026-05-01" })
+    await todo("b", { state: "done", tags: ["garden"], dueDate: "2026-06-01" })
+    await todo("c", { goalId: "goal_1" })
+
+    const ids = async (filter: Parameters<typeof Storage.query>[1]): Promise<string[]> =>
+      (await Storage.query<{ id: string }>(["todos"], filter)).map((t) => t.id).sort()
+
+    expect(await ids({ state: "pending" })).toEqual(["a", "c"])
+    expect(await ids({ tag: "GARDEN" })).toEqual(["a", "b"])
+    expect(await ids({ goalId: "goal_1", tag: "garden" })).toEqual(["a"])
+    expect(await ids({ dueBefore: "2026-05-15" })).toEqual(["a"])
+    expect(await ids({ dueAfter: "2026-05-15" })).toEqual(["b"])
+
+    // Tags are reindexed when a record changes
+    await todo("a", { tags: ["kitchen"] })
+    expect(await ids({ tag: "garden" })).toEqual(["b"])
+  })
+
+  test("migrate back to JSON restores one file per record", async () => {
+    await Storage.write(["todos", "t1"], { id: "t1", state: "pending" })
+    await migrateToSqlite()
+    await Storage.write(["todos", "t2"], { id: "t2", state: "done" })
+
+    const result = await Storage.migrate("json")
+
+    expect(result.count).toBe(2)
+    expect(await Storage.backendName()).toBe("json")
+    expect((await fs.readdir(path.join(dataDir, "todos"))).sort()).toEqual(["t1.json", "t2.json"])
+    await expect(fs.access(result.backupPath!)).resolves.toBeUndefined()
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach } from "vitest"
 import { Storage } from "../../src/storage/storage"
+import { StorageError } from "../../src/util/errors"
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
 import * as os from "node:os"
@@ -142,4 +143,81 @@ describe("Storage", () => {
     const result = await Storage.read<{ version: number }>(["overwrite"])
     expect(result).toEqual({ version: 2 })
   })
+
+  test("write leaves no temp files behind", async () => {
+    await Storage.write(["items", "alpha"], { id: "alpha" })
+    await Storage.write(["items", "alpha"], { id: "alpha", version: 2 })
+
+    expect(await fs.readdir(path.join(testDir, "items"))).toEqual(["alpha.json"])
+  })
+
+  test("read quarantines a corrupt file instead of treating it as missing", async () => {
+    await fs.mkdir(path.join(testDir, "todos"), { recursive: true })
+    await fs.writeFile(path.join(testDir, "todos", "todo_1.json"), '{"id": "todo_1", "tit')
+
+    const error = await Storage.read(["todos", "todo_1"]).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(StorageError)
+    expect((error as StorageError).code).toBe("STORAGE_CORRUPT")
+    expect(await Storage.exists(["todos", "todo_1"])).toBe(false)
+    const [quarantined] = await fs.readdir(path.join(testDir, "quarantine", "todos"))
+    expect(quarantined).toMatch(/^todo_1\.\d+\.corrupt$/)
+    expect(await fs.readFile(path.join(testDir, "quarantine", "todos", quarantined!), "utf-8")).toBe(
+      '{"id": "todo_1", "tit'
+    )
+  })
+
+  test("query skips a corrupt file and returns the rest", async () => {
+    await Storage.write(["todos", "todo_1"], { id: "todo_1", state: "pending" })
+    await fs.writeFile(path.join(testDir, "todos", "todo_2.json"), '{"id": "todo_2", "sta')
+
+    const todos = await Storage.query<{ id: string }>(["todos"], { state: "pending" })
+
+    expect(todos.map((t) => t.id)).toEqual(["todo_1"])
+    expect(await fs.readdir(path.join(testDir, "quarantine", "todos"))).toHaveLength(1)
+  })
+
+  test("concurrent updates do not lose writes", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, () =>
+        Storage.update<{ count: number }>(["counter"], (prev) => ({ count: (prev?.count ?? 0) + 1 }))
+      )
+    )
+
+    expect(await Storage.read(["counter"])).toEqual({ count: 10 })
+    expect(await fs.readdir(testDir)).toEqual(["counter.json"])
+  })
+
+  test("updateExisting leaves a missing record missing", async () => {
+    await Storage.write(["counter"], { count: 1 })
+
+    expect(await Storage.updateExisting<{ count: number }>(["counter"], (prev) => ({ count: prev.count + 1 }))).toEqual({
+      count: 2,
+    })
+    expect(await Storage.updateExisting<{ count: number }>(["missing"], () => ({ count: 1 }))).toBeUndefined()
+    expect(await Storage.exists(["missing"])).toBe(false)
+  })
+
+  test("update takes over a stale lock", async () => {
+    const lockPath = path.join(testDir, "counter.json.lock")
+    await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, createdAt: 0 }))
+    const past = new Date(Date.now() - 60_000)
+    await fs.utimes(lockPath, past, past)
+
+    const result = await Storage.update<{ count: number }>(["counter"], () => ({ count: 1 }))
+
+    expect(result).toEqual({ count: 1 })
+    await expect(fs.access(lockPath)).rejects.toThrow()
+  })
+
+  test("query filters records by state and tag", async () => {
+    await Storage.write(["todos", "a"], { id: "a", state: "pending", tags: ["Garden"] })
+    await Storage.write(["todos", "b"], { id: "b", state: "done", tags: ["garden"] })
+    await Storage.write(["todos", "c"], { id: "c", state: "pending", tags: [] })
+
+    const pendingGarden = await Storage.query<{ id: string }>(["todos"], { state: "pending", tag: "garden" })
+
+    expect(pendingGarden.map((t) => t.id)).toEqual(["a"])
+    expect(await Storage.query(["todos"])).toHaveLength(3)
+  })
 })
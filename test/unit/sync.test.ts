@@ -0,0 +1,448 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { Sync } from "../../src/sync/sync"
+import { parseDadGPTMd } from "../../src/parser/dadgpt-md"
+import { Storage } from "../../src/storage/storage"
+import { Config } from "../../src/config/config"
+import { Bus } from "../../src/bus/bus"
+import { GoalTool, type StoredGoal } from "../../src/tool/goal"
+import { TodoTool, type StoredTodo } from "../../src/tool/todo"
+import type { StoredProject } from "../../src/tool/project"
+import type { ToolContext } from "../../src/tool/types"
+
+// Path to test fixture
+const FIXTURE_PATH = path.join(__dirname, "../fixtures/dadgpt.md")
+
+describe("Sync", () => {
+  let testDir: string
+  let homeDir: string
+  const mockCtx: ToolContext = { sessionId: "test-session" }
+
+  beforeEach(async () => {
+    const uniqueId = `${Date.now()}-${Math.random().toString(36).slice(2)}`
+    testDir = path.join(os.tmpdir(), `dadgpt-sync-test-${uniqueId}`)
+    homeDir = path.join(os.tmpdir(), `dadgpt-sync-home-${uniqueId}`)
+    await fs.mkdir(testDir, { recursive: true })
+    await fs.mkdir(homeDir, { recursive: true })
+    process.env.DADGPT_DATA_DIR = testDir
+    process.env.DADGPT_HOME = homeDir
+    Config.invalidate()
+    Bus.clear()
+  })
+
+  afterEach(async () => {
+    delete process.env.DADGPT_DATA_DIR
+    delete process.env.DADGPT_HOME
+    Config.invalidate()
+    try {
+      await fs.rm(testDir, { recursive: true, force: true })
+      await fs.rm(homeDir, { recursive: true, force: true })
+    } catch {
+      // Ignore cleanup errors
+    }
+  })
+
+  async function loadAll<T>(prefix: string): Promise<T[]> {
+    const ids = await Storage.list([prefix])
+    const records = await Promise.all(ids.map((id) => Storage.read<T>([prefix, id])))
+    return records.filter((r): r is T => r !== undefined)
+  }
+
+  describe("plan", () => {
+    test("plans creates for every item in an empty store", async () => {
+      const content = await fs.readFile(FIXTURE_PATH, "utf-8")
+      const plan = await Sync.plan(parseDadGPTMd(content))
+
+      const creates = plan.changes.filter((c) => c.action === "create")
+      expect(creates.filter((c) => c.entity === "goal")).toHaveLength(3)
+      expect(creates.filter((c) => c.entity === "todo")).toHaveLength(3)
+      expect(creates.filter((c) => c.entity === "project")).toHaveLength(2)
+      expect(creates.filter((c) => c.entity === "family")).toHaveLength(4)
+      expect(plan.changes.every((c) => c.action === "create")).toBe(true)
+    })
+
+    test("does not write anything", async () => {
+      const content = await fs.readFile(FIXTURE_PATH, "utf-8")
+      await Sync.plan(parseDadGPTMd(content))
+
+      expect(await Storage.list(["goals"])).toHaveLength(0)
+      expect(await Storage.list(["todos"])).toHaveLength(0)
+      expect((await Config.get()).family).toHaveLength(0)
+    })
+
+    test("matches existing goals by title instead of duplicating", async () => {
+      await GoalTool.execute(
+        { action: "create", title: "learn spanish", category: "Work" },
+        mockCtx
+      )
+
+      const plan = await Sync.plan(
+        parseDadGPTMd(`## Goals
+
+- [ ] Learn Spanish
+  - Category: Personal`)
+      )
+
+      expect(plan.changes).toHaveLength(1)
+      expect(plan.changes[0]?.action).toBe("update")
+      expect(plan.changes[0]?.fields).toEqual([
+        { field: "category", from: "Work", to: "Personal" },
+      ])
+    })
+
+    test("reports no changes when storage already matches", async () => {
+      const content = await fs.readFile(FIXTURE_PATH, "utf-8")
+      await Sync.apply(await Sync.plan(parseDadGPTMd(content)))
+      Config.invalidate()
+
+      const plan = await Sync.plan(parseDadGPTMd(content))
+      expect(plan.changes).toHaveLength(0)
+    })
+
+    test("checking a todo completes it and unchecking reopens it", async () => {
+      const created = await TodoTool.execute(
+        { action: "create", title: "Buy groceries" },
+        mockCtx
+      )
+      const todoId = created.metadata?.todoId as string
+
+      await Sync.apply(await Sync.plan(parseDadGPTMd("## Todos\n\n- [x] Buy groceries")))
+      expect((await Storage.read<StoredTodo>(["todos", todoId]))?.state).toBe("done")
+
+      await Sync.apply(await Sync.plan(parseDadGPTMd("## Todos\n\n- [ ] Buy groceries")))
+      const reopened = await Storage.read<StoredTodo>(["todos", todoId])
+      expect(reopened?.state).toBe("pending")
+      expect(reopened?.completedAt).toBeNull()
+    })
+
+    test("keeps past occurrences of a recurring todo apart from the open one", async () => {
+      const created = await TodoTool.execute(
+        { action: "create", title: "Trash", dueDate: "2026-10-20", recurrence: "weekly" },
+        mockCtx
+      )
+      const firstId = created.metadata?.todoId as string
+      const completed = await TodoTool.execute({ action: "complete", id: firstId }, mockCtx)
+      const nextId = completed.metadata?.nextTodoId as string
+
+      const rendered = await Sync.render()
+      expect(await Sync.plan(parseDadGPTMd(rendered))).toMatchObject({ changes: [] })
+
+      // Moving the open occurrence's due date leaves the done one alone
+      const moved = rendered.replace("Due: 2026-10-27", "Due: 2026-10-28")
+      await Sync.apply(await Sync.plan(parseDadGPTMd(moved)))
+      expect(await Storage.read<StoredTodo>(["todos", firstId])).toMatchObject({ state: "done", dueDate: "2026-10-20" })
+      expect(await Storage.read<StoredTodo>(["todos", nextId])).toMatchObject({ state: "pending", dueDate: "2026-10-28" })
+
+      // An unchecked line doesn't reopen the done occurrence while the open one exists
+      await Sync.apply(await Sync.plan(parseDadGPTMd("## Todos\n\n- [ ] Trash\n- [ ] Trash")))
+      expect((await Storage.read<StoredTodo>(["todos", firstId]))?.state).toBe("done")
+    })
+
+    test("imports and updates todo recurrence", async () => {
+      await Sync.apply(await Sync.plan(parseDadGPTMd("## Todos\n\n- [ ] Trash\n  - Recurs: weekly")))
+      const [todo] = await loadAll<StoredTodo>("todos")
+      expect(todo?.recurrence).toBe("weekly")
+
+      const plan = await Sync.plan(parseDadGPTMd("## Todos\n\n- [ ] Trash\n  - Recurs: FREQ=WEEKLY;BYDAY=TU"))
+      expect(plan.changes[0]?.fields).toEqual([
+        { field: "recurrence", from: "weekly", to: "FREQ=WEEKLY;BYDAY=TU" },
+      ])
+    })
+
+    test("pins an imported monthly rule to the due date's day", async () => {
+      await Sync.apply(
+        await Sync.plan(parseDadGPTMd("## Todos\n\n- [ ] Pay rent\n  - Due: 2099-01-31\n  - Recurs: monthly"))
+      )
+      const [todo] = await loadAll<StoredTodo>("todos")
+      expect(todo?.recurrence).toBe("FREQ=MONTHLY;BYMONTHDAY=31")
+
+      const plan = await Sync.plan(
+        parseDadGPTMd("## Todos\n\n- [ ] Pay rent\n  - Due: 2099-01-31\n  - Recurs: monthly")
+      )
+      expect(plan.changes).toEqual([])
+    })
+
+    test("ignores placeholder birthdays from the init template", async () => {
+      const plan = await Sync.plan(
+        parseDadGPTMd(`## Family
+
+- **Partner**: [Name]
+  - Birthday: MM-DD`)
+      )
+
+      expect(plan.family[0]?.name).toBe("Name")
+      expect(plan.family[0]?.birthday).toBeUndefined()
+    })
+  })
+
+  describe("apply", () => {
+    test("imports the fixture into storage and config", async () => {
+      const content = await fs.readFile(FIXTURE_PATH, "utf-8")
+      await Sync.apply(await Sync.plan(parseDadGPTMd(content)))
+
+      const goals = await loadAll<StoredGoal>("goals")
+      expect(goals).toHaveLength(3)
+      const marathon = goals.find((g) => g.title === "Run a marathon")
+      expect(marathon?.state).toBe("completed")
+      expect(marathon?.progress).toBe(100)
+
+      const todos = await loadAll<StoredTodo>("todos")
+      const groceries = todos.find((t) => t.title === "Buy groceries")
+      expect(groceries?.priority).toBe("high")
+      expect(groceries?.tags).toEqual(["shopping", "urgent"])
+      expect(groceries?.dueDate).toBe("2024-01-15")
+
+      const projects = await loadAll<StoredProject>("projects")
+      const renovation = projects.find((p) => p.name === "Home Renovation")
+      expect(renovation?.state).toBe("active")
+      expect(renovation?.milestones.map((m) => m.completed)).toEqual([true, false, false])
+
+      Config.invalidate()
+      const family = (await Config.get()).family
+      expect(family.map((m) => m.name)).toEqual(["Sarah", "Jake", "Emma", "Grandma Rose"])
+      expect(family[0]?.birthday).toBe("1990-05-15")
+    })
+
+    test("links projects to goals by title", async () => {
+      await Sync.apply(
+        await Sync.plan(
+          parseDadGPTMd(`## Goals
+
+- [ ] Improve home value
+
+## Projects
+
+### Kitchen
+- Goal: Improve home value`)
+        )
+      )
+
+      const [goal] = await loadAll<StoredGoal>("goals")
+      const [project] = await loadAll<StoredProject>("projects")
+      expect(project?.goalId).toBe(goal?.id)
+    })
+
+    test("publishes created events", async () => {
+      const goalHandler = vi.fn()
+      const familyHandler = vi.fn()
+      Bus.subscribe("goal.created", goalHandler)
+      Bus.subscribe("family.added", familyHandler)
+
+      const content = await fs.readFile(FIXTURE_PATH, "utf-8")
+      await Sync.apply(await Sync.plan(parseDadGPTMd(content)))
+
+      expect(goalHandler).toHaveBeenCalledTimes(3)
+      expect(familyHandler).toHaveBeenCalledTimes(4)
+    })
+
+    test("publishes todo.updated for todo changes", async () => {
+      const created = await TodoTool.execute({ action: "create", title: "Buy groceries" }, mockCtx)
+      const todoId = created.metadata?.todoId as string
+      const updated = vi.fn()
+      const completed = vi.fn()
+      Bus.subscribe("todo.updated", updated)
+      Bus.subscribe("todo.completed", completed)
+
+      await Sync.apply(await Sync.plan(parseDadGPTMd("## Todos\n\n- [x] Buy groceries\n  - Priority: high")))
+
+      expect(updated).toHaveBeenCalledWith({ todoId, changes: { priority: "high", state: "done" } })
+      expect(completed).toHaveBeenCalledWith({ todoId })
+    })
+  })
+  describe("run", () => {
+    let filePath: string
+
+    beforeEach(() => {
+      filePath = path.join(homeDir, "dadgpt.md")
+    })
+
+    async function addTodoToFile(title: string): Promise<void> {
+      const content = await fs.readFile(filePath, "utf-8")
+      await fs.writeFile(filePath, content.replace("- [ ] First\n", `- [ ] First\n- [ ] ${title}\n`))
+    }
+
+    test("first run imports the file and regenerates it", async () => {
+      await fs.copyFile(FIXTURE_PATH, filePath)
+
+      const result = await Sync.run(filePath)
+
+      expect(result.direction).toBe("import")
+      expect(result.plan.changes.length).toBeGreaterThan(0)
+      expect(await loadAll<StoredGoal>("goals")).toHaveLength(3)
+
+      const written = await fs.readFile(filePath, "utf-8")
+      expect(written.startsWith("# My DadGPT")).toBe(true)
+      expect(parseDadGPTMd(written).todos.map((t) => t.title)).toContain("Buy groceries")
+    })
+
+    test("second run has nothing to do", async () => {
+      await fs.copyFile(FIXTURE_PATH, filePath)
+      await Sync.run(filePath)
+      Config.invalidate()
+
+      const result = await Sync.run(filePath)
+      expect(result.direction).toBe("none")
+      expect(result.fileUpdated).toBe(false)
+    })
+
+    test("creates the file from storage when it is missing", async () => {
+      await TodoTool.execute({ action: "create", title: "Stored todo" }, mockCtx)
+
+      const result = await Sync.run(filePath)
+
+      expect(result.direction).toBe("export")
+      expect(await fs.readFile(filePath, "utf-8")).toContain("- [ ] Stored todo")
+    })
+
+    test("skips a corrupt file in storage", async () => {
+      await TodoTool.execute({ action: "create", title: "Stored todo" }, mockCtx)
+      await fs.writeFile(path.join(testDir, "todos", "todo_broken.json"), '{"id": "todo_broken", "tit')
+
+      const result = await Sync.run(filePath)
+
+      expect(result.direction).toBe("export")
+      expect(await fs.readFile(filePath, "utf-8")).toContain("- [ ] Stored todo")
+    })
+
+    test("leaves cancelled todos and abandoned goals out of the file", async () => {
+      const todo = await TodoTool.execute({ action: "create", title: "Old chore" }, mockCtx)
+      await TodoTool.execute({ action: "transition", id: todo.metadata?.todoId as string, event: "CANCEL" }, mockCtx)
+      const goal = await GoalTool.execute({ action: "create", title: "Learn the banjo" }, mockCtx)
+      await GoalTool.execute({ action: "transition", id: goal.metadata?.goalId as string, event: "ABANDON" }, mockCtx)
+      await TodoTool.execute({ action: "create", title: "Current chore" }, mockCtx)
+
+      await Sync.run(filePath)
+
+      const written = await fs.readFile(filePath, "utf-8")
+      expect(written).toContain("- [ ] Current chore")
+      expect(written).not.toContain("Old chore")
+      expect(written).not.toContain("Learn the banjo")
+    })
+
+    test("checking a todo completes it through the todo tool", async () => {
+      const trash = await TodoTool.execute(
+        { action: "create", title: "Trash", dueDate: "2026-10-20", recurrence: "weekly" },
+        mockCtx
+      )
+      const trashId = trash.metadata?.todoId as string
+      const curb = await TodoTool.execute(
+        { action: "create", title: "Bring the bins in", blockedBy: [trashId] },
+        mockCtx
+      )
+      const curbId = curb.metadata?.todoId as string
+      await Sync.run(filePath)
+
+      const content = await fs.readFile(filePath, "utf-8")
+      await fs.writeFile(filePath, content.replace("- [ ] Trash", "- [x] Trash"))
+      await Sync.run(filePath)
+
+      expect((await Storage.read<StoredTodo>(["todos", trashId]))?.state).toBe("done")
+      expect((await Storage.read<StoredTodo>(["todos", curbId]))?.state).toBe("pending")
+      const todos = parseDadGPTMd(await fs.readFile(filePath, "utf-8")).todos
+      expect(todos.filter((t) => t.title === "Trash").map((t) => [t.completed, t.dueDate])).toEqual([
+        [true, "2026-10-20"],
+        [false, "2026-10-27"],
+      ])
+    })
+
+    test("checking a blocked todo leaves it blocked", async () => {
+      const paint = await TodoTool.execute({ action: "create", title: "Buy paint" }, mockCtx)
+      const fence = await TodoTool.execute(
+        { action: "create", title: "Paint fence", blockedBy: [paint.metadata?.todoId as string] },
+        mockCtx
+      )
+      await Sync.run(filePath)
+
+      const content = await fs.readFile(filePath, "utf-8")
+      await fs.writeFile(filePath, content.replace("- [ ] Paint fence", "- [x] Paint fence"))
+      await Sync.run(filePath)
+
+      expect((await Storage.read<StoredTodo>(["todos", fence.metadata?.todoId as string]))?.state).toBe("blocked")
+      expect(await fs.readFile(filePath, "utf-8")).toContain("- [ ] Paint fence")
+    })
+
+    test("exports storage changes made since the last sync", async () => {
+      await fs.writeFile(filePath, "# DadGPT\n\n## Todos\n\n- [ ] First\n")
+      await Sync.run(filePath)
+
+      await TodoTool.execute({ action: "create", title: "Second" }, mockCtx)
+      const result = await Sync.run(filePath)
+
+      expect(result.direction).toBe("export")
+      const todos = parseDadGPTMd(await fs.readFile(filePath, "utf-8")).todos
+      expect(todos.map((t) => t.title)).toEqual(["First", "Second"])
+    })
+
+    test("imports file changes made since the last sync", async () => {
+      await fs.writeFile(filePath, "# DadGPT\n\n## Todos\n\n- [ ] First\n")
+      await Sync.run(filePath)
+
+      const content = await fs.readFile(filePath, "utf-8")
+      await fs.writeFile(filePath, content.replace("- [ ] First", "- [x] First"))
+      const result = await Sync.run(filePath)
+
+      expect(result.direction).toBe("import")
+      const [todo] = await loadAll<StoredTodo>("todos")
+      expect(todo?.state).toBe("done")
+    })
+
+    test("reports a conflict when both sides changed", async () => {
+      await fs.writeFile(filePath, "# DadGPT\n\n## Todos\n\n- [ ] First\n")
+      await Sync.run(filePath)
+
+      await addTodoToFile("From file")
+      await TodoTool.execute({ action: "create", title: "From storage" }, mockCtx)
+      const before = await fs.readFile(filePath, "utf-8")
+
+      const result = await Sync.run(filePath)
+
+      expect(result.direction).toBe("conflict")
+      expect(await fs.readFile(filePath, "utf-8")).toBe(before)
+      expect(await loadAll<StoredTodo>("todos")).toHaveLength(2)
+    })
+
+    test("prefer file merges the file into storage on conflict", async () => {
+      await fs.writeFile(filePath, "# DadGPT\n\n## Todos\n\n- [ ] First\n")
+      await Sync.run(filePath)
+
+      await addTodoToFile("From file")
+      await TodoTool.execute({ action: "create", title: "From storage" }, mockCtx)
+
+      const result = await Sync.run(filePath, { prefer: "file" })
+
+      expect(result.direction).toBe("import")
+      const titles = parseDadGPTMd(await fs.readFile(filePath, "utf-8")).todos.map((t) => t.title)
+      expect(titles).toEqual(expect.arrayContaining(["First", "From file", "From storage"]))
+    })
+
+    test("prefer storage overwrites the file edits on conflict", async () => {
+      await fs.writeFile(filePath, "# DadGPT\n\n## Todos\n\n- [ ] First\n")
+      await Sync.run(filePath)
+
+      await addTodoToFile("From file")
+      await TodoTool.execute({ action: "create", title: "From storage" }, mockCtx)
+
+      const result = await Sync.run(filePath, { prefer: "storage" })
+
+      expect(result.direction).toBe("export")
+      const titles = parseDadGPTMd(await fs.readFile(filePath, "utf-8")).todos.map((t) => t.title)
+      expect(titles).toEqual(["First", "From storage"])
+      expect(await loadAll<StoredTodo>("todos")).toHaveLength(2)
+    })
+
+    test("dry run changes nothing", async () => {
+      await fs.copyFile(FIXTURE_PATH, filePath)
+      const before = await fs.readFile(filePath, "utf-8")
+
+      const result = await Sync.run(filePath, { dryRun: true })
+
+      expect(result.direction).toBe("import")
+      expect(result.fileUpdated).toBe(true)
+      expect(await fs.readFile(filePath, "utf-8")).toBe(before)
+      expect(await Storage.list(["goals"])).toHaveLength(0)
+      expect(await Storage.list(["sync"])).toHaveLength(0)
+    })
+  })
+})
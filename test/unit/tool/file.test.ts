@@ -199,4 +199,20 @@ describe("File Tools", () => {
       }
     })
   })
+
+  describe("resource", () => {
+    test("resolves the path used by permission rules", () => {
+      expect(ReadTool.resource?.({ path: "~/notes/a.md" })).toBe(
+        path.join(os.homedir(), "notes/a.md")
+      )
+      expect(
+        WriteTool.resource?.({
+          path: "/data/notes/../.ssh/key",
+          content: "",
+          append: false,
+          createDirectories: true,
+        })
+      ).toBe("/data/.ssh/key")
+    })
+  })
 })
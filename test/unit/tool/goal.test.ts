@@ -1,5 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
 import { GoalTool } from "../../../src/tool/goal"
+import { TodoTool } from "../../../src/tool/todo"
+import { ProjectTool } from "../../../src/tool/project"
 import { Storage } from "../../../src/storage/storage"
 import { Bus } from "../../../src/bus/bus"
 import * as fs from "node:fs/promises"
@@ -443,6 +445,60 @@ describe("Goal Tool", () => {
   })
 
   describe("update action", () => {
+    test("switching to auto progress recalculates from milestones", async () => {
+      const createResult = await GoalTool.execute(
+        {
+          action: "create",
+          title: "Run a marathon",
+          milestones: [{ title: "5K" }, { title: "10K" }, { title: "Half" }, { title: "Full" }],
+        },
+        mockCtx
+      )
+      const goalId = createResult.metadata?.goalId as string
+      await GoalTool.execute({ action: "transition", id: goalId, event: "START" }, mockCtx)
+      await GoalTool.execute(
+        { action: "transition", id: goalId, event: "COMPLETE_MILESTONE", milestoneId: `${goalId}_m0` },
+        mockCtx
+      )
+
+      const result = await GoalTool.execute(
+        { action: "update", id: goalId, progressMode: "auto" },
+        mockCtx
+      )
+      expect(result.output).toContain("Progress is now 25%")
+
+      // Completing a milestone recalculates right away
+      await GoalTool.execute(
+        { action: "transition", id: goalId, event: "COMPLETE_MILESTONE", milestoneId: `${goalId}_m1` },
+        mockCtx
+      )
+      const getResult = await GoalTool.execute({ action: "get", id: goalId }, mockCtx)
+      expect(getResult.output).toContain("Progress: 50% (auto)")
+    })
+
+    test("setting progress by hand switches back to manual", async () => {
+      const createResult = await GoalTool.execute(
+        { action: "create", title: "Read 20 books", progressMode: "auto" },
+        mockCtx
+      )
+      const goalId = createResult.metadata?.goalId as string
+
+      const result = await GoalTool.execute(
+        { action: "update", id: goalId, progress: 40 },
+        mockCtx
+      )
+
+      expect(result.metadata?.changes).toEqual({ progress: 40, progressMode: "manual" })
+      const stored = await Storage.read<{ progress: number; progressMode: string }>(["goals", goalId])
+      expect(stored).toMatchObject({ progress: 40, progressMode: "manual" })
+
+      const conflict = await GoalTool.execute(
+        { action: "update", id: goalId, progress: 50, progressMode: "auto" },
+        mockCtx
+      )
+      expect(conflict.title).toBe("Error")
+    })
+
     test("update goal title", async () => {
       const createResult = await GoalTool.execute(
         { action: "create", title: "Original Title" },
@@ -591,6 +647,47 @@ describe("Goal Tool", () => {
       expect(handler).toHaveBeenCalledWith({ goalId })
     })
 
+    test("delete with refuse policy keeps a goal that has linked work", async () => {
+      const createResult = await GoalTool.execute({ action: "create", title: "Fitness" }, mockCtx)
+      const goalId = createResult.metadata?.goalId as string
+      await TodoTool.execute({ action: "create", title: "Buy shoes", goalId }, mockCtx)
+
+      const result = await GoalTool.execute({ action: "delete", id: goalId, policy: "refuse" }, mockCtx)
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain('still referenced by 1 todo ("Buy shoes")')
+      expect(await Storage.exists(["goals", goalId])).toBe(true)
+    })
+
+    test("delete with cascade policy deletes the goal's projects and their todos", async () => {
+      const createResult = await GoalTool.execute({ action: "create", title: "Fitness" }, mockCtx)
+      const goalId = createResult.metadata?.goalId as string
+      const project = await ProjectTool.execute({ action: "create", name: "Home gym", goalId }, mockCtx)
+      const projectId = project.metadata?.projectId as string
+      const todo = await TodoTool.execute({ action: "create", title: "Buy weights", projectId }, mockCtx)
+      const todoId = todo.metadata?.todoId as string
+
+      const result = await GoalTool.execute({ action: "delete", id: goalId, policy: "cascade" }, mockCtx)
+
+      expect(result.title).toBe("Goal Deleted")
+      expect(result.output).toContain('Also deleted 1 todo ("Buy weights") and 1 project ("Home gym")')
+      expect(result.metadata).toMatchObject({ deletedTodoIds: [todoId], deletedProjectIds: [projectId] })
+      expect(await Storage.exists(["projects", projectId])).toBe(false)
+      expect(await Storage.exists(["todos", todoId])).toBe(false)
+    })
+
+    test("delete detaches linked todos by default", async () => {
+      const createResult = await GoalTool.execute({ action: "create", title: "Fitness" }, mockCtx)
+      const goalId = createResult.metadata?.goalId as string
+      const todo = await TodoTool.execute({ action: "create", title: "Stretch", goalId }, mockCtx)
+      const todoId = todo.metadata?.todoId as string
+
+      const result = await GoalTool.execute({ action: "delete", id: goalId }, mockCtx)
+
+      expect(result.output).toContain('Detached 1 todo ("Stretch")')
+      expect(await Storage.read(["todos", todoId])).toMatchObject({ goalId: null })
+    })
+
     test("delete non-existent goal returns error", async () => {
       const result = await GoalTool.execute(
         { action: "delete", id: "nonexistent-id" },
@@ -608,4 +705,43 @@ describe("Goal Tool", () => {
       expect(result.output).toContain("ID is required")
     })
   })
+
+  describe("restore and purge actions", () => {
+    test("restore brings back a goal with the work deleted along with it", async () => {
+      const createResult = await GoalTool.execute({ action: "create", title: "Fitness" }, mockCtx)
+      const goalId = createResult.metadata?.goalId as string
+      const project = await ProjectTool.execute({ action: "create", name: "Home gym", goalId }, mockCtx)
+      const projectId = project.metadata?.projectId as string
+      const todo = await TodoTool.execute({ action: "create", title: "Stretch", goalId }, mockCtx)
+      const todoId = todo.metadata?.todoId as string
+      await GoalTool.execute({ action: "delete", id: goalId, policy: "cascade" }, mockCtx)
+
+      const result = await GoalTool.execute({ action: "restore", id: goalId }, mockCtx)
+
+      expect(result.title).toBe("Goal Restored")
+      expect(result.output).toContain('Also restored 1 project ("Home gym") and 1 todo ("Stretch")')
+      expect(await Storage.read(["goals", goalId])).toMatchObject({ title: "Fitness" })
+      expect(await Storage.read(["projects", projectId])).toMatchObject({ goalId })
+      expect(await Storage.read(["todos", todoId])).toMatchObject({ goalId })
+    })
+
+    test("restore of a goal that is not in the trash returns error", async () => {
+      const result = await GoalTool.execute({ action: "restore", id: "goal_missing" }, mockCtx)
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain("Goal not found in trash")
+    })
+
+    test("purge permanently deletes a trashed goal", async () => {
+      const createResult = await GoalTool.execute({ action: "create", title: "Fitness" }, mockCtx)
+      const goalId = createResult.metadata?.goalId as string
+      await GoalTool.execute({ action: "delete", id: goalId }, mockCtx)
+
+      const result = await GoalTool.execute({ action: "purge", id: goalId }, mockCtx)
+
+      expect(result.title).toBe("Goal Purged")
+      const restore = await GoalTool.execute({ action: "restore", id: goalId }, mockCtx)
+      expect(restore.output).toContain("Goal not found in trash")
+    })
+  })
 })
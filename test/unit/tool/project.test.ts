@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
 import { ProjectTool } from "../../../src/tool/project"
+import { TodoTool } from "../../../src/tool/todo"
 import { Storage } from "../../../src/storage/storage"
 import { Bus } from "../../../src/bus/bus"
 import * as fs from "node:fs/promises"
@@ -249,6 +250,48 @@ describe("Project Tool", () => {
       expect(result.output).toContain("[ ] Second Step")
     })
 
+    test("get reports progress from milestones and linked todos", async () => {
+      const createResult = await ProjectTool.execute(
+        { action: "create", name: "Treehouse" },
+        mockCtx
+      )
+      const projectId = createResult.metadata?.projectId as string
+      await ProjectTool.execute({ action: "transition", id: projectId, event: "START" }, mockCtx)
+      const milestone = await ProjectTool.execute(
+        { action: "addMilestone", id: projectId, milestoneTitle: "Design" },
+        mockCtx
+      )
+      await ProjectTool.execute(
+        { action: "addMilestone", id: projectId, milestoneTitle: "Build" },
+        mockCtx
+      )
+      await ProjectTool.execute(
+        {
+          action: "transition",
+          id: projectId,
+          event: "COMPLETE_MILESTONE",
+          milestoneId: milestone.metadata?.milestoneId as string,
+        },
+        mockCtx
+      )
+
+      const todoIds: string[] = []
+      for (const title of ["Buy wood", "Buy nails", "Hire crane"]) {
+        const todo = await TodoTool.execute({ action: "create", title, projectId }, mockCtx)
+        todoIds.push(todo.metadata?.todoId as string)
+      }
+      await TodoTool.execute({ action: "complete", id: todoIds[0] }, mockCtx)
+      await TodoTool.execute({ action: "transition", id: todoIds[2], event: "CANCEL" }, mockCtx)
+
+      const result = await ProjectTool.execute({ action: "get", id: projectId }, mockCtx)
+
+      // 1 of 2 milestones plus 1 of 2 todos; the cancelled todo doesn't count
+      expect(result.output).toContain("Progress: 50% (1/2 milestones, 1/2 todos)")
+      expect(result.output).toContain(`[done] Buy wood (ID: ${todoIds[0]})`)
+      expect(result.output).toContain(`[pending] Buy nails (ID: ${todoIds[1]})`)
+      expect(result.metadata?.progress).toBe(50)
+    })
+
     test("get non-existent project returns error", async () => {
       const result = await ProjectTool.execute(
         { action: "get", id: "nonexistent-id" },
@@ -705,6 +748,34 @@ describe("Project Tool", () => {
       expect(handler).toHaveBeenCalledWith({ projectId })
     })
 
+    test("delete unlinks the project's todos", async () => {
+      const createResult = await ProjectTool.execute(
+        { action: "create", name: "Garage" },
+        mockCtx
+      )
+      const projectId = createResult.metadata?.projectId as string
+      const todo = await TodoTool.execute({ action: "create", title: "Sweep", projectId }, mockCtx)
+      const todoId = todo.metadata?.todoId as string
+
+      const result = await ProjectTool.execute({ action: "delete", id: projectId }, mockCtx)
+
+      expect(result.output).toContain('Detached 1 todo ("Sweep")')
+      expect(result.metadata).toMatchObject({ policy: "detach", detachedTodoIds: [todoId] })
+      expect(await Storage.read(["todos", todoId])).toMatchObject({ projectId: null })
+    })
+
+    test("delete with refuse policy fails while todos are linked", async () => {
+      const createResult = await ProjectTool.execute({ action: "create", name: "Garage" }, mockCtx)
+      const projectId = createResult.metadata?.projectId as string
+      await TodoTool.execute({ action: "create", title: "Sweep", projectId }, mockCtx)
+
+      const result = await ProjectTool.execute({ action: "delete", id: projectId, policy: "refuse" }, mockCtx)
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain('Cannot delete project "Garage"')
+      expect(await Storage.exists(["projects", projectId])).toBe(true)
+    })
+
     test("delete non-existent project returns error", async () => {
       const result = await ProjectTool.execute(
         { action: "delete", id: "nonexistent-id" },
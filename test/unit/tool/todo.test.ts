@@ -1,7 +1,11 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
-import { TodoTool } from "../../../src/tool/todo"
+import { TodoTool, wakeDeferredTodos } from "../../../src/tool/todo"
+import { ProjectTool } from "../../../src/tool/project"
 import { Storage } from "../../../src/storage/storage"
+import { Migration } from "../../../src/migration/migration"
 import { Bus } from "../../../src/bus/bus"
+import { GoalTool } from "../../../src/tool/goal"
+import { GoalProgress } from "../../../src/goal/progress"
 import * as fs from "node:fs/promises"
 import * as path from "node:path"
 import * as os from "node:os"
@@ -300,6 +304,140 @@ describe("Todo Tool", () => {
     })
   })
 
+  describe("update action", () => {
+    test("updates fields in place and keeps the ID", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Fix gutter", priority: "low", tags: ["house"] },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+      const before = await Storage.read<Record<string, unknown>>(["todos", todoId])
+
+      const result = await TodoTool.execute(
+        {
+          action: "update",
+          id: todoId,
+          title: "Fix front gutter",
+          priority: "high",
+          tags: ["house", "outside"],
+          dueDate: "2026-11-01",
+          description: "Before the rain",
+          goalId: "goal-123",
+        },
+        mockCtx
+      )
+
+      expect(result.title).toBe("Todo Updated")
+      expect(result.output).toContain("priority: low → high")
+      expect(result.output).toContain("dueDate: (none) → 2026-11-01")
+
+      const after = await Storage.read<Record<string, unknown>>(["todos", todoId])
+      expect(after).toMatchObject({
+        id: todoId,
+        title: "Fix front gutter",
+        priority: "high",
+        tags: ["house", "outside"],
+        dueDate: "2026-11-01",
+        description: "Before the rain",
+        goalId: "goal-123",
+        state: "pending",
+        createdAt: before?.createdAt,
+      })
+    })
+
+    test("only records fields that changed and publishes todo.updated", async () => {
+      const handler = vi.fn()
+      Bus.subscribe("todo.updated", handler)
+
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Fix gutter", priority: "high" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      const result = await TodoTool.execute(
+        { action: "update", id: todoId, title: "Fix gutter", priority: "high", tags: ["house"] },
+        mockCtx
+      )
+
+      expect(result.metadata?.changes).toEqual({ tags: ["house"] })
+      expect(result.metadata?.previous).toEqual({ tags: [] })
+      expect(handler).toHaveBeenCalledOnce()
+      expect(handler).toHaveBeenCalledWith({ todoId, changes: { tags: ["house"] } })
+    })
+
+    test("empty strings clear the due date, recurrence, and goal", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Trash", dueDate: "2026-10-20", recurrence: "weekly", goalId: "goal-1" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      await TodoTool.execute(
+        { action: "update", id: todoId, dueDate: "", recurrence: "", goalId: "" },
+        mockCtx
+      )
+
+      const todo = await Storage.read<Record<string, unknown>>(["todos", todoId])
+      expect(todo).toMatchObject({ dueDate: null, recurrence: null, goalId: null })
+    })
+
+    test("normalizes and validates the recurrence", async () => {
+      const createResult = await TodoTool.execute({ action: "create", title: "Trash" }, mockCtx)
+      const todoId = createResult.metadata?.todoId as string
+
+      const bad = await TodoTool.execute(
+        { action: "update", id: todoId, recurrence: "FREQ=YEARLY" },
+        mockCtx
+      )
+      expect(bad.title).toBe("Error")
+
+      await TodoTool.execute(
+        { action: "update", id: todoId, recurrence: "rrule:freq=weekly;byday=tu" },
+        mockCtx
+      )
+      const todo = await Storage.read<Record<string, unknown>>(["todos", todoId])
+      expect(todo?.recurrence).toBe("FREQ=WEEKLY;BYDAY=TU")
+    })
+
+    test("concurrent updates to different fields both land", async () => {
+      const createResult = await TodoTool.execute({ action: "create", title: "Fix gutter" }, mockCtx)
+      const todoId = createResult.metadata?.todoId as string
+
+      await Promise.all([
+        TodoTool.execute({ action: "update", id: todoId, priority: "high" }, mockCtx),
+        TodoTool.execute({ action: "update", id: todoId, tags: ["house"] }, mockCtx),
+        TodoTool.execute({ action: "update", id: todoId, dueDate: "2026-11-01" }, mockCtx),
+      ])
+
+      const todo = await Storage.read<Record<string, unknown>>(["todos", todoId])
+      expect(todo).toMatchObject({ priority: "high", tags: ["house"], dueDate: "2026-11-01" })
+    })
+
+    test("returns No Changes when nothing differs", async () => {
+      const createResult = await TodoTool.execute({ action: "create", title: "Same" }, mockCtx)
+      const todoId = createResult.metadata?.todoId as string
+
+      const result = await TodoTool.execute({ action: "update", id: todoId, title: "Same" }, mockCtx)
+
+      expect(result.title).toBe("No Changes")
+    })
+
+    test("requires an existing todo and a non-empty title", async () => {
+      const missingId = await TodoTool.execute({ action: "update", title: "X" }, mockCtx)
+      const notFound = await TodoTool.execute({ action: "update", id: "nope", title: "X" }, mockCtx)
+      const createResult = await TodoTool.execute({ action: "create", title: "Keep" }, mockCtx)
+      const emptyTitle = await TodoTool.execute(
+        { action: "update", id: createResult.metadata?.todoId as string, title: " " },
+        mockCtx
+      )
+
+      expect(missingId.output).toContain("ID is required")
+      expect(notFound.output).toContain("Todo not found")
+      expect(emptyTitle.output).toContain("Title cannot be empty")
+    })
+  })
+
   describe("complete action", () => {
     test("complete shortcut marks todo as done", async () => {
       const createResult = await TodoTool.execute(
@@ -365,6 +503,7 @@ describe("Todo Tool", () => {
         mockCtx
       )
       const todoId = createResult.metadata?.todoId as string
+      const blocker = await TodoTool.execute({ action: "create", title: "Other Todo" }, mockCtx)
 
       // Start then block
       await TodoTool.execute(
@@ -372,7 +511,12 @@ describe("Todo Tool", () => {
         mockCtx
       )
       await TodoTool.execute(
-        { action: "transition", id: todoId, event: "BLOCK", blockedBy: "other-todo" },
+        {
+          action: "transition",
+          id: todoId,
+          event: "BLOCK",
+          blockedBy: [blocker.metadata?.todoId as string],
+        },
         mockCtx
       )
 
@@ -386,13 +530,196 @@ describe("Todo Tool", () => {
     })
   })
 
+  describe("recurring todos", () => {
+    test("create normalizes the recurrence and get describes it", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Take out the trash", recurrence: "freq=weekly;byday=tu" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      const todo = await Storage.read<{ recurrence: string | null }>(["todos", todoId])
+      expect(todo?.recurrence).toBe("FREQ=WEEKLY;BYDAY=TU")
+
+      const getResult = await TodoTool.execute({ action: "get", id: todoId }, mockCtx)
+      expect(getResult.output).toContain("Recurs: Every Tuesday")
+
+      const listResult = await TodoTool.execute({ action: "list" }, mockCtx)
+      expect(listResult.output).toContain("| Recurs: Every Tuesday")
+    })
+
+    test("create rejects an unsupported recurrence", async () => {
+      const result = await TodoTool.execute(
+        { action: "create", title: "Bad", recurrence: "FREQ=YEARLY" },
+        mockCtx
+      )
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain("Unsupported recurrence frequency")
+      expect(await Storage.list(["todos"])).toHaveLength(0)
+    })
+
+    test("completing a recurring todo creates the next occurrence", async () => {
+      const created = vi.fn()
+      Bus.subscribe("todo.created", created)
+
+      const createResult = await TodoTool.execute(
+        {
+          action: "create",
+          title: "Pay mortgage",
+          priority: "high",
+          tags: ["bills"],
+          dueDate: "2099-01-01",
+          recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+        },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      const result = await TodoTool.execute({ action: "complete", id: todoId }, mockCtx)
+      const nextId = result.metadata?.nextTodoId as string
+
+      expect(nextId).toBeDefined()
+      expect(nextId).not.toBe(todoId)
+      expect(result.output).toContain("Next occurrence due 2099-02-01")
+      expect(created).toHaveBeenCalledWith({ todoId: nextId })
+
+      const next = await Storage.read<Record<string, unknown>>(["todos", nextId])
+      expect(next).toMatchObject({
+        title: "Pay mortgage",
+        priority: "high",
+        tags: ["bills"],
+        dueDate: "2099-02-01",
+        recurrence: "FREQ=MONTHLY;BYMONTHDAY=1",
+        state: "pending",
+        completedAt: null,
+      })
+    })
+
+    test("a monthly todo due on the 31st returns to the 31st after February", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Pay rent", dueDate: "2099-01-31", recurrence: "monthly" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+      const todo = await Storage.read<{ recurrence: string }>(["todos", todoId])
+      expect(todo?.recurrence).toBe("FREQ=MONTHLY;BYMONTHDAY=31")
+
+      const february = await TodoTool.execute({ action: "complete", id: todoId }, mockCtx)
+      expect(february.output).toContain("Next occurrence due 2099-02-28")
+
+      const march = await TodoTool.execute(
+        { action: "complete", id: february.metadata?.nextTodoId as string },
+        mockCtx
+      )
+      expect(march.output).toContain("Next occurrence due 2099-03-31")
+    })
+
+    test("update pins a new monthly rule to the stored due date", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Pay rent", dueDate: "2099-01-30" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      await TodoTool.execute({ action: "update", id: todoId, recurrence: "monthly" }, mockCtx)
+
+      const todo = await Storage.read<{ recurrence: string }>(["todos", todoId])
+      expect(todo?.recurrence).toBe("FREQ=MONTHLY;BYMONTHDAY=30")
+    })
+
+    test("the COMPLETE transition also creates the next occurrence", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Water plants", dueDate: "2099-03-10T08:00", recurrence: "FREQ=DAILY;INTERVAL=3" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      const result = await TodoTool.execute(
+        { action: "transition", id: todoId, event: "COMPLETE" },
+        mockCtx
+      )
+
+      const next = await Storage.read<{ dueDate: string }>(["todos", result.metadata?.nextTodoId as string])
+      expect(next?.dueDate).toBe("2099-03-13T08:00")
+    })
+
+    test("skips occurrences that are already in the past", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Trash", dueDate: "2020-01-07", recurrence: "FREQ=WEEKLY;BYDAY=TU" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      const result = await TodoTool.execute({ action: "complete", id: todoId }, mockCtx)
+      const next = await Storage.read<{ dueDate: string }>(["todos", result.metadata?.nextTodoId as string])
+
+      const now = new Date()
+      const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`
+      expect(next!.dueDate >= today).toBe(true)
+      expect(new Date(`${next!.dueDate}T00:00:00Z`).getUTCDay()).toBe(2)
+    })
+
+    test("does not create an occurrence after UNTIL or for one-off todos", async () => {
+      const recurring = await TodoTool.execute(
+        { action: "create", title: "Last one", dueDate: "2099-01-05", recurrence: "FREQ=WEEKLY;UNTIL=20990110" },
+        mockCtx
+      )
+      const oneOff = await TodoTool.execute({ action: "create", title: "Once" }, mockCtx)
+
+      const first = await TodoTool.execute(
+        { action: "complete", id: recurring.metadata?.todoId as string },
+        mockCtx
+      )
+      const second = await TodoTool.execute(
+        { action: "complete", id: oneOff.metadata?.todoId as string },
+        mockCtx
+      )
+
+      expect(first.metadata?.nextTodoId).toBeUndefined()
+      expect(second.metadata?.nextTodoId).toBeUndefined()
+      expect(await Storage.list(["todos"])).toHaveLength(2)
+    })
+  })
+
   describe("transition action", () => {
+    test("publishes todo.updated for every state change, so linked goals recalculate", async () => {
+      const handler = vi.fn()
+      Bus.subscribe("todo.updated", handler)
+      GoalProgress.init()
+      try {
+        const goal = await GoalTool.execute({ action: "create", title: "Garden", progressMode: "auto" }, mockCtx)
+        const goalId = goal.metadata?.goalId as string
+        const ids: string[] = []
+        for (const title of ["Dig", "Plant"]) {
+          const todo = await TodoTool.execute({ action: "create", title, goalId }, mockCtx)
+          ids.push(todo.metadata?.todoId as string)
+        }
+        await TodoTool.execute({ action: "complete", id: ids[0] }, mockCtx)
+        await GoalProgress.settled()
+        expect((await Storage.read<{ progress: number }>(["goals", goalId]))?.progress).toBe(50)
+
+        await TodoTool.execute({ action: "transition", id: ids[1], event: "CANCEL" }, mockCtx)
+        await GoalProgress.settled()
+        expect(handler).toHaveBeenCalledWith({ todoId: ids[1], changes: { state: "cancelled" } })
+        expect((await Storage.read<{ progress: number }>(["goals", goalId]))?.progress).toBe(100)
+
+        await TodoTool.execute({ action: "transition", id: ids[0], event: "REOPEN" }, mockCtx)
+        await GoalProgress.settled()
+        expect((await Storage.read<{ progress: number }>(["goals", goalId]))?.progress).toBe(0)
+      } finally {
+        GoalProgress.dispose()
+      }
+    })
+
     test("block and unblock todo", async () => {
       const createResult = await TodoTool.execute(
         { action: "create", title: "Block Test" },
         mockCtx
       )
       const todoId = createResult.metadata?.todoId as string
+      const blocker = await TodoTool.execute({ action: "create", title: "Blocker" }, mockCtx)
+      const blockerId = blocker.metadata?.todoId as string
 
       // Start the todo
       await TodoTool.execute(
@@ -402,7 +729,7 @@ describe("Todo Tool", () => {
 
       // Block it
       let result = await TodoTool.execute(
-        { action: "transition", id: todoId, event: "BLOCK", blockedBy: "blocker-123" },
+        { action: "transition", id: todoId, event: "BLOCK", blockedBy: [blockerId] },
         mockCtx
       )
       expect(result.output).toContain("in_progress to blocked")
@@ -412,7 +739,7 @@ describe("Todo Tool", () => {
         { action: "get", id: todoId },
         mockCtx
       )
-      expect(getResult.output).toContain("Blocked By: blocker-123")
+      expect(getResult.output).toContain(`Blocked By: ${blockerId}`)
 
       // Unblock it
       result = await TodoTool.execute(
@@ -440,12 +767,12 @@ describe("Todo Tool", () => {
       )
 
       expect(result.title).toBe("Error")
-      expect(result.output).toContain("blockedBy is required")
+      expect(result.output).toContain("blockedBy (todo IDs) is required")
     })
 
     test("defer with date", async () => {
       const createResult = await TodoTool.execute(
-        { action: "create", title: "Defer Test" },
+        { action: "create", title: "Defer Test", dueDate: "2026-01-10" },
         mockCtx
       )
       const todoId = createResult.metadata?.todoId as string
@@ -457,12 +784,29 @@ describe("Todo Tool", () => {
 
       expect(result.output).toContain("pending to deferred")
 
-      // Verify dueDate is updated
+      // Verify the due date is kept alongside the deferral
       const getResult = await TodoTool.execute(
         { action: "get", id: todoId },
         mockCtx
       )
-      expect(getResult.output).toContain("Due Date: 2025-12-31")
+      expect(getResult.output).toContain("Due Date: 2026-01-10")
+      expect(getResult.output).toContain("Deferred Until: 2025-12-31")
+    })
+
+    test("DEFER rejects an until that is not a date", async () => {
+      const createResult = await TodoTool.execute(
+        { action: "create", title: "Defer Test" },
+        mockCtx
+      )
+      const todoId = createResult.metadata?.todoId as string
+
+      const result = await TodoTool.execute(
+        { action: "transition", id: todoId, event: "DEFER", until: "next week" },
+        mockCtx
+      )
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain("until must be a date")
     })
 
     test("DEFER requires until parameter", async () => {
@@ -585,6 +929,245 @@ describe("Todo Tool", () => {
     })
   })
 
+  describe("projects", () => {
+    async function createProject(name: string): Promise<string> {
+      const id = `project_${name.toLowerCase()}`
+      await Storage.write(["projects", id], {
+        id,
+        name,
+        description: "",
+        status: "planning",
+        budget: null,
+        milestones: [],
+        todoIds: [],
+        goalId: null,
+        createdAt: 1000,
+        updatedAt: 1000,
+        state: "planning",
+      })
+      return id
+    }
+
+    async function todoIdsOf(projectId: string): Promise<string[] | undefined> {
+      return (await Storage.read<{ todoIds: string[] }>(["projects", projectId]))?.todoIds
+    }
+
+    test("create links the todo to its project", async () => {
+      const projectId = await createProject("Garage")
+
+      const result = await TodoTool.execute(
+        { action: "create", title: "Sweep", projectId },
+        mockCtx
+      )
+      const todoId = result.metadata?.todoId as string
+
+      expect(await todoIdsOf(projectId)).toEqual([todoId])
+      const getResult = await TodoTool.execute({ action: "get", id: todoId }, mockCtx)
+      expect(getResult.output).toContain(`Project ID: ${projectId}`)
+    })
+
+    test("create rejects an unknown project", async () => {
+      const result = await TodoTool.execute(
+        { action: "create", title: "Sweep", projectId: "project_missing" },
+        mockCtx
+      )
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toBe("Project not found: project_missing")
+    })
+
+    test("update moves the todo between projects and delete unlinks it", async () => {
+      const garage = await createProject("Garage")
+      const yard = await createProject("Yard")
+      const result = await TodoTool.execute(
+        { action: "create", title: "Sweep", projectId: garage },
+        mockCtx
+      )
+      const todoId = result.metadata?.todoId as string
+
+      await TodoTool.execute({ action: "update", id: todoId, projectId: yard }, mockCtx)
+      expect(await todoIdsOf(garage)).toEqual([])
+      expect(await todoIdsOf(yard)).toEqual([todoId])
+
+      await TodoTool.execute({ action: "delete", id: todoId }, mockCtx)
+      expect(await todoIdsOf(yard)).toEqual([])
+    })
+  })
+
+  describe("wakeDeferredTodos", () => {
+    test("returns todos to pending on or after their deferral date", async () => {
+      const handler = vi.fn()
+      Bus.subscribe("todo.woke", handler)
+      const ids: string[] = []
+      for (const until of ["2026-03-01", "2026-03-02"]) {
+        const created = await TodoTool.execute(
+          { action: "create", title: `Deferred to ${until}`, dueDate: "2026-04-01" },
+          mockCtx
+        )
+        const id = created.metadata?.todoId as string
+        await TodoTool.execute({ action: "transition", id, event: "DEFER", until }, mockCtx)
+        ids.push(id)
+      }
+
+      const woken = await wakeDeferredTodos(new Date(2026, 2, 1, 8, 0))
+
+      expect(woken.map((t) => t.id)).toEqual([ids[0]])
+      expect(await Storage.read(["todos", ids[0]!])).toMatchObject({
+        state: "pending",
+        dueDate: "2026-04-01",
+        deferredUntil: null,
+      })
+      expect(await Storage.read(["todos", ids[1]!])).toMatchObject({ state: "deferred" })
+      expect(handler).toHaveBeenCalledWith({ todoId: ids[0], deferredUntil: "2026-03-01" })
+    })
+
+    test("wakes todos deferred by older versions using their due date", async () => {
+      await Storage.write(["todos", "todo_legacy"], {
+        id: "todo_legacy",
+        title: "Legacy",
+        description: "",
+        priority: "medium",
+        dueDate: "2026-03-01",
+        tags: [],
+        goalId: null,
+        blockedBy: null,
+        createdAt: 1000,
+        updatedAt: 1000,
+        completedAt: null,
+        state: "deferred",
+      })
+      await Migration.run()
+
+      const woken = await wakeDeferredTodos(new Date(2026, 2, 1))
+
+      expect(woken.map((t) => t.id)).toEqual(["todo_legacy"])
+    })
+  })
+
+  describe("dependencies", () => {
+    async function create(title: string, blockedBy?: string[]): Promise<string> {
+      const result = await TodoTool.execute({ action: "create", title, blockedBy }, mockCtx)
+      return result.metadata?.todoId as string
+    }
+
+    test("a todo created with open blockers starts blocked", async () => {
+      const buyPaint = await create("Buy paint")
+      const done = await create("Get quote")
+      await TodoTool.execute({ action: "complete", id: done }, mockCtx)
+
+      const paint = await create("Paint fence", [buyPaint, done])
+      const stored = await Storage.read<{ state: string; blockedBy: string[] }>(["todos", paint])
+      expect(stored).toMatchObject({ state: "blocked", blockedBy: [buyPaint, done] })
+
+      // Blockers that are already done don't block
+      const sand = await create("Sand fence", [done])
+      expect((await Storage.read<{ state: string }>(["todos", sand]))?.state).toBe("pending")
+    })
+
+    test("rejects unknown blockers", async () => {
+      const result = await TodoTool.execute(
+        { action: "create", title: "Paint fence", blockedBy: ["todo_missing"] },
+        mockCtx
+      )
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain("Blocking todo not found: todo_missing")
+      expect(await Storage.list(["todos"])).toHaveLength(0)
+    })
+
+    test("BLOCK rejects dependency cycles", async () => {
+      const a = await create("A")
+      const b = await create("B", [a])
+      const c = await create("C", [b])
+
+      const result = await TodoTool.execute(
+        { action: "transition", id: a, event: "BLOCK", blockedBy: [c] },
+        mockCtx
+      )
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toBe('Dependency cycle detected: "A" → "C" → "B" → "A"')
+
+      const self = await TodoTool.execute(
+        { action: "transition", id: a, event: "BLOCK", blockedBy: [a] },
+        mockCtx
+      )
+      expect(self.output).toBe("A todo cannot be blocked by itself.")
+    })
+
+    test("unblocks dependents once all blockers are done", async () => {
+      const handler = vi.fn()
+      Bus.subscribe("todo.unblocked", handler)
+      const paint = await create("Buy paint")
+      const brushes = await create("Buy brushes")
+      const fence = await create("Paint fence", [paint, brushes])
+
+      let result = await TodoTool.execute({ action: "complete", id: paint }, mockCtx)
+      expect(result.metadata?.unblockedIds).toEqual([])
+      expect((await Storage.read<{ state: string }>(["todos", fence]))?.state).toBe("blocked")
+
+      await TodoTool.execute({ action: "transition", id: brushes, event: "START" }, mockCtx)
+      result = await TodoTool.execute(
+        { action: "transition", id: brushes, event: "COMPLETE" },
+        mockCtx
+      )
+
+      expect(result.output).toContain('Unblocked: "Paint fence"')
+      expect(result.metadata?.unblockedIds).toEqual([fence])
+      // Never started, so it goes back to pending
+      expect((await Storage.read<{ state: string }>(["todos", fence]))?.state).toBe("pending")
+      expect(handler).toHaveBeenCalledWith({ todoId: fence, blockedBy: [paint, brushes] })
+    })
+
+    test("chain shows blockers recursively and dependents", async () => {
+      const quote = await create("Get quote")
+      const paint = await create("Buy paint", [quote])
+      const fence = await create("Paint fence", [paint])
+      await create("Hang lights", [fence])
+      await TodoTool.execute({ action: "complete", id: quote }, mockCtx)
+
+      const result = await TodoTool.execute({ action: "chain", id: fence }, mockCtx)
+
+      expect(result.output).toBe(
+        [
+          `- [blocked] Paint fence (ID: ${fence})`,
+          `  - [pending] Buy paint (ID: ${paint})`,
+          `    - [done] Get quote (ID: ${quote})`,
+          'Blocks: "Hang lights"',
+        ].join("\n")
+      )
+      expect(result.metadata).toMatchObject({ blockers: [paint, quote], remaining: [paint] })
+    })
+
+    test("reads a legacy blockedBy as an ID only when it names a todo", async () => {
+      const plumber = await create("Call the plumber")
+      const legacy = (id: string, blockedBy: string) => ({
+        id,
+        title: id,
+        description: "",
+        priority: "medium",
+        dueDate: null,
+        tags: [],
+        goalId: null,
+        blockedBy,
+        createdAt: 1000,
+        updatedAt: 1000,
+        completedAt: null,
+        state: "blocked",
+      })
+      await Storage.write(["todos", "todo_by_id"], legacy("todo_by_id", plumber))
+      await Storage.write(["todos", "todo_by_text"], legacy("todo_by_text", "waiting on the plumber"))
+      await Migration.run()
+
+      const byId = await TodoTool.execute({ action: "chain", id: "todo_by_id" }, mockCtx)
+      const byText = await TodoTool.execute({ action: "get", id: "todo_by_text" }, mockCtx)
+
+      expect(byId.output).toContain(`- [pending] Call the plumber (ID: ${plumber})`)
+      expect(byText.output).toContain("Blocked by: waiting on the plumber")
+      expect(await Storage.read(["todos", "todo_by_text"])).toMatchObject({ blockedBy: [] })
+    })
+  })
+
   describe("delete action", () => {
     test("delete todo", async () => {
       const createResult = await TodoTool.execute(
@@ -626,6 +1209,84 @@ describe("Todo Tool", () => {
       expect(handler).toHaveBeenCalledWith({ todoId })
     })
 
+    test("delete unblocks todos that were only waiting on it", async () => {
+      const blocker = await TodoTool.execute({ action: "create", title: "Order lumber" }, mockCtx)
+      const blockerId = blocker.metadata?.todoId as string
+      const blocked = await TodoTool.execute(
+        { action: "create", title: "Build shed", blockedBy: [blockerId] },
+        mockCtx
+      )
+      const blockedId = blocked.metadata?.todoId as string
+
+      const result = await TodoTool.execute({ action: "delete", id: blockerId }, mockCtx)
+
+      expect(result.output).toContain('Unblocked: "Build shed"')
+      expect(await Storage.read(["todos", blockedId])).toMatchObject({ state: "pending", blockedBy: [] })
+    })
+
+    test("delete with cascade policy deletes the todos it blocks", async () => {
+      const first = await TodoTool.execute({ action: "create", title: "Pour footing" }, mockCtx)
+      const firstId = first.metadata?.todoId as string
+      const second = await TodoTool.execute(
+        { action: "create", title: "Frame walls", blockedBy: [firstId] },
+        mockCtx
+      )
+      const secondId = second.metadata?.todoId as string
+      const third = await TodoTool.execute(
+        { action: "create", title: "Roof", blockedBy: [secondId] },
+        mockCtx
+      )
+      const thirdId = third.metadata?.todoId as string
+
+      const result = await TodoTool.execute({ action: "delete", id: firstId, policy: "cascade" }, mockCtx)
+
+      expect(result.output).toContain('Also deleted 2 todos ("Frame walls", "Roof")')
+      expect(await Storage.exists(["todos", secondId])).toBe(false)
+      expect(await Storage.exists(["todos", thirdId])).toBe(false)
+    })
+
+    test("delete with refuse policy fails while other todos wait on it", async () => {
+      const blocker = await TodoTool.execute({ action: "create", title: "Order lumber" }, mockCtx)
+      const blockerId = blocker.metadata?.todoId as string
+      await TodoTool.execute({ action: "create", title: "Build shed", blockedBy: [blockerId] }, mockCtx)
+
+      const result = await TodoTool.execute({ action: "delete", id: blockerId, policy: "refuse" }, mockCtx)
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain('still referenced by 1 todo ("Build shed")')
+    })
+
+    test("restore puts a deleted todo back in its project", async () => {
+      const project = await ProjectTool.execute({ action: "create", name: "Garage" }, mockCtx)
+      const projectId = project.metadata?.projectId as string
+      const todo = await TodoTool.execute({ action: "create", title: "Sweep", projectId }, mockCtx)
+      const todoId = todo.metadata?.todoId as string
+      await TodoTool.execute({ action: "delete", id: todoId }, mockCtx)
+      expect(await Storage.read(["projects", projectId])).toMatchObject({ todoIds: [] })
+
+      const result = await TodoTool.execute({ action: "restore", id: todoId }, mockCtx)
+
+      expect(result.title).toBe("Todo Restored")
+      expect(await Storage.read(["todos", todoId])).toMatchObject({ projectId })
+      expect(await Storage.read(["projects", projectId])).toMatchObject({ todoIds: [todoId] })
+    })
+
+    test("restore refuses a todo deleted along with another record", async () => {
+      const first = await TodoTool.execute({ action: "create", title: "Pour footing" }, mockCtx)
+      const firstId = first.metadata?.todoId as string
+      const second = await TodoTool.execute(
+        { action: "create", title: "Frame walls", blockedBy: [firstId] },
+        mockCtx
+      )
+      const secondId = second.metadata?.todoId as string
+      await TodoTool.execute({ action: "delete", id: firstId, policy: "cascade" }, mockCtx)
+
+      const result = await TodoTool.execute({ action: "restore", id: secondId }, mockCtx)
+
+      expect(result.title).toBe("Error")
+      expect(result.output).toContain('deleted along with todo "Pour footing"')
+    })
+
     test("delete non-existent todo returns error", async () => {
       const result = await TodoTool.execute(
         { action: "delete", id: "nonexistent-id" },
@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest"
+import * as fs from "node:fs/promises"
+import * as path from "node:path"
+import * as os from "node:os"
+import { Trash } from "../../src/trash/trash"
+import { Integrity } from "../../src/integrity/integrity"
+import { Storage } from "../../src/storage/storage"
+import { Bus } from "../../src/bus/bus"
+import { createTodoContext } from "../../src/state/todo.machine"
+import { createProjectContext } from "../../src/state/project.machine"
+import { createGoalContext } from "../../src/state/goal.machine"
+import type { StoredGoal } from "../../src/tool/goal"
+import type { StoredTodo } from "../../src/tool/todo"
+import type { StoredProject } from "../../src/tool/project"
+
+describe("Trash", () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `dadgpt-trash-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    await fs.mkdir(testDir, { recursive: true })
+    process.env.DADGPT_DATA_DIR = testDir
+    Bus.clear()
+  })
+
+  afterEach(async () => {
+    delete process.env.DADGPT_DATA_DIR
+    await fs.rm(testDir, { recursive: true, force: true })
+  })
+
+  const goal: StoredGoal = { ...createGoalContext({ id: "goal-1", title: "Fitness" }), state: "in_progress" }
+  const project: StoredProject = {
+    ...createProjectContext({ id: "project-1", name: "Home gym", goalId: "goal-1", todoIds: ["todo-1"] }),
+    state: "active",
+  }
+  const todo: StoredTodo = {
+    ...createTodoContext({ id: "todo-1", title: "Buy weights", goalId: "goal-1", projectId: "project-1" }),
+    state: "pending",
+  }
+
+  test("put moves a record out of live storage", async () => {
+    await Storage.write(["goals", "goal-1"], goal)
+
+    const entry = await Trash.put("goal", goal)
+
+    expect(entry).toMatchObject({ kind: "goal", id: "goal-1", title: "Fitness", deletedWith: null })
+    expect(await Storage.exists(["goals", "goal-1"])).toBe(false)
+    expect(await Trash.list("goal")).toEqual([entry])
+    expect(await Trash.list("todo")).toEqual([])
+  })
+
+  test("restore puts back the record and the references detached from it", async () => {
+    const handler = vi.fn()
+    Bus.subscribe("goal.restored", handler)
+    await Storage.write(["goals", "goal-1"], goal)
+    await Storage.write(["projects", "project-1"], project)
+    await Storage.write(["todos", "todo-1"], todo)
+    await Trash.put("goal", goal)
+    await Integrity.release("goal", "goal-1", "detach")
+    expect(await Storage.read(["todos", "todo-1"])).toMatchObject({ goalId: null })
+
+    const restored = await Trash.restore("goal-1")
+
+    expect(restored?.map((e) => e.id)).toEqual(["goal-1"])
+    expect(await Storage.read(["goals", "goal-1"])).toEqual(goal)
+    expect(await Storage.read(["todos", "todo-1"])).toMatchObject({ goalId: "goal-1" })
+    expect(await Storage.read(["projects", "project-1"])).toMatchObject({ goalId: "goal-1" })
+    expect(await Trash.get("goal-1")).toBeUndefined()
+    expect(handler).toHaveBeenCalledWith({ goalId: "goal-1" })
+  })
+
+  test("restore and purge take the records deleted with a cascade along", async () => {
+    await Storage.write(["projects", "project-1"], project)
+    await Storage.write(["todos", "todo-1"], todo)
+    await Trash.put("project", project)
+    await Integrity.release("project", "project-1", "cascade")
+
+    const todoEntry = await Trash.get("todo-1")
+    expect(todoEntry?.deletedWith).toBe("project-1")
+    expect(await Trash.restoreProblem(todoEntry!)).toContain('deleted along with project "Home gym"')
+
+    const purged = await Trash.purge("project-1")
+
+    expect(purged?.map((e) => e.id)).toEqual(["project-1", "todo-1"])
+    expect(Trash.describe(purged!, "Also purged")).toBe('\nAlso purged 1 todo ("Buy weights")')
+    expect(await Trash.list()).toEqual([])
+  })
+
+  test("purgeExpired deletes entries older than the retention period", async () => {
+    const day = 24 * 60 * 60 * 1000
+    await Trash.put("goal", goal)
+    const now = Date.now()
+
+    expect(await Trash.purgeExpired(30, now + 29 * day)).toEqual([])
+    expect(await Trash.purgeExpired(0, now + 365 * day)).toEqual([])
+    expect((await Trash.purgeExpired(30, now + 31 * day)).map((e) => e.id)).toEqual(["goal-1"])
+    expect(await Trash.list()).toEqual([])
+  })
+})